@@ -1,47 +1,336 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Layout from './components/Layout';
 import GridRealm from './views/GridRealm';
 import GraphNexus from './views/GraphNexus';
 import WorldMap from './views/WorldMap';
 import OracleDeck from './views/OracleDeck';
-import { INITIAL_ASSETS, INITIAL_RELATIONSHIPS } from './constants';
-import { Asset, Relationship } from './types';
+import LedgerView from './views/LedgerView';
+import AssetEditor from './components/AssetEditor';
+import ImportWizard from './components/ImportWizard';
+import FxRatesEditor from './components/FxRatesEditor';
+import { CurrencyProvider } from './components/CurrencyProvider';
+import { I18nProvider } from './components/I18nProvider';
+import { Asset, FxRates, GameState, Relationship, Sector, TargetAllocation, TradeSettings } from './types';
+import { loadGameState, saveGameState } from './services/persistenceService';
+import { addAsset, findAssetAt, generateAssetId, moveAsset, removeAsset, splitAsset, updateAsset } from './services/assetService';
+import {
+  addSector, findFreeCell, generateSectorId, getSectorId, moveAssetToSector, removeSector, updateSector
+} from './services/sectorService';
+import { addRelationship, RelationshipKey, removeRelationship, updateRelationship } from './services/relationshipService';
+import { endTurn, TurnReport } from './services/gameEngine';
+import { recordAdjustments } from './services/ledgerService';
+import { recordValuation } from './services/valuationService';
+import { applyImport, ColumnMapping, ImportRow } from './services/csvImportService';
+import { executeTrade, TradeSide } from './services/tradingService';
+import { applyRebalancePlan, RebalancePlan } from './services/rebalanceService';
+import { StressScenario } from './services/stressTestService';
+import {
+  Command, createHistory, executeCommand, getPresent, groupCommands, History, jumpTo, redo, undo
+} from './services/historyService';
 
-type View = 'REALM' | 'NEXUS' | 'GEO' | 'ORACLE';
+type View = 'REALM' | 'NEXUS' | 'GEO' | 'ORACLE' | 'LEDGER';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>('REALM');
-  const [assets, setAssets] = useState<Asset[]>(INITIAL_ASSETS);
-  const [relationships] = useState<Relationship[]>(INITIAL_RELATIONSHIPS);
+  const [history, setHistory] = useState<History<GameState>>(() => createHistory(loadGameState(), { key: 'history.sessionStart' }));
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [fxOpen, setFxOpen] = useState(false);
+  const [lastTurn, setLastTurn] = useState<TurnReport | null>(null);
+  // A what-if lens shared by the Oracle report and the Nexus graph; it never touches the game state
+  const [stressScenario, setStressScenario] = useState<StressScenario | null>(null);
+  const gameState = getPresent<GameState>(history);
+  const { assets, relationships } = gameState;
 
+  // Auto-save every change so a reload resumes where the player left off
+  useEffect(() => {
+    saveGameState(gameState);
+  }, [gameState]);
+
+  // Every mutation goes through here so it can be undone, and so its effect on valuations is recorded
+  const execute = (command: Command<GameState>) => setHistory(prev => executeCommand<GameState>(prev, {
+    ...command,
+    apply: state => recordValuation(command.apply(state))
+  }));
+
+  const handleUndo = () => {
+    setHistory(prev => undo(prev));
+    setLastTurn(null);
+  };
+  const handleRedo = () => {
+    setHistory(prev => redo(prev));
+    setLastTurn(null);
+  };
+  const handleJumpToHistory = (index: number) => {
+    setHistory(prev => jumpTo(prev, index));
+    setLastTurn(null);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their native undo.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Dropping onto an occupied tile of the same sector swaps the two buildings as a single undo step
   const handleAssetMove = (id: string, newPos: { x: number; y: number }) => {
-    setAssets(prevAssets => prevAssets.map(asset => {
-      if (asset.id === id) {
-        return { ...asset, gridPosition: newPos };
+    const asset = assets.find(a => a.id === id);
+    if (!asset || (asset.gridPosition?.x === newPos.x && asset.gridPosition?.y === newPos.y)) return;
+
+    const sectorId = getSectorId(asset, gameState.sectors);
+    const move: Command<GameState> = { label: { key: 'history.move', params: { name: asset.name } }, apply: state => moveAsset(state, id, newPos) };
+    const occupant = findAssetAt(gameState, sectorId, newPos);
+    if (!occupant || occupant.id === id) {
+      execute(move);
+      return;
+    }
+
+    execute(groupCommands({ key: 'history.swap', params: { name: asset.name, other: occupant.name } }, [
+      move,
+      {
+        label: { key: 'history.move', params: { name: occupant.name } },
+        apply: state => moveAsset(state, occupant.id, asset.gridPosition ?? findFreeCell(state, sectorId, newPos))
       }
-      return asset;
-    }));
+    ]));
+  };
+
+  // Lands on the first free cell of the other sector; the Realm only offers sectors with room
+  const handleAssetSectorChange = (id: string, sectorId: string) => {
+    const asset = assets.find(a => a.id === id);
+    const sector = gameState.sectors.find(s => s.id === sectorId);
+    if (!asset || !sector || getSectorId(asset, gameState.sectors) === sectorId) return;
+    execute({ label: { key: 'history.moveToSector', params: { name: asset.name, sector: sector.name } }, apply: prev => moveAssetToSector(prev, id, sectorId) });
+  };
+
+  // Adding or resizing a sector may also land holdings that were waiting off the board
+  const handleSectorCreate = (draft: Omit<Sector, 'id'>): string => {
+    const id = generateSectorId(gameState.sectors);
+    execute({ label: { key: 'history.addSector', params: { name: draft.name } }, apply: prev => addSector(prev, draft) });
+    return id;
+  };
+  const handleSectorUpdate = (sector: Sector) => execute({
+    label: { key: 'history.editSector', params: { name: sector.name } },
+    apply: prev => updateSector(prev, sector)
+  });
+  const handleSectorDelete = (id: string) => execute({
+    label: { key: 'history.removeSector', params: { name: gameState.sectors.find(s => s.id === id)?.name ?? id } },
+    apply: prev => removeSector(prev, id)
+  });
+
+  const handleAssetCreate = (draft: Omit<Asset, 'id'>): string => {
+    const id = generateAssetId(gameState.assets);
+    execute({
+      label: { key: 'history.create', params: { name: draft.name } },
+      apply: prev => recordAdjustments(prev, addAsset(prev, draft), 'Created holding')
+    });
+    return id;
   };
 
+  // Manual edits bypass the trade desk, so any value they add or remove is booked as an adjustment
+  const handleAssetUpdate = (asset: Asset) => execute({
+    label: { key: 'history.edit', params: { name: asset.name } },
+    apply: prev => recordAdjustments(prev, updateAsset(prev, asset), 'Edited holding')
+  });
+  const handleAssetDelete = (id: string) => execute({
+    label: { key: 'history.delete', params: { name: assets.find(a => a.id === id)?.name ?? id } },
+    apply: prev => recordAdjustments(prev, removeAsset(prev, id), 'Deleted holding')
+  });
+  const handleAssetSplit = (id: string, fraction: number, name: string) => execute({
+    label: { key: 'history.split', params: { name, source: assets.find(a => a.id === id)?.name ?? id } },
+    apply: prev => recordAdjustments(prev, splitAsset(prev, id, fraction, name), 'Split holding')
+  });
+
+  // Rows were matched against the current holdings in the wizard: new names are created, known ones refreshed
+  const handleImport = (rows: ImportRow[], mapping: ColumnMapping) => execute({
+    label: { key: 'history.import', params: { count: rows.length } },
+    apply: prev => recordAdjustments(prev, applyImport(prev, rows, mapping), 'CSV import')
+  });
+
+  const linkParams = (relationship: RelationshipKey) => {
+    const name = (id: string) => assets.find(a => a.id === id)?.name ?? id;
+    return { source: name(relationship.source), target: name(relationship.target), type: relationship.type };
+  };
+
+  const handleRelationshipAdd = (relationship: Relationship) => execute({
+    label: { key: 'history.link', params: linkParams(relationship) },
+    apply: prev => addRelationship(prev, relationship)
+  });
+  const handleRelationshipUpdate = (key: RelationshipKey, relationship: Relationship) => execute({
+    label: { key: 'history.editLink', params: linkParams(relationship) },
+    apply: prev => updateRelationship(prev, key, relationship)
+  });
+  const handleRelationshipDelete = (key: RelationshipKey) => execute({
+    label: { key: 'history.removeLink', params: linkParams(key) },
+    apply: prev => removeRelationship(prev, key)
+  });
+
+  // Throws on invalid trades (e.g. insufficient cash) so the trade desk can show the reason
+  const handleTrade = (side: TradeSide, assetId: string, amount: number) => {
+    const next = executeTrade(gameState, side, assetId, amount);
+    const name = assets.find(a => a.id === assetId)?.name ?? assetId;
+    execute({
+      label: side === 'BUY'
+        ? { key: 'history.buy', params: { name } }
+        : { key: 'history.sell', params: { name, percent: Math.round(amount * 100) } },
+      apply: () => next
+    });
+  };
+
+  const handleTradeSettingsChange = (tradeSettings: TradeSettings) => execute({
+    label: { key: 'history.tradeSettings' },
+    apply: prev => ({ ...prev, tradeSettings })
+  });
+
+  const handleTargetAllocationChange = (targetAllocation: TargetAllocation) => execute({
+    label: { key: 'history.targets' },
+    apply: prev => ({ ...prev, targetAllocation })
+  });
+
+  // The whole plan is one history entry, so a single undo reverts every trade in it
+  const handleRebalance = (plan: RebalancePlan) => {
+    const next = applyRebalancePlan(gameState, plan);
+    execute({ label: { key: 'history.rebalance', params: { count: plan.trades.length } }, apply: () => next });
+  };
+
+  // Rates revalue foreign holdings in USD; the valuation snapshot picks that up, the ledger doesn't need to
+  const handleFxRatesChange = (fxRates: FxRates) => execute({
+    label: { key: 'history.fxRates' },
+    apply: prev => ({ ...prev, fxRates })
+  });
+
+  // The turn is rolled once, outside the state updater, so it isn't re-randomised if React replays it
+  const handleEndTurn = () => {
+    const result = endTurn(gameState);
+    execute({ label: { key: 'history.endTurn', params: { turn: gameState.turn } }, apply: () => result.state });
+    setLastTurn(result.report);
+  };
+
+  // A loaded save starts a fresh history; undoing into the previous game would be confusing
+  const handleLoadGame = (state: GameState) => {
+    setHistory(createHistory(state, { key: 'history.loadedSave' }));
+    setLastTurn(null);
+  };
+
+  const renderRealm = () => (
+    <GridRealm
+      assets={assets}
+      relationships={relationships}
+      sectors={gameState.sectors}
+      valuationHistory={gameState.valuationHistory}
+      onAssetMove={handleAssetMove}
+      onAssetSectorChange={handleAssetSectorChange}
+      onSectorCreate={handleSectorCreate}
+      onSectorUpdate={handleSectorUpdate}
+      onSectorDelete={handleSectorDelete}
+    />
+  );
+
   const renderView = () => {
     switch (currentView) {
       case 'REALM':
-        return <GridRealm assets={assets} onAssetMove={handleAssetMove} />;
+        return renderRealm();
       case 'NEXUS':
-        return <GraphNexus assets={assets} relationships={relationships} />;
+        return (
+          <GraphNexus
+            assets={assets}
+            relationships={relationships}
+            onRelationshipAdd={handleRelationshipAdd}
+            onRelationshipUpdate={handleRelationshipUpdate}
+            onRelationshipDelete={handleRelationshipDelete}
+            stressScenario={stressScenario}
+            onStressScenarioChange={setStressScenario}
+          />
+        );
       case 'GEO':
-        return <WorldMap assets={assets} />;
+        return <WorldMap assets={assets} relationships={relationships} valuationHistory={gameState.valuationHistory} />;
       case 'ORACLE':
-        return <OracleDeck assets={assets} />;
+        return (
+          <OracleDeck
+            assets={assets}
+            relationships={relationships}
+            cash={gameState.cash}
+            valuationHistory={gameState.valuationHistory}
+            tradeSettings={gameState.tradeSettings}
+            targetAllocation={gameState.targetAllocation}
+            onTargetAllocationChange={handleTargetAllocationChange}
+            onRebalance={handleRebalance}
+            stressScenario={stressScenario}
+            onStressScenarioChange={setStressScenario}
+          />
+        );
+      case 'LEDGER':
+        return (
+          <LedgerView
+            gameState={gameState}
+            onTrade={handleTrade}
+            onTradeSettingsChange={handleTradeSettingsChange}
+          />
+        );
       default:
-        return <GridRealm assets={assets} onAssetMove={handleAssetMove} />;
+        return renderRealm();
     }
   };
 
   return (
-    <Layout currentView={currentView} setView={setCurrentView}>
-      {renderView()}
-    </Layout>
+    <I18nProvider>
+      <CurrencyProvider rates={gameState.fxRates}>
+        <Layout
+          currentView={currentView}
+          setView={setCurrentView}
+          gameState={gameState}
+          onLoadGame={handleLoadGame}
+          onOpenEditor={() => setEditorOpen(true)}
+          onOpenImport={() => setImportOpen(true)}
+          onOpenFxRates={() => setFxOpen(true)}
+          lastTurn={lastTurn}
+          onEndTurn={handleEndTurn}
+          history={history}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onJumpToHistory={handleJumpToHistory}
+        >
+          {renderView()}
+          {editorOpen && (
+            <AssetEditor
+              assets={assets}
+              onCreate={handleAssetCreate}
+              onUpdate={handleAssetUpdate}
+              onDelete={handleAssetDelete}
+              onSplit={handleAssetSplit}
+              onClose={() => setEditorOpen(false)}
+            />
+          )}
+          {importOpen && (
+            <ImportWizard
+              assets={assets}
+              onImport={handleImport}
+              onClose={() => setImportOpen(false)}
+            />
+          )}
+          {fxOpen && (
+            <FxRatesEditor
+              rates={gameState.fxRates}
+              onSave={handleFxRatesChange}
+              onClose={() => setFxOpen(false)}
+            />
+          )}
+        </Layout>
+      </CurrencyProvider>
+    </I18nProvider>
   );
 };
 
@@ -0,0 +1,36 @@
+import React from 'react';
+import { AllocationMode } from '../services/lookThroughService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface AllocationModeToggleProps {
+  mode: AllocationMode;
+  onChange: (mode: AllocationMode) => void;
+}
+
+const OPTIONS: { id: AllocationMode; label: MessageKey; title: MessageKey }[] = [
+  { id: 'DIRECT', label: 'allocation.direct', title: 'allocation.directTitle' },
+  { id: 'LOOK_THROUGH', label: 'allocation.lookThrough', title: 'allocation.lookThroughTitle' }
+];
+
+const AllocationModeToggle: React.FC<AllocationModeToggleProps> = ({ mode, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="inline-flex rounded border border-slate-600 overflow-hidden font-mono text-[10px]">
+      {OPTIONS.map(option => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          title={t(option.title)}
+          className={`px-2 py-1 transition-colors ${mode === option.id
+            ? 'bg-cyan-700 text-white'
+            : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+        >
+          {t(option.label)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AllocationModeToggle;
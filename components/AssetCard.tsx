@@ -1,9 +1,14 @@
 import React from 'react';
 import { Asset, AssetType } from '../types';
+import Sparkline from './Sparkline';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+import { getCurrency, toBaseValue } from '../services/currencyService';
 
 interface AssetCardProps {
   asset: Asset;
   compact?: boolean;
+  history?: number[]; // Past valuations in USD, oldest first
 }
 
 const getTypeColor = (type: AssetType) => {
@@ -17,20 +22,31 @@ const getTypeColor = (type: AssetType) => {
   }
 };
 
-const AssetCard: React.FC<AssetCardProps> = ({ asset, compact }) => {
+const AssetCard: React.FC<AssetCardProps> = ({ asset, compact, history }) => {
+  const { displayCurrency, rates, format, formatNative } = useCurrency();
+  const { t, typeLabel, regionLabel, formatNumber } = useI18n();
   const typeStyle = getTypeColor(asset.type);
+  const currency = getCurrency(asset);
 
   return (
     <div className={`relative bg-slate-800/80 backdrop-blur-md border-l-4 ${typeStyle} p-4 rounded-r-lg shadow-lg hover:bg-slate-800 transition-colors group`}>
       <div className="flex justify-between items-start">
         <div>
           <h3 className="font-bold text-slate-100">{asset.name}</h3>
-          <p className="text-xs font-mono opacity-70 uppercase tracking-wider">{asset.type}</p>
+          <p className="text-xs font-mono opacity-70 uppercase tracking-wider">{typeLabel(asset.type)}</p>
         </div>
         <div className="text-right">
-          <p className="font-mono font-bold text-lg">${(asset.value / 1000).toFixed(1)}k</p>
+          <p className="font-mono font-bold text-lg">{formatNative(asset.value, currency)}</p>
+          {currency !== displayCurrency && (
+            <p className="text-[10px] font-mono text-slate-400">≈ {format(toBaseValue(asset, rates))}</p>
+          )}
+          {history && history.length > 1 && (
+            <div className="flex justify-end my-1" title={t('card.quarters', { count: history.length })}>
+              <Sparkline values={history} />
+            </div>
+          )}
           <span className={`text-xs px-2 py-0.5 rounded ${asset.roi >= 0.05 ? 'bg-green-900 text-green-300' : 'bg-slate-700 text-slate-300'}`}>
-            +{(asset.roi * 100).toFixed(1)}% Yield
+            {t('card.yield', { roi: formatNumber(asset.roi * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
           </span>
         </div>
       </div>
@@ -38,8 +54,8 @@ const AssetCard: React.FC<AssetCardProps> = ({ asset, compact }) => {
       {!compact && (
         <div className="mt-3 pt-3 border-t border-slate-700/50">
           <div className="flex justify-between text-xs text-slate-400 mb-1">
-            <span>Region: {asset.region}</span>
-            <span>Risk Lvl: {asset.risk}</span>
+            <span>{t('card.region', { region: regionLabel(asset.region) })}</span>
+            <span>{t('card.risk', { risk: asset.risk })}</span>
           </div>
           <p className="text-sm text-slate-300 italic">{asset.description}</p>
         </div>
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { Asset, AssetType, CurrencyCode, Region } from '../types';
+import { hasErrors, validateAsset } from '../services/validation';
+import { CURRENCIES, CURRENCY_CODES, formatMoney, getCurrency } from '../services/currencyService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface AssetEditorProps {
+  assets: Asset[];
+  onCreate: (draft: Omit<Asset, 'id'>) => string; // Returns the new asset id
+  onUpdate: (asset: Asset) => void;
+  onDelete: (id: string) => void;
+  onSplit: (id: string, fraction: number, name: string) => void;
+  onClose: () => void;
+}
+
+// Form values are kept as strings so half-typed numbers don't get coerced while editing.
+interface AssetForm {
+  name: string;
+  type: AssetType;
+  region: Region;
+  currency: CurrencyCode;
+  value: string;
+  roi: string; // Percent, converted to a fraction on save
+  risk: string;
+  description: string;
+}
+
+const EMPTY_FORM: AssetForm = {
+  name: '',
+  type: AssetType.STOCK,
+  region: Region.NORTH_AMERICA,
+  currency: 'USD',
+  value: '',
+  roi: '',
+  risk: '5',
+  description: ''
+};
+
+const toForm = (asset: Asset): AssetForm => ({
+  name: asset.name,
+  type: asset.type,
+  region: asset.region,
+  currency: getCurrency(asset),
+  value: String(asset.value),
+  roi: String(+(asset.roi * 100).toFixed(4)),
+  risk: String(asset.risk),
+  description: asset.description
+});
+
+const parseNumber = (input: string): number => (input.trim() === '' ? NaN : Number(input));
+
+// validateAsset words its errors for save files; the form shows its own message per field
+const FIELD_ERROR_KEYS: Partial<Record<keyof Asset, MessageKey>> = {
+  name: 'assetEditor.errorName',
+  type: 'assetEditor.errorType',
+  region: 'assetEditor.errorRegion',
+  value: 'assetEditor.errorValue',
+  currency: 'assetEditor.errorCurrency',
+  roi: 'assetEditor.errorRoi',
+  risk: 'assetEditor.errorRisk'
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-cyan-500";
+
+const AssetEditor: React.FC<AssetEditorProps> = ({ assets, onCreate, onUpdate, onDelete, onSplit, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(assets[0]?.id ?? null);
+  const [form, setForm] = useState<AssetForm>(assets[0] ? toForm(assets[0]) : EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof Asset, MessageKey>>>({});
+  const [splitPercent, setSplitPercent] = useState(50);
+  const [splitName, setSplitName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const { t, locale, typeLabel, regionLabel } = useI18n();
+
+  const selected = assets.find(a => a.id === selectedId) ?? null;
+
+  // Reload the form whenever the selected holding is picked or changed (saved, split, deleted)
+  useEffect(() => {
+    setForm(selected ? toForm(selected) : EMPTY_FORM);
+    setErrors({});
+    setConfirmDelete(false);
+    setSplitName(selected ? t('assetEditor.splitDefaultName', { name: selected.name }) : '');
+  }, [selected, t]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const update = <K extends keyof AssetForm>(key: K, value: AssetForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = () => {
+    const draft = {
+      name: form.name.trim(),
+      type: form.type,
+      region: form.region,
+      currency: form.currency,
+      value: parseNumber(form.value),
+      roi: parseNumber(form.roi) / 100,
+      risk: parseNumber(form.risk),
+      description: form.description.trim()
+    };
+
+    const fieldErrors = validateAsset({ ...draft, id: selected?.id ?? 'new' });
+    const messages: Partial<Record<keyof Asset, MessageKey>> = {};
+    (Object.keys(fieldErrors) as (keyof Asset)[]).forEach(field => {
+      const key = FIELD_ERROR_KEYS[field];
+      if (key) messages[field] = key;
+    });
+    if (!fieldErrors.risk && !Number.isInteger(draft.risk)) messages.risk = 'assetEditor.errorRiskWhole';
+    setErrors(messages);
+    if (hasErrors(fieldErrors) || hasErrors(messages)) return;
+
+    if (selected) {
+      onUpdate({ ...selected, ...draft });
+    } else {
+      setSelectedId(onCreate(draft));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    onDelete(selected.id);
+    setSelectedId(assets.find(a => a.id !== selected.id)?.id ?? null);
+  };
+
+  const handleSplit = () => {
+    if (!selected || !splitName.trim()) return;
+    onSplit(selected.id, splitPercent / 100, splitName.trim());
+  };
+
+  const renderError = (field: keyof Asset) =>
+    errors[field] && <p className="mt-1 text-[11px] text-rose-400 font-mono">{t(errors[field])}</p>;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col md:flex-row overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Holdings List */}
+        <div className="md:w-64 border-b md:border-b-0 md:border-r border-slate-800 flex flex-col">
+          <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+            <h3 className="font-mono text-cyan-400 text-sm">{t('assetEditor.holdings')}</h3>
+            <button
+              onClick={() => setSelectedId(null)}
+              className="text-xs px-2 py-1 bg-cyan-700 hover:bg-cyan-600 text-white rounded font-bold"
+            >
+              {t('assetEditor.new')}
+            </button>
+          </div>
+          <ul className="flex-1 overflow-y-auto max-h-48 md:max-h-none">
+            {assets.map(asset => (
+              <li key={asset.id}>
+                <button
+                  onClick={() => setSelectedId(asset.id)}
+                  className={`w-full text-left px-4 py-2 text-sm border-l-2 transition-colors ${asset.id === selectedId
+                    ? 'bg-slate-800 border-cyan-500 text-white'
+                    : 'border-transparent text-slate-400 hover:bg-slate-800/50 hover:text-white'}`}
+                >
+                  <div className="truncate">{asset.name}</div>
+                  <div className="text-[10px] font-mono opacity-60">{typeLabel(asset.type)} • {formatMoney(asset.value, getCurrency(asset), 1, locale)}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Form */}
+        <div className="flex-1 p-6 overflow-y-auto">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-black text-white uppercase tracking-widest">
+              {selected ? t('assetEditor.editTitle') : t('assetEditor.newTitle')}
+            </h2>
+            <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block sm:col-span-2">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.name')}</span>
+              <input className={inputClass} value={form.name} onChange={e => update('name', e.target.value)} />
+              {renderError('name')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.type')}</span>
+              <select className={inputClass} value={form.type} onChange={e => update('type', e.target.value as AssetType)}>
+                {Object.values(AssetType).map(t => <option key={t} value={t}>{typeLabel(t)}</option>)}
+              </select>
+              {renderError('type')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.region')}</span>
+              <select className={inputClass} value={form.region} onChange={e => update('region', e.target.value as Region)}>
+                {Object.values(Region).map(r => <option key={r} value={r}>{regionLabel(r)}</option>)}
+              </select>
+              {renderError('region')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.value', { currency: form.currency })}</span>
+              <div className="flex gap-2">
+                <select
+                  className={`${inputClass} w-24`}
+                  value={form.currency}
+                  onChange={e => update('currency', e.target.value as CurrencyCode)}
+                  title={CURRENCIES[form.currency].name}
+                >
+                  {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+                <input className={inputClass} type="number" min={0} value={form.value} onChange={e => update('value', e.target.value)} />
+              </div>
+              {renderError('value')}
+              {renderError('currency')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.roi')}</span>
+              <input className={inputClass} type="number" step="0.1" value={form.roi} onChange={e => update('roi', e.target.value)} />
+              {renderError('roi')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.risk')}</span>
+              <input className={inputClass} type="number" min={1} max={10} step={1} value={form.risk} onChange={e => update('risk', e.target.value)} />
+              {renderError('risk')}
+            </label>
+            <label className="block sm:col-span-2">
+              <span className="text-xs text-slate-400 uppercase">{t('assetEditor.description')}</span>
+              <textarea className={inputClass} rows={2} value={form.description} onChange={e => update('description', e.target.value)} />
+            </label>
+          </div>
+
+          <div className="flex gap-3 mt-6">
+            <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded shadow-lg">
+              {selected ? t('assetEditor.saveChanges') : t('assetEditor.create')}
+            </button>
+            {selected && (
+              <button
+                onClick={handleDelete}
+                className={`px-4 py-2 font-bold rounded border ${confirmDelete
+                  ? 'bg-rose-600 border-rose-500 text-white'
+                  : 'bg-slate-800 border-slate-600 text-rose-400 hover:bg-slate-700'}`}
+              >
+                {confirmDelete ? t('assetEditor.confirmDelete') : t('common.delete')}
+              </button>
+            )}
+          </div>
+
+          {selected && (
+            <div className="mt-8 pt-6 border-t border-slate-800">
+              <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-3">
+                <span className="w-1 h-4 bg-amber-500 rounded-full"></span>
+                {t('assetEditor.split')}
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                <label className="block">
+                  <span className="text-xs text-slate-400 uppercase">{t('assetEditor.splitName')}</span>
+                  <input className={inputClass} value={splitName} onChange={e => setSplitName(e.target.value)} />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-slate-400 uppercase">{t('assetEditor.carveOut', { percent: splitPercent })}</span>
+                  <input
+                    type="range" min={1} max={99} value={splitPercent}
+                    onChange={e => setSplitPercent(Number(e.target.value))}
+                    className="w-full accent-amber-500"
+                  />
+                </label>
+              </div>
+              <p className="text-xs font-mono text-slate-400 mt-2">
+                {selected.name}: {formatMoney(selected.value * (100 - splitPercent) / 100, getCurrency(selected), 1, locale)}
+                {' • '}
+                {splitName || t('assetEditor.splitNew')}: {formatMoney(selected.value * splitPercent / 100, getCurrency(selected), 1, locale)}
+              </p>
+              <button
+                onClick={handleSplit}
+                disabled={!splitName.trim()}
+                className="mt-3 px-4 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white font-bold rounded"
+              >
+                {t('assetEditor.splitButton')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssetEditor;
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo } from 'react';
+import { DiffSegment, diffBriefings, ListDiffItem, OracleBriefing } from '../services/briefingService';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface BriefingDiffViewProps {
+  before: OracleBriefing;
+  after: OracleBriefing;
+  onClose: () => void;
+}
+
+const REMOVED = 'bg-rose-900/40 text-rose-200 line-through decoration-rose-400/60';
+const ADDED = 'bg-emerald-900/40 text-emerald-200';
+
+// One side of a text diff: the older side shows removals, the newer side additions
+const renderText = (segments: DiffSegment[], side: 'before' | 'after') =>
+  segments
+    .filter(s => s.op === 'same' || s.op === (side === 'before' ? 'removed' : 'added'))
+    .map((s, i) => (
+      <span key={i} className={s.op === 'same' ? '' : side === 'before' ? REMOVED : ADDED}>{s.text}</span>
+    ));
+
+const renderList = (items: ListDiffItem[], side: 'before' | 'after') => {
+  const shown = items.filter(item => item.op === 'same' || item.op === (side === 'before' ? 'removed' : 'added'));
+  if (shown.length === 0) return <p className="text-slate-600">—</p>;
+  return (
+    <ul className="space-y-1">
+      {shown.map((item, i) => (
+        <li key={i} className={`px-2 py-1 rounded ${item.op === 'same' ? 'text-slate-300' : side === 'before' ? REMOVED : ADDED}`}>
+          {item.op === 'same' ? '·' : side === 'before' ? '−' : '+'} {item.text}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const BriefingDiffView: React.FC<BriefingDiffViewProps> = ({ before, after, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const diff = useMemo(() => diffBriefings(before, after), [before, after]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const sections: { label: string; before: React.ReactNode; after: React.ReactNode; changed: boolean }[] = [
+    {
+      label: t('briefing.cycle'),
+      before: before.advice.analysis.cycleAssessment || '—',
+      after: after.advice.analysis.cycleAssessment || '—',
+      changed: diff.cycleChanged
+    },
+    {
+      label: t('briefing.moves'),
+      before: renderList(diff.moves, 'before'),
+      after: renderList(diff.moves, 'after'),
+      changed: diff.moves.some(m => m.op !== 'same')
+    },
+    {
+      label: t('briefing.opportunities'),
+      before: renderList(diff.opportunities, 'before'),
+      after: renderList(diff.opportunities, 'after'),
+      changed: diff.opportunities.some(m => m.op !== 'same')
+    },
+    {
+      label: t('briefing.risks'),
+      before: renderList(diff.risks, 'before'),
+      after: renderList(diff.risks, 'after'),
+      changed: diff.risks.some(m => m.op !== 'same')
+    },
+    {
+      label: t('briefing.macro'),
+      before: <p className="whitespace-pre-line leading-relaxed">{renderText(diff.macro, 'before')}</p>,
+      after: <p className="whitespace-pre-line leading-relaxed">{renderText(diff.macro, 'after')}</p>,
+      changed: diff.macro.some(s => s.op !== 'same')
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-black text-white uppercase tracking-widest">{t('briefing.comparison')}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6 text-xs">
+          <div className="grid grid-cols-2 gap-6 font-mono text-[10px] text-slate-400">
+            {[before, after].map(b => (
+              <div key={b.id}>
+                <div className="text-slate-200 text-xs">{formatDateTime(b.createdAt)}</div>
+                <div>{b.providerLabel} · {LOCALES[b.language]?.short ?? b.language} · {t('briefing.portfolio', { hash: b.portfolioHash })}</div>
+              </div>
+            ))}
+          </div>
+          {diff.portfolioChanged && (
+            <p className="text-[10px] font-mono text-amber-400">{t('briefing.portfolioChanged')}</p>
+          )}
+
+          {sections.map(section => (
+            <section key={section.label}>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-2 flex items-center gap-2">
+                {section.label}
+                <span className={section.changed ? 'text-amber-400' : 'text-slate-600'}>{section.changed ? t('briefing.changed') : t('briefing.unchanged')}</span>
+              </h3>
+              <div className="grid grid-cols-2 gap-6 text-slate-300">
+                <div className="bg-slate-800/60 border border-slate-700 rounded p-3">{section.before}</div>
+                <div className="bg-slate-800/60 border border-slate-700 rounded p-3">{section.after}</div>
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BriefingDiffView;
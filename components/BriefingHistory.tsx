@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { BriefingArchive, briefingAgeMinutes, TTL_OPTIONS } from '../services/briefingService';
+import { LOCALES, MessageKey, MessageParams } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface BriefingHistoryProps {
+  archive: BriefingArchive;
+  activeId: string | null;
+  currentHash: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onTtlChange: (minutes: number) => void;
+  onCompare: (beforeId: string, afterId: string) => void;
+}
+
+export const formatAge = (minutes: number, t: (key: MessageKey, params?: MessageParams) => string): string => {
+  if (minutes < 1) return t('briefing.justNow');
+  if (minutes < 60) return t('briefing.minutesAgo', { count: Math.floor(minutes) });
+  if (minutes < 1440) return t('briefing.hoursAgo', { count: Math.floor(minutes / 60) });
+  return t('briefing.daysAgo', { count: Math.floor(minutes / 1440) });
+};
+
+// Past briefings, newest first. Pick one to view it, or tick two to compare them.
+const BriefingHistory: React.FC<BriefingHistoryProps> = ({
+  archive, activeId, currentHash, onSelect, onRemove, onTtlChange, onCompare
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const [picked, setPicked] = useState<string[]>([]);
+  const now = new Date();
+
+  const ttlLabel = (minutes: number) => minutes === 0
+    ? t('briefing.ttlNever')
+    : minutes < 60 ? t('briefing.ttlMinutes', { count: minutes }) : t('briefing.ttlHours', { count: minutes / 60 });
+
+  const togglePick = (id: string) =>
+    setPicked(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id].slice(-2));
+
+  const compare = () => {
+    // Compare in chronological order regardless of the order they were ticked
+    const [first, second] = archive.briefings.filter(b => picked.includes(b.id)).reverse();
+    if (first && second) onCompare(first.id, second.id);
+  };
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl mt-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <span className="w-1 h-4 bg-amber-500 rounded-full"></span>
+          {t('briefing.archive')} <span className="font-mono text-slate-600">[{archive.briefings.length}]</span>
+        </h4>
+        <div className="flex items-center gap-3 text-[10px] font-mono">
+          <label className="text-slate-400 flex items-center gap-2" title={t('briefing.reuseTitle')}>
+            {t('briefing.reuseFor')}
+            <select
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              value={archive.ttlMinutes}
+              onChange={e => onTtlChange(Number(e.target.value))}
+            >
+              {TTL_OPTIONS.map(m => <option key={m} value={m}>{ttlLabel(m)}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={compare}
+            disabled={picked.length !== 2}
+            className="px-3 py-1 bg-slate-900 border border-slate-600 rounded text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+            title={t('briefing.compareTitle')}
+          >
+            {t('briefing.compare', { count: picked.length })}
+          </button>
+        </div>
+      </div>
+
+      {archive.briefings.length === 0 ? (
+        <p className="text-xs font-mono text-slate-500">{t('briefing.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-slate-700/50 max-h-72 overflow-y-auto">
+          {archive.briefings.map(briefing => {
+            const age = briefingAgeMinutes(briefing, now);
+            const fresh = archive.ttlMinutes > 0 && age < archive.ttlMinutes;
+            const active = briefing.id === activeId;
+            return (
+              <li key={briefing.id} className={`flex items-center gap-3 py-2 px-2 text-xs ${active ? 'bg-amber-900/20' : ''}`}>
+                <input
+                  type="checkbox"
+                  className="accent-amber-500"
+                  checked={picked.includes(briefing.id)}
+                  onChange={() => togglePick(briefing.id)}
+                  aria-label={t('briefing.select')}
+                />
+                <button onClick={() => onSelect(briefing.id)} className="flex-1 min-w-0 text-left">
+                  <div className="flex items-center gap-2 font-mono text-[10px] text-slate-400">
+                    <span className="text-slate-200">{formatDateTime(briefing.createdAt)}</span>
+                    <span>{formatAge(age, t)}</span>
+                    <span>{LOCALES[briefing.language]?.short ?? briefing.language}</span>
+                    <span className="truncate">{briefing.providerLabel}</span>
+                    {fresh && <span className="text-emerald-400">{t('briefing.fresh')}</span>}
+                    {briefing.portfolioHash !== currentHash && (
+                      <span className="text-amber-400" title={t('briefing.olderPortfolioTitle')}>{t('briefing.olderPortfolio')}</span>
+                    )}
+                  </div>
+                  <div className="truncate text-slate-300">
+                    {briefing.advice.analysis.cycleAssessment || briefing.macro.text.slice(0, 120)}
+                  </div>
+                </button>
+                {active && <span className="text-[10px] font-mono text-amber-400">{t('briefing.viewing')}</span>}
+                <button
+                  onClick={() => onRemove(briefing.id)}
+                  className="text-slate-600 hover:text-rose-400"
+                  title={t('briefing.remove')}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BriefingHistory;
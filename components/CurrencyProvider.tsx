@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { CurrencyCode, FxRates } from '../types';
+import { BASE_CURRENCY, convert, formatMoney, formatMoneyExact, isCurrencyCode } from '../services/currencyService';
+import { useI18n } from './I18nProvider';
+
+// The display currency is a viewing preference, not game state: it lives in its own storage key
+// and is not part of save files or undo history. Amounts are formatted for the current locale.
+const STORAGE_KEY = 'funday.displayCurrency';
+
+interface CurrencyContextValue {
+  displayCurrency: CurrencyCode;
+  setDisplayCurrency: (currency: CurrencyCode) => void;
+  rates: FxRates;
+  fromBase: (usd: number) => number; // USD -> display currency
+  format: (usd: number, decimals?: number) => string; // Compact, in the display currency
+  formatExact: (usd: number) => string;
+  formatNative: (value: number, currency: CurrencyCode, decimals?: number) => string; // As held, no conversion
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+const loadDisplayCurrency = (): CurrencyCode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+  } catch {
+    return BASE_CURRENCY;
+  }
+};
+
+interface CurrencyProviderProps {
+  rates: FxRates;
+  children: React.ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ rates, children }) => {
+  const [displayCurrency, setDisplayCurrency] = useState<CurrencyCode>(loadDisplayCurrency);
+  const { locale } = useI18n();
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, displayCurrency);
+    } catch {
+      // Preference only; ignore storage failures
+    }
+  }, [displayCurrency]);
+
+  const value = useMemo((): CurrencyContextValue => {
+    const fromBase = (usd: number) => convert(usd, BASE_CURRENCY, displayCurrency, rates);
+    return {
+      displayCurrency,
+      setDisplayCurrency,
+      rates,
+      fromBase,
+      format: (usd, decimals) => formatMoney(fromBase(usd), displayCurrency, decimals, locale),
+      formatExact: usd => formatMoneyExact(fromBase(usd), displayCurrency, locale),
+      formatNative: (amount, currency, decimals) => formatMoney(amount, currency, decimals, locale)
+    };
+  }, [displayCurrency, rates, locale]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
+
+export const useCurrency = (): CurrencyContextValue => {
+  const context = useContext(CurrencyContext);
+  if (!context) throw new Error('useCurrency must be used inside a CurrencyProvider');
+  return context;
+};
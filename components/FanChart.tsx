@@ -0,0 +1,140 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { ProjectionResult } from '../services/simulationService';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface FanChartProps {
+  projection: ProjectionResult;
+  height?: number;
+}
+
+// One year of the projection, as drawn
+interface Band {
+  year: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+type Group = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+const styleAxis = (g: Group) => {
+  g.selectAll("text").attr("fill", "#94a3b8").style("font-family", "monospace");
+  g.selectAll("line,path").attr("stroke", "#475569");
+};
+
+// P5-P95 band with the median path on top
+const FanChart: React.FC<FanChartProps> = ({ projection, height = 260 }) => {
+  const { format } = useCurrency();
+  const { t } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const width = containerRef.current.clientWidth;
+    const margin = { top: 16, right: 56, bottom: 28, left: 56 };
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("viewBox", `0 0 ${width} ${height}`);
+
+    const points = projection.years.map((year, i): Band => ({
+      year,
+      p5: projection.p5[i],
+      p50: projection.p50[i],
+      p95: projection.p95[i]
+    }));
+
+    const x = d3.scaleLinear()
+      .domain([0, d3.max<number>(projection.years) || 1])
+      .range([0, innerWidth]);
+    const y = d3.scaleLinear()
+      .domain([Math.min(0, d3.min<number>(projection.p5) || 0), (d3.max<number>(projection.p95) || 1) * 1.05])
+      .nice()
+      .range([innerHeight, 0]);
+
+    const chart = svg.append("g").attr("transform", `translate(${margin.left},${margin.top})`);
+
+    // Gridlines
+    chart.append("g")
+      .attr("class", "grid")
+      .call(d3.axisLeft(y).ticks(5).tickSize(-innerWidth).tickFormat(() => ""))
+      .call(g => g.selectAll("line").attr("stroke", "#334155").attr("stroke-opacity", 0.5))
+      .call(g => g.select(".domain").remove());
+
+    // Outer band (P5-P95)
+    chart.append("path")
+      .datum(points)
+      .attr("fill", "#f59e0b")
+      .attr("fill-opacity", 0.15)
+      .attr("d", d3.area<Band>()
+        .x(d => x(d.year))
+        .y0(d => y(d.p5))
+        .y1(d => y(d.p95))
+        .curve(d3.curveMonotoneX));
+
+    // Band edges
+    (['p5', 'p95'] as const).forEach(key => {
+      chart.append("path")
+        .datum(points)
+        .attr("fill", "none")
+        .attr("stroke", "#f59e0b")
+        .attr("stroke-opacity", 0.4)
+        .attr("stroke-dasharray", "3 3")
+        .attr("d", d3.line<Band>()
+          .x(d => x(d.year))
+          .y(d => y(d[key]))
+          .curve(d3.curveMonotoneX));
+    });
+
+    // Median
+    chart.append("path")
+      .datum(points)
+      .attr("fill", "none")
+      .attr("stroke", "#fbbf24")
+      .attr("stroke-width", 2.5)
+      .attr("d", d3.line<Band>()
+        .x(d => x(d.year))
+        .y(d => y(d.p50))
+        .curve(d3.curveMonotoneX));
+
+    // End labels
+    const last = points[points.length - 1];
+    [
+      { label: 'P95', value: last.p95, color: '#fcd34d' },
+      { label: 'P50', value: last.p50, color: '#fbbf24' },
+      { label: 'P5', value: last.p5, color: '#fcd34d' }
+    ].forEach(({ label, value, color }) => {
+      chart.append("text")
+        .attr("x", innerWidth + 6)
+        .attr("y", y(value) + 4)
+        .attr("fill", color)
+        .style("font-size", "10px")
+        .style("font-family", "monospace")
+        .text(label);
+    });
+
+    // Axes
+    chart.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(d3.axisBottom<number>(x).ticks(Math.min(10, projection.years.length - 1)).tickFormat(d => t('projection.year', { year: d })))
+      .call(styleAxis);
+
+    chart.append("g")
+      .call(d3.axisLeft<number>(y).ticks(5).tickFormat(d => format(d, 0)))
+      .call(styleAxis);
+  }, [projection, height, format, t]);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <svg ref={svgRef} className="w-full" style={{ height }} />
+    </div>
+  );
+};
+
+export default FanChart;
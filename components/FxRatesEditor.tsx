@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CurrencyCode, FxRates } from '../types';
+import { BASE_CURRENCY, CURRENCY_CODES, parseFxRateFile } from '../services/currencyService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface FxRatesEditorProps {
+  rates: FxRates;
+  onSave: (rates: FxRates) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-100 text-right focus:outline-none focus:border-cyan-500";
+
+const CURRENCY_KEYS: Record<CurrencyCode, MessageKey> = {
+  USD: 'currency.USD',
+  EUR: 'currency.EUR',
+  CNY: 'currency.CNY',
+  HKD: 'currency.HKD',
+  GBP: 'currency.GBP',
+  JPY: 'currency.JPY'
+};
+
+const toForm = (rates: FxRates) =>
+  Object.fromEntries(CURRENCY_CODES.map(code => [code, String(rates[code])])) as Record<CurrencyCode, string>;
+
+const FxRatesEditor: React.FC<FxRatesEditorProps> = ({ rates, onSave, onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState(() => toForm(rates));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Loaded rates fill the form; nothing is applied until SAVE
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parseFxRateFile(await file.text());
+      setForm(prev => ({ ...prev, ...toForm({ ...rates, ...loaded }) }));
+      setErrors([]);
+      setStatus(t('fx.loaded', { count: Object.keys(loaded).length, file: file.name }));
+    } catch (err) {
+      setStatus(null);
+      setErrors((err as Error).message.split('\n'));
+    }
+  };
+
+  const handleSave = () => {
+    const issues: string[] = [];
+    const next = { ...rates };
+    CURRENCY_CODES.forEach(code => {
+      const rate = Number(form[code]);
+      if (form[code].trim() === '' || !Number.isFinite(rate) || rate <= 0) issues.push(t('fx.rateInvalid', { code }));
+      else next[code] = rate;
+    });
+    setErrors(issues);
+    if (issues.length > 0) return;
+    onSave(next);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-md max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-black text-white uppercase tracking-widest">{t('fx.title')}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-xs text-slate-400">
+            {t('fx.intro', { base: BASE_CURRENCY })}
+          </p>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-left border-b border-slate-700">
+                <th className="py-2">{t('fx.currency')}</th>
+                <th className="py-2 text-right">{t('fx.usdPerUnit')}</th>
+                <th className="py-2 text-right">{t('fx.perUsd')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CURRENCY_CODES.map(code => {
+                const rate = Number(form[code]);
+                return (
+                  <tr key={code} className="border-b border-slate-800">
+                    <td className="py-1.5 text-slate-200">
+                      {code} <span className="text-slate-500">{t(CURRENCY_KEYS[code])}</span>
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <input
+                        className={inputClass}
+                        type="number"
+                        min={0}
+                        step="any"
+                        disabled={code === BASE_CURRENCY}
+                        value={form[code]}
+                        onChange={e => setForm(prev => ({ ...prev, [code]: e.target.value }))}
+                      />
+                    </td>
+                    <td className="py-1.5 text-right text-slate-500">
+                      {rate > 0 ? formatNumber(1 / rate, { maximumFractionDigits: 4 }) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-[10px] border border-slate-600 rounded"
+              title={t('fx.loadFileTitle')}
+            >
+              {t('fx.loadFile')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,.txt,application/json,text/csv" className="hidden" onChange={handleFile} />
+            {status && <span className="text-[10px] font-mono text-emerald-400 truncate">{status}</span>}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+              {errors.map((message, i) => (
+                <li key={i} className="text-[10px] text-rose-300 font-mono break-words">{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-800 border border-slate-600 text-slate-300 font-bold rounded">{t('common.cancel')}</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded shadow-lg">{t('common.save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FxRatesEditor;
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { GameState } from '../types';
+import { canRedo, canUndo, History } from '../services/historyService';
+import { useI18n } from './I18nProvider';
+
+interface HistoryPanelProps {
+  history: History<GameState>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const buttonClass = "flex-1 px-2 py-1 rounded border border-slate-700 bg-slate-800 text-xs font-mono text-slate-300 hover:text-white hover:border-slate-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+  const { locale, t } = useI18n();
+
+  // Keep the current step in view as commands are added or undone
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.index, history.entries.length]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClass} title={t('history.undo')}>↶</button>
+        <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClass} title={t('history.redo')}>↷</button>
+      </div>
+
+      <div className="hidden md:block">
+        <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">{t('history.title')}</div>
+        <ol className="max-h-32 overflow-y-auto space-y-0.5 pr-1">
+          {history.entries.map((entry, index) => {
+            const isCurrent = index === history.index;
+            const isUndone = index > history.index;
+            return (
+              <li key={entry.id}>
+                <button
+                  ref={isCurrent ? currentRef : undefined}
+                  onClick={() => onJump(index)}
+                  title={new Date(entry.timestamp).toLocaleTimeString(locale)}
+                  className={`w-full text-left truncate px-2 py-0.5 rounded text-[11px] font-mono transition-colors ${isCurrent
+                    ? 'bg-cyan-900/40 text-cyan-300'
+                    : isUndone
+                      ? 'text-slate-600 hover:text-slate-400'
+                      : 'text-slate-400 hover:text-white hover:bg-slate-800/50'}`}
+                >
+                  {isCurrent ? '▸ ' : ''}{t(entry.label.key, entry.label.params)}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { AssetType, CycleStage, Locale, Region, Relationship } from '../types';
+import {
+  assetTypeLabel, DEFAULT_LOCALE, formatDateTime, formatNumber, formatPercent, isLocale, MessageKey, MessageParams,
+  regionLabel, relationshipLabel, stageLabel, translate
+} from '../services/i18n';
+
+// Like the display currency, the language is a viewing preference kept outside save files
+const STORAGE_KEY = 'funday.locale';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  typeLabel: (type: AssetType) => string;
+  regionLabel: (region: Region) => string;
+  relationshipLabel: (type: Relationship['type']) => string;
+  stageLabel: (stage: CycleStage) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPercent: (fraction: number, decimals?: number) => string;
+  formatDateTime: (value: Date | string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// A stored choice wins; otherwise follow the browser when it asks for Chinese
+const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Fall through to the browser language
+  }
+  return typeof navigator !== 'undefined' && /^zh\b/i.test(navigator.language) ? 'zh-CN' : DEFAULT_LOCALE;
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // Preference only; ignore storage failures
+    }
+  }, [locale]);
+
+  const value = useMemo((): I18nContextValue => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    typeLabel: type => assetTypeLabel(locale, type),
+    regionLabel: region => regionLabel(locale, region),
+    relationshipLabel: type => relationshipLabel(locale, type),
+    stageLabel: stage => stageLabel(locale, stage),
+    formatNumber: (number, options) => formatNumber(locale, number, options),
+    formatPercent: (fraction, decimals) => formatPercent(locale, fraction, decimals),
+    formatDateTime: date => formatDateTime(locale, date)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
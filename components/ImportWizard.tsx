@@ -0,0 +1,351 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Asset, AssetType, CurrencyCode, Region } from '../types';
+import { BASE_CURRENCY, CURRENCY_CODES, formatMoneyExact } from '../services/currencyService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import {
+  buildImportPreview, ColumnMapping, distinctValues, IMPORT_FIELDS, ImportField, ImportRow,
+  ParsedCsv, parseCsv, suggestAssetType, suggestMapping, suggestRegion
+} from '../services/csvImportService';
+
+interface ImportWizardProps {
+  assets: Asset[];
+  onImport: (rows: ImportRow[], mapping: ColumnMapping) => void;
+  onClose: () => void;
+}
+
+type Step = 'SOURCE' | 'MAPPING' | 'PREVIEW';
+
+const STEPS: { id: Step; labelKey: MessageKey }[] = [
+  { id: 'SOURCE', labelKey: 'import.stepSource' },
+  { id: 'MAPPING', labelKey: 'import.stepMapping' },
+  { id: 'PREVIEW', labelKey: 'import.stepPreview' }
+];
+
+const FIELD_LABELS: Record<ImportField, MessageKey> = {
+  name: 'import.field.name',
+  value: 'import.field.value',
+  currency: 'import.field.currency',
+  type: 'import.field.type',
+  region: 'import.field.region',
+  units: 'import.field.units',
+  roi: 'import.field.roi',
+  risk: 'import.field.risk',
+  description: 'import.field.description'
+};
+
+const ACTION_LABELS: Record<ImportRow['action'], MessageKey> = {
+  CREATE: 'import.action.CREATE',
+  UPDATE: 'import.action.UPDATE',
+  SKIP: 'import.action.SKIP'
+};
+
+const ACTION_STYLES: Record<ImportRow['action'], string> = {
+  CREATE: 'text-emerald-300 bg-emerald-900/30 border-emerald-800',
+  UPDATE: 'text-cyan-300 bg-cyan-900/30 border-cyan-800',
+  SKIP: 'text-rose-300 bg-rose-900/30 border-rose-800'
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-cyan-500";
+const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200";
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ assets, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('SOURCE');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedCsv | null>(null);
+  const { t, locale, typeLabel, regionLabel } = useI18n();
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultType, setDefaultType] = useState<AssetType>(AssetType.STOCK);
+  const [defaultRegion, setDefaultRegion] = useState<Region>(Region.GLOBAL);
+  const [defaultCurrency, setDefaultCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  // Only the categories the user changed; everything else uses the keyword suggestion
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, AssetType>>({});
+  const [regionOverrides, setRegionOverrides] = useState<Record<string, Region>>({});
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+  };
+
+  const handleParse = () => {
+    try {
+      const result = parseCsv(text);
+      if (result.rows.length === 0) throw new Error(t('import.noRows'));
+      setParsed(result);
+      setMapping(suggestMapping(result.headers));
+      setTypeOverrides({});
+      setRegionOverrides({});
+      setParseError(null);
+      setStep('MAPPING');
+    } catch (err) {
+      setParseError((err as Error).message);
+    }
+  };
+
+  const typeValues = useMemo(() => parsed && mapping ? distinctValues(parsed.rows, mapping.type) : [], [parsed, mapping]);
+  const regionValues = useMemo(() => parsed && mapping ? distinctValues(parsed.rows, mapping.region) : [], [parsed, mapping]);
+
+  const typeMap = useMemo(() => Object.fromEntries(typeValues.map(v =>
+    [v, typeOverrides[v] ?? suggestAssetType(v) ?? defaultType])) as Record<string, AssetType>,
+  [typeValues, typeOverrides, defaultType]);
+  const regionMap = useMemo(() => Object.fromEntries(regionValues.map(v =>
+    [v, regionOverrides[v] ?? suggestRegion(v) ?? defaultRegion])) as Record<string, Region>,
+  [regionValues, regionOverrides, defaultRegion]);
+
+  const preview = useMemo(() => parsed && mapping
+    ? buildImportPreview(parsed, assets, { mapping, typeMap, regionMap, defaultType, defaultRegion, defaultCurrency })
+    : [], [parsed, mapping, assets, typeMap, regionMap, defaultType, defaultRegion, defaultCurrency]);
+
+  const counts = useMemo(() => preview.reduce((acc, row) => {
+    acc[row.action] += 1;
+    return acc;
+  }, { CREATE: 0, UPDATE: 0, SKIP: 0 } as Record<ImportRow['action'], number>), [preview]);
+
+  const mappingComplete = mapping !== null && mapping.name !== null && mapping.value !== null;
+  const assetById = useMemo(() => new Map(assets.map(a => [a.id, a])), [assets]);
+
+  const handleImport = () => {
+    if (!mapping || counts.CREATE + counts.UPDATE === 0) return;
+    onImport(preview.filter(r => r.action !== 'SKIP'), mapping);
+    onClose();
+  };
+
+  const renderCategoryTable = <T extends string>(
+    title: string,
+    values: string[],
+    map: Record<string, T>,
+    options: T[],
+    label: (option: T) => string,
+    onChange: (value: string, mapped: T) => void
+  ) => values.length > 0 && (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h4>
+      <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {values.map(value => (
+          <div key={value} className="flex items-center justify-between gap-2 text-xs font-mono">
+            <span className="text-slate-300 truncate" title={value}>{value}</span>
+            <select className={selectClass} value={map[value]} onChange={e => onChange(value, e.target.value as T)}>
+              {options.map(o => <option key={o} value={o}>{label(o)}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <h2 className="text-lg font-black text-white uppercase tracking-widest">{t('import.title')}</h2>
+            <div className="hidden md:flex gap-1 font-mono text-[10px]">
+              {STEPS.map(s => (
+                <span
+                  key={s.id}
+                  className={`px-2 py-1 rounded ${s.id === step ? 'bg-cyan-700 text-white' : 'bg-slate-800 text-slate-500'}`}
+                >
+                  {t(s.labelKey)}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="flex-1 p-6 overflow-y-auto">
+          {step === 'SOURCE' && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-400">
+                {t('import.sourceHint')}
+              </p>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-mono text-xs border border-slate-600 rounded"
+                >
+                  {t('import.chooseFile')}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={handleFile} />
+                {fileName && <span className="text-xs font-mono text-slate-400">{fileName}</span>}
+              </div>
+              <textarea
+                className={`${inputClass} font-mono text-xs`}
+                rows={12}
+                placeholder={'Symbol,Description,Quantity,Market Value,Asset Class\nVTI,Vanguard Total Stock Market ETF,120,"$31,250.00",Equity'}
+                value={text}
+                onChange={e => {
+                  setText(e.target.value);
+                  setFileName(null);
+                }}
+              />
+              {parseError && <p className="text-xs font-mono text-rose-400">{parseError}</p>}
+            </div>
+          )}
+
+          {step === 'MAPPING' && parsed && mapping && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">
+                  {t('import.columns', { rows: parsed.rows.length, delimiter: parsed.delimiter === '\t' ? t('import.tab') : `"${parsed.delimiter}"` })}
+                </h4>
+                <div className="space-y-2">
+                  {IMPORT_FIELDS.map(field => (
+                    <label key={field} className="flex items-center justify-between gap-3 text-xs font-mono">
+                      <span className="text-slate-400">{t(FIELD_LABELS[field])}</span>
+                      <select
+                        className={`${selectClass} w-56`}
+                        value={mapping[field] ?? ''}
+                        onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                      >
+                        <option value="">{t('import.notInFile')}</option>
+                        {parsed.headers.map((header, i) => (
+                          <option key={i} value={i}>{header || t('import.column', { index: i + 1 })}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                {!mappingComplete && (
+                  <p className="mt-3 text-xs font-mono text-amber-400">{t('import.required')}</p>
+                )}
+
+                <div className="mt-6 grid grid-cols-3 gap-3 text-xs font-mono">
+                  <label className="block">
+                    <span className="text-slate-400">{t('import.defaultType')}</span>
+                    <select className={`${selectClass} w-full mt-1`} value={defaultType} onChange={e => setDefaultType(e.target.value as AssetType)}>
+                      {Object.values(AssetType).map(type => <option key={type} value={type}>{typeLabel(type)}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-slate-400">{t('import.defaultRegion')}</span>
+                    <select className={`${selectClass} w-full mt-1`} value={defaultRegion} onChange={e => setDefaultRegion(e.target.value as Region)}>
+                      {Object.values(Region).map(r => <option key={r} value={r}>{regionLabel(r)}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-slate-400">{t('import.defaultCurrency')}</span>
+                    <select className={`${selectClass} w-full mt-1`} value={defaultCurrency} onChange={e => setDefaultCurrency(e.target.value as CurrencyCode)}>
+                      {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
+              <div className="space-y-6">
+                {renderCategoryTable(t('import.typeMapping'), typeValues, typeMap, Object.values(AssetType), typeLabel,
+                  (value, mapped) => setTypeOverrides(prev => ({ ...prev, [value]: mapped })))}
+                {renderCategoryTable(t('import.regionMapping'), regionValues, regionMap, Object.values(Region), regionLabel,
+                  (value, mapped) => setRegionOverrides(prev => ({ ...prev, [value]: mapped })))}
+                {typeValues.length === 0 && regionValues.length === 0 && (
+                  <p className="text-xs font-mono text-slate-500">
+                    {t('import.mappingHint')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'PREVIEW' && (
+            <div>
+              <div className="flex flex-wrap gap-4 mb-4 text-xs font-mono">
+                <span className="text-emerald-400">{t('import.countCreate', { count: counts.CREATE })}</span>
+                <span className="text-cyan-400">{t('import.countUpdate', { count: counts.UPDATE })}</span>
+                <span className="text-rose-400">{t('import.countSkip', { count: counts.SKIP })}</span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-slate-500 text-left border-b border-slate-700">
+                      <th className="py-2 pr-3">{t('import.line')}</th>
+                      <th className="py-2 pr-3">{t('import.action')}</th>
+                      <th className="py-2 pr-3">{t('import.name')}</th>
+                      <th className="py-2 pr-3">{t('import.type')}</th>
+                      <th className="py-2 pr-3">{t('import.region')}</th>
+                      <th className="py-2 pr-3 text-right">{t('import.value')}</th>
+                      <th className="py-2">{t('import.details')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(row => {
+                      const match = row.matchId ? assetById.get(row.matchId) : undefined;
+                      return (
+                        <tr key={row.line} className="border-b border-slate-800">
+                          <td className="py-1.5 pr-3 text-slate-500">{row.line}</td>
+                          <td className="py-1.5 pr-3">
+                            <span className={`px-1.5 py-0.5 rounded border text-[10px] ${ACTION_STYLES[row.action]}`}>{t(ACTION_LABELS[row.action])}</span>
+                          </td>
+                          <td className="py-1.5 pr-3 text-slate-200">{row.draft.name || '—'}</td>
+                          <td className="py-1.5 pr-3 text-slate-400">{typeLabel(row.draft.type)}</td>
+                          <td className="py-1.5 pr-3 text-slate-400">{regionLabel(row.draft.region)}</td>
+                          <td className="py-1.5 pr-3 text-right text-slate-200">
+                            {Number.isFinite(row.draft.value) ? formatMoneyExact(row.draft.value, row.draft.currency, locale) : '—'}
+                          </td>
+                          <td className="py-1.5 text-slate-500">
+                            {row.errors.length > 0
+                              ? <span className="text-rose-400">{row.errors.join('; ')}</span>
+                              : match
+                                ? t('import.replaces', { name: match.name, value: formatMoneyExact(match.value, match.currency, locale) })
+                                : ''}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-between">
+          <button
+            onClick={() => setStep(step === 'PREVIEW' ? 'MAPPING' : 'SOURCE')}
+            disabled={step === 'SOURCE'}
+            className="px-4 py-2 bg-slate-800 border border-slate-600 text-slate-300 font-bold rounded disabled:opacity-30"
+          >
+            {t('import.back')}
+          </button>
+          {step === 'SOURCE' && (
+            <button onClick={handleParse} disabled={text.trim() === ''} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold rounded shadow-lg">
+              {t('import.next')}
+            </button>
+          )}
+          {step === 'MAPPING' && (
+            <button onClick={() => setStep('PREVIEW')} disabled={!mappingComplete} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold rounded shadow-lg">
+              {t('import.preview')}
+            </button>
+          )}
+          {step === 'PREVIEW' && (
+            <button
+              onClick={handleImport}
+              disabled={counts.CREATE + counts.UPDATE === 0}
+              className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold rounded shadow-lg"
+            >
+              {t('import.import', { count: counts.CREATE + counts.UPDATE })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Asset, OracleInsight } from '../types';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface InsightCardProps {
+  insight: OracleInsight;
+  assets: Asset[]; // USD values, used to show what each linked holding is worth
+  tone: 'opportunity' | 'risk';
+}
+
+const TONES = {
+  opportunity: { card: 'border-emerald-800/60 bg-emerald-900/10', marker: 'text-emerald-400', chip: 'border-emerald-800 text-emerald-200' },
+  risk: { card: 'border-rose-800/60 bg-rose-900/10', marker: 'text-rose-400', chip: 'border-rose-800 text-rose-200' }
+};
+
+// One opportunity or risk from the Oracle, with chips for the holdings it refers to
+const InsightCard: React.FC<InsightCardProps> = ({ insight, assets, tone }) => {
+  const { format } = useCurrency();
+  const { typeLabel, regionLabel } = useI18n();
+  const style = TONES[tone];
+  const linked = insight.assetIds
+    .map(id => assets.find(a => a.id === id))
+    .filter((a): a is Asset => a !== undefined);
+
+  return (
+    <div className={`border rounded-lg p-4 ${style.card}`}>
+      <h5 className="font-bold text-slate-100 text-sm flex items-start gap-2">
+        <span className={style.marker}>{tone === 'opportunity' ? '▲' : '▼'}</span>
+        {insight.title}
+      </h5>
+      {insight.detail && <p className="mt-1 text-xs text-slate-300 leading-relaxed">{insight.detail}</p>}
+      {linked.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1.5">
+          {linked.map(asset => (
+            <span
+              key={asset.id}
+              className={`px-2 py-0.5 rounded border bg-slate-900/60 text-[10px] font-mono ${style.chip}`}
+              title={`${typeLabel(asset.type)} · ${regionLabel(asset.region)} · ${asset.risk}/10`}
+            >
+              {asset.name} <span className="text-slate-500">{format(asset.value)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightCard;
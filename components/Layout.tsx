@@ -1,19 +1,44 @@
 import React from 'react';
+import { GameState } from '../types';
+import SaveControls from './SaveControls';
+import TurnHud from './TurnHud';
+import HistoryPanel from './HistoryPanel';
+import { TurnReport } from '../services/gameEngine';
+import { History } from '../services/historyService';
+import { useCurrency } from './CurrencyProvider';
+import { CURRENCY_CODES } from '../services/currencyService';
+import { useI18n } from './I18nProvider';
+import { LOCALE_CODES, LOCALES, MessageKey } from '../services/i18n';
+import { CurrencyCode, Locale } from '../types';
 
-type View = 'REALM' | 'NEXUS' | 'GEO' | 'ORACLE';
+type View = 'REALM' | 'NEXUS' | 'GEO' | 'ORACLE' | 'LEDGER';
 
 interface LayoutProps {
   currentView: View;
   setView: (view: View) => void;
+  gameState: GameState;
+  onLoadGame: (state: GameState) => void;
+  onOpenEditor: () => void;
+  onOpenImport: () => void;
+  onOpenFxRates: () => void;
+  lastTurn: TurnReport | null;
+  onEndTurn: () => void;
+  history: History<GameState>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToHistory: (index: number) => void;
   children: React.ReactNode;
 }
 
-const Layout: React.FC<LayoutProps> = ({ currentView, setView, children }) => {
-  const navItems: { id: View; label: string; icon: string; color: string }[] = [
-    { id: 'REALM', label: 'Realm', icon: '⊞', color: 'text-cyan-400' },
-    { id: 'NEXUS', label: 'Nexus', icon: '☍', color: 'text-purple-400' },
-    { id: 'GEO', label: 'Geo', icon: '⊕', color: 'text-emerald-400' },
-    { id: 'ORACLE', label: 'Oracle', icon: '◎', color: 'text-amber-400' },
+const Layout: React.FC<LayoutProps> = ({ currentView, setView, gameState, onLoadGame, onOpenEditor, onOpenImport, onOpenFxRates, lastTurn, onEndTurn, history, onUndo, onRedo, onJumpToHistory, children }) => {
+  const { displayCurrency, setDisplayCurrency } = useCurrency();
+  const { locale, setLocale, t } = useI18n();
+  const navItems: { id: View; label: MessageKey; icon: string; color: string }[] = [
+    { id: 'REALM', label: 'nav.realm', icon: '⊞', color: 'text-cyan-400' },
+    { id: 'NEXUS', label: 'nav.nexus', icon: '☍', color: 'text-purple-400' },
+    { id: 'GEO', label: 'nav.geo', icon: '⊕', color: 'text-emerald-400' },
+    { id: 'ORACLE', label: 'nav.oracle', icon: '◎', color: 'text-amber-400' },
+    { id: 'LEDGER', label: 'nav.ledger', icon: '≣', color: 'text-lime-400' },
   ];
 
   return (
@@ -39,14 +64,68 @@ const Layout: React.FC<LayoutProps> = ({ currentView, setView, children }) => {
                 }`}
             >
               <span className={`text-xl mr-0 md:mr-4 ${item.color} font-mono`}>{item.icon}</span>
-              <span className="hidden md:inline font-medium tracking-wide">{item.label}</span>
+              <span className="hidden md:inline font-medium tracking-wide">{t(item.label)}</span>
             </button>
           ))}
+
+          <div className="mx-6 my-4 border-t border-slate-800" />
+          <button
+            onClick={onOpenEditor}
+            className="w-full flex items-center px-6 py-3 transition-all duration-200 border-l-2 border-transparent text-slate-400 hover:text-white hover:bg-slate-800/50"
+          >
+            <span className="text-xl mr-0 md:mr-4 text-rose-400 font-mono">✎</span>
+            <span className="hidden md:inline font-medium tracking-wide">{t('nav.holdings')}</span>
+          </button>
+          <button
+            onClick={onOpenImport}
+            className="w-full flex items-center px-6 py-3 transition-all duration-200 border-l-2 border-transparent text-slate-400 hover:text-white hover:bg-slate-800/50"
+          >
+            <span className="text-xl mr-0 md:mr-4 text-sky-400 font-mono">⇪</span>
+            <span className="hidden md:inline font-medium tracking-wide">{t('nav.import')}</span>
+          </button>
         </nav>
 
+        <div className="p-3 md:px-6 border-t border-slate-800">
+          <HistoryPanel history={history} onUndo={onUndo} onRedo={onRedo} onJump={onJumpToHistory} />
+        </div>
+
+        <div className="p-3 md:p-6 border-t border-slate-800">
+          <TurnHud gameState={gameState} lastTurn={lastTurn} onEndTurn={onEndTurn} />
+        </div>
+
         <div className="p-6 border-t border-slate-800">
+          <div className="hidden md:flex mb-2">
+            <select
+              value={locale}
+              onChange={e => setLocale(e.target.value as Locale)}
+              className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-300 font-mono text-[10px]"
+              title={t('layout.language')}
+            >
+              {LOCALE_CODES.map(code => <option key={code} value={code}>{LOCALES[code].label}</option>)}
+            </select>
+          </div>
+          <div className="hidden md:flex gap-2 mb-3">
+            <select
+              value={displayCurrency}
+              onChange={e => setDisplayCurrency(e.target.value as CurrencyCode)}
+              className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-300 font-mono text-[10px]"
+              title={t('layout.displayCurrency')}
+            >
+              {CURRENCY_CODES.map(code => <option key={code} value={code}>{t('layout.showIn', { code })}</option>)}
+            </select>
+            <button
+              onClick={onOpenFxRates}
+              className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-[10px] border border-slate-600 rounded transition-colors"
+              title={t('layout.editFx')}
+            >
+              {t('layout.fx')}
+            </button>
+          </div>
+          <div className="hidden md:block mb-4">
+            <SaveControls gameState={gameState} onLoad={onLoadGame} />
+          </div>
           <div className="text-xs text-slate-500 text-center md:text-left">
-            <p className="hidden md:block">SYSTEM STATUS: <span className="text-green-500">ONLINE</span></p>
+            <p className="hidden md:block">{t('layout.systemStatus')} <span className="text-green-500">{t('layout.online')}</span></p>
             <p className="mt-1">v2.5.0</p>
           </div>
         </div>
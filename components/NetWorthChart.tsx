@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { AssetType, Region, ValuationSnapshot } from '../types';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+import { buildNetWorthSeries, CASH_SERIES, computePeriodStats, NetWorthGrouping, NetWorthPoint } from '../services/valuationService';
+
+interface NetWorthChartProps {
+  history: ValuationSnapshot[];
+  height?: number;
+}
+
+const CONTEXT_HEIGHT = 56;
+const MARGIN = { top: 12, right: 16, bottom: 24, left: 56 };
+
+const TYPE_COLORS: Record<string, string> = {
+  [AssetType.STOCK]: '#3b82f6',
+  [AssetType.REAL_ESTATE]: '#f59e0b',
+  [AssetType.BOND]: '#10b981',
+  [AssetType.CRYPTO]: '#a855f7',
+  [AssetType.PRIVATE_EQUITY]: '#f43f5e',
+  [AssetType.CASH]: '#64748b',
+  [CASH_SERIES]: '#334155'
+};
+
+type Group = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+const styleAxis = (g: Group) => {
+  g.selectAll("text").attr("fill", "#94a3b8").style("font-family", "monospace");
+  g.selectAll("line,path").attr("stroke", "#475569");
+};
+
+// Stacked net worth over time with a brushable overview underneath for zooming into a date range
+const NetWorthChart: React.FC<NetWorthChartProps> = ({ history, height = 260 }) => {
+  const { format } = useCurrency();
+  const { t, typeLabel, regionLabel, formatPercent } = useI18n();
+  const [grouping, setGrouping] = useState<NetWorthGrouping>('type');
+  const [range, setRange] = useState<[Date, Date] | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const focusRef = useRef<SVGSVGElement>(null);
+  const contextRef = useRef<SVGSVGElement>(null);
+
+  const series = useMemo(() => buildNetWorthSeries(history, grouping), [history, grouping]);
+  const color = useMemo(() => {
+    const fallback = d3.scaleOrdinal(d3.schemeTableau10);
+    return (key: string) => TYPE_COLORS[key] ?? fallback(key);
+  }, []);
+
+  const visible = useMemo(() => range
+    ? series.points.filter(p => p.date >= range[0] && p.date <= range[1])
+    : series.points, [series, range]);
+  const stats = useMemo(() => computePeriodStats(visible), [visible]);
+
+  const formatQuarter = useCallback((date: Date) =>
+    t('networth.quarter', { year: date.getUTCFullYear(), quarter: Math.floor(date.getUTCMonth() / 3) + 1 }), [t]);
+  const seriesLabel = useCallback((key: string) => key === CASH_SERIES
+    ? t('networth.cash')
+    : grouping === 'type' ? typeLabel(key as AssetType) : regionLabel(key as Region), [t, grouping, typeLabel, regionLabel]);
+
+  const canChart = series.points.length >= 2;
+
+  // Overview + brush. Rebuilt only when the data or the language changes so an active brush isn't reset on every zoom.
+  useEffect(() => {
+    if (!canChart || !contextRef.current || !containerRef.current) return;
+    const width = containerRef.current.clientWidth;
+    const innerWidth = width - MARGIN.left - MARGIN.right;
+    const innerHeight = CONTEXT_HEIGHT - 20;
+
+    const svg = d3.select(contextRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("viewBox", `0 0 ${width} ${CONTEXT_HEIGHT}`);
+
+    const x = d3.scaleUtc().domain(d3.extent(series.points, (p: NetWorthPoint) => p.date) as [Date, Date]).range([0, innerWidth]);
+    const y = d3.scaleLinear().domain([0, d3.max(series.points, (p: NetWorthPoint) => p.total) || 1]).range([innerHeight, 0]);
+    const chart = svg.append("g").attr("transform", `translate(${MARGIN.left},4)`);
+
+    chart.append("path")
+      .datum(series.points)
+      .attr("fill", "#06b6d4")
+      .attr("fill-opacity", 0.2)
+      .attr("stroke", "#06b6d4")
+      .attr("d", d3.area<NetWorthPoint>().x(p => x(p.date)).y0(innerHeight).y1(p => y(p.total)).curve(d3.curveMonotoneX));
+
+    chart.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(d3.axisBottom<Date>(x).ticks(6).tickFormat(formatQuarter))
+      .call(styleAxis);
+
+    const brush = d3.brushX()
+      .extent([[0, 0], [innerWidth, innerHeight]])
+      .on("end", (event: d3.D3BrushEvent<unknown>) => {
+        if (!event.selection) {
+          setRange(null);
+          return;
+        }
+        const [x0, x1] = event.selection as [number, number];
+        setRange([x.invert(x0), x.invert(x1)]);
+      });
+    chart.append("g").attr("class", "brush").call(brush);
+    setRange(null);
+  }, [series, canChart, formatQuarter]);
+
+  // Stacked focus chart
+  useEffect(() => {
+    if (!canChart || !focusRef.current || !containerRef.current) return;
+    const width = containerRef.current.clientWidth;
+    const innerWidth = width - MARGIN.left - MARGIN.right;
+    const innerHeight = height - MARGIN.top - MARGIN.bottom;
+
+    const svg = d3.select(focusRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("viewBox", `0 0 ${width} ${height}`);
+
+    const domain = range ?? d3.extent(series.points, (p: NetWorthPoint) => p.date) as [Date, Date];
+    const x = d3.scaleUtc().domain(domain).range([0, innerWidth]);
+    const y = d3.scaleLinear()
+      .domain([0, (d3.max(visible.length ? visible : series.points, (p: NetWorthPoint) => p.total) || 1) * 1.05])
+      .nice()
+      .range([innerHeight, 0]);
+
+    svg.append("defs").append("clipPath").attr("id", "networth-clip")
+      .append("rect").attr("width", innerWidth).attr("height", innerHeight);
+    const chart = svg.append("g").attr("transform", `translate(${MARGIN.left},${MARGIN.top})`);
+
+    chart.append("g")
+      .call(d3.axisLeft(y).ticks(5).tickSize(-innerWidth).tickFormat(() => ""))
+      .call(g => g.selectAll("line").attr("stroke", "#334155").attr("stroke-opacity", 0.5))
+      .call(g => g.select(".domain").remove());
+
+    const stacked = d3.stack<NetWorthPoint>()
+      .keys(series.keys)
+      .value((p, key) => p.groups[key] ?? 0)(series.points);
+
+    chart.append("g")
+      .attr("clip-path", "url(#networth-clip)")
+      .selectAll("path")
+      .data(stacked)
+      .join("path")
+      .attr("fill", layer => color(layer.key))
+      .attr("fill-opacity", 0.75)
+      .attr("d", d3.area<d3.SeriesPoint<NetWorthPoint>>()
+        .x(d => x(d.data.date))
+        .y0(d => y(d[0]))
+        .y1(d => y(d[1]))
+        .curve(d3.curveMonotoneX))
+      .append("title")
+      .text(layer => seriesLabel(layer.key));
+
+    chart.append("path")
+      .datum(series.points)
+      .attr("clip-path", "url(#networth-clip)")
+      .attr("fill", "none")
+      .attr("stroke", "#e2e8f0")
+      .attr("stroke-width", 1.5)
+      .attr("d", d3.line<NetWorthPoint>().x(p => x(p.date)).y(p => y(p.total)).curve(d3.curveMonotoneX));
+
+    chart.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(d3.axisBottom<Date>(x).ticks(6).tickFormat(formatQuarter))
+      .call(styleAxis);
+    chart.append("g")
+      .call(d3.axisLeft<number>(y).ticks(5).tickFormat(d => format(d, 0)))
+      .call(styleAxis);
+  }, [series, range, visible, height, canChart, color, format, formatQuarter, seriesLabel]);
+
+  const toggleClass = (active: boolean) => `px-2 py-1 transition-colors ${active
+    ? 'bg-cyan-700 text-white'
+    : 'bg-slate-900 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <span className="w-1 h-4 bg-cyan-500 rounded-full"></span>
+          {t('networth.title')}
+        </h4>
+        <div className="inline-flex rounded border border-slate-600 overflow-hidden font-mono text-[10px]">
+          <button className={toggleClass(grouping === 'type')} onClick={() => setGrouping('type')}>{t('networth.byType')}</button>
+          <button className={toggleClass(grouping === 'region')} onClick={() => setGrouping('region')}>{t('networth.byRegion')}</button>
+        </div>
+      </div>
+
+      {!canChart ? (
+        <p className="text-xs font-mono text-slate-500 py-8 text-center">
+          {t('networth.empty')}
+        </p>
+      ) : (
+        <>
+          {stats && visible.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-xs font-mono">
+              <div>
+                <div className="text-slate-500">{t('networth.period')}</div>
+                <div className="text-slate-200">
+                  {formatQuarter(visible[0].date)} → {formatQuarter(visible[visible.length - 1].date)}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500">{t('networth.netWorth')}</div>
+                <div className="text-slate-200">{format(stats.startValue)} → {format(stats.endValue)}</div>
+              </div>
+              <div title={t('networth.periodReturnTitle')}>
+                <div className="text-slate-500">{t('networth.periodReturn')}</div>
+                <div className={stats.periodReturn >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                  {stats.periodReturn >= 0 ? '+' : ''}{formatPercent(stats.periodReturn)}
+                </div>
+              </div>
+              <div title={t('networth.maxDrawdownTitle')}>
+                <div className="text-slate-500">{t('networth.maxDrawdown')}</div>
+                <div className={stats.maxDrawdown > 0 ? 'text-rose-400' : 'text-slate-200'}>
+                  {stats.maxDrawdown > 0 ? `−${formatPercent(stats.maxDrawdown)}` : formatPercent(0)}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div ref={containerRef} className="w-full">
+            <svg ref={focusRef} className="w-full" style={{ height }} />
+            <svg ref={contextRef} className="w-full" style={{ height: CONTEXT_HEIGHT }} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-[10px] font-mono text-slate-400">
+            {series.keys.map(key => (
+              <span key={key} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-sm inline-block" style={{ backgroundColor: color(key) }} />
+                {seriesLabel(key)}
+              </span>
+            ))}
+            <span className="ml-auto text-slate-500">
+              {range ? t('networth.adjustHint') : t('networth.zoomHint')}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NetWorthChart;
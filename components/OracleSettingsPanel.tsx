@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  createProvider, PROVIDER_IDS, PROVIDER_OPTIONS, ProviderId, ProviderSettings, ProviderSettingsIssue, validateProviderSettings
+} from '../services/llmProviders';
+import { useI18n } from './I18nProvider';
+
+interface OracleSettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:border-amber-500";
+
+type TestStatus = { state: 'idle' } | { state: 'running' } | { state: 'ok'; message: string } | { state: 'failed'; message: string };
+
+const OracleSettingsPanel: React.FC<OracleSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [form, setForm] = useState<ProviderSettings>(settings);
+  const [errors, setErrors] = useState<ProviderSettingsIssue[]>([]);
+  const [test, setTest] = useState<TestStatus>({ state: 'idle' });
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setForm(prev => ({ ...prev, ...patch }));
+    setTest({ state: 'idle' });
+  };
+
+  // Switching provider resets the model to that provider's default; endpoint and key are kept
+  const selectProvider = (provider: ProviderId) =>
+    update({ provider, model: PROVIDER_OPTIONS[provider].defaultModel });
+
+  const runTest = async () => {
+    const issues = validateProviderSettings(form);
+    setErrors(issues);
+    if (issues.length > 0) return;
+    setTest({ state: 'running' });
+    try {
+      const response = await createProvider(form).generate({ task: 'macro', prompt: 'Reply with the single word OK.', language: 'en' });
+      setTest({ state: 'ok', message: response.text.trim().slice(0, 80) || t('oracleSettings.emptyReply') });
+    } catch (err) {
+      setTest({ state: 'failed', message: (err as Error).message });
+    }
+  };
+
+  const handleSave = () => {
+    const issues = validateProviderSettings(form);
+    setErrors(issues);
+    if (issues.length > 0) return;
+    onSave(form);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-md max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-black text-white uppercase tracking-widest">{t('oracleSettings.title')}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="space-y-2">
+            {PROVIDER_IDS.map(id => (
+              <label
+                key={id}
+                className={`flex items-start gap-3 p-3 rounded border cursor-pointer transition-colors ${form.provider === id
+                  ? 'border-amber-500 bg-amber-900/20'
+                  : 'border-slate-700 hover:border-slate-500'}`}
+              >
+                <input
+                  type="radio"
+                  name="oracle-provider"
+                  className="mt-1 accent-amber-500"
+                  checked={form.provider === id}
+                  onChange={() => selectProvider(id)}
+                />
+                <span>
+                  <span className="block text-sm font-bold text-slate-100">{t(PROVIDER_OPTIONS[id].labelKey)}</span>
+                  <span className="block text-xs text-slate-400">{t(PROVIDER_OPTIONS[id].descriptionKey)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {form.provider !== 'mock' && (
+            <label className="block text-xs font-mono">
+              <span className="text-slate-400">{t('oracleSettings.model')}</span>
+              <input className={`${inputClass} mt-1`} value={form.model} onChange={e => update({ model: e.target.value })} />
+            </label>
+          )}
+
+          {form.provider === 'openai' && (
+            <label className="block text-xs font-mono">
+              <span className="text-slate-400">{t('oracleSettings.endpoint')}</span>
+              <input
+                className={`${inputClass} mt-1`}
+                value={form.endpoint}
+                placeholder="http://localhost:11434/v1"
+                onChange={e => update({ endpoint: e.target.value })}
+              />
+              <span className="block mt-1 text-[10px] text-slate-500">{t('oracleSettings.endpointHint')}</span>
+            </label>
+          )}
+
+          {form.provider !== 'mock' && (
+            <label className="block text-xs font-mono">
+              <span className="text-slate-400">{t('oracleSettings.apiKey')}</span>
+              <input
+                className={`${inputClass} mt-1`}
+                type="password"
+                autoComplete="off"
+                value={form.apiKey}
+                placeholder={form.provider === 'gemini' ? t('oracleSettings.apiKeyGemini') : t('oracleSettings.apiKeyOptional')}
+                onChange={e => update({ apiKey: e.target.value })}
+              />
+              <span className="block mt-1 text-[10px] text-slate-500">{t('oracleSettings.apiKeyStored')}</span>
+            </label>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+              {errors.map((issue, i) => (
+                <li key={i} className="text-[10px] text-rose-300 font-mono break-words">{t(issue.key, issue.params)}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={runTest}
+              disabled={test.state === 'running'}
+              className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-[10px] border border-slate-600 rounded disabled:opacity-50"
+            >
+              {test.state === 'running' ? t('oracleSettings.testing') : t('oracleSettings.test')}
+            </button>
+            {test.state === 'ok' && <span className="text-[10px] font-mono text-emerald-400 truncate">✓ {test.message}</span>}
+            {test.state === 'failed' && <span className="text-[10px] font-mono text-rose-400 break-words">✗ {test.message}</span>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-800 border border-slate-600 text-slate-300 font-bold rounded">{t('common.cancel')}</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded shadow-lg">{t('common.save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OracleSettingsPanel;
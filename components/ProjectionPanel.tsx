@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Asset, Relationship } from '../types';
+import { ProjectionRequest, ProjectionResult, runProjection } from '../services/simulationService';
+import FanChart from './FanChart';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface ProjectionPanelProps {
+  assets: Asset[];
+  relationships: Relationship[];
+  cash: number;
+}
+
+const YEAR_OPTIONS = [5, 10, 20, 30];
+const PATH_OPTIONS = [1000, 5000, 10000, 25000];
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const ProjectionPanel: React.FC<ProjectionPanelProps> = ({ assets, relationships, cash }) => {
+  const { format } = useCurrency();
+  const { t, formatNumber } = useI18n();
+  const [years, setYears] = useState(10);
+  const [paths, setPaths] = useState(5000);
+  const [seedInput, setSeedInput] = useState('');
+  // The run on screen. It starts from the holdings at mount; later runs only happen on RUN, so editing
+  // the portfolio doesn't restart a long simulation. A new request cancels the one in flight.
+  const [request, setRequest] = useState<ProjectionRequest>(() => ({ assets, relationships, cash, years, paths, seed: randomSeed() }));
+  const [projection, setProjection] = useState<ProjectionResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      setRunning(true);
+      setError(null);
+      try {
+        setProjection(await runProjection(request, controller.signal));
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') setError((err as Error).message);
+      } finally {
+        if (!controller.signal.aborted) setRunning(false);
+      }
+    };
+    run();
+    return () => controller.abort();
+  }, [request]);
+
+  const runSimulation = () => {
+    // A blank seed means "surprise me"; the seed actually used is shown so the run can be reproduced
+    const seed = seedInput.trim() === '' ? randomSeed() : Number(seedInput);
+    if (!Number.isInteger(seed)) {
+      setError(t('projection.seedInvalid'));
+      return;
+    }
+    setRequest({ assets, relationships, cash, years, paths, seed });
+  };
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200";
+  const finalIndex = projection ? projection.years.length - 1 : 0;
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <span className="w-1 h-4 bg-amber-500 rounded-full"></span>
+          {t('projection.title')}
+        </h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClass} value={years} onChange={e => setYears(Number(e.target.value))}>
+            {YEAR_OPTIONS.map(y => <option key={y} value={y}>{t('projection.years', { count: y })}</option>)}
+          </select>
+          <select className={selectClass} value={paths} onChange={e => setPaths(Number(e.target.value))}>
+            {PATH_OPTIONS.map(p => <option key={p} value={p}>{t('projection.paths', { count: formatNumber(p) })}</option>)}
+          </select>
+          <input
+            className={`${selectClass} w-28`}
+            placeholder={t('projection.seedPlaceholder')}
+            value={seedInput}
+            onChange={e => setSeedInput(e.target.value)}
+          />
+          <button
+            onClick={runSimulation}
+            disabled={running}
+            className="px-3 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white font-bold text-xs rounded"
+          >
+            {running ? t('projection.simulating') : t('projection.run')}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-mono text-rose-400 mb-2">{error}</p>}
+
+      {projection ? (
+        <>
+          <div className={`transition-opacity ${running ? 'opacity-40' : ''}`}>
+            <FanChart projection={projection} />
+          </div>
+          <div className="flex flex-wrap justify-between gap-4 mt-3 text-xs font-mono">
+            <span className="text-slate-400">
+              {t('projection.year', { year: projection.years[finalIndex] })}: P5 <span className="text-rose-400">{format(projection.p5[finalIndex])}</span>
+              {' • '}P50 <span className="text-amber-400">{format(projection.p50[finalIndex])}</span>
+              {' • '}P95 <span className="text-emerald-400">{format(projection.p95[finalIndex])}</span>
+            </span>
+            <span className="text-slate-500">
+              {t('projection.runInfo', { paths: formatNumber(projection.paths), seed: projection.seed })}
+            </span>
+          </div>
+        </>
+      ) : (
+        <div className="h-64 flex items-center justify-center text-xs font-mono text-amber-500 animate-pulse">
+          {t('projection.loading')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionPanel;
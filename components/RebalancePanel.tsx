@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Asset, AssetType, Region, TargetAllocation, TradeSettings } from '../types';
+import { AllocationDimension, computeDrift, DriftRow, hasTargets, planRebalance, RebalanceNote, RebalancePlan } from '../services/rebalanceService';
+import { toBaseAssets } from '../services/currencyService';
+import TargetAllocationEditor from './TargetAllocationEditor';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface RebalancePanelProps {
+  assets: Asset[]; // As held, in their own currencies
+  cash: number;
+  tradeSettings: TradeSettings;
+  targets: TargetAllocation;
+  onTargetsChange: (targets: TargetAllocation) => void;
+  onApply: (plan: RebalancePlan) => void; // Throws if the plan can't be executed
+}
+
+const STATUS_STYLES: Record<DriftRow['status'], string> = {
+  over: 'text-rose-400',
+  under: 'text-sky-400',
+  within: 'text-emerald-400',
+  untargeted: 'text-slate-600'
+};
+
+// Drift against the target allocation and the trades that bring it back within bands
+const RebalancePanel: React.FC<RebalancePanelProps> = ({ assets, cash, tradeSettings, targets, onTargetsChange, onApply }) => {
+  const { rates, format, formatExact } = useCurrency();
+  const { t, typeLabel, regionLabel, formatPercent } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Planning searches over trades, so it only runs when asked; a plan is dropped once any of its
+  // inputs change (applying it changes the holdings, too)
+  const inputs = [assets, cash, rates, tradeSettings, targets];
+  const [planned, setPlanned] = useState<{ plan: RebalancePlan; inputs: unknown[] } | null>(null);
+  const plan = planned && planned.inputs.every((input, i) => input === inputs[i]) ? planned.plan : null;
+
+  const drift = useMemo(() => computeDrift(toBaseAssets(assets, rates), targets), [assets, rates, targets]);
+  const targeted = hasTargets(targets);
+  const inBands = drift.every(row => row.status === 'within' || row.status === 'untargeted');
+
+  const makePlan = () => {
+    setPlanned({ plan: planRebalance({ assets, cash, fxRates: rates, tradeSettings, targetAllocation: targets }), inputs });
+    setError(null);
+  };
+
+  const apply = () => {
+    if (!plan) return;
+    try {
+      onApply(plan);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const groupLabel = ({ dimension, group }: { dimension: AllocationDimension; group: string }) =>
+    dimension === 'type' ? typeLabel(group as AssetType) : regionLabel(group as Region);
+
+  const noteLabel = (note: RebalanceNote): string => {
+    switch (note.kind) {
+      case 'belowMinimum':
+        return t('rebalance.noteBelowMinimum', { count: note.count, amount: formatExact(note.minTrade) });
+      case 'cashLimited':
+        return t('rebalance.noteCashLimited');
+      case 'illiquidOnly':
+        return t('rebalance.noteIlliquidOnly', { group: groupLabel(note) });
+      case 'noLiquidHolding':
+        return t('rebalance.noteNoLiquidHolding', { group: groupLabel(note) });
+      case 'conflict':
+        return t(note.status === 'over' ? 'rebalance.noteConflictOver' : 'rebalance.noteConflictUnder', { group: groupLabel(note) });
+    }
+  };
+
+  const statusLabel = (row: DriftRow) =>
+    row.status === 'untargeted' ? '—' : t(row.status === 'over' ? 'rebalance.over' : row.status === 'under' ? 'rebalance.under' : 'rebalance.within');
+
+  const renderDrift = (dimension: DriftRow['dimension'], title: string) => (
+    <table className="w-full text-xs font-mono">
+      <thead>
+        <tr className="text-slate-500 text-left border-b border-slate-700">
+          <th className="py-1.5">{title}</th>
+          <th className="py-1.5 text-right">{t('rebalance.now')}</th>
+          <th className="py-1.5 text-right">{t('rebalance.target')}</th>
+          <th className="py-1.5 text-right">{t('rebalance.after')}</th>
+          <th className="py-1.5 text-right"></th>
+        </tr>
+      </thead>
+      <tbody>
+        {drift.filter(row => row.dimension === dimension).map(row => {
+          const after = plan?.after.find(a => a.dimension === row.dimension && a.group === row.group);
+          return (
+            <tr key={row.group} className="border-b border-slate-800">
+              <td className="py-1.5 text-slate-200">
+                {groupLabel(row)}
+                {row.lockedValue > 0 && (
+                  <span className="ml-1 text-amber-500" title={t('rebalance.locked', { amount: format(row.lockedValue) })}>🔒</span>
+                )}
+              </td>
+              <td className={`py-1.5 text-right ${STATUS_STYLES[row.status]}`}>{formatPercent(row.weight)}</td>
+              <td className="py-1.5 text-right text-slate-400">
+                {row.target ? `${formatPercent(row.target.weight)} ±${formatPercent(row.target.band, 0)}` : '—'}
+              </td>
+              <td className={`py-1.5 text-right ${after ? STATUS_STYLES[after.status] : ''}`}>
+                {after && plan && plan.trades.length > 0 ? formatPercent(after.weight) : '—'}
+              </td>
+              <td className={`py-1.5 text-right text-[10px] ${STATUS_STYLES[row.status]}`}>{statusLabel(row)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl mb-8">
+      <div className="flex justify-between items-center gap-4 mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <span className="w-1 h-4 bg-sky-500 rounded-full"></span>
+          {t('rebalance.title')}
+        </h4>
+        <button
+          onClick={() => setEditing(true)}
+          className="px-3 py-1 bg-slate-900 border border-slate-600 rounded text-[10px] font-mono text-slate-300 hover:text-white"
+        >
+          {t('rebalance.editTargets')}
+        </button>
+      </div>
+
+      {!targeted ? (
+        <p className="text-xs font-mono text-slate-500">{t('rebalance.noTargets')}</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderDrift('type', t('rebalance.byType'))}
+            {renderDrift('region', t('rebalance.byRegion'))}
+          </div>
+
+          <div className="space-y-3">
+            <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('rebalance.plan')}</h5>
+            {inBands ? (
+              <p className="text-xs font-mono text-slate-500">{t('rebalance.inBands')}</p>
+            ) : !plan ? (
+              <>
+                <p className="text-xs font-mono text-slate-500">{t('rebalance.planHint')}</p>
+                <button
+                  onClick={makePlan}
+                  className="w-full px-3 py-2 bg-slate-900 border border-slate-600 hover:border-sky-500 text-slate-200 font-bold text-xs rounded"
+                >
+                  {t('rebalance.makePlan')}
+                </button>
+              </>
+            ) : plan.trades.length === 0 ? (
+              <p className="text-xs font-mono text-slate-500">{t('rebalance.noTrades')}</p>
+            ) : (
+              <>
+                <ul className="space-y-1 text-xs font-mono">
+                  {plan.trades.map(trade => (
+                    <li
+                      key={trade.assetId}
+                      className="flex justify-between gap-2"
+                      title={t('rebalance.costTitle', { fee: formatExact(trade.fee), slippage: formatExact(trade.slippageCost) })}
+                    >
+                      <span className="truncate">
+                        <span className={trade.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>
+                          {trade.side === 'BUY' ? t('rebalance.buy') : t('rebalance.sell')}
+                        </span>{' '}
+                        <span className="text-slate-200">{trade.name}</span>
+                      </span>
+                      <span className="text-slate-300 whitespace-nowrap">
+                        {format(trade.value)}
+                        {trade.side === 'SELL' && trade.amount === 1 && <span className="text-slate-500"> ({t('rebalance.sellAll')})</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500 border-t border-slate-700 pt-2">
+                  <span>{t('rebalance.turnover', { amount: format(plan.turnover) })}</span>
+                  <span>{t('rebalance.cost', { amount: format(plan.estimatedCost, 2) })}</span>
+                  <span>{t('rebalance.cashChange', { amount: `${plan.cashChange >= 0 ? '+' : ''}${format(plan.cashChange)}` })}</span>
+                  <span>{t('rebalance.minTrade', { amount: formatExact(targets.minTrade) })}</span>
+                </div>
+                <button
+                  onClick={apply}
+                  className="w-full px-3 py-2 bg-sky-700 hover:bg-sky-600 text-white font-bold text-xs rounded shadow-lg"
+                  title={t('rebalance.applyTitle')}
+                >
+                  {t('rebalance.apply')}
+                </button>
+              </>
+            )}
+            {plan && plan.notes.length > 0 && (
+              <div className="text-[10px] font-mono text-amber-400 space-y-0.5">
+                <p>{t('rebalance.residual')}</p>
+                {plan.notes.map((note, i) => <p key={i}>⚠ {noteLabel(note)}</p>)}
+              </div>
+            )}
+            {error && <p className="text-[10px] font-mono text-rose-400">{error}</p>}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <TargetAllocationEditor targets={targets} onSave={onTargetsChange} onClose={() => setEditing(false)} />
+      )}
+    </div>
+  );
+};
+
+export default RebalancePanel;
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { GameState } from '../types';
+import { downloadSaveFile, parseSaveFile, SaveFileError } from '../services/persistenceService';
+import { useI18n } from './I18nProvider';
+
+interface SaveControlsProps {
+  gameState: GameState;
+  onLoad: (state: GameState) => void;
+}
+
+const SaveControls: React.FC<SaveControlsProps> = ({ gameState, onLoad }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const save = parseSaveFile(await file.text());
+      onLoad(save.state);
+      setErrors([]);
+      setStatus(t('save.loaded', { file: file.name }));
+    } catch (error) {
+      setStatus(null);
+      setErrors(error instanceof SaveFileError && error.issues.length > 0
+        ? error.issues
+        : [(error as Error).message]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadSaveFile(gameState)}
+          className="flex-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-[10px] border border-slate-600 rounded transition-colors"
+          title={t('save.exportTitle')}
+        >
+          {t('save.export')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-[10px] border border-slate-600 rounded transition-colors"
+          title={t('save.importTitle')}
+        >
+          {t('save.import')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {status && <p className="text-[10px] font-mono text-emerald-400 truncate">{status}</p>}
+
+      {errors.length > 0 && (
+        <div className="bg-rose-900/20 border border-rose-900/50 rounded p-2 max-h-40 overflow-y-auto">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-rose-400 text-[10px] font-bold uppercase">{t('save.rejected')}</span>
+            <button onClick={() => setErrors([])} className="text-rose-400 hover:text-rose-200 text-xs">×</button>
+          </div>
+          <ul className="space-y-1">
+            {errors.map((message, i) => (
+              <li key={i} className="text-[10px] text-rose-300 font-mono break-words">{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SaveControls;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Sector } from '../types';
+import { DEFAULT_SECTOR, MAX_SECTOR_SIZE, MIN_SECTOR_SIZE } from '../constants';
+import { SectorIssue, validateSector } from '../services/sectorService';
+import { useI18n } from './I18nProvider';
+
+interface SectorEditorProps {
+  sector?: Sector; // Omitted when creating one
+  defaultName: string;
+  holdings: number; // Buildings standing on the sector; it can't shrink below that many cells
+  deleteIssue?: SectorIssue; // Why the sector can't be deleted, if it can't
+  onSave: (draft: Omit<Sector, 'id'>) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500";
+
+const SectorEditor: React.FC<SectorEditorProps> = ({ sector, defaultName, holdings, deleteIssue, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(sector?.name ?? defaultName);
+  const [width, setWidth] = useState(String(sector?.width ?? DEFAULT_SECTOR.width));
+  const [height, setHeight] = useState(String(sector?.height ?? DEFAULT_SECTOR.height));
+  const [errors, setErrors] = useState<SectorIssue[]>([]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleSave = () => {
+    const draft = { name: name.trim(), width: Number(width), height: Number(height) };
+    const issues = validateSector(draft, holdings);
+    setErrors(issues);
+    if (issues.length > 0) return;
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-sm max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-black text-white uppercase tracking-widest">{t(sector ? 'sector.titleEdit' : 'sector.titleNew')}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <label className="block text-xs font-mono text-slate-400 space-y-1">
+            <span>{t('sector.name')}</span>
+            <input className={inputClass} value={name} onChange={e => setName(e.target.value)} autoFocus />
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-xs font-mono text-slate-400 space-y-1">
+              <span>{t('sector.width')}</span>
+              <input
+                className={inputClass}
+                type="number" min={MIN_SECTOR_SIZE} max={MAX_SECTOR_SIZE} step={1}
+                value={width}
+                onChange={e => setWidth(e.target.value)}
+              />
+            </label>
+            <label className="block text-xs font-mono text-slate-400 space-y-1">
+              <span>{t('sector.height')}</span>
+              <input
+                className={inputClass}
+                type="number" min={MIN_SECTOR_SIZE} max={MAX_SECTOR_SIZE} step={1}
+                value={height}
+                onChange={e => setHeight(e.target.value)}
+              />
+            </label>
+          </div>
+          {holdings > 0 && <p className="text-xs text-slate-500">{t('sector.holdings', { count: holdings })}</p>}
+
+          {errors.length > 0 && (
+            <ul className="bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+              {errors.map((issue, i) => (
+                <li key={i} className="text-[10px] text-rose-300 font-mono break-words">{t(issue.key, issue.params)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-between gap-3">
+          {sector && onDelete ? (
+            <button
+              onClick={() => { onDelete(); onClose(); }}
+              disabled={Boolean(deleteIssue)}
+              title={deleteIssue && t(deleteIssue.key, deleteIssue.params)}
+              className="px-4 py-2 bg-slate-800 border border-slate-600 text-rose-300 font-bold rounded disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t('common.delete')}
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 bg-slate-800 border border-slate-600 text-slate-300 font-bold rounded">{t('common.cancel')}</button>
+            <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded shadow-lg">{t(sector ? 'common.save' : 'common.create')}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SectorEditor;
@@ -0,0 +1,28 @@
+import React from 'react';
+import * as d3 from 'd3';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+// Tiny trend line, green when the last value is at or above the first
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 80, height = 20 }) => {
+  if (values.length < 2) return null;
+
+  const x = d3.scaleLinear().domain([0, values.length - 1]).range([1, width - 1]);
+  const [min, max] = d3.extent(values) as [number, number];
+  const y = d3.scaleLinear().domain(min === max ? [min - 1, max + 1] : [min, max]).range([height - 2, 2]);
+  const path = d3.line<number>().x((_, i) => x(i)).y(v => y(v))(values);
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <path d={path ?? ''} fill="none" stroke={rising ? '#34d399' : '#fb7185'} strokeWidth={1.5} />
+      <circle cx={x(values.length - 1)} cy={y(values[values.length - 1])} r={1.5} fill={rising ? '#34d399' : '#fb7185'} />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { Asset, AssetType, Region, Relationship } from '../types';
+import {
+  CUSTOM_SCENARIO_ID, MAX_SHOCK, runStressTest, Shock, STRESS_PRESETS, StressImpact, StressIssue, StressScenario, StressSummary,
+  StressWarning, validateStressScenario
+} from '../services/stressTestService';
+import { analyzePortfolioRisk } from '../services/riskEngine';
+import { MessageKey } from '../services/i18n';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface StressTestPanelProps {
+  assets: Asset[]; // USD (see toBaseAssets)
+  relationships: Relationship[];
+  cash: number;
+  scenario: StressScenario | null;
+  onScenarioChange: (scenario: StressScenario | null) => void;
+}
+
+// Shock being edited; blank filters match everything
+interface ShockDraft {
+  type: AssetType | '';
+  region: Region | '';
+  assetId: string;
+  change: string; // Percent
+}
+
+const PRESET_KEYS: Record<string, MessageKey> = {
+  'rates-up': 'stress.preset.rates-up',
+  'crypto-crash': 'stress.preset.crypto-crash',
+  'asia-property': 'stress.preset.asia-property',
+  'equity-selloff': 'stress.preset.equity-selloff'
+};
+
+// Presets have translated names; custom scenarios are labelled as such
+export const scenarioLabel = (scenario: StressScenario, t: (key: MessageKey) => string): string =>
+  PRESET_KEYS[scenario.id] ? t(PRESET_KEYS[scenario.id]) : scenario.id === CUSTOM_SCENARIO_ID ? t('stress.custom') : scenario.name;
+
+const toDraft = (shock: Shock): ShockDraft => ({
+  type: shock.type ?? '',
+  region: shock.region ?? '',
+  assetId: shock.assetId ?? '',
+  change: String(Math.round(shock.change * 10000) / 100)
+});
+
+const fromDraft = (draft: ShockDraft): Shock => ({
+  ...(draft.type ? { type: draft.type } : {}),
+  ...(draft.region ? { region: draft.region } : {}),
+  ...(draft.assetId ? { assetId: draft.assetId } : {}),
+  change: draft.change.trim() === '' ? NaN : Number(draft.change) / 100
+});
+
+const EMPTY_DRAFT: ShockDraft = { type: '', region: '', assetId: '', change: '-20' };
+
+const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200";
+
+const StressTestPanel: React.FC<StressTestPanelProps> = ({ assets, relationships, cash, scenario, onScenarioChange }) => {
+  const { format } = useCurrency();
+  const { t, typeLabel, regionLabel, formatPercent, formatNumber } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [drafts, setDrafts] = useState<ShockDraft[]>(() => scenario ? scenario.shocks.map(toDraft) : [EMPTY_DRAFT]);
+  const [errors, setErrors] = useState<StressIssue[]>([]);
+
+  const result = useMemo(
+    () => scenario ? runStressTest(assets, relationships, scenario, cash) : null,
+    [assets, relationships, scenario, cash]
+  );
+
+  // Fewer paths than the main risk card: this runs twice per scenario and only needs to show the shift
+  const risk = useMemo(() => result && {
+    before: analyzePortfolioRisk(assets, relationships, { cash, scenarios: 2000 }),
+    after: analyzePortfolioRisk(result.stressedAssets, relationships, { cash, scenarios: 2000 })
+  }, [result, assets, relationships, cash]);
+
+  const assetName = (id: string) => assets.find(a => a.id === id)?.name ?? id;
+
+  const issueLabel = (issue: StressIssue): string => {
+    switch (issue.kind) {
+      case 'noShocks':
+        return t('stress.issueNoShocks');
+      case 'changeRange':
+        return t('stress.issueChangeRange', { n: issue.shock, max: formatPercent(MAX_SHOCK, 0), value: String(issue.value) });
+      case 'unknownType':
+        return t('stress.issueUnknownType', { n: issue.shock, value: issue.value });
+      case 'unknownRegion':
+        return t('stress.issueUnknownRegion', { n: issue.shock, value: issue.value });
+      case 'unknownAsset':
+        return t('stress.issueUnknownAsset', { n: issue.shock, value: issue.value });
+    }
+  };
+
+  const warningLabel = (warning: StressWarning): string => {
+    switch (warning.kind) {
+      case 'unmatchedShock':
+        return t('stress.warnUnmatched', { n: warning.shock });
+      case 'circularOwnership':
+        return t('stress.warnCircular', { name: warning.name });
+      case 'stakesExceedValue':
+        return t('stress.warnStakes', { name: warning.name });
+    }
+  };
+
+  const selectScenario = (id: string) => {
+    setErrors([]);
+    if (id === '') {
+      onScenarioChange(null);
+      setEditing(false);
+      return;
+    }
+    if (id === CUSTOM_SCENARIO_ID) {
+      setEditing(true);
+      return;
+    }
+    const preset = STRESS_PRESETS.find(p => p.id === id)!;
+    onScenarioChange(preset);
+    setDrafts(preset.shocks.map(toDraft));
+  };
+
+  const updateDraft = (index: number, changes: Partial<ShockDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  const runCustom = () => {
+    const custom: StressScenario = { id: CUSTOM_SCENARIO_ID, name: t('stress.custom'), shocks: drafts.map(fromDraft) };
+    const issues = validateStressScenario(custom, assets);
+    setErrors(issues);
+    if (issues.length > 0) return;
+    onScenarioChange(custom);
+  };
+
+  // Changes smaller than `threshold` read as flat
+  const changeClass = (value: number, threshold = 0.5) =>
+    value <= -threshold ? 'text-rose-400' : value >= threshold ? 'text-emerald-400' : 'text-slate-500';
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${format(value)}`;
+  const signedPercent = (fraction: number) => `${fraction > 0 ? '+' : ''}${formatPercent(fraction)}`;
+
+  const causeLabel = (impact: StressImpact) => {
+    if (impact.cause === 'direct') return t('stress.causeDirect');
+    if (impact.cause === 'correlated') return t('stress.causeCorrelated', { name: assetName(impact.via!) });
+    if (impact.cause === 'ownership') return t('stress.causeOwnership');
+    return '';
+  };
+
+  const renderAllocation = (title: string, pick: (summary: StressSummary) => Record<string, number>, label: (group: string) => string) => {
+    if (!result) return null;
+    const before = pick(result.before);
+    const after = pick(result.after);
+    return (
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-500 text-left border-b border-slate-700">
+            <th className="py-1.5">{title}</th>
+            <th className="py-1.5 text-right">{t('stress.before')}</th>
+            <th className="py-1.5 text-right">{t('stress.after')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.keys(before).sort((a, b) => before[b] - before[a]).map(group => {
+            const shareBefore = result.before.invested > 0 ? before[group] / result.before.invested : 0;
+            const shareAfter = result.after.invested > 0 ? after[group] / result.after.invested : 0;
+            return (
+              <tr key={group} className="border-b border-slate-800">
+                <td className="py-1.5 text-slate-200">{label(group)}</td>
+                <td className="py-1.5 text-right text-slate-400">{formatPercent(shareBefore)}</td>
+                <td className={`py-1.5 text-right ${changeClass(shareAfter - shareBefore, 0.0005)}`}>{formatPercent(shareAfter)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+
+  const activeId = scenario?.id ?? (editing ? CUSTOM_SCENARIO_ID : '');
+  const affected = result?.impacts.filter(i => Math.abs(i.change) >= 0.5) ?? [];
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl mb-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <span className="w-1 h-4 bg-rose-500 rounded-full"></span>
+          {t('stress.title')}
+        </h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClass} value={activeId} onChange={e => selectScenario(e.target.value)}>
+            <option value="">{t('stress.pick')}</option>
+            {STRESS_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{scenarioLabel(preset, t)}</option>)}
+            <option value={CUSTOM_SCENARIO_ID}>{t('stress.custom')}</option>
+          </select>
+          <button
+            onClick={() => setEditing(prev => !prev)}
+            className={`px-3 py-1 border rounded text-[10px] font-mono ${editing ? 'bg-rose-900/40 border-rose-500/50 text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:text-white'}`}
+          >
+            {t('stress.editShocks')}
+          </button>
+          {scenario && (
+            <button onClick={() => selectScenario('')} className="px-3 py-1 bg-slate-900 border border-slate-600 rounded text-[10px] font-mono text-slate-400 hover:text-white">
+              {t('stress.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] font-mono text-slate-500 mb-4">{t('stress.intro')}</p>
+
+      {editing && (
+        <div className="bg-slate-900/60 border border-slate-700 rounded-lg p-4 mb-4 space-y-2">
+          {drafts.map((draft, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <select className={selectClass} value={draft.type} onChange={e => updateDraft(i, { type: e.target.value as AssetType | '' })}>
+                <option value="">{t('stress.anyType')}</option>
+                {Object.values(AssetType).map(type => <option key={type} value={type}>{typeLabel(type)}</option>)}
+              </select>
+              <select className={selectClass} value={draft.region} onChange={e => updateDraft(i, { region: e.target.value as Region | '' })}>
+                <option value="">{t('stress.anyRegion')}</option>
+                {Object.values(Region).map(region => <option key={region} value={region}>{regionLabel(region)}</option>)}
+              </select>
+              <select className={selectClass} value={draft.assetId} onChange={e => updateDraft(i, { assetId: e.target.value })}>
+                <option value="">{t('stress.anyAsset')}</option>
+                {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+              </select>
+              <input
+                className={`${selectClass} w-20 text-right`}
+                type="number" min={-100} step="any"
+                value={draft.change}
+                title={t('stress.shockChange')}
+                onChange={e => updateDraft(i, { change: e.target.value })}
+              />
+              <span className="text-xs font-mono text-slate-500">%</span>
+              <button
+                onClick={() => setDrafts(prev => prev.filter((_, j) => j !== i))}
+                title={t('stress.removeShock')}
+                className="text-slate-500 hover:text-rose-400 px-1"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {errors.length > 0 && (
+            <ul className="bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+              {errors.map((issue, i) => <li key={i} className="text-[10px] text-rose-300 font-mono">{issueLabel(issue)}</li>)}
+            </ul>
+          )}
+          <div className="flex gap-2 pt-1">
+            <button onClick={() => setDrafts(prev => [...prev, EMPTY_DRAFT])} className="px-3 py-1 bg-slate-800 border border-slate-600 rounded text-[10px] font-mono text-slate-300 hover:text-white">
+              {t('stress.addShock')}
+            </button>
+            <button onClick={runCustom} className="px-3 py-1 bg-rose-700 hover:bg-rose-600 rounded text-[10px] font-mono font-bold text-white">
+              {t('stress.run')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && risk && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 font-mono">
+            <div>
+              <div className="text-[10px] text-slate-500 uppercase">{t('stress.netWorth')}</div>
+              <div className="text-lg text-white font-bold">{format(result.after.netWorth)}</div>
+              <div className={`text-xs ${changeClass(result.change)}`}>{signed(result.change)} ({signedPercent(result.changePct)})</div>
+              <div className="text-[10px] text-slate-600">{t('stress.before')} {format(result.before.netWorth)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-slate-500 uppercase">{t('stress.volatility')}</div>
+              <div className="text-lg text-white font-bold">{formatPercent(risk.after.volatility)}</div>
+              <div className="text-[10px] text-slate-600">{t('stress.before')} {formatPercent(risk.before.volatility)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-slate-500 uppercase">{t('stress.valueAtRisk', { confidence: formatPercent(risk.after.confidence, 0) })}</div>
+              <div className="text-lg text-white font-bold">{format(risk.after.valueAtRisk)}</div>
+              <div className="text-[10px] text-slate-600">{t('stress.before')} {format(risk.before.valueAtRisk)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-slate-500 uppercase">{t('stress.threat')}</div>
+              <div className="text-lg text-white font-bold">{formatNumber(risk.after.threatLevel, { maximumFractionDigits: 1 })}/10</div>
+              <div className="text-[10px] text-slate-600">{t('stress.before')} {formatNumber(risk.before.threatLevel, { maximumFractionDigits: 1 })}/10</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            {renderAllocation(t('stress.byType'), summary => summary.byType, group => typeLabel(group as AssetType))}
+            {renderAllocation(t('stress.byRegion'), summary => summary.byRegion, group => regionLabel(group as Region))}
+
+            <div>
+              <h5 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{t('stress.impacts')}</h5>
+              <ul className="space-y-1.5 text-xs font-mono">
+                {affected.map(impact => (
+                  <li key={impact.id}>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-200 truncate">{impact.name}</span>
+                      <span className={`whitespace-nowrap ${changeClass(impact.change)}`}>{signed(impact.change)} ({signedPercent(impact.changePct)})</span>
+                    </div>
+                    <div className="text-[10px] text-slate-500">
+                      {causeLabel(impact)}
+                      {impact.cause !== 'ownership' && Math.abs(impact.passThrough) >= 0.5 && ` · ${t('stress.passThrough', { amount: signed(impact.passThrough) })}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {result.impacts.length > affected.length && (
+                <p className="text-[10px] font-mono text-slate-600 mt-2">{t('stress.unaffected', { count: result.impacts.length - affected.length })}</p>
+              )}
+            </div>
+          </div>
+
+          {result.warnings.length > 0 && (
+            <div className="text-[10px] font-mono text-amber-400 space-y-0.5">
+              {result.warnings.map((warning, i) => <p key={i}>⚠ {warningLabel(warning)}</p>)}
+            </div>
+          )}
+          <p className="text-[10px] font-mono text-slate-500">{t('stress.nexusHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StressTestPanel;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { AllocationTarget, AssetType, Region, TargetAllocation } from '../types';
+import { AllocationDimension, ILLIQUID_TYPES, validateTargetAllocation } from '../services/rebalanceService';
+import { useI18n } from './I18nProvider';
+
+interface TargetAllocationEditorProps {
+  targets: TargetAllocation;
+  onSave: (targets: TargetAllocation) => void;
+  onClose: () => void;
+}
+
+interface TargetRow {
+  weight: string; // Percent, blank for no target
+  band: string; // Percent
+}
+
+type TargetForm = Record<AllocationDimension, Record<string, TargetRow>>;
+
+const DEFAULT_BAND = '5';
+
+const inputClass = "w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-100 text-right focus:outline-none focus:border-cyan-500";
+
+const toPercent = (fraction: number) => String(Math.round(fraction * 10000) / 100);
+
+const toRows = (groups: string[], targets: Partial<Record<string, AllocationTarget>>) =>
+  Object.fromEntries(groups.map(group => {
+    const target = targets[group];
+    return [group, target ? { weight: toPercent(target.weight), band: toPercent(target.band) } : { weight: '', band: DEFAULT_BAND }];
+  })) as Record<string, TargetRow>;
+
+const toForm = (targets: TargetAllocation): TargetForm => ({
+  type: toRows(Object.values(AssetType), targets.byType),
+  region: toRows(Object.values(Region), targets.byRegion)
+});
+
+// Blank rows have no target. Anything else is passed through as a number so validation can report it.
+const fromRows = (rows: Record<string, TargetRow>) =>
+  Object.fromEntries(Object.entries(rows)
+    .filter(([, row]) => row.weight.trim() !== '')
+    .map(([group, row]) => [group, { weight: Number(row.weight) / 100, band: Number(row.band || 0) / 100 }]));
+
+const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ targets, onSave, onClose }) => {
+  const { t, typeLabel, regionLabel, formatPercent } = useI18n();
+  const [form, setForm] = useState<TargetForm>(() => toForm(targets));
+  const [minTrade, setMinTrade] = useState(String(targets.minTrade));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const updateRow = (dimension: AllocationDimension, group: string, changes: Partial<TargetRow>) =>
+    setForm(prev => ({ ...prev, [dimension]: { ...prev[dimension], [group]: { ...prev[dimension][group], ...changes } } }));
+
+  const clearAll = () => setForm(toForm({ byType: {}, byRegion: {}, minTrade: 0 }));
+
+  const handleSave = () => {
+    const next: TargetAllocation = {
+      byType: fromRows(form.type),
+      byRegion: fromRows(form.region),
+      minTrade: minTrade.trim() === '' ? 0 : Number(minTrade)
+    };
+    const issues = validateTargetAllocation(next);
+    setErrors(issues);
+    if (issues.length > 0) return;
+    onSave(next);
+    onClose();
+  };
+
+  const renderGroup = (dimension: AllocationDimension, title: string, label: (group: string) => string) => {
+    const rows: Record<string, TargetRow> = form[dimension];
+    const total = Object.values(rows).reduce((sum, row) => sum + (Number(row.weight) || 0), 0);
+    return (
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-500 text-left border-b border-slate-700">
+            <th className="py-2">{title}</th>
+            <th className="py-2 text-right">{t('targets.weight')}</th>
+            <th className="py-2 text-right">{t('targets.band')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(rows).map(([group, row]: [string, TargetRow]) => (
+            <tr key={group} className="border-b border-slate-800">
+              <td className="py-1.5 text-slate-200">
+                {label(group)}
+                {dimension === 'type' && ILLIQUID_TYPES.includes(group as AssetType) && (
+                  <span className="ml-2 text-[10px] text-amber-500" title={t('targets.illiquidTitle')}>🔒 {t('targets.illiquid')}</span>
+                )}
+              </td>
+              <td className="py-1.5 text-right">
+                <input
+                  className={inputClass}
+                  type="number" min={0} max={100} step="any"
+                  value={row.weight}
+                  onChange={e => updateRow(dimension, group, { weight: e.target.value })}
+                />
+              </td>
+              <td className="py-1.5 text-right">
+                <input
+                  className={inputClass}
+                  type="number" min={0} max={50} step="any"
+                  value={row.band}
+                  disabled={row.weight.trim() === ''}
+                  onChange={e => updateRow(dimension, group, { band: e.target.value })}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={3} className={`pt-2 text-right ${total > 100 ? 'text-rose-400' : 'text-slate-500'}`}>
+              {t('targets.total', { percent: formatPercent(total / 100) })}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-black text-white uppercase tracking-widest">{t('targets.title')}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-xs text-slate-400">{t('targets.intro')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderGroup('type', t('rebalance.byType'), group => typeLabel(group as AssetType))}
+            {renderGroup('region', t('rebalance.byRegion'), group => regionLabel(group as Region))}
+          </div>
+
+          <label className="flex items-center gap-3 text-xs font-mono text-slate-400">
+            {t('targets.minTrade')}
+            <input
+              className={`${inputClass} w-28`}
+              type="number" min={0} step="any"
+              value={minTrade}
+              onChange={e => setMinTrade(e.target.value)}
+            />
+          </label>
+
+          {errors.length > 0 && (
+            <ul className="bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+              {errors.map((message, i) => (
+                <li key={i} className="text-[10px] text-rose-300 font-mono break-words">{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-between gap-3">
+          <button onClick={clearAll} className="px-4 py-2 bg-slate-800 border border-slate-600 text-rose-300 font-bold rounded">{t('targets.clear')}</button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 bg-slate-800 border border-slate-600 text-slate-300 font-bold rounded">{t('common.cancel')}</button>
+            <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded shadow-lg">{t('common.save')}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TargetAllocationEditor;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { CycleStage, GameState } from '../types';
+import { CYCLE_STAGES } from '../services/marketModel';
+import { getNetWorth, TurnReport } from '../services/gameEngine';
+import { useCurrency } from './CurrencyProvider';
+import { useI18n } from './I18nProvider';
+
+interface TurnHudProps {
+  gameState: GameState;
+  lastTurn: TurnReport | null;
+  onEndTurn: () => void;
+}
+
+const STAGE_STYLES: Record<CycleStage, { icon: string; text: string; bg: string }> = {
+  EXPANSION: { icon: '↗', text: 'text-emerald-400', bg: 'bg-emerald-500' },
+  PEAK: { icon: '⌃', text: 'text-amber-400', bg: 'bg-amber-500' },
+  CONTRACTION: { icon: '↘', text: 'text-rose-400', bg: 'bg-rose-500' },
+  TROUGH: { icon: '⌄', text: 'text-cyan-400', bg: 'bg-cyan-500' }
+};
+
+const TurnHud: React.FC<TurnHudProps> = ({ gameState, lastTurn, onEndTurn }) => {
+  const { format, formatExact } = useCurrency();
+  const { t, stageLabel } = useI18n();
+  const stage = STAGE_STYLES[gameState.cycleStage];
+  const year = Math.floor(gameState.turn / 4) + 1;
+  const quarter = (gameState.turn % 4) + 1;
+  const change = lastTurn ? lastTurn.netWorthAfter - lastTurn.netWorthBefore : 0;
+
+  return (
+    <div className="space-y-3">
+      {/* Compact badge for the collapsed sidebar */}
+      <div className={`md:hidden text-center text-2xl ${stage.text}`} title={stageLabel(gameState.cycleStage)}>{stage.icon}</div>
+
+      <div className="hidden md:block">
+        <div className="flex justify-between items-baseline">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('turn.macroCycle')}</span>
+          <span className="text-[10px] font-mono text-slate-400">{t('turn.clock', { year, quarter, turn: gameState.turn })}</span>
+        </div>
+        <div className={`mt-1 font-black tracking-wider ${stage.text}`}>
+          {stage.icon} {stageLabel(gameState.cycleStage)}
+        </div>
+        <div className="flex gap-1 mt-2">
+          {CYCLE_STAGES.map(s => (
+            <div
+              key={s}
+              title={stageLabel(s)}
+              className={`h-1 flex-1 rounded-full ${s === gameState.cycleStage ? STAGE_STYLES[s].bg : 'bg-slate-700'}`}
+            />
+          ))}
+        </div>
+
+        <div className="mt-3 space-y-1 text-xs font-mono">
+          <div className="flex justify-between">
+            <span className="text-slate-500">{t('turn.cash')}</span>
+            <span className="text-slate-200">{format(gameState.cash)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">{t('turn.netWorth')}</span>
+            <span className="text-slate-200">{format(getNetWorth(gameState))}</span>
+          </div>
+          {lastTurn && (
+            <div className="flex justify-between" title={t('turn.incomePaid', { amount: formatExact(lastTurn.income) })}>
+              <span className="text-slate-500">{t('turn.lastTurn')}</span>
+              <span className={change >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                {change >= 0 ? '▲' : '▼'} {format(Math.abs(change))}
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={onEndTurn}
+        className="w-full px-2 py-2 bg-cyan-700 hover:bg-cyan-600 text-white font-bold text-xs rounded shadow-lg border-b-2 border-cyan-900 active:border-b-0 active:translate-y-px transition-all"
+        title={t('turn.endTitle')}
+      >
+        <span className="hidden md:inline">{t('turn.end')}</span>
+        <span className="md:hidden">▸</span>
+      </button>
+    </div>
+  );
+};
+
+export default TurnHud;
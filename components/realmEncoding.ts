@@ -0,0 +1,75 @@
+import * as d3 from 'd3';
+import { AssetType } from '../types';
+import { RealmMetric } from '../services/realmMetricService';
+
+// How Realm metrics become building heights and colors. Domains are fitted across every holding,
+// not just the visible sector, so switching tabs keeps the scale.
+
+export type ColorEncoding = RealmMetric | 'type';
+
+export const MIN_HEIGHT = 1.5;
+export const MAX_HEIGHT = 12;
+export const MISSING_COLOR = 0x475569; // Slate, for holdings without a value for the metric
+
+// Color mapping for 3D materials
+export const TYPE_COLORS: Record<AssetType, number> = {
+  [AssetType.STOCK]: 0x3b82f6, // Blue
+  [AssetType.REAL_ESTATE]: 0xf59e0b, // Amber
+  [AssetType.BOND]: 0x10b981, // Emerald
+  [AssetType.CRYPTO]: 0xa855f7, // Purple
+  [AssetType.PRIVATE_EQUITY]: 0xf43f5e, // Rose
+  [AssetType.CASH]: 0x64748b // Slate
+};
+
+interface MetricScale {
+  log?: boolean; // Spread over orders of magnitude; values below 1 count as 1
+  diverging?: boolean; // Centred on zero, so gains and losses read as opposite colors
+  domain?: [number, number]; // Fixed instead of fitted to the holdings
+  interpolate: (t: number) => string;
+}
+
+const METRIC_SCALES: Record<RealmMetric, MetricScale> = {
+  value: { log: true, interpolate: d3.interpolateViridis },
+  roi: { diverging: true, interpolate: d3.interpolateRdYlGn },
+  risk: { domain: [1, 10], interpolate: d3.interpolateYlOrRd },
+  income: { log: true, interpolate: d3.interpolatePlasma },
+  change: { diverging: true, interpolate: d3.interpolateRdYlGn }
+};
+
+const clamp01 = (t: number) => Math.max(0, Math.min(1, t));
+
+// Range the scale spans: fixed, symmetric around zero for diverging metrics, else min to max
+export const metricDomain = (metric: RealmMetric, values: (number | null)[]): [number, number] => {
+  const scale = METRIC_SCALES[metric];
+  if (scale.domain) return scale.domain;
+  const known = values.filter((v): v is number => v !== null && Number.isFinite(v));
+  if (known.length === 0) return scale.diverging ? [-1, 1] : [0, 1];
+  if (scale.diverging) {
+    const reach = Math.max(...known.map(Math.abs)) || 1;
+    return [-reach, reach];
+  }
+  return [Math.min(...known), Math.max(...known)];
+};
+
+// Position of `value` along the domain, 0-1
+const position = (metric: RealmMetric, value: number, domain: [number, number]): number => {
+  const f = METRIC_SCALES[metric].log ? (v: number) => Math.log10(Math.max(1, v)) : (v: number) => v;
+  const low = f(domain[0]);
+  const high = f(domain[1]);
+  return high > low ? clamp01((f(value) - low) / (high - low)) : 0.5;
+};
+
+export const metricHeight = (metric: RealmMetric, value: number | null, domain: [number, number]): number =>
+  value === null ? MIN_HEIGHT : MIN_HEIGHT + (MAX_HEIGHT - MIN_HEIGHT) * position(metric, value, domain);
+
+export const metricColor = (metric: RealmMetric, value: number | null, domain: [number, number]): number => {
+  if (value === null) return MISSING_COLOR;
+  const { r, g, b } = d3.rgb(METRIC_SCALES[metric].interpolate(position(metric, value, domain)));
+  return (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b);
+};
+
+// CSS gradient matching metricColor from the low to the high end of the domain, for legends
+export const metricGradient = (metric: RealmMetric): string =>
+  `linear-gradient(to right, ${d3.range(0, 1.0001, 0.1).map((t: number) => METRIC_SCALES[metric].interpolate(t)).join(', ')})`;
+
+export const isDiverging = (metric: RealmMetric): boolean => Boolean(METRIC_SCALES[metric].diverging);
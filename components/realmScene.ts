@@ -0,0 +1,789 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { CELL_SIZE } from '../constants';
+import { SPECIAL_TILES, TileKind } from '../services/placementService';
+
+// Three.js side of the Realm board. The scene is built once per mount and kept alive: GridRealm
+// pushes building specs in whenever holdings or their encoding change, and only the differences are
+// animated: new buildings grow in, removed ones sink away, moved ones slide, heights and colors ease.
+// Every building shares three draw calls: instanced shells, instanced cores and one batched edge
+// mesh, so hundreds stay smooth.
+// The board itself (floor, grid lines, special tiles) is rebuilt whenever its size changes.
+// Buildings can be moved with a mouse or pen (press and drag), touch (long-press, then drag) or the
+// keyboard (arrows to focus, Enter to pick up and drop, Escape to cancel).
+
+type Cell = { x: number; y: number };
+
+export interface BoardSize {
+  width: number; // Columns
+  height: number; // Rows
+}
+
+export interface BuildingSpec {
+  id: string;
+  cell: Cell; // 1-based, like Asset.gridPosition
+  height: number;
+  color: number;
+}
+
+// 'unchanged' slides the building back quietly; 'rejected' also flashes it to show the drop failed
+export type DropResult = 'moved' | 'unchanged' | 'rejected';
+
+export interface RealmSceneCallbacks {
+  // Where tooltips should point: the pointer, or the keyboard-focused building
+  onAnchorMove: (clientX: number, clientY: number) => void;
+  onHover: (id: string | null) => void;
+  onFocus: (id: string) => void; // Keyboard focus moved to a building
+  onDragStart: (id: string) => void;
+  // Returns the highlight color for the cell now under the dragged building; null is off the board
+  onDragOver: (id: string, cell: Cell | null) => number;
+  // The pointer position, when there is one, lets the view handle drops outside the canvas
+  onDrop: (id: string, cell: Cell | null, pointer?: { clientX: number; clientY: number }) => DropResult;
+  onDragCancel: (id: string) => void;
+}
+
+export interface RealmScene {
+  setBoard: (board: BoardSize) => void;
+  setBuildings: (specs: BuildingSpec[]) => void;
+  dispose: () => void;
+}
+
+export const TILE_COLORS: Record<TileKind, number> = {
+  TAX_HAVEN: 0x22c55e,
+  FLOOD_ZONE: 0x0284c7,
+  INNOVATION_PARK: 0xd946ef
+};
+
+const INITIAL_CAPACITY = 64; // Instances; doubled whenever the board outgrows it
+const TWEEN_RATE = 10; // Per second; higher settles faster
+const DRAG_LIFT = 1;
+const HOVER_TINT = 0.2; // Share of white mixed into a hovered building's color
+const DRAG_TINT = 0.5;
+const REJECT_SECONDS = 0.6; // Red flash and shake after a rejected drop
+const REJECT_COLOR = new THREE.Color(0xf43f5e);
+const LONG_PRESS_MS = 450;
+const LONG_PRESS_SLOP = 10; // Pixels a finger may wander before the press counts as a pan
+
+interface Building {
+  id: string;
+  home: Cell; // Where the latest spec puts it
+  color: THREE.Color; // Current, eased towards targetColor like the geometry
+  targetColor: THREE.Color;
+  // Current, animated towards `target`
+  x: number;
+  z: number;
+  height: number;
+  target: { x: number; z: number; height: number };
+  removing: boolean;
+  flash: number; // 1 right after a rejected drop, easing to 0
+}
+
+const inBoard = (cell: Cell, board: BoardSize) =>
+  cell.x >= 1 && cell.x <= board.width && cell.y >= 1 && cell.y <= board.height;
+
+const clampCell = (cell: Cell, board: BoardSize): Cell => ({
+  x: Math.max(1, Math.min(board.width, cell.x)),
+  y: Math.max(1, Math.min(board.height, cell.y))
+});
+
+// The board is centred on the origin
+export const cellToWorld = (cell: Cell, board: BoardSize) => ({
+  x: (cell.x - 1 - board.width / 2 + 0.5) * CELL_SIZE,
+  z: (cell.y - 1 - board.height / 2 + 0.5) * CELL_SIZE
+});
+
+// May fall outside the board; see inBoard
+const worldToCell = (x: number, z: number, board: BoardSize): Cell => ({
+  x: Math.floor(x / CELL_SIZE + board.width / 2) + 1,
+  y: Math.floor(z / CELL_SIZE + board.height / 2) + 1
+});
+
+// Cell lines for a board of any shape; the outline is brighter than the inner lines
+const createGridLines = (board: BoardSize): THREE.LineSegments => {
+  const halfW = board.width * CELL_SIZE / 2;
+  const halfD = board.height * CELL_SIZE / 2;
+  const outline = new THREE.Color(0x38bdf8);
+  const inner = new THREE.Color(0x475569);
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const line = (x1: number, z1: number, x2: number, z2: number, c: THREE.Color) => {
+    positions.push(x1, 0, z1, x2, 0, z2);
+    colors.push(c.r, c.g, c.b, c.r, c.g, c.b);
+  };
+  for (let i = 0; i <= board.width; i++) {
+    const x = -halfW + i * CELL_SIZE;
+    line(x, -halfD, x, halfD, i === 0 || i === board.width ? outline : inner);
+  }
+  for (let j = 0; j <= board.height; j++) {
+    const z = -halfD + j * CELL_SIZE;
+    line(-halfW, z, halfW, z, j === 0 || j === board.height ? outline : inner);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.5 }));
+};
+
+export const createRealmScene = (container: HTMLElement, initialBoard: BoardSize, callbacks: RealmSceneCallbacks): RealmScene => {
+  // --- SCENE SETUP ---
+  const scene = new THREE.Scene();
+  scene.fog = new THREE.FogExp2(0x0f172a, 0.01); // Lighter fog color and less density
+  scene.background = new THREE.Color(0x0f172a); // Lighter background
+
+  // Camera
+  const camera = new THREE.PerspectiveCamera(45, container.clientWidth / container.clientHeight, 0.1, 1000);
+  camera.position.set(30, 35, 30);
+  camera.lookAt(0, 0, 0);
+
+  // Renderer
+  const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, powerPreference: "high-performance" });
+  renderer.setSize(container.clientWidth, container.clientHeight);
+  renderer.setPixelRatio(window.devicePixelRatio);
+  renderer.shadowMap.enabled = true;
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+  renderer.toneMapping = THREE.ACESFilmicToneMapping;
+  renderer.toneMappingExposure = 1.2; // Increased exposure
+  container.appendChild(renderer.domElement);
+
+  // Controls
+  const controls = new OrbitControls(camera, renderer.domElement);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.05;
+  controls.maxPolarAngle = Math.PI / 2 - 0.1;
+  controls.minDistance = 10;
+  controls.maxDistance = 100;
+  controls.autoRotate = true;
+  controls.autoRotateSpeed = 0.5;
+
+  // --- LIGHTING ---
+  // 1. Ambient Fill: Significantly brighter
+  const hemiLight = new THREE.HemisphereLight(0x334155, 0x0f172a, 1.5);
+  scene.add(hemiLight);
+
+  // 2. Key Light: Brighter sun
+  const dirLight = new THREE.DirectionalLight(0xffffff, 2.5);
+  dirLight.position.set(20, 50, 20);
+  dirLight.castShadow = true;
+  dirLight.shadow.mapSize.width = 2048;
+  dirLight.shadow.mapSize.height = 2048;
+  dirLight.shadow.camera.near = 0.5;
+  dirLight.shadow.camera.far = 100;
+  dirLight.shadow.camera.left = -30;
+  dirLight.shadow.camera.right = 30;
+  dirLight.shadow.camera.top = 30;
+  dirLight.shadow.camera.bottom = -30;
+  dirLight.shadow.bias = -0.0005;
+  scene.add(dirLight);
+
+  // 3. Rim Light
+  const spotLightCyan = new THREE.SpotLight(0x06b6d4, 800);
+  spotLightCyan.position.set(-40, 20, 40);
+  spotLightCyan.lookAt(0, 0, 0);
+  scene.add(spotLightCyan);
+
+  // 4. Accent Light
+  const pointLightMagenta = new THREE.PointLight(0xd946ef, 300, 60);
+  pointLightMagenta.position.set(30, 10, -30);
+  scene.add(pointLightMagenta);
+
+  // --- THE BOARD ---
+  let board: BoardSize = { width: 0, height: 0 };
+  const boardGroup = new THREE.Group();
+  scene.add(boardGroup);
+
+  // Frees whatever the group holds; shared geometries and materials are only disposed once
+  const disposeObjects = (root: THREE.Object3D) => {
+    const geometries = new Set<THREE.BufferGeometry>();
+    const materials = new Set<THREE.Material>();
+    root.traverse((object: THREE.Object3D) => {
+      const { geometry, material } = object as THREE.Mesh;
+      if (geometry) geometries.add(geometry);
+      if (material) (Array.isArray(material) ? material : [material]).forEach((m: THREE.Material) => materials.add(m));
+      if ((object as THREE.InstancedMesh).isInstancedMesh) (object as THREE.InstancedMesh).dispose();
+      if ((object as THREE.Light).isLight) (object as THREE.Light).dispose();
+    });
+    geometries.forEach(geometry => geometry.dispose());
+    materials.forEach(material => material.dispose());
+  };
+
+  const setBoard = (next: BoardSize) => {
+    if (next.width === board.width && next.height === board.height) return;
+    board = { ...next };
+    disposeObjects(boardGroup);
+    boardGroup.clear();
+
+    const boardWidth = board.width * CELL_SIZE;
+    const boardDepth = board.height * CELL_SIZE;
+
+    // Grid Lines - Lighter and more opaque
+    const gridLines = createGridLines(board);
+    gridLines.position.y = 0.02;
+    boardGroup.add(gridLines);
+
+    // Reflective Floor - Lighter base color
+    const platform = new THREE.Mesh(
+      new THREE.PlaneGeometry(boardWidth, boardDepth),
+      new THREE.MeshStandardMaterial({
+        color: 0x1e293b, // Slate-800 instead of 950
+        roughness: 0.2,
+        metalness: 0.6 // Less metalness to reflect more diffuse light
+      })
+    );
+    platform.rotation.x = -Math.PI / 2;
+    platform.receiveShadow = true;
+    boardGroup.add(platform);
+
+    // Special tiles, tinted by kind; one geometry and one material per kind
+    const tileGeo = new THREE.PlaneGeometry(CELL_SIZE * 0.96, CELL_SIZE * 0.96);
+    const tileMaterials = new Map<TileKind, THREE.MeshBasicMaterial>();
+    SPECIAL_TILES.filter(tile => tile.x <= board.width && tile.y <= board.height).forEach(tile => {
+      if (!tileMaterials.has(tile.kind)) {
+        tileMaterials.set(tile.kind, new THREE.MeshBasicMaterial({ color: TILE_COLORS[tile.kind], transparent: true, opacity: 0.35 }));
+      }
+      const mesh = new THREE.Mesh(tileGeo, tileMaterials.get(tile.kind)!);
+      const { x, z } = cellToWorld(tile, board);
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.set(x, 0.03, z);
+      boardGroup.add(mesh);
+    });
+
+    // Keep large boards shadowed, reachable and out of the fog
+    const reach = Math.max(boardWidth, boardDepth) / 2;
+    const shadowExtent = Math.max(30, reach + 10);
+    dirLight.shadow.camera.left = dirLight.shadow.camera.bottom = -shadowExtent;
+    dirLight.shadow.camera.right = dirLight.shadow.camera.top = shadowExtent;
+    dirLight.shadow.camera.far = Math.max(100, reach * 3);
+    dirLight.shadow.camera.updateProjectionMatrix();
+    controls.maxDistance = Math.max(100, reach * 4);
+    scene.fog.density = 0.01 * Math.min(1, 20 / reach);
+
+    // Buildings keep their cells, so their positions move with the board's centre
+    buildings.forEach(b => {
+      if (b.removing) return;
+      const { x, z } = cellToWorld(b.home, board);
+      b.target = { ...b.target, x, z };
+    });
+    dirty = true;
+  };
+
+  // Drag Highlight (Ghost Square)
+  const highlightMat = new THREE.MeshBasicMaterial({ color: 0x06b6d4, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
+  const highlightMesh = new THREE.Mesh(new THREE.PlaneGeometry(CELL_SIZE, CELL_SIZE), highlightMat);
+  highlightMesh.rotation.x = -Math.PI / 2;
+  highlightMesh.position.y = 0.05;
+  highlightMesh.visible = false;
+  scene.add(highlightMesh);
+
+  // --- BUILDINGS ---
+  // Unit-height geometry, scaled per instance. Instance colors multiply the white base materials.
+  const shellGeo = new THREE.BoxGeometry(CELL_SIZE * 0.75, 1, CELL_SIZE * 0.75);
+  const coreGeo = new THREE.BoxGeometry(CELL_SIZE * 0.4, 1, CELL_SIZE * 0.4);
+  const shellMat = new THREE.MeshPhysicalMaterial({
+    color: 0xffffff,
+    roughness: 0.2,
+    metalness: 0.1,
+    transmission: 0.6,
+    thickness: 1.0,
+    opacity: 0.9,
+    transparent: true
+  });
+  const coreMat = new THREE.MeshBasicMaterial({ color: 0xffffff });
+  const edgeMat = new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.5 });
+
+  // Outline of one unit shell; every building's edges are written into one shared buffer
+  const unitEdges = new THREE.EdgesGeometry(shellGeo);
+  const edgeTemplate = Float32Array.from(unitEdges.getAttribute('position').array as ArrayLike<number>);
+  unitEdges.dispose();
+
+  const buildingsGroup = new THREE.Group();
+  scene.add(buildingsGroup);
+
+  let capacity = 0;
+  let shells: THREE.InstancedMesh | null = null;
+  let cores: THREE.InstancedMesh | null = null;
+  let edgeGeo: THREE.BufferGeometry | null = null;
+  const edges = new THREE.LineSegments(new THREE.BufferGeometry(), edgeMat);
+  edges.frustumCulled = false; // Its bounds change with every move; the board is always in view anyway
+  buildingsGroup.add(edges);
+
+  // Instanced meshes have a fixed size, so grow by replacing them (geometry and materials are shared)
+  const ensureCapacity = (needed: number) => {
+    if (needed <= capacity) return;
+    capacity = Math.max(needed, capacity * 2, INITIAL_CAPACITY);
+
+    [shells, cores].forEach(mesh => {
+      if (!mesh) return;
+      buildingsGroup.remove(mesh);
+      mesh.dispose();
+    });
+    shells = new THREE.InstancedMesh(shellGeo, shellMat, capacity);
+    shells.castShadow = true;
+    shells.receiveShadow = true;
+    cores = new THREE.InstancedMesh(coreGeo, coreMat, capacity);
+    [shells, cores].forEach(mesh => {
+      mesh!.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+      mesh!.count = 0;
+      buildingsGroup.add(mesh);
+    });
+
+    edges.geometry.dispose();
+    edgeGeo = new THREE.BufferGeometry();
+    edgeGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * edgeTemplate.length), 3).setUsage(THREE.DynamicDrawUsage));
+    edges.geometry = edgeGeo;
+  };
+
+  let buildings: Building[] = [];
+  let hoveredId: string | null = null;
+  let draggedId: string | null = null;
+  let dragPointerId: number | null = null; // Null while the keyboard carries the building
+  let dragCell: Cell | null = null; // Null before the first move, or while off the board
+  let dragKey = ''; // Cell last reported to onDragOver, 'outside' off the board, '' before the first move
+  let dirty = true;
+
+  // Scratch objects, reused every frame
+  const matrix = new THREE.Matrix4();
+  const position = new THREE.Vector3();
+  const scale = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const vertex = new THREE.Vector3();
+  const color = new THREE.Color();
+  const white = new THREE.Color(0xffffff);
+
+  // Writes every building's matrices, colors and edges into the instance buffers
+  const writeInstances = () => {
+    if (!shells || !cores || !edgeGeo) return;
+    const edgeArray = edgeGeo.getAttribute('position').array as Float32Array;
+
+    buildings.forEach((b, i) => {
+      const lift = b.id === draggedId ? DRAG_LIFT : 0;
+      const shake = b.flash > 0 ? Math.sin(b.flash * 40) * 0.3 * b.flash : 0;
+      position.set(b.x + shake, b.height / 2 + lift, b.z);
+      scale.set(1, Math.max(0.001, b.height), 1);
+      matrix.compose(position, rotation, scale);
+      shells!.setMatrixAt(i, matrix);
+      for (let v = 0; v < edgeTemplate.length; v += 3) {
+        vertex.fromArray(edgeTemplate, v).applyMatrix4(matrix).toArray(edgeArray, i * edgeTemplate.length + v);
+      }
+
+      scale.y = Math.max(0.001, b.height - 0.2);
+      matrix.compose(position, rotation, scale);
+      cores!.setMatrixAt(i, matrix);
+
+      const tint = b.id === draggedId ? DRAG_TINT : b.id === hoveredId ? HOVER_TINT : 0;
+      shells!.setColorAt(i, color.copy(b.color).lerp(white, tint).lerp(REJECT_COLOR, b.flash * 0.8));
+      cores!.setColorAt(i, color.copy(b.color).lerp(REJECT_COLOR, b.flash * 0.8));
+    });
+
+    [shells, cores].forEach(mesh => {
+      mesh.count = buildings.length;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+    // Raycasting and culling use the instance bounds
+    shells.computeBoundingSphere();
+    cores.computeBoundingSphere();
+    edgeGeo.getAttribute('position').needsUpdate = true;
+    edgeGeo.setDrawRange(0, buildings.length * edgeTemplate.length / 3);
+  };
+
+  // Eases every building towards its target; returns whether anything is still moving
+  const step = (dt: number): boolean => {
+    const k = 1 - Math.exp(-dt * TWEEN_RATE);
+    let moving = false;
+    buildings.forEach(b => {
+      (['x', 'z', 'height'] as const).forEach(key => {
+        const diff = b.target[key] - b[key];
+        if (Math.abs(diff) > 0.001) {
+          b[key] += diff * k;
+          moving = true;
+        } else {
+          b[key] = b.target[key];
+        }
+      });
+      const { r, g, b: blue } = b.targetColor;
+      if (Math.abs(b.color.r - r) + Math.abs(b.color.g - g) + Math.abs(b.color.b - blue) > 0.003) {
+        b.color.lerp(b.targetColor, k);
+        moving = true;
+      } else {
+        b.color.copy(b.targetColor);
+      }
+      if (b.flash > 0) {
+        b.flash = Math.max(0, b.flash - dt / REJECT_SECONDS);
+        moving = true;
+      }
+    });
+    const before = buildings.length;
+    buildings = buildings.filter(b => !(b.removing && b.height <= 0.001));
+    return moving || buildings.length !== before;
+  };
+
+  const setBuildings = (specs: BuildingSpec[]) => {
+    const byId = new Map(buildings.map(b => [b.id, b]));
+    const present = new Set<string>();
+
+    specs.forEach(spec => {
+      const { x, z } = cellToWorld(spec.cell, board);
+      present.add(spec.id);
+      const existing = byId.get(spec.id);
+      if (!existing) {
+        // New buildings grow up from the board
+        buildings.push({
+          id: spec.id, home: spec.cell, color: new THREE.Color(spec.color), targetColor: new THREE.Color(spec.color),
+          x, z, height: 0, target: { x, z, height: spec.height }, removing: false, flash: 0
+        });
+        return;
+      }
+      existing.home = spec.cell;
+      existing.targetColor.setHex(spec.color);
+      existing.removing = false;
+      // The dragged building follows the pointer until it's dropped
+      existing.target = existing.id === draggedId ? { ...existing.target, height: spec.height } : { x, z, height: spec.height };
+    });
+
+    buildings.forEach(b => {
+      if (present.has(b.id)) return;
+      b.removing = true;
+      b.target = { ...b.target, height: 0 };
+      if (b.id === draggedId) {
+        endDrag();
+        callbacks.onDragCancel(b.id);
+      }
+      if (b.id === hoveredId) setHovered(null);
+    });
+
+    ensureCapacity(buildings.length);
+    dirty = true;
+  };
+
+  // --- INTERACTION ---
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const dragPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0); // Horizontal plane at y=0 for raycasting
+  const planeIntersectPoint = new THREE.Vector3();
+
+  const updatePointer = (event: PointerEvent) => {
+    const rect = renderer.domElement.getBoundingClientRect();
+    pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    raycaster.setFromCamera(pointer, camera);
+  };
+
+  const pick = (): Building | undefined => {
+    if (!shells) return undefined;
+    const hit = raycaster.intersectObject(shells, false).find((h: { instanceId?: number }) =>
+      h.instanceId !== undefined && buildings[h.instanceId] && !buildings[h.instanceId].removing);
+    return hit ? buildings[hit.instanceId] : undefined;
+  };
+
+  const findBuilding = (id: string | null) => (id ? buildings.find(b => b.id === id && !b.removing) : undefined);
+
+  // Points tooltips at a building's roof, for when there is no pointer to follow
+  const anchorTo = (b: Building) => {
+    const rect = renderer.domElement.getBoundingClientRect();
+    vertex.set(b.x, b.height + (b.id === draggedId ? DRAG_LIFT : 0), b.z).project(camera);
+    callbacks.onAnchorMove(rect.left + (vertex.x + 1) / 2 * rect.width, rect.top + (1 - vertex.y) / 2 * rect.height);
+  };
+
+  const setHovered = (id: string | null) => {
+    if (id === hoveredId) return;
+    hoveredId = id;
+    controls.autoRotate = id === null;
+    document.body.style.cursor = id ? 'grab' : 'default';
+    dirty = true;
+    callbacks.onHover(id);
+  };
+
+  // `pointerId` is null when the keyboard picks the building up
+  const startDrag = (building: Building, pointerId: number | null) => {
+    draggedId = building.id;
+    dragPointerId = pointerId;
+    dragCell = null;
+    dragKey = '';
+    controls.enabled = false; // Disable orbit controls
+    // Captured, the pointer keeps reporting moves and the release even outside the canvas
+    if (pointerId !== null) renderer.domElement.setPointerCapture(pointerId);
+    const { x, z } = cellToWorld(building.home, board);
+    highlightMesh.position.set(x, 0.05, z);
+    highlightMesh.visible = true;
+    dirty = true;
+    callbacks.onDragStart(building.id);
+  };
+
+  const endDrag = () => {
+    if (dragPointerId !== null && renderer.domElement.hasPointerCapture(dragPointerId)) {
+      renderer.domElement.releasePointerCapture(dragPointerId);
+    }
+    draggedId = null;
+    dragPointerId = null;
+    dragCell = null;
+    dragKey = '';
+    controls.enabled = true;
+    highlightMesh.visible = false;
+    dirty = true;
+  };
+
+  // Snaps the dragged building to `cell`; off the board it sits on the nearest edge cell, flagged
+  const dragTo = (dragged: Building, cell: Cell) => {
+    const outside = !inBoard(cell, board);
+    const shown = clampCell(cell, board);
+    const { x, z } = cellToWorld(shown, board);
+    dragged.x = dragged.target.x = x;
+    dragged.z = dragged.target.z = z;
+    highlightMesh.position.set(x, 0.05, z);
+    dirty = true;
+
+    const key = outside ? 'outside' : `${shown.x},${shown.y}`;
+    if (key === dragKey) return;
+    dragKey = key;
+    dragCell = outside ? null : shown;
+    highlightMat.color.setHex(callbacks.onDragOver(dragged.id, dragCell));
+  };
+
+  const sendHome = (b: Building) => {
+    b.target = { ...cellToWorld(b.home, board), height: b.target.height };
+  };
+
+  const finishDrag = (at?: { clientX: number; clientY: number }) => {
+    const dragged = findBuilding(draggedId);
+    if (dragged) {
+      // Released before leaving its cell: dropped back home
+      const result = callbacks.onDrop(dragged.id, dragKey === '' ? dragged.home : dragCell, at);
+      if (result !== 'moved') sendHome(dragged);
+      if (result === 'rejected') dragged.flash = 1;
+    }
+    endDrag();
+  };
+
+  const cancelDrag = () => {
+    const dragged = findBuilding(draggedId);
+    endDrag();
+    if (!dragged) return;
+    sendHome(dragged);
+    callbacks.onDragCancel(dragged.id);
+  };
+
+  // A touch on a building becomes a pick-up if held still for LONG_PRESS_MS, a pan if it moves first,
+  // and a tap (showing the building's details) if released early
+  let press: { pointerId: number; clientX: number; clientY: number; id: string; timer: number } | null = null;
+
+  const cancelPress = () => {
+    if (press) window.clearTimeout(press.timer);
+    press = null;
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    if (!event.isPrimary || draggedId) return; // Extra fingers pinch and pan
+    updatePointer(event);
+    const building = pick();
+    if (event.pointerType === 'touch') {
+      if (!building) {
+        setHovered(null);
+        return;
+      }
+      const { pointerId, clientX, clientY } = event;
+      const timer = window.setTimeout(() => {
+        press = null;
+        const held = findBuilding(building.id);
+        if (!held) return;
+        callbacks.onAnchorMove(clientX, clientY);
+        startDrag(held, pointerId);
+        navigator.vibrate?.(15);
+      }, LONG_PRESS_MS);
+      press = { pointerId, clientX, clientY, id: building.id, timer };
+      return;
+    }
+    if (building && event.button === 0) startDrag(building, event.pointerId);
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (press && press.pointerId === event.pointerId &&
+        Math.hypot(event.clientX - press.clientX, event.clientY - press.clientY) > LONG_PRESS_SLOP) {
+      cancelPress();
+    }
+    if (draggedId && dragPointerId === null) return; // The keyboard is carrying a building
+    updatePointer(event);
+    callbacks.onAnchorMove(event.clientX, event.clientY);
+
+    const dragged = findBuilding(draggedId);
+    if (dragged) {
+      // Snap to the cell under the pointer
+      if (event.pointerId === dragPointerId && raycaster.ray.intersectPlane(dragPlane, planeIntersectPoint)) {
+        dragTo(dragged, worldToCell(planeIntersectPoint.x, planeIntersectPoint.z, board));
+      }
+      return; // Skip hover logic while dragging
+    }
+
+    if (event.pointerType !== 'touch') setHovered(pick()?.id ?? null);
+  };
+
+  const onPointerUp = (event: PointerEvent) => {
+    if (press && press.pointerId === event.pointerId) {
+      const tapped = press.id;
+      cancelPress();
+      callbacks.onAnchorMove(event.clientX, event.clientY);
+      setHovered(tapped);
+      return;
+    }
+    if (draggedId && event.pointerId === dragPointerId) finishDrag({ clientX: event.clientX, clientY: event.clientY });
+  };
+
+  const onPointerCancel = (event: PointerEvent) => {
+    if (press && press.pointerId === event.pointerId) cancelPress();
+    if (draggedId && event.pointerId === dragPointerId) cancelDrag();
+  };
+
+  // Long presses would otherwise open the context menu on touch screens
+  const onContextMenu = (event: Event) => {
+    if (press || draggedId) event.preventDefault();
+  };
+
+  // Arrow keys follow the screen, not the board: "up" is whichever board axis points most directly
+  // away from the camera, which changes as the board turns
+  const arrowStep = (key: string): Cell | undefined => {
+    camera.getWorldDirection(vertex);
+    const forward = { x: vertex.x, z: vertex.z };
+    const direction = ({
+      ArrowUp: forward,
+      ArrowDown: { x: -forward.x, z: -forward.z },
+      ArrowRight: { x: -forward.z, z: forward.x },
+      ArrowLeft: { x: forward.z, z: -forward.x }
+    } as Record<string, { x: number; z: number }>)[key];
+    if (!direction) return undefined;
+    return Math.abs(direction.x) >= Math.abs(direction.z)
+      ? { x: Math.sign(direction.x), y: 0 }
+      : { x: 0, y: Math.sign(direction.z) };
+  };
+
+  // Nearest building in the direction of `step`, preferring ones straight ahead
+  const nextBuilding = (from: Cell, step: Cell): Building | undefined => {
+    let best: Building | undefined;
+    let bestScore = Infinity;
+    buildings.forEach(b => {
+      if (b.removing) return;
+      const dx = b.home.x - from.x;
+      const dy = b.home.y - from.y;
+      const ahead = dx * step.x + dy * step.y;
+      if (ahead <= 0) return;
+      const score = ahead + 2 * Math.abs(dx * step.y + dy * step.x);
+      if (score < bestScore) {
+        best = b;
+        bestScore = score;
+      }
+    });
+    return best;
+  };
+
+  const firstBuilding = (): Building | undefined => buildings
+    .filter(b => !b.removing)
+    .sort((a, b) => a.home.y - b.home.y || a.home.x - b.home.x)[0];
+
+  const focusBuilding = (b: Building) => {
+    setHovered(b.id);
+    anchorTo(b);
+    callbacks.onFocus(b.id);
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) return; // Leave undo and browser shortcuts alone
+    const carried = dragPointerId === null ? findBuilding(draggedId) : undefined;
+    if (draggedId && !carried) return; // A pointer drag is in progress
+
+    const step = arrowStep(event.key);
+    if (step) {
+      event.preventDefault();
+      if (carried) {
+        const from = dragCell ?? carried.home;
+        dragTo(carried, clampCell({ x: from.x + step.x, y: from.y + step.y }, board));
+        anchorTo(carried);
+        return;
+      }
+      const current = findBuilding(hoveredId);
+      const next = current ? nextBuilding(current.home, step) : firstBuilding();
+      if (next) focusBuilding(next);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      const focused = findBuilding(hoveredId);
+      if (carried) finishDrag();
+      else if (focused) startDrag(focused, null);
+    } else if (event.key === 'Escape' && carried) {
+      event.preventDefault();
+      cancelDrag();
+    }
+  };
+
+  // Tabbing into the board focuses its first building; a mouse click only focuses the board
+  const onFocusIn = () => {
+    if (!container.matches(':focus-visible') || findBuilding(hoveredId)) return;
+    const first = firstBuilding();
+    if (first) focusBuilding(first);
+  };
+
+  const onFocusOut = () => {
+    if (draggedId && dragPointerId === null) cancelDrag();
+  };
+
+  container.addEventListener('pointerdown', onPointerDown);
+  container.addEventListener('pointermove', onPointerMove);
+  container.addEventListener('pointerup', onPointerUp);
+  container.addEventListener('pointercancel', onPointerCancel);
+  container.addEventListener('contextmenu', onContextMenu);
+  container.addEventListener('keydown', onKeyDown);
+  container.addEventListener('focus', onFocusIn);
+  container.addEventListener('blur', onFocusOut);
+
+  // --- ANIMATION ---
+  let animationId = 0;
+  let time = 0;
+  let last = performance.now();
+
+  const animate = (now: number) => {
+    animationId = requestAnimationFrame(animate);
+    const dt = Math.min(0.1, (now - last) / 1000); // Don't jump after the tab was hidden
+    last = now;
+    time += 0.01;
+    if (step(dt) || dirty) {
+      writeInstances();
+      dirty = false;
+    }
+    controls.update();
+    pointLightMagenta.intensity = 200 + Math.sin(time * 2) * 50;
+    renderer.render(scene, camera);
+  };
+  animationId = requestAnimationFrame(animate);
+
+  const handleResize = () => {
+    const w = container.clientWidth;
+    const h = container.clientHeight;
+    camera.aspect = w / h;
+    camera.updateProjectionMatrix();
+    renderer.setSize(w, h);
+  };
+  window.addEventListener('resize', handleResize);
+
+  // Releases every GPU resource the scene created, shared ones included
+  const dispose = () => {
+    cancelAnimationFrame(animationId);
+    window.removeEventListener('resize', handleResize);
+    cancelPress();
+    container.removeEventListener('pointerdown', onPointerDown);
+    container.removeEventListener('pointermove', onPointerMove);
+    container.removeEventListener('pointerup', onPointerUp);
+    container.removeEventListener('pointercancel', onPointerCancel);
+    container.removeEventListener('contextmenu', onContextMenu);
+    container.removeEventListener('keydown', onKeyDown);
+    container.removeEventListener('focus', onFocusIn);
+    container.removeEventListener('blur', onFocusOut);
+    document.body.style.cursor = 'default';
+    controls.dispose();
+    disposeObjects(scene);
+
+    renderer.dispose();
+    renderer.forceContextLoss();
+    if (container.contains(renderer.domElement)) {
+      container.removeChild(renderer.domElement);
+    }
+  };
+
+  setBoard(initialBoard);
+  return { setBoard, setBuildings, dispose };
+};
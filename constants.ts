@@ -1,4 +1,13 @@
-import { Asset, AssetType, Region, Relationship } from './types';
+import { Asset, AssetType, FxRates, GameState, Region, Relationship, Sector, TargetAllocation, TradeSettings } from './types';
+import { createOpeningEntries } from './services/ledgerService';
+import { createSnapshot } from './services/valuationService';
+
+// Realm board configuration
+export const CELL_SIZE = 4;  // World units per cell
+export const MIN_SECTOR_SIZE = 4;
+export const MAX_SECTOR_SIZE = 30;
+
+export const DEFAULT_SECTOR: Sector = { id: 's1', name: 'Main', width: 10, height: 10 };
 
 export const INITIAL_ASSETS: Asset[] = [
   {
@@ -10,6 +19,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Luxury residential unit in the city core.',
     roi: 0.04,
     risk: 3,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 1, y: 1 }
   },
   {
@@ -21,6 +31,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Major holdings in global technology infrastructure.',
     roi: 0.12,
     risk: 7,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 2, y: 1 }
   },
   {
@@ -32,6 +43,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Diversified renewable energy portfolio.',
     roi: 0.08,
     risk: 5,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 3, y: 1 }
   },
   {
@@ -43,6 +55,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Commercial warehouse distribution center.',
     roi: 0.06,
     risk: 4,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 1, y: 2 }
   },
   {
@@ -54,6 +67,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Safe haven treasury bonds.',
     roi: 0.035,
     risk: 1,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 2, y: 2 }
   },
   {
@@ -65,6 +79,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Digital gold reserve.',
     roi: 0.25,
     risk: 9,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 3, y: 2 }
   },
   {
@@ -76,6 +91,7 @@ export const INITIAL_ASSETS: Asset[] = [
     description: 'Seed round investment in AI hardware.',
     roi: 0.00, // Pre-revenue
     risk: 10,
+    sectorId: DEFAULT_SECTOR.id,
     gridPosition: { x: 4, y: 1 }
   }
 ];
@@ -86,4 +102,43 @@ export const INITIAL_RELATIONSHIPS: Relationship[] = [
   { source: 'a1', target: 'a5', type: 'CORRELATED', strength: 0.5 }, // Real estate linked to rates
   { source: 'a6', target: 'a2', type: 'CORRELATED', strength: 0.6 }, // Crypto correlated with Tech stocks
   { source: 'a4', target: 'a7', type: 'OWNS', strength: 0.1 }, // Logistics owns a part of the chip startup (supply chain)
-];
\ No newline at end of file
+];
+
+export const DEFAULT_TRADE_SETTINGS: TradeSettings = {
+  feeRate: 0.001, // 10 bps
+  minFee: 10,
+  slippage: 0.0025
+};
+
+// No targets until the player sets some; the planner then has nothing to rebalance toward
+export const DEFAULT_TARGET_ALLOCATION: TargetAllocation = {
+  byType: {},
+  byRegion: {},
+  minTrade: 1000
+};
+
+// USD per unit of each currency; editable in game or loadable from a rate file
+export const DEFAULT_FX_RATES: FxRates = {
+  USD: 1,
+  EUR: 1.08,
+  CNY: 0.138,
+  HKD: 0.128,
+  GBP: 1.27,
+  JPY: 0.0067
+};
+
+const INITIAL_CASH = 100000;
+
+export const INITIAL_GAME_STATE: GameState = {
+  assets: INITIAL_ASSETS,
+  relationships: INITIAL_RELATIONSHIPS,
+  cash: INITIAL_CASH,
+  cycleStage: 'EXPANSION',
+  turn: 0,
+  ledger: createOpeningEntries(INITIAL_ASSETS, INITIAL_CASH),
+  tradeSettings: DEFAULT_TRADE_SETTINGS,
+  valuationHistory: [createSnapshot(INITIAL_ASSETS, INITIAL_CASH, 0, DEFAULT_FX_RATES)],
+  fxRates: DEFAULT_FX_RATES,
+  targetAllocation: DEFAULT_TARGET_ALLOCATION,
+  sectors: [DEFAULT_SECTOR]
+};
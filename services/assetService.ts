@@ -0,0 +1,93 @@
+import { Asset, GameState } from "../types";
+import { BoardLayout, findPlacement, getSectorId } from "./sectorService";
+
+type GridPosition = { x: number; y: number };
+
+// Asset ids follow the "a<number>" convention used by the seed data.
+export const generateAssetId = (assets: Asset[]): string => {
+  const highest = assets.reduce((max, asset) => {
+    const match = /^a(\d+)$/.exec(asset.id);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `a${highest + 1}`;
+};
+
+export const addAsset = (state: GameState, draft: Omit<Asset, 'id'>): GameState => {
+  // A draft that names its cell keeps it; anything else is placed on the first free cell
+  const placement = draft.gridPosition
+    ? { sectorId: draft.sectorId ?? state.sectors[0].id, gridPosition: draft.gridPosition }
+    : findPlacement(state, draft.sectorId);
+  const asset: Asset = {
+    ...draft,
+    id: generateAssetId(state.assets),
+    sectorId: placement?.sectorId ?? draft.sectorId ?? state.sectors[0].id,
+    gridPosition: placement?.gridPosition
+  };
+  return { ...state, assets: [...state.assets, asset] };
+};
+
+export const updateAsset = (state: GameState, asset: Asset): GameState => ({
+  ...state,
+  assets: state.assets.map(a => (a.id === asset.id ? asset : a))
+});
+
+export const moveAsset = (state: GameState, id: string, gridPosition: GridPosition | undefined): GameState => ({
+  ...state,
+  assets: state.assets.map(a => (a.id === id ? { ...a, gridPosition } : a))
+});
+
+export const findAssetAt = (layout: BoardLayout, sectorId: string, position: GridPosition): Asset | undefined =>
+  layout.assets.find(a => getSectorId(a, layout.sectors) === sectorId &&
+    a.gridPosition?.x === position.x && a.gridPosition?.y === position.y);
+
+// Removing an asset also drops every relationship that points at it. Its board cell is freed implicitly.
+export const removeAsset = (state: GameState, id: string): GameState => ({
+  ...state,
+  assets: state.assets.filter(a => a.id !== id),
+  relationships: state.relationships.filter(r => r.source !== id && r.target !== id)
+});
+
+// Carves `fraction` of a holding out into a new asset placed next to the original.
+// CORRELATED edges describe the instrument itself, so they are copied to the new holding (and the two
+// halves are linked as perfectly correlated); ownership and partnership edges stay with the original.
+export const splitAsset = (state: GameState, id: string, fraction: number, name: string): GameState => {
+  const original = state.assets.find(a => a.id === id);
+  if (!original) throw new Error(`Unknown asset "${id}"`);
+  if (!(fraction > 0 && fraction < 1)) throw new Error('Split fraction must be between 0 and 1');
+
+  const splitValue = Math.round(original.value * fraction);
+  const splitUnits = original.units !== undefined && original.value > 0
+    ? original.units * splitValue / original.value
+    : undefined;
+  const split: Asset = {
+    ...original,
+    id: generateAssetId(state.assets),
+    name,
+    value: splitValue,
+    units: splitUnits,
+    ...findPlacement(state, getSectorId(original, state.sectors), original.gridPosition) ?? { gridPosition: undefined }
+  };
+
+  const copiedRelationships = state.relationships
+    .filter(r => r.type === 'CORRELATED' && (r.source === id || r.target === id))
+    .map(r => ({
+      ...r,
+      source: r.source === id ? split.id : r.source,
+      target: r.target === id ? split.id : r.target
+    }));
+
+  return {
+    ...state,
+    assets: [
+      ...state.assets.map(a => (a.id === id
+        ? { ...a, value: a.value - splitValue, units: splitUnits !== undefined ? a.units! - splitUnits : undefined }
+        : a)),
+      split
+    ],
+    relationships: [
+      ...state.relationships,
+      ...copiedRelationships,
+      { source: id, target: split.id, type: 'CORRELATED', strength: 1 }
+    ]
+  };
+};
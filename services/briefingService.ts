@@ -0,0 +1,247 @@
+import { Asset, Locale, OracleAnalysis, OracleInsight } from "../types";
+import { MacroAnalysisResult, OracleAdvice, OracleAdviceStatus, OracleIssue } from "./oracleService";
+import { ProviderSettings } from "./llmProviders";
+import { isLocale } from "./i18n";
+
+// Archive of past Oracle briefings. A briefing is reused while it is younger than the TTL and was
+// made for the same portfolio, language and model, so remounting the deck doesn't cost two calls.
+// Like the provider settings this is a local cache, not part of the save file.
+
+export interface OracleBriefing {
+  id: string;
+  createdAt: string; // ISO timestamp
+  language: Locale;
+  providerKey: string; // See providerKey(); only briefings from the same model are reused
+  providerLabel: string;
+  portfolioHash: string; // See hashPortfolio()
+  macro: MacroAnalysisResult;
+  advice: OracleAdvice;
+}
+
+export interface BriefingArchive {
+  ttlMinutes: number; // 0 disables reuse; every visit makes fresh calls
+  briefings: OracleBriefing[]; // Newest first
+}
+
+export const ARCHIVE_LIMIT = 30;
+
+export const TTL_OPTIONS = [0, 15, 60, 360, 1440];
+
+const STORAGE_KEY = 'funday.oracleBriefings';
+
+export const EMPTY_ARCHIVE: BriefingArchive = { ttlMinutes: 60, briefings: [] };
+
+export const providerKey = (settings: ProviderSettings): string =>
+  settings.provider === 'openai'
+    ? `${settings.provider}:${settings.model}@${settings.endpoint}`
+    : `${settings.provider}:${settings.model}`;
+
+// FNV-1a over what the directives prompt sees, so any change that would alter the advice misses the cache
+export const hashPortfolio = (assets: Asset[]): string => {
+  const text = assets
+    .map(a => [a.id, a.name, a.type, a.region, a.risk, Math.round(a.value)].join('|'))
+    .sort()
+    .join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const ADVICE_STATUSES: OracleAdviceStatus[] = ['structured', 'partial', 'unstructured', 'failed'];
+
+const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isSource = (value: unknown): value is MacroAnalysisResult['sources'][number] =>
+  isRecord(value) && typeof value.title === 'string' && typeof value.uri === 'string';
+
+const isInsight = (value: unknown): value is OracleInsight =>
+  isRecord(value) && typeof value.title === 'string' && typeof value.detail === 'string' && isArrayOf(value.assetIds, isString);
+
+// Keys aren't checked against the catalog: an unknown one is shown as is
+const isIssue = (value: unknown): value is OracleIssue =>
+  isRecord(value) && typeof value.key === 'string' && (value.params === undefined || isRecord(value.params));
+
+const isAnalysis = (value: unknown): value is OracleAnalysis =>
+  isRecord(value)
+    && typeof value.cycleAssessment === 'string'
+    && isArrayOf(value.opportunities, isInsight)
+    && isArrayOf(value.risks, isInsight)
+    && typeof value.strategy === 'string';
+
+// Checks every field the cache lookup, the deck and the diff read, so a stale or hand-edited entry
+// is dropped rather than shown
+export const isOracleBriefing = (value: unknown): value is OracleBriefing => {
+  if (!isRecord(value)) return false;
+  const { macro, advice } = value;
+  return typeof value.id === 'string'
+    && typeof value.createdAt === 'string'
+    && isLocale(value.language)
+    && typeof value.providerKey === 'string'
+    && typeof value.providerLabel === 'string'
+    && typeof value.portfolioHash === 'string'
+    && isRecord(macro) && typeof macro.text === 'string' && isArrayOf(macro.sources, isSource)
+    && (macro.failed === undefined || typeof macro.failed === 'boolean')
+    && isRecord(advice) && isAnalysis(advice.analysis)
+    && ADVICE_STATUSES.includes(advice.status as OracleAdviceStatus)
+    && isArrayOf(advice.issues, isIssue);
+};
+
+// Archives written before app-wide locales used 'zh' for Chinese
+const upgradeLanguage = (value: unknown): unknown =>
+  isRecord(value) && value.language === 'zh' ? { ...value, language: 'zh-CN' } : value;
+
+export const loadBriefingArchive = (): BriefingArchive => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return EMPTY_ARCHIVE;
+    const raw: unknown = JSON.parse(stored);
+    if (!isRecord(raw)) return EMPTY_ARCHIVE;
+    const { ttlMinutes, briefings } = raw;
+    return {
+      ttlMinutes: typeof ttlMinutes === 'number' && TTL_OPTIONS.includes(ttlMinutes) ? ttlMinutes : EMPTY_ARCHIVE.ttlMinutes,
+      briefings: Array.isArray(briefings) ? briefings.map(upgradeLanguage).filter(isOracleBriefing) : []
+    };
+  } catch (error) {
+    console.warn("Discarding unreadable Oracle briefing archive:", error);
+    return EMPTY_ARCHIVE;
+  }
+};
+
+export const saveBriefingArchive = (archive: BriefingArchive) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(archive));
+  } catch (error) {
+    console.warn("Unable to persist Oracle briefing archive:", error);
+  }
+};
+
+export const addBriefing = (archive: BriefingArchive, briefing: OracleBriefing): BriefingArchive => ({
+  ...archive,
+  briefings: [briefing, ...archive.briefings.filter(b => b.id !== briefing.id)].slice(0, ARCHIVE_LIMIT)
+});
+
+export const removeBriefing = (archive: BriefingArchive, id: string): BriefingArchive => ({
+  ...archive,
+  briefings: archive.briefings.filter(b => b.id !== id)
+});
+
+export const briefingAgeMinutes = (briefing: OracleBriefing, now: Date): number =>
+  (now.getTime() - new Date(briefing.createdAt).getTime()) / 60000;
+
+export const findFreshBriefing = (
+  archive: BriefingArchive,
+  match: Pick<OracleBriefing, 'language' | 'providerKey' | 'portfolioHash'>,
+  now: Date
+): OracleBriefing | undefined => {
+  if (archive.ttlMinutes <= 0) return undefined;
+  return archive.briefings.find(b =>
+    b.language === match.language &&
+    b.providerKey === match.providerKey &&
+    b.portfolioHash === match.portfolioHash &&
+    briefingAgeMinutes(b, now) < archive.ttlMinutes);
+};
+
+// --- DIFFING ---
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Runs of whitespace, single CJK characters (that text has no spaces between words) and runs of anything else
+const TOKEN = /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]+/gu;
+
+const tokenize = (text: string): string[] => text.match(TOKEN) ?? [];
+
+// Word-level LCS diff. Briefings run to a few hundred words (or a thousand or so CJK characters),
+// so the quadratic table is fine.
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffOp, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
+
+export interface ListDiffItem {
+  op: DiffOp;
+  text: string;
+}
+
+const normalizeLine = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Set-style comparison of two lists, matching entries case- and whitespace-insensitively
+export const diffLists = (before: string[], after: string[]): ListDiffItem[] => {
+  const beforeKeys = new Set(before.map(normalizeLine));
+  const afterKeys = new Set(after.map(normalizeLine));
+  return [
+    ...after.map(text => ({ op: (beforeKeys.has(normalizeLine(text)) ? 'same' : 'added') as DiffOp, text })),
+    ...before.filter(text => !afterKeys.has(normalizeLine(text))).map(text => ({ op: 'removed' as DiffOp, text }))
+  ];
+};
+
+// The recommended moves: the list items of the strategy markup, or its paragraphs when it has no list
+export const extractMoves = (strategyHtml: string): string[] => {
+  const blocks = strategyHtml.match(/<li\b[^>]*>[\s\S]*?<\/li>/gi)
+    ?? strategyHtml.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi)
+    ?? [strategyHtml];
+  return blocks
+    .map(block => block.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+};
+
+const insightTitles = (insights: OracleInsight[]) => insights.map(i => i.title);
+
+export interface BriefingDiff {
+  macro: DiffSegment[];
+  cycleChanged: boolean;
+  opportunities: ListDiffItem[];
+  risks: ListDiffItem[];
+  moves: ListDiffItem[];
+  portfolioChanged: boolean;
+}
+
+export const diffBriefings = (before: OracleBriefing, after: OracleBriefing): BriefingDiff => ({
+  macro: diffWords(before.macro.text, after.macro.text),
+  cycleChanged: normalizeLine(before.advice.analysis.cycleAssessment) !== normalizeLine(after.advice.analysis.cycleAssessment),
+  opportunities: diffLists(insightTitles(before.advice.analysis.opportunities), insightTitles(after.advice.analysis.opportunities)),
+  risks: diffLists(insightTitles(before.advice.analysis.risks), insightTitles(after.advice.analysis.risks)),
+  moves: diffLists(extractMoves(before.advice.analysis.strategy), extractMoves(after.advice.analysis.strategy)),
+  portfolioChanged: before.portfolioHash !== after.portfolioHash
+});
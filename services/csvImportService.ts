@@ -0,0 +1,290 @@
+import { Asset, AssetType, CurrencyCode, GameState, Region } from "../types";
+import { FieldErrors, hasErrors, validateAsset } from "./validation";
+import { addAsset, updateAsset } from "./assetService";
+import { isCurrencyCode } from "./currencyService";
+
+// Turns broker/bank CSV exports into holdings. Nothing here touches the UI: the wizard parses,
+// maps and previews with these helpers, then hands the preview to applyImport.
+
+export type ImportField = 'name' | 'value' | 'currency' | 'type' | 'region' | 'units' | 'roi' | 'risk' | 'description';
+
+// Column index for each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  typeMap: Record<string, AssetType>; // Normalized cell text -> type
+  regionMap: Record<string, Region>;
+  defaultType: AssetType; // Used when no type column is mapped or a cell is empty
+  defaultRegion: Region;
+  defaultCurrency: CurrencyCode; // Used when no currency column is mapped or a cell isn't recognised
+}
+
+export type ImportAction = 'CREATE' | 'UPDATE' | 'SKIP';
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, header included
+  action: ImportAction;
+  draft: Omit<Asset, 'id'>;
+  matchId?: string; // Existing holding that will be updated
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = ['name', 'value', 'currency', 'type', 'region', 'units', 'roi', 'risk', 'description'];
+
+// Header names seen in common broker exports, most specific first
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'security name', 'security', 'instrument', 'holding', 'description', 'account name', 'symbol', 'ticker'],
+  currency: ['currency', 'ccy', 'curr', 'currency code', 'trading currency'],
+  value: ['market value', 'current value', 'value', 'balance', 'amount', 'total value', 'market val', 'mkt value'],
+  type: ['asset type', 'asset class', 'type', 'category', 'security type', 'class', 'sector'],
+  region: ['region', 'country', 'geography', 'market', 'domicile', 'exchange'],
+  units: ['quantity', 'qty', 'units', 'shares', 'position'],
+  roi: ['yield', 'roi', 'return', 'dividend yield', 'interest rate', 'rate'],
+  risk: ['risk', 'risk level', 'risk rating'],
+  description: ['notes', 'note', 'comment', 'memo']
+};
+
+// Sensible defaults for fields a statement rarely has
+export const TYPE_DEFAULTS: Record<AssetType, { roi: number; risk: number }> = {
+  [AssetType.STOCK]: { roi: 0.07, risk: 6 },
+  [AssetType.BOND]: { roi: 0.04, risk: 3 },
+  [AssetType.REAL_ESTATE]: { roi: 0.06, risk: 5 },
+  [AssetType.CASH]: { roi: 0.02, risk: 1 },
+  [AssetType.CRYPTO]: { roi: 0.15, risk: 9 },
+  [AssetType.PRIVATE_EQUITY]: { roi: 0.12, risk: 8 }
+};
+
+const TYPE_KEYWORDS: [AssetType, string[]][] = [
+  [AssetType.CRYPTO, ['crypto', 'bitcoin', 'btc', 'eth', 'ethereum', 'sol', 'coin', 'token']],
+  [AssetType.REAL_ESTATE, ['reit', 'real estate', 'property', 'realty', 'housing']],
+  [AssetType.BOND, ['bond', 'fixed income', 'treasury', 'gilt', 'bund', 'note', 'debt', 'tips']],
+  [AssetType.CASH, ['cash', 'money market', 'deposit', 'savings', 'checking', 'sweep', 'mmf']],
+  [AssetType.PRIVATE_EQUITY, ['private', 'venture', 'pe fund', 'buyout', 'unlisted']],
+  [AssetType.STOCK, ['stock', 'equity', 'equities', 'share', 'etf', 'common', 'adr', 'fund']]
+];
+
+const REGION_KEYWORDS: [Region, string[]][] = [
+  [Region.EMERGING_MARKETS, ['emerging', 'em', 'brazil', 'india', 'mexico', 'indonesia', 'south africa', 'latam', 'frontier']],
+  [Region.NORTH_AMERICA, ['us', 'usa', 'united states', 'america', 'north america', 'canada', 'nyse', 'nasdaq', 'tsx']],
+  [Region.EUROPE, ['europe', 'eu', 'uk', 'united kingdom', 'germany', 'france', 'switzerland', 'lse', 'xetra', 'euronext']],
+  [Region.ASIA, ['asia', 'japan', 'china', 'hong kong', 'hk', 'singapore', 'korea', 'taiwan', 'tse', 'hkex', 'pacific']],
+  [Region.GLOBAL, ['global', 'world', 'international', 'intl', 'all world', 'acwi']]
+];
+
+const CURRENCY_ALIASES: Record<string, CurrencyCode> = {
+  '$': 'USD', 'us$': 'USD', 'usd': 'USD', 'dollar': 'USD',
+  '€': 'EUR', 'eur': 'EUR', 'euro': 'EUR',
+  'rmb': 'CNY', 'cny': 'CNY', 'cnh': 'CNY', '元': 'CNY', 'yuan': 'CNY',
+  'hk$': 'HKD', 'hkd': 'HKD',
+  '£': 'GBP', 'gbp': 'GBP', 'gbx': 'GBP',
+  'jpy': 'JPY', 'yen': 'JPY'
+};
+
+export const normalizeKey = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Delimiter that splits the header line into the most columns
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+export const parseCsv = (text: string): ParsedCsv => {
+  const source = text.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) throw new Error('The file is empty');
+  const [headers, ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows, delimiter };
+};
+
+// "$1,234.56", "(1,234)", "1.234,56 €", "12%" -> number. Percentages come back as fractions.
+export const parseAmount = (text: string): number => {
+  let cleaned = text.trim();
+  if (cleaned === '' || cleaned === '-' || cleaned === '--') return NaN;
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-');
+  const percent = cleaned.includes('%');
+  cleaned = cleaned.replace(/[^\d.,]/g, '');
+
+  // A comma followed by exactly two digits at the end (and no later dot) is a decimal comma
+  if (/,\d{1,2}$/.test(cleaned) && !/\.\d+$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  if (cleaned === '') return NaN;
+
+  const value = Number(cleaned) * (negative ? -1 : 1);
+  return percent ? value / 100 : value;
+};
+
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeKey);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(field => {
+    mapping[field] = null;
+    for (const alias of FIELD_ALIASES[field]) {
+      const exact = normalized.findIndex((h, i) => !used.has(i) && h === alias);
+      const index = exact >= 0 ? exact : normalized.findIndex((h, i) => !used.has(i) && h.includes(alias));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  });
+  return mapping;
+};
+
+const matchKeyword = <T>(text: string, table: [T, string[]][]): T | undefined => {
+  const words = normalizeKey(text);
+  const tokens = new Set(words.split(/[^a-z0-9]+/));
+  return table.find(([, keywords]) =>
+    keywords.some(k => (k.includes(' ') ? words.includes(k) : tokens.has(k))))?.[0];
+};
+
+export const suggestAssetType = (text: string): AssetType | undefined =>
+  (Object.values(AssetType) as string[]).find(t => normalizeKey(t) === normalizeKey(text)) as AssetType | undefined
+  ?? matchKeyword(text, TYPE_KEYWORDS);
+
+export const suggestRegion = (text: string): Region | undefined =>
+  (Object.values(Region) as string[]).find(r => normalizeKey(r) === normalizeKey(text)) as Region | undefined
+  ?? matchKeyword(text, REGION_KEYWORDS);
+
+export const parseCurrency = (text: string): CurrencyCode | undefined => {
+  const key = normalizeKey(text);
+  const upper = key.toUpperCase();
+  return isCurrencyCode(upper) ? upper : CURRENCY_ALIASES[key];
+};
+
+// Distinct non-empty values of a column, for the category mapping step
+export const distinctValues = (rows: string[][], column: number | null): string[] =>
+  column === null
+    ? []
+    : Array.from(new Set(rows.map(r => normalizeKey(r[column] ?? '')).filter(v => v !== ''))).sort();
+
+const cell = (row: string[], column: number | null): string =>
+  column === null ? '' : (row[column] ?? '').trim();
+
+// Maps every row onto a holding and decides whether it creates a new asset or updates an
+// existing one with the same name. Names are compared case- and whitespace-insensitively.
+export const buildImportPreview = (parsed: ParsedCsv, assets: Asset[], options: ImportOptions): ImportRow[] => {
+  const { mapping, typeMap, regionMap, defaultType, defaultRegion, defaultCurrency } = options;
+  const existing = new Map(assets.map(a => [normalizeKey(a.name), a]));
+  const seen = new Map<string, number>();
+
+  return parsed.rows.map((row, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+
+    const name = cell(row, mapping.name);
+    const typeText = normalizeKey(cell(row, mapping.type));
+    const regionText = normalizeKey(cell(row, mapping.region));
+    const type = (typeText && typeMap[typeText]) || defaultType;
+    const region = (regionText && regionMap[regionText]) || defaultRegion;
+    const defaults = TYPE_DEFAULTS[type];
+    const currencyText = cell(row, mapping.currency);
+    const currency = currencyText ? parseCurrency(currencyText) : defaultCurrency;
+    if (!currency) errors.push(`unknown currency "${currencyText}"`);
+
+    const units = mapping.units === null ? undefined : parseAmount(cell(row, mapping.units));
+    const roi = mapping.roi === null ? NaN : parseAmount(cell(row, mapping.roi));
+    const risk = mapping.risk === null ? NaN : parseAmount(cell(row, mapping.risk));
+
+    const draft: Omit<Asset, 'id'> = {
+      name,
+      type,
+      region,
+      currency: currency ?? defaultCurrency,
+      value: parseAmount(cell(row, mapping.value)),
+      // A yield column without a % sign is taken as a percentage when it looks like one
+      roi: Number.isFinite(roi) ? (Math.abs(roi) > 1 ? roi / 100 : roi) : defaults.roi,
+      risk: Number.isFinite(risk) ? Math.min(10, Math.max(1, Math.round(risk))) : defaults.risk,
+      description: cell(row, mapping.description) || 'Imported from statement',
+      ...(units !== undefined && Number.isFinite(units) ? { units } : {})
+    };
+
+    const fieldErrors: FieldErrors<Asset> = validateAsset({ ...draft, id: 'import' });
+    if (hasErrors(fieldErrors)) errors.push(...Object.values(fieldErrors) as string[]);
+
+    const key = normalizeKey(name);
+    const firstLine = seen.get(key);
+    if (key && firstLine !== undefined) errors.push(`duplicate of line ${firstLine} in this file`);
+    if (key) seen.set(key, firstLine ?? line);
+
+    const match = existing.get(key);
+    return {
+      line,
+      action: errors.length > 0 ? 'SKIP' : match ? 'UPDATE' : 'CREATE',
+      draft,
+      matchId: match?.id,
+      errors
+    };
+  });
+};
+
+// Creates new holdings and refreshes matched ones. An update only overwrites what the file
+// provides (value, plus currency/type/region/units when those columns are mapped); placement, links
+// and the rest of the holding are kept.
+export const applyImport = (state: GameState, rows: ImportRow[], mapping: ColumnMapping): GameState =>
+  rows.reduce((acc, row) => {
+    if (row.action === 'CREATE') return addAsset(acc, row.draft);
+    if (row.action !== 'UPDATE' || !row.matchId) return acc;
+
+    const current = acc.assets.find(a => a.id === row.matchId);
+    if (!current) return acc;
+    return updateAsset(acc, {
+      ...current,
+      value: row.draft.value,
+      ...(mapping.currency !== null ? { currency: row.draft.currency } : {}),
+      ...(mapping.type !== null ? { type: row.draft.type } : {}),
+      ...(mapping.region !== null ? { region: row.draft.region } : {}),
+      ...(row.draft.units !== undefined ? { units: row.draft.units } : {})
+    });
+  }, state);
@@ -0,0 +1,102 @@
+import { Asset, CurrencyCode, FxRates, Locale } from "../types";
+
+// Holdings are valued in their own currency; cash, the ledger's cash side and every aggregate
+// (net worth, risk, projections, allocations) are in the USD base. Convert at the edges:
+// toBaseAssets before analytics, and fromBase only when formatting for display.
+
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: Record<CurrencyCode, { symbol: string; name: string }> = {
+  USD: { symbol: '$', name: 'US Dollar' },
+  EUR: { symbol: '€', name: 'Euro' },
+  CNY: { symbol: '¥', name: 'Chinese Yuan' },
+  HKD: { symbol: 'HK$', name: 'Hong Kong Dollar' },
+  GBP: { symbol: '£', name: 'British Pound' },
+  JPY: { symbol: 'JP¥', name: 'Japanese Yen' }
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && (CURRENCY_CODES as string[]).includes(value);
+
+export const getCurrency = (asset: Asset): CurrencyCode => asset.currency ?? BASE_CURRENCY;
+
+export const convert = (value: number, from: CurrencyCode, to: CurrencyCode, rates: FxRates): number =>
+  from === to ? value : value * rates[from] / rates[to];
+
+export const toBaseValue = (asset: Asset, rates: FxRates): number =>
+  convert(asset.value, getCurrency(asset), BASE_CURRENCY, rates);
+
+// Same holdings restated in USD, for code that sums or compares values across assets
+export const toBaseAssets = (assets: Asset[], rates: FxRates): Asset[] =>
+  assets.map(a => (getCurrency(a) === BASE_CURRENCY ? a : { ...a, value: toBaseValue(a, rates), currency: BASE_CURRENCY }));
+
+// Compact money: "$31.3k", "HK$1.25M", "−€800". Replaces the ad-hoc `$${(v / 1000).toFixed(1)}k`.
+// Chinese groups by ten-thousands, so zh-CN uses 万 and 亿 instead: "¥3.13万", "$1.25亿".
+export const formatMoney = (value: number, currency: CurrencyCode = BASE_CURRENCY, decimals = 1, locale: Locale = 'en'): string => {
+  const { symbol } = CURRENCIES[currency];
+  const sign = value < 0 ? '−' : '';
+  const abs = Math.abs(value);
+  if (locale === 'zh-CN') {
+    if (abs >= 1e8) return `${sign}${symbol}${(abs / 1e8).toFixed(2)}亿`;
+    if (abs >= 1e4) return `${sign}${symbol}${(abs / 1e4).toFixed(decimals)}万`;
+    return `${sign}${symbol}${abs.toFixed(0)}`;
+  }
+  if (abs >= 1e9) return `${sign}${symbol}${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}${symbol}${(abs / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${sign}${symbol}${(abs / 1e3).toFixed(decimals)}k`;
+  return `${sign}${symbol}${abs.toFixed(0)}`;
+};
+
+// Full precision, for tables and tooltips. Digit grouping follows the locale; without one, the browser's.
+export const formatMoneyExact = (value: number, currency: CurrencyCode = BASE_CURRENCY, locale?: Locale): string =>
+  `${value < 0 ? '−' : ''}${CURRENCIES[currency].symbol}${Math.abs(value).toLocaleString(locale, { maximumFractionDigits: 2 })}`;
+
+export interface CurrencyExposure {
+  currency: CurrencyCode;
+  value: number; // USD
+  share: number;
+}
+
+// Net worth split by the currency it is held in. Cash counts as USD.
+export const computeFxExposure = (assets: Asset[], cash: number, rates: FxRates): CurrencyExposure[] => {
+  const totals = new Map<CurrencyCode, number>([[BASE_CURRENCY, cash]]);
+  assets.forEach(a => totals.set(getCurrency(a), (totals.get(getCurrency(a)) ?? 0) + toBaseValue(a, rates)));
+  const total = Array.from(totals.values()).reduce((sum, v) => sum + v, 0);
+  return Array.from(totals, ([currency, value]) => ({ currency, value, share: total > 0 ? value / total : 0 }))
+    .filter(e => e.value !== 0)
+    .sort((a, b) => b.value - a.value);
+};
+
+export const validateFxRates = (rates: Partial<Record<string, unknown>>): string[] => {
+  const issues: string[] = [];
+  Object.entries(rates).forEach(([code, rate]) => {
+    if (!isCurrencyCode(code)) issues.push(`unsupported currency "${code}" (expected one of: ${CURRENCY_CODES.join(', ')})`);
+    else if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) issues.push(`${code} rate must be a positive number (got ${String(rate)})`);
+  });
+  if (rates[BASE_CURRENCY] !== undefined && rates[BASE_CURRENCY] !== 1) issues.push(`${BASE_CURRENCY} is the base currency; its rate must be 1`);
+  return issues;
+};
+
+// Reads a rate file: JSON `{ "EUR": 1.08, ... }` (optionally wrapped as `{ "rates": {...} }`) or
+// CSV/text lines of `CODE,rate`. Rates are USD per unit. Throws with every problem found.
+export const parseFxRateFile = (text: string): Partial<FxRates> => {
+  let raw: Record<string, unknown>;
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed) as Record<string, unknown>;
+    raw = (json.rates && typeof json.rates === 'object' ? json.rates : json) as Record<string, unknown>;
+  } else {
+    raw = {};
+    trimmed.split(/\r?\n/).forEach(line => {
+      const [code, rate] = line.split(/[,;\t=]/).map(part => part.trim());
+      if (!code || /^(currency|code)$/i.test(code)) return; // Header
+      raw[code.toUpperCase()] = Number(rate);
+    });
+  }
+
+  const issues = validateFxRates(raw);
+  if (issues.length > 0) throw new Error(issues.join('\n'));
+  return raw as Partial<FxRates>;
+};
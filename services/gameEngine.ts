@@ -0,0 +1,99 @@
+import { CycleStage, GameState } from "../types";
+import { CYCLE_RETURN_MODIFIERS, INCOME_SHARE, nextCycleStage, riskToVolatility } from "./marketModel";
+import { randomNormal, Rng } from "./random";
+import { appendLedgerEntries, getUnitPrice, getUnits, NewLedgerEntry } from "./ledgerService";
+import { BASE_CURRENCY, convert, getCurrency, toBaseValue } from "./currencyService";
+import { computePlacement } from "./placementService";
+
+// Headless game loop. Nothing in here touches React or the DOM.
+
+export const TURN_YEARS = 0.25; // One turn is one quarter, so a full cycle takes a year
+
+export interface AssetTurnResult {
+  id: string;
+  valueBefore: number; // In the asset's currency
+  valueAfter: number;
+  income: number; // USD, paid into cash
+  placementYield: number; // Realm bonus included in this turn's growth, as an annual fraction
+}
+
+export interface TurnReport {
+  turn: number; // The turn that was just played
+  stage: CycleStage; // Stage the turn was played in
+  nextStage: CycleStage;
+  income: number;
+  netWorthBefore: number;
+  netWorthAfter: number;
+  assets: AssetTurnResult[];
+}
+
+// USD
+export const getNetWorth = (state: GameState): number =>
+  state.cash + state.assets.reduce((sum, a) => sum + toBaseValue(a, state.fxRates), 0);
+
+// Plays one turn in the current stage: revalues every asset, pays income into cash,
+// books both in the ledger, then advances the macro cycle.
+export const endTurn = (state: GameState, rng: Rng = Math.random): { state: GameState; report: TurnReport } => {
+  const stage = state.cycleStage;
+  const modifiers = CYCLE_RETURN_MODIFIERS[stage];
+  // Board bonuses don't follow the cycle; they add straight to growth, and can shift risk too
+  const placement = computePlacement(state.assets, state.relationships);
+
+  const results: AssetTurnResult[] = [];
+  const assets = state.assets.map(asset => {
+    const bonus = placement.bonuses.get(asset.id)!;
+    const incomeRate = Math.max(0, asset.roi) * INCOME_SHARE[asset.type];
+    const expectedGrowth = asset.roi * modifiers[asset.type] - incomeRate + bonus.yield;
+    const shock = riskToVolatility(asset.risk + bonus.risk) * Math.sqrt(TURN_YEARS) * randomNormal(rng);
+
+    const income = Math.round(convert(asset.value * incomeRate * TURN_YEARS, getCurrency(asset), BASE_CURRENCY, state.fxRates));
+    const valueAfter = Math.max(0, Math.round(asset.value * (1 + expectedGrowth * TURN_YEARS + shock)));
+
+    results.push({ id: asset.id, valueBefore: asset.value, valueAfter, income, placementYield: bonus.yield });
+    // Pin the unit count so the revaluation shows up as a price move, not a change in holdings
+    return { ...asset, units: getUnits(asset), value: valueAfter };
+  });
+
+  const entries: NewLedgerEntry[] = [];
+  assets.forEach((asset, i) => {
+    const { valueBefore, valueAfter, income } = results[i];
+    if (valueAfter !== valueBefore) {
+      entries.push({
+        kind: 'REVALUATION', assetId: asset.id, assetName: asset.name, currency: getCurrency(asset),
+        quantity: getUnits(asset), price: getUnitPrice(asset),
+        amount: Math.abs(valueAfter - valueBefore), fee: 0,
+        cashChange: 0, valueChange: valueAfter - valueBefore,
+        note: `${stage} turn`
+      });
+    }
+    if (income > 0) {
+      entries.push({
+        kind: 'INCOME', assetId: asset.id, assetName: asset.name,
+        quantity: 0, price: 0, amount: income, fee: 0,
+        cashChange: income, valueChange: 0
+      });
+    }
+  });
+
+  const income = results.reduce((sum, r) => sum + r.income, 0);
+  const nextStage = nextCycleStage(stage);
+  // Entries are stamped with the turn they were earned in, then the turn advances
+  const next: GameState = {
+    ...appendLedgerEntries({ ...state, assets, cash: state.cash + income }, entries),
+    cycleStage: nextStage,
+    turn: state.turn + 1
+  };
+
+  return {
+    state: next,
+    report: {
+      turn: next.turn,
+      stage,
+      nextStage,
+      income,
+      netWorthBefore: getNetWorth(state),
+      netWorthAfter: getNetWorth(next),
+      assets: results
+    }
+  };
+};
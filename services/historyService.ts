@@ -0,0 +1,70 @@
+// Undo/redo as a linear list of snapshots. Every mutation is a Command that turns one state into
+// the next; the history keeps the state after each command so undo, redo and jumping to any point
+// are just moving the cursor. States are immutable, so snapshots share everything that didn't change.
+// The ledger lives in the state too: undoing a trade removes its entries rather than booking a reversal.
+
+import { MessageKey, MessageParams } from "./i18n";
+
+// What the history panel shows for a step, as a catalog message so it follows the player's language
+export interface HistoryLabel {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface Command<T> {
+  label: HistoryLabel;
+  apply: (state: T) => T;
+}
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: HistoryLabel;
+  timestamp: string;
+  state: T;
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // Entry currently shown; entries after it are the redo stack
+  nextId: number;
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(state: T, label: HistoryLabel = { key: 'history.start' }): History<T> => ({
+  entries: [{ id: 0, label, timestamp: new Date().toISOString(), state }],
+  index: 0,
+  nextId: 1
+});
+
+export const getPresent = <T>(history: History<T>): T => history.entries[history.index].state;
+
+export const canUndo = <T>(history: History<T>): boolean => history.index > 0;
+export const canRedo = <T>(history: History<T>): boolean => history.index < history.entries.length - 1;
+
+// Runs several commands as one undo step, e.g. the two moves that make up a tile swap
+export const groupCommands = <T>(label: HistoryLabel, commands: Command<T>[]): Command<T> => ({
+  label,
+  apply: state => commands.reduce((acc, command) => command.apply(acc), state)
+});
+
+// Applies a command on top of the current entry. Anything that was undone is discarded, and
+// commands that don't change the state are not recorded.
+export const executeCommand = <T>(history: History<T>, command: Command<T>): History<T> => {
+  const present = getPresent(history);
+  const next = command.apply(present);
+  if (next === present) return history;
+
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { id: history.nextId, label: command.label, timestamp: new Date().toISOString(), state: next }
+  ].slice(-HISTORY_LIMIT);
+
+  return { entries, index: entries.length - 1, nextId: history.nextId + 1 };
+};
+
+export const jumpTo = <T>(history: History<T>, index: number): History<T> =>
+  index >= 0 && index < history.entries.length && index !== history.index ? { ...history, index } : history;
+
+export const undo = <T>(history: History<T>): History<T> => jumpTo(history, history.index - 1);
+export const redo = <T>(history: History<T>): History<T> => jumpTo(history, history.index + 1);
@@ -0,0 +1,122 @@
+// Allowlist sanitizer for model-generated HTML. The Oracle prompt asks for <b>, <ul>, <li> and <p>;
+// everything else is removed before the markup reaches dangerouslySetInnerHTML. It works on the
+// string rather than a DOM so it behaves the same in the browser, a worker or Node.
+
+export const ALLOWED_TAGS = ['b', 'ul', 'li', 'p'] as const;
+
+const ALLOWED = new Set<string>(ALLOWED_TAGS);
+
+// Tags whose content is code or would otherwise render as raw markup; dropped along with their content
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template',
+  'noscript', 'noembed', 'noframes', 'xmp', 'plaintext', 'textarea', 'title', 'svg', 'math', 'select'
+]);
+
+// A tag: name, then attributes where quoted values may contain '>'
+const TAG = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/y;
+const COMMENT = /<!--[\s\S]*?(?:-->|$)/y;
+const DECLARATION = /<[!?][^>]*(?:>|$)/y;
+const ENTITY = /&(?:[a-zA-Z][a-zA-Z0-9]{1,31}|#\d{1,7}|#x[0-9a-fA-F]{1,6});/y;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const matchAt = (pattern: RegExp, source: string, index: number): RegExpExecArray | null => {
+  pattern.lastIndex = index;
+  return pattern.exec(source);
+};
+
+// Keeps allowed tags without any attributes, drops everything else (keeping the text of unknown
+// tags), escapes stray markup characters and closes whatever the input left open
+export const sanitizeHtml = (html: string): string => {
+  const source = html.replace(/\0/g, '');
+  const open: string[] = [];
+  let out = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '<') {
+      const comment = matchAt(COMMENT, source, i);
+      if (comment) {
+        i += comment[0].length;
+        continue;
+      }
+      const tag = matchAt(TAG, source, i);
+      if (tag) {
+        const [whole, slash, rawName] = tag;
+        const name = rawName.toLowerCase();
+        i += whole.length;
+
+        if (!slash && DROP_WITH_CONTENT.has(name)) {
+          const close = source.toLowerCase().indexOf(`</${name}`, i);
+          const end = close < 0 ? -1 : source.indexOf('>', close);
+          i = end < 0 ? source.length : end + 1;
+          continue;
+        }
+        if (!ALLOWED.has(name)) continue;
+
+        if (!slash) {
+          // As in HTML, a new item or paragraph ends an unclosed one instead of nesting inside it
+          if ((name === 'li' || name === 'p') && open[open.length - 1] === name) out += `</${open.pop()}>`;
+          out += `<${name}>`;
+          open.push(name);
+        } else if (open.includes(name)) {
+          // Close anything opened inside it so the output stays well formed
+          while (open.length > 0) {
+            const top = open.pop()!;
+            out += `</${top}>`;
+            if (top === name) break;
+          }
+        }
+        continue;
+      }
+      const declaration = matchAt(DECLARATION, source, i);
+      if (declaration) {
+        i += declaration[0].length;
+        continue;
+      }
+      out += '&lt;';
+      i++;
+      continue;
+    }
+
+    if (char === '&') {
+      const entity = matchAt(ENTITY, source, i);
+      if (entity) {
+        out += entity[0];
+        i += entity[0].length;
+      } else {
+        out += '&amp;';
+        i++;
+      }
+      continue;
+    }
+
+    out += char === '>' ? '&gt;' : char;
+    i++;
+  }
+
+  while (open.length > 0) out += `</${open.pop()}>`;
+  return out;
+};
+
+// Any '<' left in sanitized output must start a bare allowed tag; returns the offending snippets
+export const findUnsafeMarkup = (html: string): string[] =>
+  (html.match(/<(?!\/?(?:b|ul|li|p)>)[^>]{0,40}/g) ?? []);
+
+// Only http(s) links are rendered; anything else (javascript:, data:, relative paths) becomes undefined
+export const safeUrl = (uri: string): string | undefined => {
+  try {
+    const url = new URL(uri.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
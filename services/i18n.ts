@@ -0,0 +1,88 @@
+import { AssetType, CycleStage, Locale, Region, Relationship } from "../types";
+import { en, MessageKey } from "./locales/en";
+import { zhCN } from "./locales/zh-CN";
+
+// Message lookup and locale-aware formatting. Components get these through useI18n(); the
+// functions take the locale explicitly so services can format without React.
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Record<Locale, { label: string; short: string }> = {
+  en: { label: 'English', short: 'EN' },
+  'zh-CN': { label: '简体中文', short: '中文' }
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, 'zh-CN': zhCN };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALE_CODES as string[]).includes(value);
+
+// Falls back to English, then to the key itself, so a gap shows up as text rather than a crash
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match);
+};
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+// `fraction` is a share: 0.125 -> "12.5%"
+export const formatPercent = (locale: Locale, fraction: number, decimals = 1): string =>
+  new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(fraction);
+
+export const formatDateTime = (locale: Locale, value: Date | string): string =>
+  new Date(value).toLocaleString(locale);
+
+// --- ENUM LABELS ---
+// Enum values are stored in save files and sent to the model, so they stay English; only their labels are translated.
+
+const ASSET_TYPE_KEYS: Record<AssetType, MessageKey> = {
+  [AssetType.REAL_ESTATE]: 'assetType.REAL_ESTATE',
+  [AssetType.STOCK]: 'assetType.STOCK',
+  [AssetType.BOND]: 'assetType.BOND',
+  [AssetType.CASH]: 'assetType.CASH',
+  [AssetType.CRYPTO]: 'assetType.CRYPTO',
+  [AssetType.PRIVATE_EQUITY]: 'assetType.PRIVATE_EQUITY'
+};
+
+const REGION_KEYS: Record<Region, MessageKey> = {
+  [Region.NORTH_AMERICA]: 'region.NORTH_AMERICA',
+  [Region.ASIA]: 'region.ASIA',
+  [Region.EUROPE]: 'region.EUROPE',
+  [Region.EMERGING_MARKETS]: 'region.EMERGING_MARKETS',
+  [Region.GLOBAL]: 'region.GLOBAL'
+};
+
+const RELATIONSHIP_KEYS: Record<Relationship['type'], MessageKey> = {
+  OWNS: 'relationship.OWNS',
+  PARTNER: 'relationship.PARTNER',
+  SUBSIDIARY: 'relationship.SUBSIDIARY',
+  CORRELATED: 'relationship.CORRELATED'
+};
+
+const STAGE_KEYS: Record<CycleStage, MessageKey> = {
+  EXPANSION: 'stage.EXPANSION',
+  PEAK: 'stage.PEAK',
+  CONTRACTION: 'stage.CONTRACTION',
+  TROUGH: 'stage.TROUGH'
+};
+
+// Unknown values (e.g. from an older save) are shown as stored
+export const assetTypeLabel = (locale: Locale, type: AssetType): string =>
+  ASSET_TYPE_KEYS[type] ? translate(locale, ASSET_TYPE_KEYS[type]) : type;
+
+export const regionLabel = (locale: Locale, region: Region): string =>
+  REGION_KEYS[region] ? translate(locale, REGION_KEYS[region]) : region;
+
+export const relationshipLabel = (locale: Locale, type: Relationship['type']): string =>
+  RELATIONSHIP_KEYS[type] ? translate(locale, RELATIONSHIP_KEYS[type]) : type;
+
+export const stageLabel = (locale: Locale, stage: CycleStage): string =>
+  STAGE_KEYS[stage] ? translate(locale, STAGE_KEYS[stage]) : stage;
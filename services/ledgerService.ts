@@ -0,0 +1,132 @@
+import { Asset, GameState, LedgerEntry } from "../types";
+import { BASE_CURRENCY, convert, getCurrency, toBaseValue } from "./currencyService";
+
+export type NewLedgerEntry = Omit<LedgerEntry, 'id' | 'timestamp' | 'turn'>;
+
+export const getUnits = (asset: Asset): number => asset.units ?? asset.value;
+
+export const getUnitPrice = (asset: Asset): number => {
+  const units = getUnits(asset);
+  return units > 0 ? asset.value / units : 1;
+};
+
+// Entries are never edited, and undo only drops them from the end, so the position in the ledger is a stable id
+const stamp = (entries: NewLedgerEntry[], ledger: LedgerEntry[], turn: number): LedgerEntry[] => {
+  const timestamp = new Date().toISOString();
+  return entries.map((entry, i) => ({ ...entry, id: `t${ledger.length + i + 1}`, timestamp, turn }));
+};
+
+export const appendLedgerEntries = (state: GameState, entries: NewLedgerEntry[]): GameState =>
+  entries.length === 0
+    ? state
+    : { ...state, ledger: [...state.ledger, ...stamp(entries, state.ledger, state.turn)] };
+
+// Opening balances for a fresh game (or a save that predates the ledger)
+export const createOpeningEntries = (assets: Asset[], cash: number, turn = 0): LedgerEntry[] => stamp([
+  { kind: 'OPENING', quantity: 0, price: 0, amount: cash, fee: 0, cashChange: cash, valueChange: 0, note: 'Opening cash balance' },
+  ...assets.map(asset => ({
+    kind: 'OPENING' as const,
+    assetId: asset.id,
+    assetName: asset.name,
+    currency: getCurrency(asset),
+    quantity: getUnits(asset),
+    price: getUnitPrice(asset),
+    amount: asset.value,
+    fee: 0,
+    cashChange: 0,
+    valueChange: asset.value
+  }))
+], [], turn);
+
+const adjustment = (asset: Asset, quantity: number, change: number, note: string): NewLedgerEntry => ({
+  kind: 'ADJUSTMENT',
+  assetId: asset.id,
+  assetName: asset.name,
+  currency: getCurrency(asset),
+  quantity,
+  price: getUnitPrice(asset),
+  amount: Math.abs(change),
+  fee: 0,
+  cashChange: 0,
+  valueChange: change,
+  note
+});
+
+// Books any value or cash difference between two states as ADJUSTMENT entries. Used for manual edits
+// (create/edit/split/delete) so that the ledger keeps reconciling without each caller doing the maths.
+export const recordAdjustments = (prev: GameState, next: GameState, note: string): GameState => {
+  const entries: NewLedgerEntry[] = [];
+  const before = new Map(prev.assets.map(a => [a.id, a]));
+  const after = new Map(next.assets.map(a => [a.id, a]));
+
+  new Set([...before.keys(), ...after.keys()]).forEach(id => {
+    const oldAsset = before.get(id);
+    const newAsset = after.get(id);
+
+    // A change of currency is booked as closing the old position and opening the new one,
+    // so every entry's value stays in a single currency
+    if (oldAsset && newAsset && getCurrency(oldAsset) !== getCurrency(newAsset)) {
+      if (oldAsset.value !== 0) entries.push(adjustment(oldAsset, -getUnits(oldAsset), -oldAsset.value, note));
+      if (newAsset.value !== 0) entries.push(adjustment(newAsset, getUnits(newAsset), newAsset.value, note));
+      return;
+    }
+
+    const change = (newAsset?.value ?? 0) - (oldAsset?.value ?? 0);
+    if (Math.abs(change) < 1e-9) return;
+    const quantity = (newAsset ? getUnits(newAsset) : 0) - (oldAsset ? getUnits(oldAsset) : 0);
+    entries.push(adjustment((newAsset ?? oldAsset)!, quantity, change, note));
+  });
+
+  const cashChange = next.cash - prev.cash;
+  if (Math.abs(cashChange) >= 1e-9) {
+    entries.push({ kind: 'ADJUSTMENT', quantity: 0, price: 0, amount: Math.abs(cashChange), fee: 0, cashChange, valueChange: 0, note });
+  }
+
+  return appendLedgerEntries(next, entries);
+};
+
+export interface Reconciliation {
+  ok: boolean;
+  netWorth: number; // USD
+  ledgerNetWorth: number; // USD, holdings converted at current rates
+  cashDifference: number;
+  assetDifferences: { id: string; name: string; difference: number }[]; // USD
+}
+
+// Replays the ledger and compares it with the live state. Holding values are kept in their own
+// currency in the ledger, so FX moves change net worth without needing entries of their own.
+export const reconcileLedger = (state: GameState, tolerance = 0.01): Reconciliation => {
+  const toBase = (value: number, entry: LedgerEntry) =>
+    convert(value, entry.currency ?? BASE_CURRENCY, BASE_CURRENCY, state.fxRates);
+
+  const ledgerCash = state.ledger.reduce((sum, e) => sum + e.cashChange, 0);
+  const ledgerValues = new Map<string, { name: string; value: number }>();
+  state.ledger.forEach(entry => {
+    if (!entry.assetId) return;
+    const current = ledgerValues.get(entry.assetId) ?? { name: entry.assetName ?? entry.assetId, value: 0 };
+    current.value += toBase(entry.valueChange, entry);
+    ledgerValues.set(entry.assetId, current);
+  });
+
+  const assetDifferences: Reconciliation['assetDifferences'] = [];
+  const ids = new Set([...ledgerValues.keys(), ...state.assets.map(a => a.id)]);
+  ids.forEach(id => {
+    const asset = state.assets.find(a => a.id === id);
+    const difference = (asset ? toBaseValue(asset, state.fxRates) : 0) - (ledgerValues.get(id)?.value ?? 0);
+    if (Math.abs(difference) > tolerance) {
+      assetDifferences.push({ id, name: asset?.name ?? ledgerValues.get(id)!.name, difference });
+    }
+  });
+
+  const netWorth = state.cash + state.assets.reduce((sum, a) => sum + toBaseValue(a, state.fxRates), 0);
+  const ledgerNetWorth = state.ledger.reduce((sum, e) => sum + e.cashChange + toBase(e.valueChange, e), 0);
+  const cashDifference = state.cash - ledgerCash;
+
+  return {
+    ok: Math.abs(cashDifference) <= tolerance && assetDifferences.length === 0,
+    netWorth,
+    ledgerNetWorth,
+    cashDifference,
+    assetDifferences
+  };
+};
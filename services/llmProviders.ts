@@ -0,0 +1,309 @@
+import { GoogleGenAI } from "@google/genai";
+import { Locale } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+
+// Text generation backends for the Oracle. Prompts live in oracleService; a provider only turns
+// a prompt into text, so the deck works the same against Gemini, a local model or the offline mock.
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export type OracleTask = 'macro' | 'strategy';
+
+export interface LlmRequest {
+  task: OracleTask; // Lets the mock pick a canned answer; real providers only read the prompt
+  prompt: string;
+  language: Locale; // Already spelled out in the prompt; the mock uses it to pick a canned answer
+  search?: boolean; // Ground the answer in web search where the provider supports it
+  schema?: JsonSchema; // Ask for JSON matching this schema; callers must still validate the reply
+  signal?: AbortSignal; // Aborting rejects generate() with an AbortError (see isAbortError)
+  onChunk?: (chunk: string) => void; // Streamed text as it arrives; the resolved text is the concatenation
+}
+
+// Plain JSON Schema object, passed through to providers that support constrained output
+export type JsonSchema = Record<string, unknown>;
+
+export interface LlmSource {
+  title: string;
+  uri: string;
+}
+
+export interface LlmResponse {
+  text: string;
+  sources: LlmSource[];
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  label: string;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  apiKey: string; // Empty falls back to the build-time key for Gemini; optional for local endpoints
+}
+
+// `label` is stored with archived briefings, so it stays English; the settings panel shows the catalog keys
+export const PROVIDER_OPTIONS: Record<ProviderId, { label: string; defaultModel: string; labelKey: MessageKey; descriptionKey: MessageKey }> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', labelKey: 'provider.gemini', descriptionKey: 'provider.gemini.description' },
+  openai: { label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', labelKey: 'provider.openai', descriptionKey: 'provider.openai.description' },
+  mock: { label: 'Offline mock', defaultModel: 'canned', labelKey: 'provider.mock', descriptionKey: 'provider.mock.description' }
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_OPTIONS) as ProviderId[];
+
+const ENV_API_KEY = process.env.API_KEY ?? '';
+
+// Gemini when the build was given a key, otherwise the mock so the deck still works offline
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: ENV_API_KEY ? 'gemini' : 'mock',
+  model: ENV_API_KEY ? PROVIDER_OPTIONS.gemini.defaultModel : PROVIDER_OPTIONS.mock.defaultModel,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+// A catalog message, translated by the settings panel
+export interface ProviderSettingsIssue {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const validateProviderSettings = (settings: ProviderSettings): ProviderSettingsIssue[] => {
+  const errors: ProviderSettingsIssue[] = [];
+  if (!PROVIDER_IDS.includes(settings.provider)) errors.push({ key: 'oracleSettings.unknownProvider', params: { provider: String(settings.provider) } });
+  if (settings.provider !== 'mock' && !settings.model.trim()) errors.push({ key: 'oracleSettings.modelRequired' });
+  if (settings.provider === 'gemini' && !settings.apiKey.trim() && !ENV_API_KEY) {
+    errors.push({ key: 'oracleSettings.geminiKey' });
+  }
+  if (settings.provider === 'openai') {
+    try {
+      const url = new URL(settings.endpoint);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') errors.push({ key: 'oracleSettings.endpointProtocol' });
+    } catch {
+      errors.push({ key: 'oracleSettings.endpointInvalid' });
+    }
+  }
+  return errors;
+};
+
+// --- GEMINI ---
+
+export const createGeminiProvider = (settings: ProviderSettings): LlmProvider => {
+  const getClient = () => {
+    const apiKey = settings.apiKey.trim() || ENV_API_KEY;
+    if (!apiKey) throw new Error("No Gemini API key configured");
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    label: PROVIDER_OPTIONS.gemini.label,
+    generate: async ({ prompt, search, schema, signal, onChunk }) => {
+      const ai = getClient();
+      let emitted = false;
+
+      const stream = async (config: Record<string, unknown>): Promise<LlmResponse> => {
+        const chunks = await ai.models.generateContentStream({
+          model: settings.model,
+          contents: prompt,
+          config: { ...config, abortSignal: signal }
+        });
+        let text = '';
+        const sources: LlmSource[] = [];
+        for await (const chunk of chunks) {
+          signal?.throwIfAborted();
+          const delta = chunk.text ?? '';
+          if (delta) {
+            text += delta;
+            emitted = true;
+            onChunk?.(delta);
+          }
+          // Grounding metadata arrives with the later chunks
+          for (const source of chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []) {
+            if (source.web) sources.push({ title: source.web.title || "Source", uri: source.web.uri || "" });
+          }
+        }
+        return { text, sources };
+      };
+
+      if (search) {
+        try {
+          return await stream({ tools: [{ googleSearch: {} }] });
+        } catch (error) {
+          // The search tool fails intermittently (e.g. 500 RPC errors); retry ungrounded unless the
+          // caller cancelled or part of the answer has already been streamed out
+          if (isAbortError(error) || signal?.aborted || emitted) throw error;
+          console.warn("Gemini search request failed, retrying without search tool:", error);
+        }
+      }
+      return stream(schema ? { responseMimeType: 'application/json', responseJsonSchema: schema } : {});
+    }
+  };
+};
+
+// --- OPENAI-COMPATIBLE ---
+
+export const createOpenAiProvider = (settings: ProviderSettings): LlmProvider => ({
+  id: 'openai',
+  label: PROVIDER_OPTIONS.openai.label,
+  generate: async ({ prompt, schema, signal, onChunk }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey.trim()) headers.Authorization = `Bearer ${settings.apiKey.trim()}`;
+
+    const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } } : {})
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`${settings.endpoint} responded ${response.status} ${response.statusText}`);
+    }
+
+    // Some servers ignore `stream` and answer with a single JSON body
+    if (!response.body || !(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+      const body = await response.json();
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error('Response had no choices[0].message.content');
+      onChunk?.(text);
+      return { text, sources: [] };
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().startsWith('data:') ? line.trim().slice(5).trim() : '';
+        if (!data || data === '[DONE]') continue;
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onChunk?.(delta);
+        }
+      }
+    }
+    signal?.throwIfAborted();
+    return { text, sources: [] };
+  }
+});
+
+// --- MOCK ---
+
+const CANNED: Record<OracleTask, Record<LlmRequest['language'], string>> = {
+  macro: {
+    en: "MOCK BRIEFING. The cycle reads as late expansion: growth is slowing but positive, headline inflation has eased toward target while services inflation stays sticky, and major central banks are holding rates near their peak with cuts priced for later. China is supporting growth with targeted easing. Implications: favour quality equities and intermediate bonds, keep some cash for volatility, and be selective with long-duration growth assets.",
+    'zh-CN': "模拟简报。当前周期处于扩张后期：增长放缓但仍为正，整体通胀已回落至目标附近，服务业通胀依然顽固，主要央行将利率维持在高位，市场预期稍后降息。中国正以定向宽松支持增长。投资含义：偏好优质股票和中期债券，保留部分现金应对波动，对长久期成长资产保持选择性。"
+  },
+  // Structured like a schema-constrained reply. Asset ids refer to the starting portfolio and are
+  // dropped by the parser when those holdings no longer exist.
+  strategy: {
+    en: JSON.stringify({
+      cycleAssessment: 'Late expansion: slowing growth, easing inflation, rates near peak.',
+      opportunities: [
+        { title: 'Lock in bond yields', detail: 'Rates near their peak make intermediate-duration government bonds attractive before cuts arrive.', assetIds: ['a5'] },
+        { title: 'Policy tailwind for clean energy', detail: 'Targeted stimulus in major economies keeps funding flowing to renewables.', assetIds: ['a3'] }
+      ],
+      risks: [
+        { title: 'Speculative concentration', detail: 'Crypto and early-stage private equity would fall hardest in a growth scare and are hard to exit quickly.', assetIds: ['a6', 'a7'] }
+      ],
+      strategy: '<p><b>Commander, mock uplink established.</b></p><ul><li>Rotate 10% from the highest-risk positions into government bonds.</li><li>Hold a cash reserve for volatility.</li></ul>'
+    }),
+    'zh-CN': JSON.stringify({
+      cycleAssessment: '扩张后期：增长放缓，通胀回落，利率接近峰值。',
+      opportunities: [
+        { title: '锁定债券收益率', detail: '利率接近峰值，在降息前配置中期国债具有吸引力。', assetIds: ['a5'] },
+        { title: '清洁能源政策利好', detail: '主要经济体的定向刺激持续为可再生能源提供资金。', assetIds: ['a3'] }
+      ],
+      risks: [
+        { title: '投机性集中', detail: '加密资产和早期私募股权在增长恐慌中跌幅最大且难以快速退出。', assetIds: ['a6', 'a7'] }
+      ],
+      strategy: '<p><b>指挥官，模拟链路已建立。</b></p><ul><li>将最高风险仓位的10%轮换至国债。</li><li>保留现金储备应对波动。</li></ul>'
+    })
+  }
+};
+
+const MOCK_CHUNK_LENGTH = 8;
+
+// The abort listener is removed once the timer fires, so a long stream doesn't pile them up on the signal
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Same request, same answer: useful offline and for exercising the deck without a network.
+// The answer is streamed in small chunks so the deck's streaming and cancel paths get exercised too.
+export const createMockProvider = (responses: typeof CANNED = CANNED, chunkDelayMs = 25): LlmProvider => ({
+  id: 'mock',
+  label: PROVIDER_OPTIONS.mock.label,
+  generate: async ({ task, language, signal, onChunk }) => {
+    const text = responses[task][language];
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_LENGTH) {
+      await wait(chunkDelayMs, signal);
+      onChunk?.(text.slice(i, i + MOCK_CHUNK_LENGTH));
+    }
+    return { text, sources: [] };
+  }
+});
+
+export const createProvider = (settings: ProviderSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings);
+    case 'openai': return createOpenAiProvider(settings);
+    case 'mock': return createMockProvider();
+  }
+};
+
+// Provider choice is a local preference like the display currency, not part of the save file
+const STORAGE_KEY = 'funday.oracleProvider';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+    const raw = JSON.parse(stored);
+    const text = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+    const settings: ProviderSettings = {
+      provider: raw?.provider,
+      model: text(raw?.model, DEFAULT_PROVIDER_SETTINGS.model),
+      endpoint: text(raw?.endpoint, DEFAULT_PROVIDER_SETTINGS.endpoint),
+      apiKey: text(raw?.apiKey, '')
+    };
+    return validateProviderSettings(settings).length === 0 ? settings : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Unable to persist Oracle provider settings:", error);
+  }
+};
@@ -0,0 +1,589 @@
+// English catalog. It is the reference: every other catalog must define the same keys, and
+// a key missing at runtime falls back to the text here. Placeholders are written {name}.
+export const en = {
+  // --- Layout ---
+  'nav.realm': 'Realm',
+  'nav.nexus': 'Nexus',
+  'nav.geo': 'Geo',
+  'nav.oracle': 'Oracle',
+  'nav.ledger': 'Ledger',
+  'nav.holdings': 'Holdings',
+  'nav.import': 'Import CSV',
+  'layout.language': 'Language',
+  'layout.displayCurrency': 'Display currency',
+  'layout.showIn': 'SHOW IN {code}',
+  'layout.fx': 'FX',
+  'layout.editFx': 'Edit FX rates',
+  'layout.systemStatus': 'SYSTEM STATUS:',
+  'layout.online': 'ONLINE',
+
+  // --- Sidebar panels ---
+  'history.title': 'History',
+  'history.undo': 'Undo (Ctrl+Z)',
+  'history.redo': 'Redo (Ctrl+Shift+Z)',
+  'history.start': 'Start',
+  'history.sessionStart': 'Session start',
+  'history.loadedSave': 'Loaded save',
+  'history.move': 'Move {name}',
+  'history.swap': 'Swap {name} ↔ {other}',
+  'history.moveToSector': 'Move {name} to {sector}',
+  'history.addSector': 'Add sector {name}',
+  'history.editSector': 'Edit sector {name}',
+  'history.removeSector': 'Remove sector {name}',
+  'history.create': 'Create {name}',
+  'history.edit': 'Edit {name}',
+  'history.delete': 'Delete {name}',
+  'history.split': 'Split {name} from {source}',
+  'history.import': 'Import {count} holdings from CSV',
+  'history.link': 'Link {source} → {target} ({type})',
+  'history.editLink': 'Edit link {source} → {target} ({type})',
+  'history.removeLink': 'Remove link {source} → {target} ({type})',
+  'history.buy': 'Buy {name}',
+  'history.sell': 'Sell {percent}% of {name}',
+  'history.tradeSettings': 'Change trading costs',
+  'history.targets': 'Change target allocation',
+  'history.rebalance': 'Rebalance ({count} trades)',
+  'history.fxRates': 'Update FX rates',
+  'history.endTurn': 'End turn {turn}',
+  'turn.macroCycle': 'Macro Cycle',
+  'turn.clock': 'Y{year} Q{quarter} • T{turn}',
+  'turn.cash': 'CASH',
+  'turn.netWorth': 'NET WORTH',
+  'turn.lastTurn': 'LAST TURN',
+  'turn.incomePaid': 'Income paid: {amount}',
+  'turn.end': 'END TURN ▸',
+  'turn.endTitle': 'Advance the macro cycle by one quarter',
+  'save.export': 'EXPORT',
+  'save.exportTitle': 'Export save file',
+  'save.import': 'IMPORT',
+  'save.importTitle': 'Import save file',
+  'save.loaded': 'Loaded {file}',
+  'save.rejected': 'Import rejected',
+  'allocation.direct': 'DIRECT',
+  'allocation.directTitle': 'Holdings as listed',
+  'allocation.lookThrough': 'LOOK-THROUGH',
+  'allocation.lookThroughTitle': 'Follow OWNS/SUBSIDIARY stakes to the underlying assets',
+
+  // --- Enum labels ---
+  'assetType.REAL_ESTATE': 'Real Estate',
+  'assetType.STOCK': 'Stock',
+  'assetType.BOND': 'Bond',
+  'assetType.CASH': 'Cash',
+  'assetType.CRYPTO': 'Crypto',
+  'assetType.PRIVATE_EQUITY': 'Private Equity',
+  'region.NORTH_AMERICA': 'North America',
+  'region.ASIA': 'Asia',
+  'region.EUROPE': 'Europe',
+  'region.EMERGING_MARKETS': 'Emerging Markets',
+  'region.GLOBAL': 'Global',
+  'relationship.OWNS': 'OWNS',
+  'relationship.PARTNER': 'PARTNER',
+  'relationship.SUBSIDIARY': 'SUBSIDIARY',
+  'relationship.CORRELATED': 'CORRELATED',
+  'stage.EXPANSION': 'EXPANSION',
+  'stage.PEAK': 'PEAK',
+  'stage.CONTRACTION': 'CONTRACTION',
+  'stage.TROUGH': 'TROUGH',
+
+  // --- Shared ---
+  'common.create': 'CREATE',
+  'common.save': 'SAVE',
+  'common.delete': 'DELETE',
+  'common.cancel': 'CANCEL',
+
+  // --- Asset card ---
+  'card.yield': '+{roi}% Yield',
+  'card.region': 'Region: {region}',
+  'card.risk': 'Risk Lvl: {risk}',
+  'card.quarters': '{count} quarters',
+
+  // --- Realm ---
+  'realm.title': 'Realm',
+  'realm.heading': '{width}x{height} Grid',
+  'realm.status': 'Local Sector • Expansion Available',
+  'realm.repositioning': 'REPOSITIONING ASSET...',
+  'realm.hintDrag': 'DRAG & DROP (DROP ON A BUILDING TO SWAP)',
+  'realm.hintRotate': 'ROTATE / SELECT',
+  'realm.hintZoom': 'ZOOM',
+  'realm.hintScan': 'SCAN',
+  'realm.hintUndo': 'UNDO',
+  'realm.valuation': 'VALUATION',
+  'realm.inCurrency': 'IN {code}',
+  'realm.type': 'TYPE',
+  'realm.coords': 'COORDS',
+  'realm.roi': '+{roi}% ROI',
+  'realm.effectSynergy': '{relationship} next to {name}',
+  'realm.effectDistrict': '{district} ({size})',
+  'realm.noDistricts': 'No districts yet: group 3+ buildings of one type',
+  'realm.previewCell': 'DROP AT',
+  'realm.previewSwap': 'swaps with {name}',
+  'realm.noBonus': 'No placement bonus here',
+  'realm.bonus': 'YIELD BONUS',
+  'realm.boardIncome': 'BOARD Δ / YR',
+  'realm.placement': 'PLACEMENT',
+  'tile.TAX_HAVEN': 'Tax Haven',
+  'tile.TAX_HAVEN.effect': '+1% yield',
+  'tile.FLOOD_ZONE': 'Flood Zone',
+  'tile.FLOOD_ZONE.effect': '−1.5% yield, risk +2',
+  'tile.INNOVATION_PARK': 'Innovation Park',
+  'tile.INNOVATION_PARK.effect': '+1.5% yield for stocks, private equity and crypto',
+  'district.REAL_ESTATE': 'Property Quarter',
+  'district.STOCK': 'Financial District',
+  'district.BOND': 'Treasury Row',
+  'district.CASH': 'Vault Street',
+  'district.CRYPTO': 'Crypto Valley',
+  'district.PRIVATE_EQUITY': 'Venture Park',
+  'realm.addSector': '+ SECTOR',
+  'realm.editSector': 'Rename, resize or delete this sector',
+  'realm.hintTab': 'DROP ON A TAB TO MOVE IT TO THAT SECTOR',
+  'realm.sectorFull': '{name} has no free cell',
+  'realm.offBoard': '{count} holdings have no free cell. Enlarge a sector or add one.',
+  'realm.dropOutside': 'Drop inside the board to move a building',
+  'realm.hintHold': 'PICK UP (TOUCH)',
+  'realm.hintArrows': 'FOCUS / MOVE',
+  'realm.hintEnter': 'PICK UP / DROP',
+  'realm.hintEscape': 'CANCEL',
+  'realm.a11yBoard': 'Realm board, sector {name}. Arrow keys move between buildings; Enter picks one up.',
+  'realm.a11yCell': 'column {x}, row {y}',
+  'realm.a11yFocus': '{name}, {type}, {value}, {cell}',
+  'realm.a11yPickedUp': 'Picked up {name}. Arrow keys move it, Enter drops, Escape cancels.',
+  'realm.a11yOverSwap': '{cell}, swaps with {name}',
+  'realm.a11yOutside': 'Outside the board',
+  'realm.a11yMoved': '{name} moved to {cell}',
+  'realm.a11yUnchanged': '{name} stays at {cell}',
+  'realm.a11yCancelled': 'Move cancelled. {name} is back at {cell}',
+  'realm.a11yToSector': '{name} moved to sector {sector}',
+  'realm.heightBy': 'HEIGHT',
+  'realm.colorBy': 'COLOR',
+  'realm.noData': 'No data',
+  'realm.metric.value': 'Value',
+  'realm.metric.roi': 'ROI',
+  'realm.metric.risk': 'Risk',
+  'realm.metric.income': 'Income / yr',
+  'realm.metric.change': 'Change last turn',
+  'realm.metric.type': 'Asset type',
+  'sector.titleNew': 'New Sector',
+  'sector.titleEdit': 'Edit Sector',
+  'sector.name': 'NAME',
+  'sector.width': 'COLUMNS',
+  'sector.height': 'ROWS',
+  'sector.defaultName': 'Sector {n}',
+  'sector.holdings': '{count} buildings stand here, so the board needs at least {count} cells.',
+  'sector.tooSmall': '{width}x{height} has room for {cells} buildings, not {count}',
+  'sector.nameRequired': 'Name is required',
+  'sector.widthRange': 'Columns must be a whole number from {min} to {max} (got {value})',
+  'sector.heightRange': 'Rows must be a whole number from {min} to {max} (got {value})',
+  'sector.lastOne': 'The last sector cannot be deleted',
+  'sector.notEmpty': 'Move every building off this sector before deleting it',
+
+  // --- Nexus ---
+  'nexus.title': 'Nexus',
+  'nexus.heading': 'Relationship Graph',
+  'nexus.subtitle': 'Ownership structures and asset correlations.',
+  'nexus.linkModeOn': '☍ LINK MODE: ON',
+  'nexus.linkModeOff': '☍ LINK MODE: OFF',
+  'nexus.hintDragLink': 'DRAG NODE → NODE TO LINK',
+  'nexus.hintShiftDrag': 'SHIFT+DRAG TO LINK',
+  'nexus.hintEditEdge': 'CLICK / RIGHT-CLICK EDGE TO EDIT',
+  'nexus.editLink': '✎ Edit link',
+  'nexus.deleteLink': '✕ Delete link',
+  'nexus.newLinkTitle': 'New Link',
+  'nexus.editLinkTitle': 'Edit Link',
+  'nexus.type': 'Type',
+  'nexus.correlation': 'Correlation',
+  'nexus.strength': 'Strength',
+  'nexus.stake': 'Stake',
+  'nexus.nodeType': 'Type:',
+  'nexus.nodeValue': 'Value:',
+  'nexus.stressNone': 'NO STRESS OVERLAY',
+  'nexus.stressLegend': 'CHANGE UNDER SCENARIO',
+  'nexus.nodeStress': 'Stress:',
+  'link.errorSource': 'Pick an existing holding as the source',
+  'link.errorTarget': 'Pick an existing holding as the target',
+  'link.errorSelf': 'A holding cannot be linked to itself',
+  'link.errorType': 'Unknown link type',
+  'link.errorStrength': 'Strength must be between 0 and 100%',
+  'link.errorDuplicate': 'A link of this type between these holdings already exists',
+  'link.errorCycle': 'Ownership cannot be circular: the target already owns the source, directly or indirectly',
+  'link.errorOverClaim': 'Ownership of {name} would total {total}% (only {available}% is still available)',
+
+  // --- Geo ---
+  'geo.title': 'Geo-Grid',
+  'geo.heading': 'Global Distribution',
+  'geo.subtitle': 'Asset deployment across global theaters.',
+  'geo.deployment': 'Deployment: {amount}',
+  'geo.lookThroughTitle': 'Look-through exposure',
+
+  // --- Oracle ---
+  'oracle.title': 'Oracle',
+  'oracle.heading': 'Strategic Intelligence',
+  'oracle.subtitle': 'Macro-economic cycle analysis & AI directives.',
+  'oracle.providerTitle': 'Choose the model provider behind the Oracle',
+  'oracle.refresh': 'REFRESH INTEL',
+  'oracle.uplinking': 'UPLINKING...',
+  'oracle.restartTitle': 'Restart: the current request is cancelled',
+  'oracle.initializing': 'Initializing link to Global Macro Database...',
+  'oracle.totalNetWorth': 'Total Net Worth',
+  'oracle.inclCash': 'incl. {amount} cash',
+  'oracle.doubleCounted': '−{amount} double counted via subsidiaries',
+  'oracle.portfolioOnline': '▲ PORTFOLIO ONLINE',
+  'oracle.assetDistribution': 'Asset Distribution',
+  'oracle.currencyExposure': 'Currency Exposure',
+  'oracle.threatLevel': 'Threat Level',
+  'oracle.volatility': 'Portfolio Volatility {percent} p.a.',
+  'oracle.varTitle': 'One-year loss not exceeded in 95% of simulated scenarios',
+  'oracle.cvarTitle': 'Average loss in the worst 5% of scenarios',
+  'oracle.exposureProfile': 'Exposure Profile',
+  'oracle.riskLow': 'LOW RISK (0-3)',
+  'oracle.riskMedium': 'MED RISK (4-7)',
+  'oracle.riskHigh': 'HIGH RISK (8-10)',
+  'oracle.criticalVulnerabilities': 'Critical Vulnerabilities',
+  'oracle.riskShare': '{name} ({percent} of risk)',
+  'oracle.riskShareTitle': '{weight} of net worth, marginal vol {marginal}',
+  'oracle.via': 'via {provider}',
+  'oracle.archivedFrom': 'Archived briefing from {date}',
+  'oracle.scanCancelled': '■ SCAN CANCELLED',
+  'oracle.scanFailed': '■ SCAN FAILED',
+  'oracle.sources': 'Source Uplink:',
+  'oracle.linkWithheld': 'Link withheld: not an http(s) URL',
+  'oracle.incoming': 'INCOMING TRANSMISSION...',
+  'oracle.calculating': 'CALCULATING PROBABILITIES...',
+  'oracle.awaitingMacro': 'AWAITING MACRO SCAN...',
+  'oracle.cycle': 'CYCLE // {assessment}',
+  'oracle.statusFailed': 'Directive request failed',
+  'oracle.statusUnstructured': 'Reply was not structured; opportunities and risks unavailable',
+  'oracle.statusPartialOne': 'Reply partly malformed (1 issue)',
+  'oracle.statusPartial': 'Reply partly malformed ({count} issues)',
+  'oracle.macroFailed': 'Error connecting to the Oracle. Check the provider settings, network or API key.',
+  'oracle.macroEmpty': 'Unable to retrieve macro analysis.',
+  'oracle.silent': 'The Oracle is silent.',
+  'oracle.issueMissing': '{field} is missing',
+  'oracle.issueNotList': '{field} is missing or not a list',
+  'oracle.issueNoTitle': '{field}[{index}] has no title',
+  'oracle.issueTruncated': '{field}: kept the first {max} of {count}',
+  'oracle.issueNotJson': 'Reply was not valid JSON; showing it as free text',
+  'oracle.issueRequest': 'Request failed: {message}',
+  'oracle.transmissionCancelled': 'Transmission cancelled. Hit REFRESH INTEL to try again.',
+  'oracle.transmissionFailed': 'Transmission failed: {message}. Hit REFRESH INTEL to try again.',
+  'oracle.waiting': 'Waiting for macro data...',
+  'oracle.opportunities': 'OPPORTUNITIES',
+  'oracle.risks': 'RISKS',
+  'oracle.noneReported': 'None reported.',
+  // --- Rebalancing ---
+  'rebalance.title': 'Rebalancing Planner',
+  'rebalance.editTargets': 'EDIT TARGETS',
+  'rebalance.noTargets': 'No target allocation set. Define target weights per type or region to see drift and a trade plan.',
+  'rebalance.byType': 'By Type',
+  'rebalance.byRegion': 'By Region',
+  'rebalance.now': 'NOW',
+  'rebalance.target': 'TARGET',
+  'rebalance.after': 'AFTER',
+  'rebalance.over': 'OVER',
+  'rebalance.under': 'UNDER',
+  'rebalance.within': 'OK',
+  'rebalance.locked': '{amount} in illiquid holdings, which the planner does not trade',
+  'rebalance.plan': 'Trade Plan',
+  'rebalance.inBands': 'Every targeted group is within its band. Nothing to trade.',
+  'rebalance.noTrades': 'No trade within the limits brings the portfolio closer to its targets.',
+  'rebalance.buy': 'BUY',
+  'rebalance.sell': 'SELL',
+  'rebalance.sellAll': 'ALL',
+  'rebalance.costTitle': 'Estimated fee {fee} and slippage {slippage}',
+  'rebalance.turnover': 'Turnover {amount}',
+  'rebalance.cost': 'Est. costs {amount}',
+  'rebalance.cashChange': 'Cash {amount}',
+  'rebalance.minTrade': 'Min. trade {amount}',
+  'rebalance.residual': 'Drift left after this plan:',
+  'rebalance.noteBelowMinimum': '{count} trades below the {amount} minimum left out',
+  'rebalance.noteCashLimited': 'Not enough cash after sales to make every buy in full',
+  'rebalance.noteIlliquidOnly': '{group}: held only in illiquid holdings, which the planner does not sell',
+  'rebalance.noteNoLiquidHolding': '{group}: no liquid holding to buy into; add one to reach the target',
+  'rebalance.noteConflictOver': '{group}: still over its band; it conflicts with other targets or the trade limits',
+  'rebalance.noteConflictUnder': '{group}: still under its band; it conflicts with other targets or the trade limits',
+  'rebalance.planHint': 'Work out the trades that bring every targeted group back within its band.',
+  'rebalance.makePlan': 'PLAN TRADES',
+  'rebalance.apply': 'APPLY PLAN',
+  'rebalance.applyTitle': 'Execute every trade as a single undoable step',
+
+  // --- Target editor ---
+  'targets.title': 'Target Allocation',
+  'targets.intro': 'Target share of invested holdings, cash excluded. The band is the drift allowed either side before a group needs rebalancing. Leave a row blank for no target.',
+  'targets.group': 'GROUP',
+  'targets.weight': 'TARGET %',
+  'targets.band': 'BAND ±%',
+  'targets.total': 'Total {percent}',
+  'targets.illiquid': 'illiquid',
+  'targets.illiquidTitle': 'The planner never buys or sells this type',
+  'targets.minTrade': 'Minimum trade (USD)',
+  'targets.clear': 'CLEAR ALL',
+
+  // --- Stress testing ---
+  'stress.title': 'Stress Test // Scenarios',
+  'stress.intro': 'Shocks move the holdings they match at once. Correlated links spread the move to neighbours, and ownership stakes pass it through to the holder. Cash is not shocked.',
+  'stress.pick': 'SELECT SCENARIO',
+  'stress.preset.rates-up': 'Rates +200bp',
+  'stress.preset.crypto-crash': 'Crypto −60%',
+  'stress.preset.asia-property': 'Asia real-estate crash',
+  'stress.preset.equity-selloff': 'Global equity sell-off',
+  'stress.custom': 'Custom scenario',
+  'stress.editShocks': 'EDIT SHOCKS',
+  'stress.clear': 'CLEAR',
+  'stress.anyType': 'Any type',
+  'stress.anyRegion': 'Any region',
+  'stress.anyAsset': 'Any holding',
+  'stress.shockChange': 'CHANGE %',
+  'stress.addShock': '+ ADD SHOCK',
+  'stress.removeShock': 'Remove shock',
+  'stress.run': 'RUN SCENARIO',
+  'stress.netWorth': 'NET WORTH',
+  'stress.volatility': 'VOLATILITY',
+  'stress.valueAtRisk': 'VaR ({confidence})',
+  'stress.threat': 'THREAT',
+  'stress.before': 'BEFORE',
+  'stress.after': 'AFTER',
+  'stress.byType': 'Allocation by Type',
+  'stress.byRegion': 'Allocation by Region',
+  'stress.impacts': 'Impact by Holding',
+  'stress.causeDirect': 'shocked',
+  'stress.causeCorrelated': 'co-moves with {name}',
+  'stress.causeOwnership': 'through stakes',
+  'stress.passThrough': '{amount} through stakes',
+  'stress.unaffected': '{count} holdings unaffected',
+  'stress.nexusHint': 'The Nexus graph colors each holding by its change under this scenario.',
+  'stress.issueNoShocks': 'Add at least one shock',
+  'stress.issueChangeRange': 'Shock {n}: change must be between -100% and +{max} (got {value})',
+  'stress.issueUnknownType': 'Shock {n}: unknown type "{value}"',
+  'stress.issueUnknownRegion': 'Shock {n}: unknown region "{value}"',
+  'stress.issueUnknownAsset': 'Shock {n}: unknown holding "{value}"',
+  'stress.warnUnmatched': 'Shock {n} matches no holding',
+  'stress.warnCircular': 'Circular ownership through {name}; the loop was not followed',
+  'stress.warnStakes': '{name}: stakes exceed its value; scaled down',
+  // --- Ledger ---
+  'ledger.title': 'Ledger',
+  'ledger.heading': 'Trade Desk',
+  'ledger.subtitle': 'Buy and sell holdings against your cash balance. Every movement is booked.',
+  'ledger.reconciles': '✓ LEDGER RECONCILES',
+  'ledger.outOfBalance': '⚠ LEDGER OUT OF BALANCE',
+  'ledger.netWorth': 'NET WORTH {amount}',
+  'ledger.ledgerNetWorth': 'LEDGER {amount}',
+  'ledger.feesPaid': 'FEES PAID {amount}',
+  'ledger.cashDiffers': 'Cash differs by {amount}',
+  'ledger.assetDiffers': '{name} differs by {amount}',
+  'ledger.orderTicket': 'Order Ticket',
+  'ledger.spend': 'SPEND $',
+  'ledger.sellShare': 'SELL',
+  'ledger.noHoldings': 'No holdings to trade',
+  'ledger.units': 'UNITS',
+  'ledger.price': 'PRICE',
+  'ledger.marketPrice': 'Market {price}',
+  'ledger.feeSlippage': 'FEE + SLIPPAGE',
+  'ledger.cash': 'CASH',
+  'ledger.closesPosition': 'Selling 100% closes the position and removes it from the board.',
+  'ledger.notEnoughCash': 'Not enough cash: {amount} available.',
+  'ledger.execute': 'EXECUTE {side}',
+  'ledger.tradingCosts': 'Trading Costs',
+  'ledger.feeRate': 'FEE RATE %',
+  'ledger.minFee': 'MIN FEE $',
+  'ledger.slippage': 'SLIPPAGE %',
+  'ledger.cashAvailable': 'Cash available:',
+  'ledger.transactions': 'Transactions ({shown}/{total})',
+  'ledger.allKinds': 'ALL KINDS',
+  'ledger.allAssets': 'ALL ASSETS',
+  'ledger.turnFilter': 'TURN',
+  'ledger.search': 'SEARCH',
+  'ledger.id': 'ID',
+  'ledger.turn': 'TURN',
+  'ledger.kind': 'KIND',
+  'ledger.asset': 'ASSET',
+  'ledger.fee': 'FEE',
+  'ledger.value': 'VALUE',
+  'ledger.note': 'NOTE',
+  'ledger.turnNumber': 'T{turn}',
+  'ledger.cashEntry': 'Cash',
+  'ledger.noMatches': 'No matching transactions',
+  'ledger.kind.OPENING': 'OPENING',
+  'ledger.kind.BUY': 'BUY',
+  'ledger.kind.SELL': 'SELL',
+  'ledger.kind.INCOME': 'INCOME',
+  'ledger.kind.REVALUATION': 'REVALUATION',
+  'ledger.kind.ADJUSTMENT': 'ADJUSTMENT',
+
+  // --- Net worth history ---
+  'networth.title': 'Net Worth History',
+  'networth.byType': 'BY TYPE',
+  'networth.byRegion': 'BY REGION',
+  'networth.empty': 'History starts building once a turn has been played.',
+  'networth.period': 'PERIOD',
+  'networth.netWorth': 'NET WORTH',
+  'networth.periodReturn': 'PERIOD RETURN',
+  'networth.periodReturnTitle': 'Change in net worth over the period, including value added or removed by hand',
+  'networth.maxDrawdown': 'MAX DRAWDOWN',
+  'networth.maxDrawdownTitle': 'Largest fall from a previous peak within the period',
+  'networth.quarter': '{year} Q{quarter}',
+  'networth.cash': 'Cash balance',
+  'networth.zoomHint': 'Drag on the overview to zoom',
+  'networth.adjustHint': 'Drag on the overview to adjust; click outside the selection to reset',
+
+  // --- Projection ---
+  'projection.title': 'Net Worth Projection // Monte Carlo',
+  'projection.years': '{count} YEARS',
+  'projection.paths': '{count} PATHS',
+  'projection.seedPlaceholder': 'SEED (random)',
+  'projection.seedInvalid': 'Seed must be a whole number',
+  'projection.run': 'RUN',
+  'projection.simulating': 'SIMULATING...',
+  'projection.loading': 'SIMULATING FUTURE TIMELINES...',
+  'projection.year': 'Y{year}',
+  'projection.runInfo': '{paths} paths • seed {seed}',
+
+  // --- FX rates ---
+  'fx.title': 'FX Rates',
+  'fx.intro': 'USD value of one unit of each currency. Holdings are revalued at these rates; cash stays in {base}.',
+  'fx.currency': 'CURRENCY',
+  'fx.usdPerUnit': 'USD PER UNIT',
+  'fx.perUsd': 'PER USD',
+  'fx.loadFile': 'LOAD RATE FILE',
+  'fx.loadFileTitle': 'JSON like {"EUR": 1.08} or lines of "EUR,1.08"',
+  'fx.loaded': 'Loaded {count} rates from {file}',
+  'fx.rateInvalid': '{code}: rate must be a positive number',
+  'currency.USD': 'US Dollar',
+  'currency.EUR': 'Euro',
+  'currency.CNY': 'Chinese Yuan',
+  'currency.HKD': 'Hong Kong Dollar',
+  'currency.GBP': 'British Pound',
+  'currency.JPY': 'Japanese Yen',
+
+  // --- Oracle settings ---
+  'oracleSettings.title': 'Oracle Uplink',
+  'oracleSettings.model': 'MODEL',
+  'oracleSettings.endpoint': 'ENDPOINT',
+  'oracleSettings.endpointHint': 'Requests go to {endpoint}/chat/completions',
+  'oracleSettings.apiKey': 'API KEY',
+  'oracleSettings.apiKeyGemini': 'Leave empty to use the build-time key',
+  'oracleSettings.apiKeyOptional': 'Optional for local models',
+  'oracleSettings.apiKeyStored': 'Stored in this browser only.',
+  'oracleSettings.test': 'TEST CONNECTION',
+  'oracleSettings.testing': 'TESTING...',
+  'oracleSettings.emptyReply': '(empty reply)',
+  'oracleSettings.unknownProvider': 'Unknown provider "{provider}"',
+  'oracleSettings.modelRequired': 'Model is required',
+  'oracleSettings.geminiKey': 'Gemini needs an API key (none was configured at build time)',
+  'oracleSettings.endpointProtocol': 'Endpoint must be an http(s) URL',
+  'oracleSettings.endpointInvalid': 'Endpoint must be a valid URL',
+  'provider.gemini': 'Google Gemini',
+  'provider.gemini.description': 'Hosted model with Google Search grounding.',
+  'provider.openai': 'OpenAI-compatible',
+  'provider.openai.description': 'Any /chat/completions endpoint, including locally hosted models.',
+  'provider.mock': 'Offline mock',
+  'provider.mock.description': 'Deterministic canned briefings. No key or network needed.',
+
+  // --- Briefing archive ---
+  'briefing.archive': 'Briefing Archive',
+  'briefing.reuseFor': 'REUSE FOR',
+  'briefing.reuseTitle': 'How long a briefing for an unchanged portfolio is reused instead of calling the model again',
+  'briefing.ttlNever': 'never',
+  'briefing.ttlMinutes': '{count} min',
+  'briefing.ttlHours': '{count} h',
+  'briefing.compare': 'COMPARE {count}/2',
+  'briefing.compareTitle': 'Tick two briefings to compare them',
+  'briefing.empty': 'No briefings archived yet.',
+  'briefing.select': 'Select for comparison',
+  'briefing.fresh': 'FRESH',
+  'briefing.olderPortfolio': 'OLDER PORTFOLIO',
+  'briefing.olderPortfolioTitle': 'The portfolio has changed since this briefing',
+  'briefing.viewing': 'VIEWING',
+  'briefing.remove': 'Delete from archive',
+  'briefing.justNow': 'just now',
+  'briefing.minutesAgo': '{count}m ago',
+  'briefing.hoursAgo': '{count}h ago',
+  'briefing.daysAgo': '{count}d ago',
+  'briefing.comparison': 'Briefing Comparison',
+  'briefing.portfolio': 'portfolio {hash}',
+  'briefing.portfolioChanged': '⚠ The portfolio changed between these briefings, so the advice was based on different holdings.',
+  'briefing.cycle': 'Cycle assessment',
+  'briefing.moves': 'Recommended moves',
+  'briefing.opportunities': 'Opportunities',
+  'briefing.risks': 'Risks',
+  'briefing.macro': 'Macro scan',
+  'briefing.changed': 'CHANGED',
+  'briefing.unchanged': 'UNCHANGED',
+
+  // --- Holdings editor ---
+  'assetEditor.holdings': 'HOLDINGS',
+  'assetEditor.new': '+ NEW',
+  'assetEditor.editTitle': 'Edit Holding',
+  'assetEditor.newTitle': 'New Holding',
+  'assetEditor.name': 'Name',
+  'assetEditor.type': 'Type',
+  'assetEditor.region': 'Region',
+  'assetEditor.value': 'Value ({currency})',
+  'assetEditor.roi': 'ROI (%)',
+  'assetEditor.risk': 'Risk (1-10)',
+  'assetEditor.description': 'Description',
+  'assetEditor.saveChanges': 'SAVE CHANGES',
+  'assetEditor.create': 'CREATE HOLDING',
+  'assetEditor.confirmDelete': 'CONFIRM DELETE',
+  'assetEditor.errorName': 'Name is required',
+  'assetEditor.errorType': 'Unknown asset type',
+  'assetEditor.errorRegion': 'Unknown region',
+  'assetEditor.errorValue': 'Value must be a non-negative number',
+  'assetEditor.errorCurrency': 'Unknown currency',
+  'assetEditor.errorRoi': 'ROI must be between -100% and 1000%',
+  'assetEditor.errorRisk': 'Risk must be between 1 and 10',
+  'assetEditor.errorRiskWhole': 'Risk must be a whole number',
+  'assetEditor.split': 'Split Holding',
+  'assetEditor.splitName': 'New holding name',
+  'assetEditor.splitDefaultName': '{name} (Split)',
+  'assetEditor.splitNew': 'New',
+  'assetEditor.carveOut': 'Carve out {percent}%',
+  'assetEditor.splitButton': 'SPLIT',
+
+  // --- CSV import ---
+  'import.title': 'Import Statement',
+  'import.stepSource': '1. Source',
+  'import.stepMapping': '2. Mapping',
+  'import.stepPreview': '3. Preview',
+  'import.sourceHint': 'Choose a CSV export from your broker or bank, or paste its contents. Comma, semicolon and tab separated files are supported.',
+  'import.chooseFile': 'CHOOSE FILE',
+  'import.noRows': 'The file has a header row but no holdings',
+  'import.columns': 'Columns ({rows} rows, {delimiter} separated)',
+  'import.tab': 'tab',
+  'import.field.name': 'Name *',
+  'import.field.value': 'Value *',
+  'import.field.currency': 'Currency',
+  'import.field.type': 'Type / category',
+  'import.field.region': 'Region / country',
+  'import.field.units': 'Units / quantity',
+  'import.field.roi': 'Yield / ROI',
+  'import.field.risk': 'Risk (1-10)',
+  'import.field.description': 'Notes',
+  'import.notInFile': '— not in file —',
+  'import.column': 'Column {index}',
+  'import.required': 'Name and value columns are required.',
+  'import.defaultType': 'Default type',
+  'import.defaultRegion': 'Default region',
+  'import.defaultCurrency': 'Default currency',
+  'import.typeMapping': 'Category → Type',
+  'import.regionMapping': 'Region / Country → Region',
+  'import.mappingHint': 'Map a type or region column to translate its values; otherwise the defaults are used for every row.',
+  'import.countCreate': '{count} new',
+  'import.countUpdate': '{count} update existing',
+  'import.countSkip': '{count} skipped',
+  'import.line': 'LINE',
+  'import.action': 'ACTION',
+  'import.name': 'NAME',
+  'import.type': 'TYPE',
+  'import.region': 'REGION',
+  'import.value': 'VALUE',
+  'import.details': 'DETAILS',
+  'import.action.CREATE': 'CREATE',
+  'import.action.UPDATE': 'UPDATE',
+  'import.action.SKIP': 'SKIP',
+  'import.replaces': 'Replaces {name} ({value})',
+  'import.back': 'BACK',
+  'import.next': 'NEXT',
+  'import.preview': 'PREVIEW',
+  'import.import': 'IMPORT {count} HOLDINGS'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,588 @@
+import { MessageKey } from './en';
+
+// Simplified Chinese catalog. Typed against the English keys so a missing entry fails the build.
+export const zhCN: Record<MessageKey, string> = {
+  // --- Layout ---
+  'nav.realm': '领域',
+  'nav.nexus': '关联',
+  'nav.geo': '地域',
+  'nav.oracle': '神谕',
+  'nav.ledger': '账本',
+  'nav.holdings': '持仓',
+  'nav.import': '导入 CSV',
+  'layout.language': '语言',
+  'layout.displayCurrency': '显示货币',
+  'layout.showIn': '以 {code} 显示',
+  'layout.fx': '汇率',
+  'layout.editFx': '编辑汇率',
+  'layout.systemStatus': '系统状态：',
+  'layout.online': '在线',
+
+  // --- Sidebar panels ---
+  'history.title': '历史',
+  'history.undo': '撤销 (Ctrl+Z)',
+  'history.redo': '重做 (Ctrl+Shift+Z)',
+  'history.start': '开始',
+  'history.sessionStart': '会话开始',
+  'history.loadedSave': '载入存档',
+  'history.move': '移动 {name}',
+  'history.swap': '交换 {name} ↔ {other}',
+  'history.moveToSector': '将 {name} 移至 {sector}',
+  'history.addSector': '添加扇区 {name}',
+  'history.editSector': '编辑扇区 {name}',
+  'history.removeSector': '删除扇区 {name}',
+  'history.create': '创建 {name}',
+  'history.edit': '编辑 {name}',
+  'history.delete': '删除 {name}',
+  'history.split': '从 {source} 拆分出 {name}',
+  'history.import': '从 CSV 导入 {count} 项持仓',
+  'history.link': '连线 {source} → {target}（{type}）',
+  'history.editLink': '编辑连线 {source} → {target}（{type}）',
+  'history.removeLink': '删除连线 {source} → {target}（{type}）',
+  'history.buy': '买入 {name}',
+  'history.sell': '卖出 {name} 的 {percent}%',
+  'history.tradeSettings': '修改交易成本',
+  'history.targets': '修改目标配置',
+  'history.rebalance': '再平衡（{count} 笔交易）',
+  'history.fxRates': '更新汇率',
+  'history.endTurn': '结束第 {turn} 回合',
+  'turn.macroCycle': '宏观周期',
+  'turn.clock': '第{year}年 Q{quarter} • 回合{turn}',
+  'turn.cash': '现金',
+  'turn.netWorth': '净资产',
+  'turn.lastTurn': '上回合',
+  'turn.incomePaid': '已付收益：{amount}',
+  'turn.end': '结束回合 ▸',
+  'turn.endTitle': '宏观周期推进一个季度',
+  'save.export': '导出',
+  'save.exportTitle': '导出存档文件',
+  'save.import': '导入',
+  'save.importTitle': '导入存档文件',
+  'save.loaded': '已载入 {file}',
+  'save.rejected': '导入被拒绝',
+  'allocation.direct': '直接',
+  'allocation.directTitle': '按列示持仓计算',
+  'allocation.lookThrough': '穿透',
+  'allocation.lookThroughTitle': '沿持有/子公司股权追溯到底层资产',
+
+  // --- Enum labels ---
+  'assetType.REAL_ESTATE': '房地产',
+  'assetType.STOCK': '股票',
+  'assetType.BOND': '债券',
+  'assetType.CASH': '现金',
+  'assetType.CRYPTO': '加密货币',
+  'assetType.PRIVATE_EQUITY': '私募股权',
+  'region.NORTH_AMERICA': '北美',
+  'region.ASIA': '亚洲',
+  'region.EUROPE': '欧洲',
+  'region.EMERGING_MARKETS': '新兴市场',
+  'region.GLOBAL': '全球',
+  'relationship.OWNS': '持有',
+  'relationship.PARTNER': '合作',
+  'relationship.SUBSIDIARY': '子公司',
+  'relationship.CORRELATED': '相关',
+  'stage.EXPANSION': '扩张',
+  'stage.PEAK': '顶峰',
+  'stage.CONTRACTION': '收缩',
+  'stage.TROUGH': '低谷',
+
+  // --- Shared ---
+  'common.create': '创建',
+  'common.save': '保存',
+  'common.delete': '删除',
+  'common.cancel': '取消',
+
+  // --- Asset card ---
+  'card.yield': '收益率 +{roi}%',
+  'card.region': '地区：{region}',
+  'card.risk': '风险等级：{risk}',
+  'card.quarters': '{count} 个季度',
+
+  // --- Realm ---
+  'realm.title': '领域',
+  'realm.heading': '{width}x{height} 网格',
+  'realm.status': '本地扇区 • 可扩建',
+  'realm.repositioning': '正在移动资产...',
+  'realm.hintDrag': '拖放（放到建筑上可交换位置）',
+  'realm.hintRotate': '旋转 / 选择',
+  'realm.hintZoom': '缩放',
+  'realm.hintScan': '查看',
+  'realm.hintUndo': '撤销',
+  'realm.valuation': '估值',
+  'realm.inCurrency': '折合 {code}',
+  'realm.type': '类型',
+  'realm.coords': '坐标',
+  'realm.roi': '回报率 +{roi}%',
+  'realm.effectSynergy': '与 {name} 相邻（{relationship}）',
+  'realm.effectDistrict': '{district}（{size}）',
+  'realm.noDistricts': '暂无街区：将 3 座以上同类建筑相邻排列',
+  'realm.previewCell': '放置于',
+  'realm.previewSwap': '与 {name} 互换',
+  'realm.noBonus': '此处无位置加成',
+  'realm.bonus': '收益加成',
+  'realm.boardIncome': '全盘年变动',
+  'realm.placement': '位置效果',
+  'tile.TAX_HAVEN': '避税天堂',
+  'tile.TAX_HAVEN.effect': '收益 +1%',
+  'tile.FLOOD_ZONE': '洪泛区',
+  'tile.FLOOD_ZONE.effect': '收益 −1.5%，风险 +2',
+  'tile.INNOVATION_PARK': '创新园区',
+  'tile.INNOVATION_PARK.effect': '股票、私募股权和加密货币收益 +1.5%',
+  'district.REAL_ESTATE': '地产街区',
+  'district.STOCK': '金融区',
+  'district.BOND': '国债街',
+  'district.CASH': '金库街',
+  'district.CRYPTO': '加密谷',
+  'district.PRIVATE_EQUITY': '创投园',
+  'realm.addSector': '+ 扇区',
+  'realm.editSector': '重命名、调整大小或删除此扇区',
+  'realm.hintTab': '放到标签上可移至该扇区',
+  'realm.sectorFull': '{name} 已无空位',
+  'realm.offBoard': '{count} 项资产没有空位。请扩大扇区或新增扇区。',
+  'realm.dropOutside': '请放在棋盘内以移动建筑',
+  'realm.hintHold': '长按拿起（触屏）',
+  'realm.hintArrows': '切换 / 移动',
+  'realm.hintEnter': '拿起 / 放下',
+  'realm.hintEscape': '取消',
+  'realm.a11yBoard': '领域棋盘，扇区 {name}。方向键在建筑间切换，回车键拿起建筑。',
+  'realm.a11yCell': '第 {x} 列，第 {y} 行',
+  'realm.a11yFocus': '{name}，{type}，{value}，{cell}',
+  'realm.a11yPickedUp': '已拿起 {name}。方向键移动，回车键放下，Esc 取消。',
+  'realm.a11yOverSwap': '{cell}，与 {name} 互换',
+  'realm.a11yOutside': '棋盘之外',
+  'realm.a11yMoved': '{name} 已移至{cell}',
+  'realm.a11yUnchanged': '{name} 仍在{cell}',
+  'realm.a11yCancelled': '已取消移动。{name} 回到{cell}',
+  'realm.a11yToSector': '{name} 已移至扇区 {sector}',
+  'realm.heightBy': '高度',
+  'realm.colorBy': '颜色',
+  'realm.noData': '无数据',
+  'realm.metric.value': '价值',
+  'realm.metric.roi': '回报率',
+  'realm.metric.risk': '风险',
+  'realm.metric.income': '年收益',
+  'realm.metric.change': '上回合变动',
+  'realm.metric.type': '资产类型',
+  'sector.titleNew': '新建扇区',
+  'sector.titleEdit': '编辑扇区',
+  'sector.name': '名称',
+  'sector.width': '列数',
+  'sector.height': '行数',
+  'sector.defaultName': '扇区 {n}',
+  'sector.holdings': '此处有 {count} 座建筑，棋盘至少需要 {count} 格。',
+  'sector.tooSmall': '{width}x{height} 只能容纳 {cells} 座建筑，而不是 {count} 座',
+  'sector.nameRequired': '名称不能为空',
+  'sector.widthRange': '列数必须是 {min} 到 {max} 之间的整数（当前为 {value}）',
+  'sector.heightRange': '行数必须是 {min} 到 {max} 之间的整数（当前为 {value}）',
+  'sector.lastOne': '不能删除最后一个扇区',
+  'sector.notEmpty': '请先将所有建筑移出此扇区再删除',
+
+  // --- Nexus ---
+  'nexus.title': '关联',
+  'nexus.heading': '关系图谱',
+  'nexus.subtitle': '股权结构与资产相关性。',
+  'nexus.linkModeOn': '☍ 连线模式：开',
+  'nexus.linkModeOff': '☍ 连线模式：关',
+  'nexus.hintDragLink': '从节点拖到节点以连线',
+  'nexus.hintShiftDrag': 'SHIFT+拖动以连线',
+  'nexus.hintEditEdge': '单击 / 右键单击连线以编辑',
+  'nexus.editLink': '✎ 编辑连线',
+  'nexus.deleteLink': '✕ 删除连线',
+  'nexus.newLinkTitle': '新建连线',
+  'nexus.editLinkTitle': '编辑连线',
+  'nexus.type': '类型',
+  'nexus.correlation': '相关系数',
+  'nexus.strength': '强度',
+  'nexus.stake': '持股',
+  'nexus.nodeType': '类型：',
+  'nexus.nodeValue': '价值：',
+  'nexus.stressNone': '无压力叠加',
+  'nexus.stressLegend': '情景下变动',
+  'nexus.nodeStress': '压力:',
+  'link.errorSource': '请选择一个现有持仓作为起点',
+  'link.errorTarget': '请选择一个现有持仓作为终点',
+  'link.errorSelf': '持仓不能与自身连线',
+  'link.errorType': '未知的连线类型',
+  'link.errorStrength': '强度必须在 0 到 100% 之间',
+  'link.errorDuplicate': '这两个持仓之间已有此类型的连线',
+  'link.errorCycle': '持股不能形成循环：终点已直接或间接持有起点',
+  'link.errorOverClaim': '{name} 的持股合计将达 {total}%（仅剩 {available}% 可分配）',
+
+  // --- Geo ---
+  'geo.title': '地域网格',
+  'geo.heading': '全球分布',
+  'geo.subtitle': '资产在全球各战区的部署。',
+  'geo.deployment': '部署：{amount}',
+  'geo.lookThroughTitle': '穿透敞口',
+
+  // --- Oracle ---
+  'oracle.title': '神谕',
+  'oracle.heading': '战略情报',
+  'oracle.subtitle': '宏观经济周期分析与 AI 指令。',
+  'oracle.providerTitle': '选择神谕背后的模型服务',
+  'oracle.refresh': '刷新情报',
+  'oracle.uplinking': '正在连接...',
+  'oracle.restartTitle': '重新开始：当前请求将被取消',
+  'oracle.initializing': '正在连接全球宏观数据库...',
+  'oracle.totalNetWorth': '总净资产',
+  'oracle.inclCash': '含现金 {amount}',
+  'oracle.doubleCounted': '经子公司重复计算 −{amount}',
+  'oracle.portfolioOnline': '▲ 投资组合在线',
+  'oracle.assetDistribution': '资产分布',
+  'oracle.currencyExposure': '货币敞口',
+  'oracle.threatLevel': '威胁等级',
+  'oracle.volatility': '组合年化波动率 {percent}',
+  'oracle.varTitle': '95% 模拟情景下不会超过的一年期损失',
+  'oracle.cvarTitle': '最差 5% 情景的平均损失',
+  'oracle.exposureProfile': '敞口概况',
+  'oracle.riskLow': '低风险 (0-3)',
+  'oracle.riskMedium': '中风险 (4-7)',
+  'oracle.riskHigh': '高风险 (8-10)',
+  'oracle.criticalVulnerabilities': '关键薄弱点',
+  'oracle.riskShare': '{name}（占风险 {percent}）',
+  'oracle.riskShareTitle': '占净资产 {weight}，边际波动率 {marginal}',
+  'oracle.via': '来源：{provider}',
+  'oracle.archivedFrom': '存档简报，生成于 {date}',
+  'oracle.scanCancelled': '■ 扫描已取消',
+  'oracle.scanFailed': '■ 扫描失败',
+  'oracle.sources': '信息来源：',
+  'oracle.linkWithheld': '链接已隐藏：不是 http(s) 地址',
+  'oracle.incoming': '正在接收传输...',
+  'oracle.calculating': '正在计算概率...',
+  'oracle.awaitingMacro': '等待宏观扫描...',
+  'oracle.cycle': '周期 // {assessment}',
+  'oracle.statusFailed': '指令请求失败',
+  'oracle.statusUnstructured': '回复不是结构化数据；无法提供机会与风险',
+  'oracle.statusPartialOne': '回复部分格式错误（1 个问题）',
+  'oracle.statusPartial': '回复部分格式错误（{count} 个问题）',
+  'oracle.macroFailed': '连接神谕失败。请检查服务商设置、网络或 API 密钥。',
+  'oracle.macroEmpty': '无法获取宏观分析。',
+  'oracle.silent': '神谕沉默不语。',
+  'oracle.issueMissing': '缺少 {field}',
+  'oracle.issueNotList': '{field} 缺失或不是列表',
+  'oracle.issueNoTitle': '{field}[{index}] 没有标题',
+  'oracle.issueTruncated': '{field}：仅保留了 {count} 项中的前 {max} 项',
+  'oracle.issueNotJson': '回复不是有效的 JSON，已按纯文本显示',
+  'oracle.issueRequest': '请求失败：{message}',
+  'oracle.transmissionCancelled': '传输已取消。点击“刷新情报”重试。',
+  'oracle.transmissionFailed': '传输失败：{message}。点击“刷新情报”重试。',
+  'oracle.waiting': '等待宏观数据...',
+  'oracle.opportunities': '机会',
+  'oracle.risks': '风险',
+  'oracle.noneReported': '暂无。',
+  // --- Rebalancing ---
+  'rebalance.title': '再平衡规划',
+  'rebalance.editTargets': '编辑目标',
+  'rebalance.noTargets': '尚未设置目标配置。为各类型或地区设定目标权重，即可查看偏离和交易计划。',
+  'rebalance.byType': '按类型',
+  'rebalance.byRegion': '按地区',
+  'rebalance.now': '当前',
+  'rebalance.target': '目标',
+  'rebalance.after': '调整后',
+  'rebalance.over': '超配',
+  'rebalance.under': '低配',
+  'rebalance.within': '正常',
+  'rebalance.locked': '{amount} 为非流动性持仓，规划器不会交易',
+  'rebalance.plan': '交易计划',
+  'rebalance.inBands': '所有目标组均在容差范围内，无需交易。',
+  'rebalance.noTrades': '在交易限制内，没有能让组合更接近目标的交易。',
+  'rebalance.buy': '买入',
+  'rebalance.sell': '卖出',
+  'rebalance.sellAll': '全部',
+  'rebalance.costTitle': '预计手续费 {fee}，滑点 {slippage}',
+  'rebalance.turnover': '换手 {amount}',
+  'rebalance.cost': '预计成本 {amount}',
+  'rebalance.cashChange': '现金 {amount}',
+  'rebalance.minTrade': '最小交易 {amount}',
+  'rebalance.residual': '执行后仍有偏离：',
+  'rebalance.noteBelowMinimum': '{count} 笔交易低于最小交易额 {amount}，已略去',
+  'rebalance.noteCashLimited': '卖出后现金不足，部分买入无法全额执行',
+  'rebalance.noteIlliquidOnly': '{group}：仅由非流动资产构成，规划器不会卖出',
+  'rebalance.noteNoLiquidHolding': '{group}：没有可买入的流动资产；请添加一项以达到目标',
+  'rebalance.noteConflictOver': '{group}：仍高于区间；与其他目标或交易限制冲突',
+  'rebalance.noteConflictUnder': '{group}：仍低于区间；与其他目标或交易限制冲突',
+  'rebalance.planHint': '计算使每个目标组回到区间内所需的交易。',
+  'rebalance.makePlan': '生成交易计划',
+  'rebalance.apply': '执行计划',
+  'rebalance.applyTitle': '将所有交易作为一个可撤销步骤执行',
+
+  // --- Target editor ---
+  'targets.title': '目标配置',
+  'targets.intro': '目标为持仓（不含现金）中的占比。容差为目标两侧允许的偏离，超出后该组需要再平衡。留空表示不设目标。',
+  'targets.group': '分组',
+  'targets.weight': '目标 %',
+  'targets.band': '容差 ±%',
+  'targets.total': '合计 {percent}',
+  'targets.illiquid': '非流动',
+  'targets.illiquidTitle': '规划器不会买卖此类型',
+  'targets.minTrade': '最小交易额（美元）',
+  'targets.clear': '全部清除',
+
+  // --- Stress testing ---
+  'stress.title': '压力测试 // 情景',
+  'stress.intro': '冲击会立即作用于匹配的持仓。相关性连接把波动传导给相邻资产，持股关系把损益传递给持有方。现金不受冲击。',
+  'stress.pick': '选择情景',
+  'stress.preset.rates-up': '利率 +200bp',
+  'stress.preset.crypto-crash': '加密货币 −60%',
+  'stress.preset.asia-property': '亚洲房地产崩盘',
+  'stress.preset.equity-selloff': '全球股市抛售',
+  'stress.custom': '自定义情景',
+  'stress.editShocks': '编辑冲击',
+  'stress.clear': '清除',
+  'stress.anyType': '任意类型',
+  'stress.anyRegion': '任意地区',
+  'stress.anyAsset': '任意持仓',
+  'stress.shockChange': '变动 %',
+  'stress.addShock': '+ 添加冲击',
+  'stress.removeShock': '移除冲击',
+  'stress.run': '运行情景',
+  'stress.netWorth': '净资产',
+  'stress.volatility': '波动率',
+  'stress.valueAtRisk': '风险价值 ({confidence})',
+  'stress.threat': '威胁等级',
+  'stress.before': '之前',
+  'stress.after': '之后',
+  'stress.byType': '按类型配置',
+  'stress.byRegion': '按地区配置',
+  'stress.impacts': '持仓影响',
+  'stress.causeDirect': '直接冲击',
+  'stress.causeCorrelated': '随 {name} 联动',
+  'stress.causeOwnership': '经由持股',
+  'stress.passThrough': '经由持股 {amount}',
+  'stress.unaffected': '{count} 项持仓未受影响',
+  'stress.nexusHint': '关系图会按此情景下的变动为每项持仓着色。',
+  'stress.issueNoShocks': '请至少添加一个冲击',
+  'stress.issueChangeRange': '冲击 {n}：变动必须在 -100% 到 +{max} 之间（当前为 {value}）',
+  'stress.issueUnknownType': '冲击 {n}：未知类型“{value}”',
+  'stress.issueUnknownRegion': '冲击 {n}：未知地区“{value}”',
+  'stress.issueUnknownAsset': '冲击 {n}：未知资产“{value}”',
+  'stress.warnUnmatched': '冲击 {n} 没有匹配任何资产',
+  'stress.warnCircular': '{name} 存在循环持股；未沿循环继续计算',
+  'stress.warnStakes': '{name}：持股价值超过其自身价值；已按比例缩小',
+  // --- Ledger ---
+  'ledger.title': '账本',
+  'ledger.heading': '交易台',
+  'ledger.subtitle': '用现金余额买卖持仓。每一笔变动都会入账。',
+  'ledger.reconciles': '✓ 账本已对平',
+  'ledger.outOfBalance': '⚠ 账本不平',
+  'ledger.netWorth': '净资产 {amount}',
+  'ledger.ledgerNetWorth': '账本 {amount}',
+  'ledger.feesPaid': '已付费用 {amount}',
+  'ledger.cashDiffers': '现金相差 {amount}',
+  'ledger.assetDiffers': '{name} 相差 {amount}',
+  'ledger.orderTicket': '订单',
+  'ledger.spend': '花费 $',
+  'ledger.sellShare': '卖出',
+  'ledger.noHoldings': '没有可交易的持仓',
+  'ledger.units': '数量',
+  'ledger.price': '价格',
+  'ledger.marketPrice': '市价 {price}',
+  'ledger.feeSlippage': '费用 + 滑点',
+  'ledger.cash': '现金',
+  'ledger.closesPosition': '卖出 100% 将平仓并从棋盘上移除该持仓。',
+  'ledger.notEnoughCash': '现金不足：可用 {amount}。',
+  'ledger.execute': '执行{side}',
+  'ledger.tradingCosts': '交易成本',
+  'ledger.feeRate': '费率 %',
+  'ledger.minFee': '最低费用 $',
+  'ledger.slippage': '滑点 %',
+  'ledger.cashAvailable': '可用现金：',
+  'ledger.transactions': '交易记录（{shown}/{total}）',
+  'ledger.allKinds': '全部类别',
+  'ledger.allAssets': '全部资产',
+  'ledger.turnFilter': '回合',
+  'ledger.search': '搜索',
+  'ledger.id': '编号',
+  'ledger.turn': '回合',
+  'ledger.kind': '类别',
+  'ledger.asset': '资产',
+  'ledger.fee': '费用',
+  'ledger.value': '价值',
+  'ledger.note': '备注',
+  'ledger.turnNumber': '回合{turn}',
+  'ledger.cashEntry': '现金',
+  'ledger.noMatches': '没有匹配的交易',
+  'ledger.kind.OPENING': '期初',
+  'ledger.kind.BUY': '买入',
+  'ledger.kind.SELL': '卖出',
+  'ledger.kind.INCOME': '收益',
+  'ledger.kind.REVALUATION': '重估',
+  'ledger.kind.ADJUSTMENT': '调整',
+
+  // --- Net worth history ---
+  'networth.title': '净资产历史',
+  'networth.byType': '按类型',
+  'networth.byRegion': '按地区',
+  'networth.empty': '进行一回合后开始记录历史。',
+  'networth.period': '期间',
+  'networth.netWorth': '净资产',
+  'networth.periodReturn': '期间回报',
+  'networth.periodReturnTitle': '期间内净资产的变化，包括手动增减的价值',
+  'networth.maxDrawdown': '最大回撤',
+  'networth.maxDrawdownTitle': '期间内相对前高的最大跌幅',
+  'networth.quarter': '{year} Q{quarter}',
+  'networth.cash': '现金余额',
+  'networth.zoomHint': '在概览图上拖动以缩放',
+  'networth.adjustHint': '在概览图上拖动以调整；点击选区外可重置',
+
+  // --- Projection ---
+  'projection.title': '净资产预测 // 蒙特卡洛',
+  'projection.years': '{count} 年',
+  'projection.paths': '{count} 条路径',
+  'projection.seedPlaceholder': '种子（随机）',
+  'projection.seedInvalid': '种子必须是整数',
+  'projection.run': '运行',
+  'projection.simulating': '模拟中...',
+  'projection.loading': '正在模拟未来走势...',
+  'projection.year': '第{year}年',
+  'projection.runInfo': '{paths} 条路径 • 种子 {seed}',
+
+  // --- FX rates ---
+  'fx.title': '汇率',
+  'fx.intro': '每单位货币的美元价值。持仓按这些汇率重估；现金保持为 {base}。',
+  'fx.currency': '货币',
+  'fx.usdPerUnit': '每单位美元',
+  'fx.perUsd': '每美元',
+  'fx.loadFile': '载入汇率文件',
+  'fx.loadFileTitle': '形如 {"EUR": 1.08} 的 JSON，或每行 "EUR,1.08"',
+  'fx.loaded': '已从 {file} 载入 {count} 个汇率',
+  'fx.rateInvalid': '{code}：汇率必须是正数',
+  'currency.USD': '美元',
+  'currency.EUR': '欧元',
+  'currency.CNY': '人民币',
+  'currency.HKD': '港元',
+  'currency.GBP': '英镑',
+  'currency.JPY': '日元',
+
+  // --- Oracle settings ---
+  'oracleSettings.title': '神谕连接',
+  'oracleSettings.model': '模型',
+  'oracleSettings.endpoint': '端点',
+  'oracleSettings.endpointHint': '请求将发送到 {endpoint}/chat/completions',
+  'oracleSettings.apiKey': 'API 密钥',
+  'oracleSettings.apiKeyGemini': '留空则使用构建时配置的密钥',
+  'oracleSettings.apiKeyOptional': '本地模型可不填',
+  'oracleSettings.apiKeyStored': '仅保存在此浏览器中。',
+  'oracleSettings.test': '测试连接',
+  'oracleSettings.testing': '测试中...',
+  'oracleSettings.emptyReply': '（空回复）',
+  'oracleSettings.unknownProvider': '未知的提供方“{provider}”',
+  'oracleSettings.modelRequired': '模型不能为空',
+  'oracleSettings.geminiKey': 'Gemini 需要 API 密钥（构建时未配置）',
+  'oracleSettings.endpointProtocol': '端点必须是 http(s) 地址',
+  'oracleSettings.endpointInvalid': '端点必须是有效的 URL',
+  'provider.gemini': 'Google Gemini',
+  'provider.gemini.description': '托管模型，支持 Google 搜索溯源。',
+  'provider.openai': 'OpenAI 兼容',
+  'provider.openai.description': '任何 /chat/completions 端点，包括本地部署的模型。',
+  'provider.mock': '离线模拟',
+  'provider.mock.description': '确定性的预设简报。无需密钥或网络。',
+
+  // --- Briefing archive ---
+  'briefing.archive': '简报存档',
+  'briefing.reuseFor': '复用时长',
+  'briefing.reuseTitle': '持仓未变时，简报在多长时间内直接复用而不再调用模型',
+  'briefing.ttlNever': '从不',
+  'briefing.ttlMinutes': '{count} 分钟',
+  'briefing.ttlHours': '{count} 小时',
+  'briefing.compare': '对比 {count}/2',
+  'briefing.compareTitle': '勾选两份简报进行对比',
+  'briefing.empty': '尚无存档简报。',
+  'briefing.select': '选中以对比',
+  'briefing.fresh': '有效',
+  'briefing.olderPortfolio': '旧持仓',
+  'briefing.olderPortfolioTitle': '此简报之后持仓已发生变化',
+  'briefing.viewing': '查看中',
+  'briefing.remove': '从存档删除',
+  'briefing.justNow': '刚刚',
+  'briefing.minutesAgo': '{count} 分钟前',
+  'briefing.hoursAgo': '{count} 小时前',
+  'briefing.daysAgo': '{count} 天前',
+  'briefing.comparison': '简报对比',
+  'briefing.portfolio': '持仓 {hash}',
+  'briefing.portfolioChanged': '⚠ 两份简报之间持仓发生了变化，建议基于不同的持仓。',
+  'briefing.cycle': '周期评估',
+  'briefing.moves': '建议操作',
+  'briefing.opportunities': '机会',
+  'briefing.risks': '风险',
+  'briefing.macro': '宏观扫描',
+  'briefing.changed': '有变化',
+  'briefing.unchanged': '无变化',
+
+  // --- Holdings editor ---
+  'assetEditor.holdings': '持仓',
+  'assetEditor.new': '+ 新建',
+  'assetEditor.editTitle': '编辑持仓',
+  'assetEditor.newTitle': '新建持仓',
+  'assetEditor.name': '名称',
+  'assetEditor.type': '类型',
+  'assetEditor.region': '地区',
+  'assetEditor.value': '价值（{currency}）',
+  'assetEditor.roi': '收益率（%）',
+  'assetEditor.risk': '风险（1-10）',
+  'assetEditor.description': '描述',
+  'assetEditor.saveChanges': '保存修改',
+  'assetEditor.create': '创建持仓',
+  'assetEditor.confirmDelete': '确认删除',
+  'assetEditor.errorName': '名称不能为空',
+  'assetEditor.errorType': '未知的资产类型',
+  'assetEditor.errorRegion': '未知的地区',
+  'assetEditor.errorValue': '价值必须是非负数',
+  'assetEditor.errorCurrency': '未知的货币',
+  'assetEditor.errorRoi': '收益率必须在 -100% 到 1000% 之间',
+  'assetEditor.errorRisk': '风险必须在 1 到 10 之间',
+  'assetEditor.errorRiskWhole': '风险必须是整数',
+  'assetEditor.split': '拆分持仓',
+  'assetEditor.splitName': '新持仓名称',
+  'assetEditor.splitDefaultName': '{name}（拆分）',
+  'assetEditor.splitNew': '新持仓',
+  'assetEditor.carveOut': '拆出 {percent}%',
+  'assetEditor.splitButton': '拆分',
+
+  // --- CSV import ---
+  'import.title': '导入对账单',
+  'import.stepSource': '1. 来源',
+  'import.stepMapping': '2. 映射',
+  'import.stepPreview': '3. 预览',
+  'import.sourceHint': '选择券商或银行导出的 CSV 文件，或粘贴其内容。支持逗号、分号和制表符分隔的文件。',
+  'import.chooseFile': '选择文件',
+  'import.noRows': '文件只有表头，没有持仓',
+  'import.columns': '列（{rows} 行，{delimiter}分隔）',
+  'import.tab': '制表符',
+  'import.field.name': '名称 *',
+  'import.field.value': '价值 *',
+  'import.field.currency': '货币',
+  'import.field.type': '类型 / 类别',
+  'import.field.region': '地区 / 国家',
+  'import.field.units': '数量',
+  'import.field.roi': '收益率',
+  'import.field.risk': '风险（1-10）',
+  'import.field.description': '备注',
+  'import.notInFile': '— 文件中没有 —',
+  'import.column': '第 {index} 列',
+  'import.required': '名称和价值列为必填项。',
+  'import.defaultType': '默认类型',
+  'import.defaultRegion': '默认地区',
+  'import.defaultCurrency': '默认货币',
+  'import.typeMapping': '类别 → 类型',
+  'import.regionMapping': '地区 / 国家 → 地区',
+  'import.mappingHint': '映射类型或地区列即可转换其取值；否则所有行都使用默认值。',
+  'import.countCreate': '{count} 条新增',
+  'import.countUpdate': '{count} 条更新现有持仓',
+  'import.countSkip': '{count} 条跳过',
+  'import.line': '行',
+  'import.action': '操作',
+  'import.name': '名称',
+  'import.type': '类型',
+  'import.region': '地区',
+  'import.value': '价值',
+  'import.details': '详情',
+  'import.action.CREATE': '新增',
+  'import.action.UPDATE': '更新',
+  'import.action.SKIP': '跳过',
+  'import.replaces': '替换 {name}（{value}）',
+  'import.back': '返回',
+  'import.next': '下一步',
+  'import.preview': '预览',
+  'import.import': '导入 {count} 项持仓'
+};
@@ -0,0 +1,117 @@
+import { Asset, AssetType, Region, Relationship } from "../types";
+
+// Look-through walks ownership edges to find what the portfolio is economically exposed to.
+//
+// Edge semantics (source -> target, strength s):
+// - OWNS: source's valuation includes a stake of s * target.value. That slice is re-attributed to
+//   the target (and, recursively, to whatever the target itself owns). Totals are unchanged.
+// - SUBSIDIARY: the target is held through the source, so s * target.value is already inside the
+//   source's valuation *and* listed separately as the target. That slice is double counted and is
+//   removed from the source in the consolidated view.
+
+export type AllocationMode = 'DIRECT' | 'LOOK_THROUGH';
+
+export interface AssetExposure {
+  id: string;
+  name: string;
+  type: AssetType;
+  region: Region;
+  direct: number;
+  lookThrough: number;
+}
+
+export interface DoubleCount {
+  holderId: string;
+  targetId: string;
+  amount: number;
+}
+
+export interface LookThroughResult {
+  directTotal: number;
+  lookThroughTotal: number; // directTotal minus double counting
+  exposures: AssetExposure[];
+  byType: Record<string, { direct: number; lookThrough: number }>;
+  byRegion: Record<string, { direct: number; lookThrough: number }>;
+  doubleCounted: DoubleCount[];
+  warnings: string[];
+}
+
+export const computeLookThrough = (assets: Asset[], relationships: Relationship[]): LookThroughResult => {
+  const byId = new Map(assets.map(a => [a.id, a]));
+  const exposure = new Map(assets.map(a => [a.id, 0]));
+  const doubleCounted = new Map<string, DoubleCount>();
+  const warnings = new Set<string>();
+
+  const outgoing = (id: string) => relationships.filter(r =>
+    r.source === id && (r.type === 'OWNS' || r.type === 'SUBSIDIARY') && byId.has(r.target) && r.target !== id);
+
+  // Attributes `amount` of asset `id`'s value to its underlying exposures
+  const walk = (id: string, amount: number, path: Set<string>) => {
+    const asset = byId.get(id)!;
+    const edges = outgoing(id).filter(r => !path.has(r.target));
+    if (edges.length < outgoing(id).length) {
+      warnings.add(`Circular ownership through ${asset.name}; the loop was not followed`);
+    }
+    if (asset.value <= 0 || edges.length === 0) {
+      exposure.set(id, exposure.get(id)! + amount);
+      return;
+    }
+
+    let slices = edges.map(r => ({ edge: r, value: r.strength * byId.get(r.target)!.value }));
+    const claimed = slices.reduce((sum, s) => sum + s.value, 0);
+    if (claimed > asset.value) {
+      warnings.add(`${asset.name}: stakes worth $${Math.round(claimed).toLocaleString()} exceed its value of $${asset.value.toLocaleString()}; scaled down`);
+      slices = slices.map(s => ({ ...s, value: s.value * asset.value / claimed }));
+    }
+
+    const scale = amount / asset.value;
+    let standalone = asset.value;
+    const nextPath = new Set(path).add(id);
+
+    slices.forEach(({ edge, value }) => {
+      standalone -= value;
+      if (edge.type === 'OWNS') {
+        walk(edge.target, value * scale, nextPath);
+      } else {
+        const key = `${id}->${edge.target}`;
+        const entry = doubleCounted.get(key) ?? { holderId: id, targetId: edge.target, amount: 0 };
+        entry.amount += value * scale;
+        doubleCounted.set(key, entry);
+      }
+    });
+
+    exposure.set(id, exposure.get(id)! + Math.max(0, standalone) * scale);
+  };
+
+  assets.forEach(asset => walk(asset.id, asset.value, new Set()));
+
+  const exposures: AssetExposure[] = assets.map(a => ({
+    id: a.id,
+    name: a.name,
+    type: a.type,
+    region: a.region,
+    direct: a.value,
+    lookThrough: exposure.get(a.id)!
+  }));
+
+  const group = (key: (e: AssetExposure) => string) => exposures.reduce((acc, e) => {
+    const bucket = acc[key(e)] ?? { direct: 0, lookThrough: 0 };
+    bucket.direct += e.direct;
+    bucket.lookThrough += e.lookThrough;
+    acc[key(e)] = bucket;
+    return acc;
+  }, {} as Record<string, { direct: number; lookThrough: number }>);
+
+  const directTotal = exposures.reduce((sum, e) => sum + e.direct, 0);
+  const lookThroughTotal = exposures.reduce((sum, e) => sum + e.lookThrough, 0);
+
+  return {
+    directTotal,
+    lookThroughTotal,
+    exposures,
+    byType: group(e => e.type),
+    byRegion: group(e => e.region),
+    doubleCounted: Array.from(doubleCounted.values()),
+    warnings: Array.from(warnings)
+  };
+};
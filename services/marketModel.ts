@@ -0,0 +1,61 @@
+import { AssetType, CycleStage } from "../types";
+
+// Shared assumptions about how asset classes behave. Used by the turn engine and the analytics services.
+
+export const CYCLE_STAGES: CycleStage[] = ['EXPANSION', 'PEAK', 'CONTRACTION', 'TROUGH'];
+
+export const nextCycleStage = (stage: CycleStage): CycleStage =>
+  CYCLE_STAGES[(CYCLE_STAGES.indexOf(stage) + 1) % CYCLE_STAGES.length];
+
+// Multiplier on an asset's expected return (roi) for each stage of the macro cycle.
+// Negative values mean the asset class tends to lose value in that stage.
+export const CYCLE_RETURN_MODIFIERS: Record<CycleStage, Record<AssetType, number>> = {
+  EXPANSION: {
+    [AssetType.REAL_ESTATE]: 1.2,
+    [AssetType.STOCK]: 1.5,
+    [AssetType.BOND]: 0.6,
+    [AssetType.CASH]: 0.8,
+    [AssetType.CRYPTO]: 1.8,
+    [AssetType.PRIVATE_EQUITY]: 1.5
+  },
+  PEAK: {
+    [AssetType.REAL_ESTATE]: 1.0,
+    [AssetType.STOCK]: 0.5,
+    [AssetType.BOND]: 0.8,
+    [AssetType.CASH]: 1.2,
+    [AssetType.CRYPTO]: 0.2,
+    [AssetType.PRIVATE_EQUITY]: 0.8
+  },
+  CONTRACTION: {
+    [AssetType.REAL_ESTATE]: -0.5,
+    [AssetType.STOCK]: -1.0,
+    [AssetType.BOND]: 1.6,
+    [AssetType.CASH]: 1.0,
+    [AssetType.CRYPTO]: -1.5,
+    [AssetType.PRIVATE_EQUITY]: -0.8
+  },
+  TROUGH: {
+    [AssetType.REAL_ESTATE]: 0.4,
+    [AssetType.STOCK]: 1.2,
+    [AssetType.BOND]: 1.2,
+    [AssetType.CASH]: 0.6,
+    [AssetType.CRYPTO]: 1.0,
+    [AssetType.PRIVATE_EQUITY]: 0.5
+  }
+};
+
+// Share of an asset's return that arrives as cash income (rent, coupons, dividends) rather than price growth.
+export const INCOME_SHARE: Record<AssetType, number> = {
+  [AssetType.REAL_ESTATE]: 0.6,
+  [AssetType.STOCK]: 0.3,
+  [AssetType.BOND]: 0.9,
+  [AssetType.CASH]: 1.0,
+  [AssetType.CRYPTO]: 0,
+  [AssetType.PRIVATE_EQUITY]: 0
+};
+
+// Maps the 1-10 risk score to an annualised volatility (risk 1 ≈ 3%, risk 10 ≈ 75%).
+export const riskToVolatility = (risk: number): number => {
+  const clamped = Math.max(1, Math.min(10, risk));
+  return 0.03 * Math.pow(25, (clamped - 1) / 9);
+};
@@ -0,0 +1,207 @@
+import { Asset, Locale, OracleAnalysis, OracleInsight } from "../types";
+import { isAbortError, LlmProvider, LlmRequest } from "./llmProviders";
+import { MessageKey, MessageParams } from "./i18n";
+
+export interface MacroAnalysisResult {
+  text: string; // Empty when the call failed or the model said nothing; the deck shows a notice instead
+  sources: { title: string; uri: string }[];
+  failed?: boolean; // The provider call failed
+}
+
+// Cancellation and streaming hooks passed straight through to the provider. A cancelled call
+// rejects with an AbortError instead of resolving to an error message.
+export type OracleCallOptions = Pick<LlmRequest, 'signal' | 'onChunk'>;
+
+export const analyzeMacroCycle = async (provider: LlmProvider, language: Locale = 'en', options: OracleCallOptions = {}): Promise<MacroAnalysisResult> => {
+  const langInstruction = language === 'zh-CN' ? " Output in Simplified Chinese." : "";
+  const prompt = `Analyze the current global macroeconomic cycle status as of late 2024/2025. Is it expansion, peak, contraction, or trough? Look for recent GDP, inflation (CPI), and interest rate trends from major economies (US, EU, China). Keep it concise, under 200 words, focused on investment implications.${langInstruction}`;
+
+  try {
+    const response = await provider.generate({ task: 'macro', prompt, language, search: true, ...options });
+    return { text: response.text, sources: response.sources };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${provider.label} macro analysis error:`, error);
+    return { text: '', sources: [], failed: true };
+  }
+};
+
+// Reply format for the directives call. Providers that support constrained output enforce it; the
+// prompt repeats it for those that don't, and parseOracleAnalysis validates either way.
+const INSIGHT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Short headline, under 8 words' },
+    detail: { type: 'string', description: 'One or two plain-text sentences' },
+    assetIds: { type: 'array', items: { type: 'string' }, description: 'Ids of the holdings this refers to, from the bracketed list' }
+  },
+  required: ['title', 'detail', 'assetIds']
+};
+
+export const ORACLE_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    cycleAssessment: { type: 'string', description: 'One sentence naming the cycle phase' },
+    opportunities: { type: 'array', items: INSIGHT_SCHEMA },
+    risks: { type: 'array', items: INSIGHT_SCHEMA },
+    strategy: { type: 'string', description: 'The recommended move, as simple HTML using only <b>, <ul>, <li>, <p>' }
+  },
+  required: ['cycleAssessment', 'opportunities', 'risks', 'strategy']
+};
+
+const MAX_INSIGHTS = 5;
+
+// 'structured': a valid OracleAnalysis. 'partial': JSON with some fields dropped (see issues).
+// 'unstructured': not JSON, so the raw reply is shown as the strategy. 'failed': the call itself failed.
+export type OracleAdviceStatus = 'structured' | 'partial' | 'unstructured' | 'failed';
+
+// Something wrong with a reply, as a catalog message so the deck shows it in the player's language.
+// Field names in the params are the JSON keys of the reply and stay as they are.
+export interface OracleIssue {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface OracleAdvice {
+  analysis: OracleAnalysis; // strategy is empty when the call failed or the reply was empty
+  status: OracleAdviceStatus;
+  issues: OracleIssue[];
+}
+
+// Models wrap JSON in code fences or prose often enough that it's worth digging the object out
+const extractJson = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new Error('No JSON object in the reply');
+  return JSON.parse(unfenced.slice(start, end + 1));
+};
+
+// Keeps ids of holdings that exist (matching by name too, which models sometimes return instead)
+// and adds any holding named in the text, so every card links to the assets it talks about
+const resolveAssetIds = (raw: unknown, text: string, assets: Asset[]): string[] => {
+  const ids = new Set<string>();
+  const byKey = new Map<string, Asset>();
+  assets.forEach(a => {
+    byKey.set(a.id.toLowerCase(), a);
+    byKey.set(a.name.trim().toLowerCase(), a);
+  });
+  if (Array.isArray(raw)) {
+    raw.forEach(ref => {
+      const match = typeof ref === 'string' ? byKey.get(ref.trim().toLowerCase()) : undefined;
+      if (match) ids.add(match.id);
+    });
+  }
+  const haystack = text.toLowerCase();
+  assets.forEach(a => {
+    if (a.name.trim() && haystack.includes(a.name.trim().toLowerCase())) ids.add(a.id);
+  });
+  return Array.from(ids);
+};
+
+const parseInsights = (raw: unknown, field: string, assets: Asset[], issues: OracleIssue[]): OracleInsight[] => {
+  if (!Array.isArray(raw)) {
+    issues.push({ key: 'oracle.issueNotList', params: { field } });
+    return [];
+  }
+  const insights: OracleInsight[] = [];
+  raw.forEach((item, i) => {
+    // A bare string is a usable insight with no detail
+    const entry = typeof item === 'string' ? { title: item } : item;
+    const title = typeof entry?.title === 'string' ? entry.title.trim() : '';
+    if (!title) {
+      issues.push({ key: 'oracle.issueNoTitle', params: { field, index: i } });
+      return;
+    }
+    const detail = typeof entry.detail === 'string' ? entry.detail.trim() : '';
+    insights.push({ title, detail, assetIds: resolveAssetIds(entry.assetIds, `${title} ${detail}`, assets) });
+  });
+  if (insights.length > MAX_INSIGHTS) issues.push({ key: 'oracle.issueTruncated', params: { field, max: MAX_INSIGHTS, count: insights.length } });
+  return insights.slice(0, MAX_INSIGHTS);
+};
+
+// Validates a model reply against ORACLE_ANALYSIS_SCHEMA. Returns null when nothing usable is in it.
+export const parseOracleAnalysis = (text: string, assets: Asset[]): { analysis: OracleAnalysis; issues: OracleIssue[] } | null => {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const raw = parsed as Record<string, unknown>;
+
+  const issues: OracleIssue[] = [];
+  const cycleAssessment = typeof raw.cycleAssessment === 'string' ? raw.cycleAssessment.trim() : '';
+  if (!cycleAssessment) issues.push({ key: 'oracle.issueMissing', params: { field: 'cycleAssessment' } });
+  const strategy = typeof raw.strategy === 'string' ? raw.strategy.trim() : '';
+  if (!strategy) issues.push({ key: 'oracle.issueMissing', params: { field: 'strategy' } });
+  const opportunities = parseInsights(raw.opportunities, 'opportunities', assets, issues);
+  const risks = parseInsights(raw.risks, 'risks', assets, issues);
+
+  if (!cycleAssessment && !strategy && opportunities.length === 0 && risks.length === 0) return null;
+  return { analysis: { cycleAssessment, opportunities, risks, strategy }, issues };
+};
+
+export const getStrategicAdvice = async (
+  provider: LlmProvider,
+  assets: Asset[],
+  macroContext: string,
+  language: Locale = 'en',
+  options: OracleCallOptions = {}
+): Promise<OracleAdvice> => {
+  const langInstruction = language === 'zh-CN' ? "Write all text values in Simplified Chinese; keep the JSON keys and asset ids in English." : "";
+
+  const portfolioSummary = assets
+    .map(a => `- [${a.id}] ${a.name} (${a.type} - ${a.region}, risk ${a.risk}/10): $${a.value}`)
+    .join('\n');
+
+  const prompt = `
+    You are a high-level strategic wealth advisor in a gamified asset management interface.
+
+    Current Macro Context:
+    ${macroContext}
+
+    My Current "Inventory" (Portfolio), as [id] name:
+    ${portfolioSummary}
+
+    Task:
+    Provide a strategic "Quest Log" for the user.
+    1. Assess the cycle phase in one sentence (cycleAssessment).
+    2. Identify up to three opportunities based on the macro context (opportunities).
+    3. Identify up to three risks in the current inventory (risks).
+    4. Suggest a specific move, e.g. "Rotate from X to Y" (strategy).
+
+    For every opportunity and risk, list the ids of the holdings it concerns in assetIds (empty if none).
+    Reply with a single JSON object with the keys cycleAssessment, opportunities, risks and strategy.
+    Each opportunity and risk is an object with title, detail and assetIds. Do not use Markdown code blocks.
+    The strategy value may use simple HTML tags (<b>, <ul>, <li>, <p>); all other values are plain text.
+    Keep the tone like a Sci-Fi Strategy Game Commander briefing.
+    ${langInstruction}
+  `;
+
+  let text: string;
+  try {
+    const response = await provider.generate({ task: 'strategy', prompt, language, schema: ORACLE_ANALYSIS_SCHEMA, ...options });
+    text = response.text;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${provider.label} strategy error:`, error);
+    return {
+      analysis: { cycleAssessment: '', opportunities: [], risks: [], strategy: '' },
+      status: 'failed',
+      issues: [{ key: 'oracle.issueRequest', params: { message: (error as Error).message } }]
+    };
+  }
+
+  const parsed = parseOracleAnalysis(text, assets);
+  if (parsed) {
+    return { analysis: parsed.analysis, status: parsed.issues.length > 0 ? 'partial' : 'structured', issues: parsed.issues };
+  }
+  // Not JSON at all: still show what the model said rather than nothing
+  return {
+    analysis: { cycleAssessment: '', opportunities: [], risks: [], strategy: text.trim() },
+    status: 'unstructured',
+    issues: [{ key: 'oracle.issueNotJson' }]
+  };
+};
@@ -0,0 +1,323 @@
+import { Asset, CycleStage, GameState, LedgerEntry, FxRates, LedgerEntryKind, Relationship, Sector, TargetAllocation, TradeSettings, ValuationSnapshot } from "../types";
+import { DEFAULT_FX_RATES, DEFAULT_SECTOR, DEFAULT_TARGET_ALLOCATION, DEFAULT_TRADE_SETTINGS, INITIAL_GAME_STATE, MAX_SECTOR_SIZE } from "../constants";
+import { validateAsset, validateRelationship } from "./validation";
+import { CYCLE_STAGES } from "./marketModel";
+import { createOpeningEntries } from "./ledgerService";
+import { createSnapshot } from "./valuationService";
+import { validateFxRates } from "./currencyService";
+import { validateTargetAllocation } from "./rebalanceService";
+import { settleAssets, validateBoardLayout } from "./sectorService";
+
+// Bump this whenever the shape of GameState changes, and add a step to MIGRATIONS.
+export const SAVE_VERSION = 7;
+const STORAGE_KEY = 'funday.save';
+
+export interface SaveFile {
+  version: number;
+  savedAt: string;
+  state: GameState;
+}
+
+export class SaveFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n- ${issues.join('\n- ')}` : message);
+    this.name = 'SaveFileError';
+    this.issues = issues;
+  }
+}
+
+type RawDocument = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1.
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0: unversioned documents, i.e. a bare GameState (or just its assets/relationships)
+  // written by hand from constants.ts before the save format existed.
+  0: (doc) => {
+    const state = (doc.state ?? doc) as RawDocument;
+    return {
+      version: 1,
+      savedAt: typeof doc.savedAt === 'string' ? doc.savedAt : new Date().toISOString(),
+      state: {
+        ...state,
+        relationships: state.relationships ?? [],
+        cash: state.cash ?? INITIAL_GAME_STATE.cash,
+        cycleStage: state.cycleStage ?? INITIAL_GAME_STATE.cycleStage
+      }
+    };
+  },
+  // Version 1 -> 2: turn counter added; cycleStage became one of CYCLE_STAGES instead of free text.
+  1: (doc) => {
+    const state = (doc.state ?? {}) as RawDocument;
+    const stage = String(state.cycleStage ?? '').toUpperCase();
+    return {
+      ...doc,
+      version: 2,
+      state: {
+        ...state,
+        cycleStage: CYCLE_STAGES.includes(stage as CycleStage) ? stage : INITIAL_GAME_STATE.cycleStage,
+        turn: state.turn ?? 0
+      }
+    };
+  },
+  // Version 2 -> 3: transaction ledger and trade settings. Older saves get opening balances
+  // for whatever they hold at load time, so the ledger reconciles from then on.
+  2: (doc) => {
+    const state = (doc.state ?? {}) as RawDocument;
+    const ledger = Array.isArray(state.assets) && typeof state.cash === 'number'
+      ? createOpeningEntries(state.assets as Asset[], state.cash, Number(state.turn) || 0)
+      : [];
+    return {
+      ...doc,
+      version: 3,
+      state: { ...state, ledger, tradeSettings: DEFAULT_TRADE_SETTINGS }
+    };
+  },
+  // Version 3 -> 4: valuation history. There is nothing to backfill, so it starts at the current turn.
+  3: (doc) => {
+    const state = (doc.state ?? {}) as RawDocument;
+    const valuationHistory = Array.isArray(state.assets) && typeof state.cash === 'number'
+      ? [createSnapshot(state.assets as Asset[], state.cash, Number(state.turn) || 0, DEFAULT_FX_RATES)]
+      : [];
+    return { ...doc, version: 4, state: { ...state, valuationHistory } };
+  },
+  // Version 4 -> 5: multi-currency. Everything saved so far was in USD, so only the rate table is new.
+  4: (doc) => ({
+    ...doc,
+    version: 5,
+    state: { ...((doc.state ?? {}) as RawDocument), fxRates: DEFAULT_FX_RATES }
+  }),
+  // Version 5 -> 6: target allocation for the rebalancing planner. Older games start without targets.
+  5: (doc) => ({
+    ...doc,
+    version: 6,
+    state: { ...((doc.state ?? {}) as RawDocument), targetAllocation: DEFAULT_TARGET_ALLOCATION }
+  }),
+  // Version 6 -> 7: Realm sectors. Everything moves onto one main sector, grown past 10x10 when needed
+  // so every holding fits. Holdings that had no cell, or shared one, get the nearest free cell.
+  6: (doc) => {
+    const state = (doc.state ?? {}) as RawDocument;
+    const assets = state.assets;
+    const size = Array.isArray(assets)
+      ? Math.min(MAX_SECTOR_SIZE, Math.max(DEFAULT_SECTOR.width, Math.ceil(Math.sqrt(assets.length))))
+      : DEFAULT_SECTOR.width;
+    const sectors: Sector[] = [{ ...DEFAULT_SECTOR, width: size, height: size }];
+    const settled = Array.isArray(assets) && assets.every(a => typeof a === 'object' && a !== null)
+      ? settleAssets({ assets: assets as Asset[], sectors })
+      : assets;
+    return { ...doc, version: 7, state: { ...state, sectors, assets: settled } };
+  }
+};
+
+const LEDGER_KINDS: LedgerEntryKind[] = ['OPENING', 'BUY', 'SELL', 'INCOME', 'REVALUATION', 'ADJUSTMENT'];
+const LEDGER_NUMBERS = ['quantity', 'price', 'amount', 'fee', 'cashChange', 'valueChange'] as const;
+
+const validateLedgerEntry = (entry: RawDocument): string[] => {
+  const issues: string[] = [];
+  if (typeof entry.id !== 'string') issues.push('id is required');
+  if (typeof entry.timestamp !== 'string' || Number.isNaN(Date.parse(entry.timestamp))) {
+    issues.push(`timestamp must be an ISO date (got ${String(entry.timestamp)})`);
+  }
+  if (!LEDGER_KINDS.includes(entry.kind as LedgerEntryKind)) issues.push(`unknown kind "${String(entry.kind)}"`);
+  if (!Number.isInteger(entry.turn)) issues.push('turn must be a whole number');
+  LEDGER_NUMBERS.forEach(key => {
+    if (typeof entry[key] !== 'number' || !Number.isFinite(entry[key])) {
+      issues.push(`${key} must be a number (got ${String(entry[key])})`);
+    }
+  });
+  return issues;
+};
+
+const validateSnapshot = (snapshot: RawDocument): string[] => {
+  const issues: string[] = [];
+  if (!Number.isInteger(snapshot.turn)) issues.push('turn must be a whole number');
+  if (typeof snapshot.date !== 'string' || Number.isNaN(Date.parse(snapshot.date))) {
+    issues.push(`date must be an ISO date (got ${String(snapshot.date)})`);
+  }
+  if (typeof snapshot.cash !== 'number' || !Number.isFinite(snapshot.cash)) issues.push('cash must be a number');
+  if (!Array.isArray(snapshot.holdings)) {
+    issues.push('holdings must be a list');
+  } else if (snapshot.holdings.some(h => typeof h?.id !== 'string' || typeof h?.value !== 'number' || !Number.isFinite(h.value))) {
+    issues.push('every holding needs an id and a numeric value');
+  }
+  return issues;
+};
+
+const validateTradeSettings = (settings: RawDocument): string[] => {
+  const issues: string[] = [];
+  const inRange = (value: unknown, max: number) => typeof value === 'number' && value >= 0 && value <= max;
+  if (!inRange(settings.feeRate, 0.1)) issues.push(`tradeSettings.feeRate must be between 0 and 0.1 (got ${String(settings.feeRate)})`);
+  if (!inRange(settings.minFee, Number.MAX_SAFE_INTEGER)) issues.push(`tradeSettings.minFee must be a non-negative number (got ${String(settings.minFee)})`);
+  if (!inRange(settings.slippage, 0.1)) issues.push(`tradeSettings.slippage must be between 0 and 0.1 (got ${String(settings.slippage)})`);
+  return issues;
+};
+
+const migrate = (doc: RawDocument): RawDocument => {
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SaveFileError(`Unsupported save version "${String(doc.version)}".`);
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveFileError(`Save version ${version} is newer than this build supports (${SAVE_VERSION}).`);
+  }
+
+  let current = doc;
+  while (version < SAVE_VERSION) {
+    current = MIGRATIONS[version](current);
+    version += 1;
+  }
+  return current;
+};
+
+const validateState = (raw: unknown): GameState => {
+  const issues: string[] = [];
+  const state = (raw ?? {}) as RawDocument;
+
+  if (!Array.isArray(state.assets)) {
+    throw new SaveFileError('Invalid save file.', ['"assets" must be a list']);
+  }
+  if (!Array.isArray(state.relationships)) {
+    throw new SaveFileError('Invalid save file.', ['"relationships" must be a list']);
+  }
+
+  const seenIds = new Set<string>();
+  state.assets.forEach((entry, index) => {
+    const asset = (entry ?? {}) as RawDocument;
+    const label = typeof asset.name === 'string' ? `Asset #${index + 1} "${asset.name}"` : `Asset #${index + 1}`;
+    Object.values(validateAsset(asset)).forEach(message => issues.push(`${label}: ${message}`));
+    if (typeof asset.id === 'string') {
+      if (seenIds.has(asset.id)) issues.push(`${label}: duplicate id "${asset.id}"`);
+      seenIds.add(asset.id);
+    }
+  });
+
+  state.relationships.forEach((entry, index) => {
+    const relationship = (entry ?? {}) as RawDocument;
+    Object.values(validateRelationship(relationship, seenIds))
+      .forEach(message => issues.push(`Relationship #${index + 1}: ${message}`));
+  });
+
+  if (typeof state.cash !== 'number' || !Number.isFinite(state.cash)) {
+    issues.push(`cash must be a number (got ${String(state.cash)})`);
+  }
+  if (!CYCLE_STAGES.includes(state.cycleStage as CycleStage)) {
+    issues.push(`cycleStage must be one of ${CYCLE_STAGES.join(', ')} (got ${String(state.cycleStage)})`);
+  }
+  if (!Number.isInteger(state.turn) || (state.turn as number) < 0) {
+    issues.push(`turn must be a non-negative whole number (got ${String(state.turn)})`);
+  }
+
+  if (!Array.isArray(state.ledger)) {
+    issues.push('"ledger" must be a list');
+  } else {
+    state.ledger.forEach((entry, index) => {
+      validateLedgerEntry((entry ?? {}) as RawDocument)
+        .forEach(message => issues.push(`Ledger entry #${index + 1}: ${message}`));
+    });
+  }
+  issues.push(...validateTradeSettings((state.tradeSettings ?? {}) as RawDocument));
+
+  const fxRates = (state.fxRates ?? null) as RawDocument | null;
+  if (!fxRates || typeof fxRates !== 'object') {
+    issues.push('"fxRates" must be a table of currency rates');
+  } else {
+    validateFxRates(fxRates).forEach(message => issues.push(`fxRates: ${message}`));
+    const missing = new Set((state.assets as RawDocument[]).map(a => a?.currency ?? 'USD').filter(c => !(String(c) in fxRates)));
+    missing.forEach(code => issues.push(`fxRates: no rate for ${String(code)}, which holdings are valued in`));
+  }
+
+  if (!Array.isArray(state.valuationHistory)) {
+    issues.push('"valuationHistory" must be a list');
+  } else {
+    state.valuationHistory.forEach((entry, index) => {
+      validateSnapshot((entry ?? {}) as RawDocument)
+        .forEach(message => issues.push(`Valuation snapshot #${index + 1}: ${message}`));
+    });
+  }
+
+  validateTargetAllocation(state.targetAllocation as TargetAllocation)
+    .forEach(message => issues.push(`targetAllocation: ${message}`));
+
+  if (!Array.isArray(state.sectors)) {
+    issues.push('"sectors" must be a list');
+  } else {
+    issues.push(...validateBoardLayout({
+      assets: (state.assets as RawDocument[]).map(a => (a ?? {}) as unknown as Asset),
+      sectors: state.sectors.map(s => (s ?? {}) as Sector)
+    }));
+  }
+
+  if (issues.length > 0) {
+    throw new SaveFileError('Invalid save file.', issues);
+  }
+
+  const sectors = state.sectors as Sector[];
+  return {
+    assets: (state.assets as Asset[]).map(a => ({ ...a, description: a.description ?? '', sectorId: a.sectorId ?? sectors[0].id })),
+    relationships: state.relationships as Relationship[],
+    cash: state.cash as number,
+    cycleStage: state.cycleStage as CycleStage,
+    turn: state.turn as number,
+    ledger: state.ledger as LedgerEntry[],
+    tradeSettings: state.tradeSettings as TradeSettings,
+    valuationHistory: state.valuationHistory as ValuationSnapshot[],
+    // Saved tables may omit currencies nobody holds; fill those from the defaults
+    fxRates: { ...DEFAULT_FX_RATES, ...(state.fxRates as Partial<FxRates>) },
+    targetAllocation: state.targetAllocation as TargetAllocation,
+    sectors
+  };
+};
+
+export const serializeGameState = (state: GameState): string => {
+  const file: SaveFile = { version: SAVE_VERSION, savedAt: new Date().toISOString(), state };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses, migrates and validates a save document. Throws SaveFileError with readable issues.
+export const parseSaveFile = (json: string): SaveFile => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (error) {
+    throw new SaveFileError(`File is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    throw new SaveFileError('Invalid save file.', ['expected a JSON object at the top level']);
+  }
+
+  const migrated = migrate(doc as RawDocument);
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof migrated.savedAt === 'string' ? migrated.savedAt : new Date().toISOString(),
+    state: validateState(migrated.state)
+  };
+};
+
+export const loadGameState = (): GameState => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return parseSaveFile(stored).state;
+  } catch (error) {
+    console.warn("Discarding unreadable saved game:", error);
+  }
+  return INITIAL_GAME_STATE;
+};
+
+export const saveGameState = (state: GameState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeGameState(state));
+  } catch (error) {
+    console.warn("Unable to persist game state:", error);
+  }
+};
+
+export const downloadSaveFile = (state: GameState) => {
+  const blob = new Blob([serializeGameState(state)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `funday-save-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,200 @@
+import { Asset, AssetType, FxRates, Relationship } from "../types";
+import { toBaseValue } from "./currencyService";
+
+// Realm placement rules. Where a building stands changes its yield (added to roi each turn) and
+// sometimes its risk:
+// - Synergy: orthogonal neighbours linked by PARTNER or OWNS both earn a bonus, scaled by strength.
+// - Districts: DISTRICT_MIN_SIZE or more same-type buildings in one orthogonally connected cluster
+//   form a district; every member gets the district's effect, growing with its size.
+// - Special tiles: a few fixed cells, the same on every sector, help or hurt whatever stands on them.
+// Only buildings on the same sector are neighbours. Buildings without a grid position are off the
+// board and get nothing.
+
+type GridPosition = { x: number; y: number };
+
+export type TileKind = 'TAX_HAVEN' | 'FLOOD_ZONE' | 'INNOVATION_PARK';
+
+export interface SpecialTile extends GridPosition {
+  kind: TileKind;
+}
+
+interface Effect {
+  yield: number; // Added to roi, as a fraction per year
+  risk: number; // Added to the 1-10 risk score
+}
+
+// `types` limits the effect to those asset types; without it the tile affects everything
+export const TILE_EFFECTS: Record<TileKind, Effect & { types?: AssetType[] }> = {
+  TAX_HAVEN: { yield: 0.01, risk: 0 },
+  FLOOD_ZONE: { yield: -0.015, risk: 2 },
+  INNOVATION_PARK: { yield: 0.015, risk: 0, types: [AssetType.STOCK, AssetType.PRIVATE_EQUITY, AssetType.CRYPTO] }
+};
+
+export const SPECIAL_TILES: SpecialTile[] = [
+  { x: 8, y: 2, kind: 'TAX_HAVEN' },
+  { x: 3, y: 9, kind: 'TAX_HAVEN' },
+  { x: 1, y: 10, kind: 'FLOOD_ZONE' },
+  { x: 2, y: 10, kind: 'FLOOD_ZONE' },
+  { x: 10, y: 6, kind: 'FLOOD_ZONE' },
+  { x: 6, y: 5, kind: 'INNOVATION_PARK' },
+  { x: 6, y: 6, kind: 'INNOVATION_PARK' }
+];
+
+// Per unit of relationship strength
+export const SYNERGY_YIELD: Partial<Record<Relationship['type'], number>> = {
+  PARTNER: 0.01,
+  OWNS: 0.02
+};
+
+export const DISTRICT_MIN_SIZE = 3;
+
+// Yield grows with each member after the first, up to DISTRICT_MAX_MEMBERS counted
+const DISTRICT_MAX_MEMBERS = 5;
+
+export const DISTRICT_EFFECTS: Record<AssetType, { yieldPerMember: number; risk: number }> = {
+  [AssetType.REAL_ESTATE]: { yieldPerMember: 0.004, risk: 0 },
+  [AssetType.STOCK]: { yieldPerMember: 0.005, risk: 0 },
+  [AssetType.BOND]: { yieldPerMember: 0.002, risk: -1 }, // Steadier together
+  [AssetType.CASH]: { yieldPerMember: 0.001, risk: 0 },
+  [AssetType.CRYPTO]: { yieldPerMember: 0.008, risk: 1 }, // The hype cuts both ways
+  [AssetType.PRIVATE_EQUITY]: { yieldPerMember: 0.006, risk: 0 }
+};
+
+// --- RESULTS ---
+
+export type PlacementSource =
+  | { kind: 'synergy'; partnerId: string; relationship: Relationship['type'] }
+  | { kind: 'district'; type: AssetType; size: number }
+  | { kind: 'tile'; tile: TileKind };
+
+export type PlacementEffect = Effect & { source: PlacementSource };
+
+export interface PlacementBonus extends Effect {
+  effects: PlacementEffect[];
+}
+
+export interface District {
+  type: AssetType;
+  memberIds: string[];
+}
+
+export interface PlacementResult {
+  bonuses: Map<string, PlacementBonus>; // Every asset, including those off the board
+  districts: District[];
+}
+
+const cellKey = (sectorId: string | undefined, p: GridPosition) => `${sectorId ?? ''}:${p.x},${p.y}`;
+
+const isAdjacent = (a: GridPosition, b: GridPosition) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+
+export const tileAt = (position: GridPosition): SpecialTile | undefined =>
+  SPECIAL_TILES.find(t => t.x === position.x && t.y === position.y);
+
+const findDistricts = (assets: Asset[]): District[] => {
+  const byCell = new Map(assets.filter(a => a.gridPosition).map(a => [cellKey(a.sectorId, a.gridPosition!), a]));
+  const seen = new Set<string>();
+  const districts: District[] = [];
+
+  assets.forEach(start => {
+    if (!start.gridPosition || seen.has(start.id)) return;
+    const members: string[] = [];
+    const queue = [start];
+    seen.add(start.id);
+    while (queue.length > 0) {
+      const asset = queue.shift()!;
+      members.push(asset.id);
+      const { x, y } = asset.gridPosition!;
+      [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]].forEach(([nx, ny]) => {
+        const neighbour = byCell.get(cellKey(start.sectorId, { x: nx, y: ny }));
+        if (neighbour && neighbour.type === start.type && !seen.has(neighbour.id)) {
+          seen.add(neighbour.id);
+          queue.push(neighbour);
+        }
+      });
+    }
+    if (members.length >= DISTRICT_MIN_SIZE) districts.push({ type: start.type, memberIds: members });
+  });
+  return districts;
+};
+
+export const computePlacement = (assets: Asset[], relationships: Relationship[]): PlacementResult => {
+  const byId = new Map(assets.map(a => [a.id, a]));
+  const effects = new Map<string, PlacementEffect[]>(assets.map(a => [a.id, []]));
+
+  relationships.forEach(r => {
+    const perStrength = SYNERGY_YIELD[r.type];
+    const source = byId.get(r.source);
+    const target = byId.get(r.target);
+    if (!perStrength || !source?.gridPosition || !target?.gridPosition || source.id === target.id) return;
+    if (source.sectorId !== target.sectorId || !isAdjacent(source.gridPosition, target.gridPosition)) return;
+    const bonus = perStrength * r.strength;
+    effects.get(source.id)!.push({ yield: bonus, risk: 0, source: { kind: 'synergy', partnerId: target.id, relationship: r.type } });
+    effects.get(target.id)!.push({ yield: bonus, risk: 0, source: { kind: 'synergy', partnerId: source.id, relationship: r.type } });
+  });
+
+  const districts = findDistricts(assets);
+  districts.forEach(district => {
+    const { yieldPerMember, risk } = DISTRICT_EFFECTS[district.type];
+    const size = district.memberIds.length;
+    const bonus = yieldPerMember * (Math.min(size, DISTRICT_MAX_MEMBERS) - 1);
+    district.memberIds.forEach(id =>
+      effects.get(id)!.push({ yield: bonus, risk, source: { kind: 'district', type: district.type, size } }));
+  });
+
+  assets.forEach(asset => {
+    const tile = asset.gridPosition && tileAt(asset.gridPosition);
+    if (!tile) return;
+    const effect = TILE_EFFECTS[tile.kind];
+    if (effect.types && !effect.types.includes(asset.type)) return;
+    effects.get(asset.id)!.push({ yield: effect.yield, risk: effect.risk, source: { kind: 'tile', tile: tile.kind } });
+  });
+
+  const bonuses = new Map(Array.from(effects, ([id, list]) => [id, {
+    yield: list.reduce((sum, e) => sum + e.yield, 0),
+    risk: list.reduce((sum, e) => sum + e.risk, 0),
+    effects: list
+  }]));
+  return { bonuses, districts };
+};
+
+// Board after dropping `id` on `to` within its sector, mirroring the app's move: an occupant swaps
+// into the vacated cell
+export const applyMove = (assets: Asset[], id: string, to: GridPosition): Asset[] => {
+  const moving = assets.find(a => a.id === id);
+  if (!moving) return assets;
+  const occupant = assets.find(a => a.id !== id && a.sectorId === moving.sectorId &&
+    a.gridPosition?.x === to.x && a.gridPosition?.y === to.y);
+  return assets.map(a => {
+    if (a.id === id) return { ...a, gridPosition: to };
+    if (occupant && a.id === occupant.id) return { ...a, gridPosition: moving.gridPosition };
+    return a;
+  });
+};
+
+export interface MovePreview {
+  bonus: PlacementBonus; // The moved building's bonus at its new cell
+  yieldChange: number; // Change in its own bonus yield
+  incomeChange: number; // USD per year across the whole board, neighbours and swaps included
+}
+
+// Annual USD the placement bonuses add to the portfolio
+const bonusIncome = (assets: Asset[], placement: PlacementResult, rates: FxRates): number =>
+  assets.reduce((sum, a) => sum + toBaseValue(a, rates) * placement.bonuses.get(a.id)!.yield, 0);
+
+export const previewMove = (
+  assets: Asset[],
+  relationships: Relationship[],
+  id: string,
+  to: GridPosition,
+  rates: FxRates
+): MovePreview => {
+  const current = computePlacement(assets, relationships);
+  const movedAssets = applyMove(assets, id, to);
+  const moved = computePlacement(movedAssets, relationships);
+  const bonus = moved.bonuses.get(id) ?? { yield: 0, risk: 0, effects: [] };
+  return {
+    bonus,
+    yieldChange: bonus.yield - (current.bonuses.get(id)?.yield ?? 0),
+    incomeChange: bonusIncome(movedAssets, moved, rates) - bonusIncome(assets, current, rates)
+  };
+};
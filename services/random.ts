@@ -0,0 +1,23 @@
+// Small seedable PRNG so simulations and turns can be replayed exactly.
+
+export type Rng = () => number;
+
+// mulberry32: fast 32-bit generator, good enough for game and Monte Carlo use
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+export const randomNormal = (rng: Rng): number => {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
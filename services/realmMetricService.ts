@@ -0,0 +1,35 @@
+import { Asset, FxRates, ValuationSnapshot } from "../types";
+import { toBaseValue } from "./currencyService";
+import { INCOME_SHARE } from "./marketModel";
+
+// Per-holding numbers the Realm can show as building height or color.
+
+export type RealmMetric = 'value' | 'roi' | 'risk' | 'income' | 'change';
+
+export const REALM_METRICS: RealmMetric[] = ['value', 'roi', 'risk', 'income', 'change'];
+
+// Null where a metric is unknown, e.g. the change of a holding bought this turn
+export type RealmMetricValues = Record<RealmMetric, number | null>;
+
+// value and income in USD, income per year as endTurn pays it out; roi and change as fractions.
+// change compares the live value with the previous turn's snapshot, so trades since then count.
+export const computeRealmMetrics = (
+  assets: Asset[],
+  rates: FxRates,
+  history: ValuationSnapshot[]
+): Map<string, RealmMetricValues> => {
+  const previous = history.length >= 2 ? history[history.length - 2] : undefined;
+  const before = new Map((previous?.holdings ?? []).map(h => [h.id, h.value]));
+
+  return new Map(assets.map(asset => {
+    const value = toBaseValue(asset, rates);
+    const start = before.get(asset.id);
+    return [asset.id, {
+      value,
+      roi: asset.roi,
+      risk: asset.risk,
+      income: value * Math.max(0, asset.roi) * INCOME_SHARE[asset.type],
+      change: start ? (value - start) / start : null
+    }];
+  }));
+};
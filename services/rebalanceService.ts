@@ -0,0 +1,380 @@
+import { AllocationTarget, Asset, AssetType, GameState, Region, TargetAllocation } from "../types";
+import { calculateFee, executeTrade, TradeSide } from "./tradingService";
+import { toBaseValue } from "./currencyService";
+
+// Target-allocation rebalancing. Weights are shares of the invested portfolio (holdings only, in
+// USD); cash funds the trades but is not part of any target. The planner moves groups back to just
+// inside their band rather than to the target itself, which keeps turnover as low as possible.
+
+// Holdings of these types can't be sold or topped up in a hurry; the planner never trades them
+export const ILLIQUID_TYPES: AssetType[] = [AssetType.PRIVATE_EQUITY, AssetType.REAL_ESTATE];
+
+export const MAX_BAND = 0.5;
+
+export type AllocationDimension = 'type' | 'region';
+
+export const isIlliquid = (asset: Asset): boolean => ILLIQUID_TYPES.includes(asset.type);
+
+const groupOf = (asset: Asset, dimension: AllocationDimension): string =>
+  dimension === 'type' ? asset.type : asset.region;
+
+const targetsFor = (targets: TargetAllocation, dimension: AllocationDimension): Partial<Record<string, AllocationTarget>> =>
+  dimension === 'type' ? targets.byType : targets.byRegion;
+
+const isFraction = (value: unknown, max = 1): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+
+// Works on unvalidated input too, so save files can be checked with it
+export const validateTargetAllocation = (targets: TargetAllocation): string[] => {
+  const issues: string[] = [];
+  const checkGroups = (label: string, groups: unknown, known: string[]) => {
+    if (!groups || typeof groups !== 'object' || Array.isArray(groups)) {
+      issues.push(`${label} targets must be a table`);
+      return;
+    }
+    let total = 0;
+    Object.entries(groups as Record<string, AllocationTarget>).forEach(([group, target]) => {
+      if (!known.includes(group)) {
+        issues.push(`unknown ${label} "${group}"`);
+        return;
+      }
+      if (!isFraction(target?.weight)) issues.push(`${group}: target weight must be between 0 and 100% (got ${String(target?.weight)})`);
+      else total += target.weight;
+      if (!isFraction(target?.band, MAX_BAND)) issues.push(`${group}: band must be between 0 and ${MAX_BAND * 100}% (got ${String(target?.band)})`);
+    });
+    if (total > 1 + 1e-9) issues.push(`${label} targets add up to ${(total * 100).toFixed(1)}%, more than 100%`);
+  };
+
+  checkGroups('type', targets?.byType, Object.values(AssetType));
+  checkGroups('region', targets?.byRegion, Object.values(Region));
+  if (typeof targets?.minTrade !== 'number' || !Number.isFinite(targets.minTrade) || targets.minTrade < 0) {
+    issues.push(`minimum trade must be a non-negative number (got ${String(targets?.minTrade)})`);
+  }
+  return issues;
+};
+
+export const hasTargets = (targets: TargetAllocation): boolean =>
+  Object.keys(targets.byType).length > 0 || Object.keys(targets.byRegion).length > 0;
+
+// --- DRIFT ---
+
+export type DriftStatus = 'under' | 'within' | 'over' | 'untargeted';
+
+export interface DriftRow {
+  dimension: AllocationDimension;
+  group: string; // AssetType or Region value
+  value: number; // USD
+  weight: number; // Share of the invested portfolio
+  target?: AllocationTarget;
+  drift: number; // weight - target weight; 0 when untargeted
+  status: DriftStatus;
+  lockedValue: number; // USD in illiquid holdings, which the planner won't trade
+}
+
+const driftStatus = (weight: number, target: AllocationTarget | undefined): DriftStatus => {
+  if (!target) return 'untargeted';
+  // A hair of tolerance so a group moved exactly to its band edge reads as within
+  if (weight > target.weight + target.band + 1e-9) return 'over';
+  if (weight < target.weight - target.band - 1e-9) return 'under';
+  return 'within';
+};
+
+// `values` overrides asset values (USD) by id, for projecting a plan
+const driftRows = (assets: Asset[], targets: TargetAllocation, values: Map<string, number>): DriftRow[] => {
+  const total = assets.reduce((sum, a) => sum + (values.get(a.id) ?? 0), 0);
+  const rows: DriftRow[] = [];
+  (['type', 'region'] as AllocationDimension[]).forEach(dimension => {
+    const groupTargets = targetsFor(targets, dimension);
+    const groups: string[] = dimension === 'type' ? Object.values(AssetType) : Object.values(Region);
+    groups.forEach(group => {
+      const members = assets.filter(a => groupOf(a, dimension) === group);
+      const target = groupTargets[group];
+      if (members.length === 0 && !target) return;
+      const value = members.reduce((sum, a) => sum + (values.get(a.id) ?? 0), 0);
+      const weight = total > 0 ? value / total : 0;
+      rows.push({
+        dimension,
+        group,
+        value,
+        weight,
+        target,
+        drift: target ? weight - target.weight : 0,
+        status: driftStatus(weight, target),
+        lockedValue: members.filter(isIlliquid).reduce((sum, a) => sum + (values.get(a.id) ?? 0), 0)
+      });
+    });
+  });
+  return rows;
+};
+
+// `assets` must already be in USD (see toBaseAssets)
+export const computeDrift = (assets: Asset[], targets: TargetAllocation): DriftRow[] =>
+  driftRows(assets, targets, new Map(assets.map(a => [a.id, a.value])));
+
+// --- PLANNING ---
+
+export interface RebalanceTrade {
+  assetId: string;
+  name: string;
+  side: TradeSide;
+  value: number; // Planned change in the holding's value, USD (always positive)
+  amount: number; // What executeTrade expects: USD to spend for a BUY, fraction of the holding for a SELL
+  fee: number; // Estimated, USD
+  slippageCost: number; // Estimated, USD
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[]; // In execution order: sells fund the buys
+  turnover: number; // Sum of traded value, USD
+  estimatedCost: number; // Fees and slippage, USD
+  cashChange: number; // Estimated, USD
+  before: DriftRow[];
+  after: DriftRow[]; // Projected at the planned values
+  withinBands: boolean; // Whether every targeted group ends up inside its band
+  notes: RebalanceNote[]; // Why some drift is left over
+}
+
+// Translated by the panel; `group` is an AssetType or Region value as in DriftRow
+export type RebalanceNote =
+  | { kind: 'belowMinimum'; count: number; minTrade: number }
+  | { kind: 'cashLimited' }
+  | { kind: 'illiquidOnly'; dimension: AllocationDimension; group: string }
+  | { kind: 'noLiquidHolding'; dimension: AllocationDimension; group: string }
+  | { kind: 'conflict'; dimension: AllocationDimension; group: string; status: 'over' | 'under' };
+
+type PlanningState = Pick<GameState, 'assets' | 'cash' | 'fxRates' | 'tradeSettings' | 'targetAllocation'>;
+
+const MAX_STEPS = 200;
+const MAX_ATTEMPTS = 6;
+const INSET_STEP = 0.1; // Share of each band's width the next attempt aims further inside its edges
+const EPSILON = 1e-6;
+
+interface Band {
+  dimension: AllocationDimension;
+  group: string;
+  low: number; // USD
+  high: number; // USD
+}
+
+// Value of a group outside its band: the quantity the planner drives to zero
+const outside = (band: Band, value: number): number =>
+  Math.max(0, value - band.high) + Math.max(0, band.low - value);
+
+// Signed distance of a group from its band: positive when over, negative when under, 0 inside
+const bandGap = (band: Band, value: number): number =>
+  value > band.high ? value - band.high : value < band.low ? value - band.low : 0;
+
+// Liquid holdings of one type and region sit in exactly the same bands, so moves are weighed
+// between these cells rather than between every pair of holdings
+interface Cell {
+  bands: number[]; // Indices into the band list
+  members: Asset[];
+}
+
+interface Move {
+  from: Cell;
+  to: Cell;
+  seller: string;
+  buyer: string;
+  amount: number;
+  gain: number;
+  score: number;
+}
+
+// Greedy: each step moves value from one liquid holding to another, picking the move that removes
+// the most out-of-band value per dollar traded. Moves are sized to the gaps involved, so groups
+// stop at the band edges they're given. Group totals are kept running, so a candidate move is
+// scored from the few bands it touches.
+const moveIntoBands = (assets: Asset[], liquid: Asset[], bands: Band[]): Map<string, number> => {
+  const values = new Map(assets.map(a => [a.id, a.value]));
+  const totals = bands.map(band => assets.reduce((sum, a) => sum + (groupOf(a, band.dimension) === band.group ? a.value : 0), 0));
+
+  const byKey = new Map<string, Cell>();
+  liquid.forEach(asset => {
+    const key = `${asset.type}|${asset.region}`;
+    const cell = byKey.get(key) ?? { bands: bands.flatMap((b, i) => groupOf(asset, b.dimension) === b.group ? [i] : []), members: [] };
+    cell.members.push(asset);
+    byKey.set(key, cell);
+  });
+  const cells = [...byKey.values()];
+
+  // Out-of-band value removed by moving `amount` between two cells; bands they share don't change
+  const gainOf = (from: Cell, to: Cell, amount: number): number => {
+    let gain = 0;
+    from.bands.forEach(i => {
+      if (!to.bands.includes(i)) gain += outside(bands[i], totals[i]) - outside(bands[i], totals[i] - amount);
+    });
+    to.bands.forEach(i => {
+      if (!from.bands.includes(i)) gain += outside(bands[i], totals[i]) - outside(bands[i], totals[i] + amount);
+    });
+    return gain;
+  };
+
+  // A cell sells from its largest holding (the most it can give) and buys into its first one
+  const largest = (cell: Cell): Asset =>
+    cell.members.reduce((top, a) => (values.get(a.id) ?? 0) > (values.get(top.id) ?? 0) ? a : top);
+
+  const bestMove = (sellers: Cell[], buyers: Cell[], gaps: number[]): Move | null => {
+    let best: Move | null = null;
+    for (const from of sellers) {
+      const seller = largest(from);
+      const available = values.get(seller.id) ?? 0;
+      if (available < EPSILON) continue;
+      const excesses = from.bands.map(i => gaps[i]).filter(gap => gap > 0);
+      for (const to of buyers) {
+        if (to === from) continue;
+        const shortfalls = to.bands.map(i => -gaps[i]).filter(gap => gap > 0);
+        const sizes = new Set([...excesses, ...shortfalls, available].map(size => Math.min(size, available)));
+        for (const amount of sizes) {
+          if (amount < EPSILON) continue;
+          const gain = gainOf(from, to, amount);
+          if (gain <= EPSILON) continue;
+          const score = gain / amount;
+          if (!best || score > best.score + EPSILON || (Math.abs(score - best.score) <= EPSILON && gain > best.gain)) {
+            best = { from, to, seller: seller.id, buyer: to.members[0].id, amount, gain, score };
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const current = totals.reduce((sum, value, i) => sum + outside(bands[i], value), 0);
+    if (current < EPSILON) break;
+
+    // Sellers come from over-weight groups and buyers from under-weight ones. When that finds
+    // nothing (say an under-weight group funded from untargeted ones) every cell is considered.
+    const gaps = totals.map((value, i) => bandGap(bands[i], value));
+    const sellers = cells.filter(cell => cell.bands.some(i => gaps[i] > 0));
+    const buyers = cells.filter(cell => cell.bands.some(i => gaps[i] < 0));
+    const move = bestMove(sellers, buyers, gaps) ?? bestMove(cells, cells, gaps);
+    if (!move) break;
+
+    values.set(move.seller, (values.get(move.seller) ?? 0) - move.amount);
+    values.set(move.buyer, (values.get(move.buyer) ?? 0) + move.amount);
+    move.from.bands.forEach(i => { if (!move.to.bands.includes(i)) totals[i] -= move.amount; });
+    move.to.bands.forEach(i => { if (!move.from.bands.includes(i)) totals[i] += move.amount; });
+  }
+  return values;
+};
+
+interface SizedTrades {
+  trades: RebalanceTrade[];
+  cash: number; // Estimated balance after every trade, USD
+  skipped: number; // Trades left out for being below the minimum size
+  cashLimited: boolean;
+}
+
+// Nets the moves into one trade per holding, drops the ones below the minimum size and sizes the
+// buys to the cash the sales actually raise after slippage and fees
+const sizeTrades = (state: PlanningState, liquid: Asset[], values: Map<string, number>): SizedTrades => {
+  const { tradeSettings, targetAllocation: targets } = state;
+  const deltas = liquid
+    .map(asset => ({ asset, delta: (values.get(asset.id) ?? 0) - asset.value }))
+    .filter(({ delta }) => Math.abs(delta) > EPSILON);
+  const sized = deltas.filter(({ delta }) => Math.abs(delta) >= targets.minTrade);
+
+  const trades: RebalanceTrade[] = [];
+  let cash = state.cash;
+  sized.filter(({ delta }) => delta < 0).forEach(({ asset, delta }) => {
+    const value = -delta;
+    const fraction = value / asset.value > 0.9999 ? 1 : value / asset.value;
+    const proceeds = value * (1 - tradeSettings.slippage);
+    const fee = Math.min(proceeds, calculateFee(proceeds, tradeSettings));
+    cash += proceeds - fee;
+    trades.push({ assetId: asset.id, name: asset.name, side: 'SELL', value, amount: fraction, fee, slippageCost: value - proceeds });
+  });
+
+  // Buys are funded by the sales plus whatever cash is on hand; the largest go first
+  let cashLimited = false;
+  sized.filter(({ delta }) => delta > 0).sort((a, b) => b.delta - a.delta).forEach(({ asset, delta }) => {
+    let spend = delta * (1 + tradeSettings.slippage);
+    if (spend + calculateFee(spend, tradeSettings) > cash) {
+      cashLimited = true;
+      spend = Math.min(cash / (1 + tradeSettings.feeRate), cash - tradeSettings.minFee);
+    }
+    const value = spend / (1 + tradeSettings.slippage);
+    if (value < targets.minTrade || spend <= 0) return;
+    const fee = calculateFee(spend, tradeSettings);
+    cash -= spend + fee;
+    trades.push({ assetId: asset.id, name: asset.name, side: 'BUY', value, amount: spend, fee, slippageCost: spend - value });
+  });
+
+  return { trades, cash, skipped: deltas.length - sized.length, cashLimited };
+};
+
+// Share of the portfolio outside the bands, summed over the targeted groups
+const weightOutside = (rows: DriftRow[]): number =>
+  rows.reduce((sum, { weight, target }) => !target ? sum
+    : sum + Math.max(0, weight - target.weight - target.band) + Math.max(0, target.weight - target.band - weight), 0);
+
+// Sales lose slippage and fees, so buys funded by them fall short of a band edge aimed at exactly.
+// Each attempt that still ends outside a band re-plans aiming further inside every band, and the
+// first plan projected within all of them is kept (else the one closest to them).
+export const planRebalance = (state: PlanningState): RebalancePlan => {
+  const { targetAllocation: targets } = state;
+  const assets = state.assets.map(a => ({ ...a, value: toBaseValue(a, state.fxRates) }));
+  const initial = new Map(assets.map(a => [a.id, a.value]));
+  const total = assets.reduce((sum, a) => sum + a.value, 0);
+  const before = driftRows(assets, targets, initial);
+  const liquid = assets.filter(a => !isIlliquid(a) && a.value > 0);
+
+  const bandsAt = (inset: number): Band[] => (['type', 'region'] as AllocationDimension[]).flatMap(dimension =>
+    Object.entries(targetsFor(targets, dimension))
+      .filter((entry): entry is [string, AllocationTarget] => entry[1] !== undefined)
+      .map(([group, target]) => ({
+        dimension,
+        group,
+        low: Math.max(0, target.weight - target.band * (1 - inset)) * total,
+        high: (target.weight + target.band * (1 - inset)) * total
+      })));
+
+  let chosen: (SizedTrades & { after: DriftRow[]; outside: number }) | null = null;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const sized = sizeTrades(state, liquid, moveIntoBands(assets, liquid, bandsAt(attempt * INSET_STEP)));
+
+    // Project the plan at the traded values (before costs, which come out of cash)
+    const planned = new Map(initial);
+    sized.trades.forEach(trade => planned.set(trade.assetId, (planned.get(trade.assetId) ?? 0) + (trade.side === 'BUY' ? trade.value : -trade.value)));
+    const after = driftRows(assets, targets, planned);
+    const outside = weightOutside(after);
+
+    if (!chosen || outside < chosen.outside - EPSILON) chosen = { ...sized, after, outside };
+    if (outside < EPSILON) break;
+  }
+  const { trades, cash, skipped, cashLimited, after } = chosen!;
+  const withinBands = after.every(row => row.status === 'within' || row.status === 'untargeted');
+
+  const notes: RebalanceNote[] = [];
+  if (skipped > 0) notes.push({ kind: 'belowMinimum', count: skipped, minTrade: targets.minTrade });
+  if (cashLimited && !withinBands) notes.push({ kind: 'cashLimited' });
+
+  after.forEach(({ dimension, group, status }) => {
+    if (status !== 'over' && status !== 'under') return;
+    const members = assets.filter(a => groupOf(a, dimension) === group);
+    if (status === 'over' && members.every(isIlliquid)) {
+      notes.push({ kind: 'illiquidOnly', dimension, group });
+    } else if (status === 'under' && !members.some(a => !isIlliquid(a) && a.value > 0)) {
+      notes.push({ kind: 'noLiquidHolding', dimension, group });
+    } else {
+      notes.push({ kind: 'conflict', dimension, group, status });
+    }
+  });
+
+  return {
+    trades,
+    turnover: trades.reduce((sum, t) => sum + t.value, 0),
+    estimatedCost: trades.reduce((sum, t) => sum + t.fee + t.slippageCost, 0),
+    cashChange: cash - state.cash,
+    before,
+    after,
+    withinBands,
+    notes
+  };
+};
+
+// Executes every trade of the plan in order, so the whole rebalance is a single state change.
+// Throws like executeTrade (e.g. insufficient cash) if the portfolio moved since planning.
+export const applyRebalancePlan = (state: GameState, plan: RebalancePlan): GameState =>
+  plan.trades.reduce((next, trade) => executeTrade(next, trade.side, trade.assetId, trade.amount), state);
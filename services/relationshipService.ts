@@ -0,0 +1,107 @@
+import { GameState, Relationship } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+import { validateRelationship } from "./validation";
+
+// Identifies an edge. validateRelationshipChange keeps these unique, and unlike a position in the
+// array they still point at the same edge after an undo or redo has reshuffled the list.
+export type RelationshipKey = Pick<Relationship, 'source' | 'target' | 'type'>;
+
+const matchesKey = (r: Relationship, key: RelationshipKey): boolean =>
+  r.source === key.source && r.target === key.target && r.type === key.type;
+
+// Edge types that express an equity stake of source in target.
+const isOwnership = (r: Relationship) => r.type === 'OWNS' || r.type === 'SUBSIDIARY';
+
+// True if `to` can already reach `from` through ownership edges, i.e. adding from -> to closes a loop.
+const createsOwnershipCycle = (relationships: Relationship[], from: string, to: string): boolean => {
+  const visited = new Set<string>();
+  const stack = [to];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === from) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    relationships
+      .filter(r => isOwnership(r) && r.source === current)
+      .forEach(r => stack.push(r.target));
+  }
+  return false;
+};
+
+const isSameEdge = (a: Relationship, b: Relationship): boolean => {
+  if (a.type !== b.type) return false;
+  if (a.source === b.source && a.target === b.target) return true;
+  // Correlation is symmetric, so a -> b and b -> a describe the same thing
+  return a.type === 'CORRELATED' && a.source === b.target && a.target === b.source;
+};
+
+// A rule an edge change breaks, as a catalog message so the link editor shows it in the player's language
+export interface RelationshipIssue {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// validateRelationship words its errors for save files; the editor gets one message per field
+const FIELD_ISSUES: Record<keyof Relationship, MessageKey> = {
+  source: 'link.errorSource',
+  target: 'link.errorTarget',
+  type: 'link.errorType',
+  strength: 'link.errorStrength'
+};
+
+// Checks a new or edited edge against the rest of the graph. `replacing` is the edge being
+// edited, which is left out of the structural checks.
+export const validateRelationshipChange = (
+  state: Pick<GameState, 'assets' | 'relationships'>,
+  candidate: Relationship,
+  replacing: RelationshipKey | null = null
+): RelationshipIssue[] => {
+  const fieldErrors = validateRelationship(candidate, new Set(state.assets.map(a => a.id)));
+  const issues: RelationshipIssue[] = (Object.keys(fieldErrors) as (keyof Relationship)[]).map(field =>
+    ({ key: field === 'target' && candidate.target === candidate.source ? 'link.errorSelf' : FIELD_ISSUES[field] }));
+  if (issues.length > 0) return issues;
+
+  const others = replacing ? state.relationships.filter(r => !matchesKey(r, replacing)) : state.relationships;
+
+  if (others.some(r => isSameEdge(r, candidate))) {
+    issues.push({ key: 'link.errorDuplicate' });
+  }
+
+  if (isOwnership(candidate)) {
+    if (createsOwnershipCycle(others, candidate.source, candidate.target)) {
+      issues.push({ key: 'link.errorCycle' });
+    }
+
+    const existingStake = others
+      .filter(r => isOwnership(r) && r.target === candidate.target)
+      .reduce((sum, r) => sum + r.strength, 0);
+    if (existingStake + candidate.strength > 1 + 1e-9) {
+      const target = state.assets.find(a => a.id === candidate.target);
+      issues.push({
+        key: 'link.errorOverClaim',
+        params: {
+          name: target?.name ?? candidate.target,
+          total: ((existingStake + candidate.strength) * 100).toFixed(0),
+          available: Math.max(0, (1 - existingStake) * 100).toFixed(0)
+        }
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const addRelationship = (state: GameState, relationship: Relationship): GameState => ({
+  ...state,
+  relationships: [...state.relationships, relationship]
+});
+
+export const updateRelationship = (state: GameState, key: RelationshipKey, relationship: Relationship): GameState => ({
+  ...state,
+  relationships: state.relationships.map(r => (matchesKey(r, key) ? relationship : r))
+});
+
+export const removeRelationship = (state: GameState, key: RelationshipKey): GameState => ({
+  ...state,
+  relationships: state.relationships.filter(r => !matchesKey(r, key))
+});
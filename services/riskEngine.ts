@@ -0,0 +1,112 @@
+import { Asset, Relationship } from "../types";
+import { riskToVolatility } from "./marketModel";
+import { createRng } from "./random";
+import { buildCorrelationMatrix, choleskyDecompose, correlatedNormals } from "./simulationService";
+
+export interface RiskContribution {
+  id: string;
+  name: string;
+  weight: number; // Share of net worth
+  volatility: number; // Standalone annual volatility
+  marginal: number; // d(portfolio vol) / d(weight)
+  contribution: number; // weight * marginal; these sum to the portfolio volatility
+  share: number; // contribution / portfolio volatility
+}
+
+export interface PortfolioRisk {
+  netWorth: number;
+  volatility: number; // Annualised portfolio volatility
+  threatLevel: number; // Volatility expressed on the same 1-10 scale as Asset.risk
+  confidence: number;
+  valueAtRisk: number; // One-year loss (in USD) not exceeded with `confidence`
+  conditionalVaR: number; // Average loss in the tail beyond VaR
+  contributions: RiskContribution[];
+}
+
+export interface RiskOptions {
+  cash?: number; // Zero-volatility balance that dilutes risk
+  confidence?: number;
+  scenarios?: number;
+  seed?: number;
+}
+
+// Inverse of riskToVolatility, so portfolio and asset risk read on one scale
+const volatilityToThreat = (volatility: number): number => {
+  if (volatility <= 0) return 0;
+  const level = 1 + 9 * Math.log(volatility / 0.03) / Math.log(25);
+  return Math.max(0, Math.min(10, level));
+};
+
+// Covariance from per-asset volatility and the (PSD-repaired) CORRELATED matrix
+export const buildCovarianceMatrix = (assets: Asset[], relationships: Relationship[]): number[][] => {
+  const lower = choleskyDecompose(buildCorrelationMatrix(assets, relationships));
+  const volatility = assets.map(a => riskToVolatility(a.risk));
+  return lower.map((rowI, i) => lower.map((rowJ, j) => {
+    const correlation = rowI.reduce((sum, l, k) => sum + l * rowJ[k], 0);
+    return correlation * volatility[i] * volatility[j];
+  }));
+};
+
+export const analyzePortfolioRisk = (
+  assets: Asset[],
+  relationships: Relationship[],
+  { cash = 0, confidence = 0.95, scenarios = 5000, seed = 1 }: RiskOptions = {}
+): PortfolioRisk => {
+  const netWorth = cash + assets.reduce((sum, a) => sum + a.value, 0);
+  const empty: PortfolioRisk = {
+    netWorth, volatility: 0, threatLevel: 0, confidence, valueAtRisk: 0, conditionalVaR: 0, contributions: []
+  };
+  if (assets.length === 0 || netWorth <= 0) return empty;
+
+  const weights = assets.map(a => a.value / netWorth);
+  const covariance = buildCovarianceMatrix(assets, relationships);
+  const covTimesWeights = covariance.map(row => row.reduce((sum, c, j) => sum + c * weights[j], 0));
+  const variance = weights.reduce((sum, w, i) => sum + w * covTimesWeights[i], 0);
+  const volatility = Math.sqrt(Math.max(0, variance));
+
+  const contributions: RiskContribution[] = assets.map((asset, i) => {
+    const marginal = volatility > 0 ? covTimesWeights[i] / volatility : 0;
+    const contribution = weights[i] * marginal;
+    return {
+      id: asset.id,
+      name: asset.name,
+      weight: weights[i],
+      volatility: Math.sqrt(covariance[i][i]),
+      marginal,
+      contribution,
+      share: volatility > 0 ? contribution / volatility : 0
+    };
+  }).sort((a, b) => b.contribution - a.contribution);
+
+  // Historical-style VaR: revalue the book under simulated one-year scenarios and read the loss tail
+  const rng = createRng(seed);
+  const lower = choleskyDecompose(buildCorrelationMatrix(assets, relationships));
+  const stdDev = assets.map((_, i) => Math.sqrt(covariance[i][i]));
+  const drift = assets.map((a, i) => Math.log(1 + Math.max(-0.99, a.roi)) - covariance[i][i] / 2);
+  const pnl = new Float64Array(scenarios);
+  for (let s = 0; s < scenarios; s++) {
+    const shocks = correlatedNormals(lower, rng);
+    let change = 0;
+    for (let i = 0; i < assets.length; i++) {
+      change += assets[i].value * (Math.exp(drift[i] + stdDev[i] * shocks[i]) - 1);
+    }
+    pnl[s] = change;
+  }
+  pnl.sort();
+
+  const tailCount = Math.max(1, Math.floor(scenarios * (1 - confidence)));
+  const valueAtRisk = Math.max(0, -pnl[tailCount - 1]);
+  let tailSum = 0;
+  for (let s = 0; s < tailCount; s++) tailSum += pnl[s];
+  const conditionalVaR = Math.max(0, -tailSum / tailCount);
+
+  return {
+    netWorth,
+    volatility,
+    threatLevel: volatilityToThreat(volatility),
+    confidence,
+    valueAtRisk,
+    conditionalVaR,
+    contributions
+  };
+};
@@ -0,0 +1,203 @@
+import { Asset, GameState, Sector } from "../types";
+import { MAX_SECTOR_SIZE, MIN_SECTOR_SIZE } from "../constants";
+import { DEFAULT_LOCALE, MessageKey, MessageParams, translate } from "./i18n";
+
+// Realm sectors: named boards of configurable size, shown as tabs. Every holding stands on one
+// sector, one holding per cell. Auto-placement tries the preferred sector first and then the others
+// in tab order; a holding is left off the board (no gridPosition) only when every board is full,
+// and lands as soon as a sector is added or enlarged.
+
+type GridPosition = { x: number; y: number };
+
+// The parts of the game state that describe the boards
+export type BoardLayout = Pick<GameState, 'assets' | 'sectors'>;
+
+export interface Placement {
+  sectorId: string;
+  gridPosition: GridPosition;
+}
+
+// A rule a sector change breaks, as a catalog message so the editor shows it in the player's language
+export interface SectorIssue {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// Thrown by the sector mutations; the message is the English text of the issue
+export class SectorError extends Error {
+  issue: SectorIssue;
+
+  constructor(issue: SectorIssue) {
+    super(translate(DEFAULT_LOCALE, issue.key, issue.params));
+    this.name = 'SectorError';
+    this.issue = issue;
+  }
+}
+
+// Sector ids follow the "s<number>" convention of DEFAULT_SECTOR, like asset ids.
+export const generateSectorId = (sectors: Sector[]): string => {
+  const highest = sectors.reduce((max, sector) => {
+    const match = /^s(\d+)$/.exec(sector.id);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `s${highest + 1}`;
+};
+
+export const getSectorId = (asset: Asset, sectors: Sector[]): string => asset.sectorId ?? sectors[0].id;
+
+export const assetsInSector = (layout: BoardLayout, sectorId: string): Asset[] =>
+  layout.assets.filter(a => getSectorId(a, layout.sectors) === sectorId);
+
+const inBounds = (sector: Sector, position: GridPosition) =>
+  position.x >= 1 && position.x <= sector.width && position.y >= 1 && position.y <= sector.height;
+
+// First unoccupied cell of the sector in row-major order (1-based, like Asset.gridPosition), or the
+// one nearest to `near`. Undefined if the sector is full or unknown.
+export const findFreeCell = (layout: BoardLayout, sectorId: string, near?: GridPosition): GridPosition | undefined => {
+  const sector = layout.sectors.find(s => s.id === sectorId);
+  if (!sector) return undefined;
+  const occupied = new Set(
+    assetsInSector(layout, sectorId).filter(a => a.gridPosition).map(a => `${a.gridPosition!.x},${a.gridPosition!.y}`)
+  );
+
+  const cells: GridPosition[] = [];
+  for (let y = 1; y <= sector.height; y++) {
+    for (let x = 1; x <= sector.width; x++) {
+      if (!occupied.has(`${x},${y}`)) cells.push({ x, y });
+    }
+  }
+
+  if (near) {
+    const distance = (c: GridPosition) => Math.abs(c.x - near.x) + Math.abs(c.y - near.y);
+    cells.sort((a, b) => distance(a) - distance(b));
+  }
+  return cells[0];
+};
+
+// A free cell on the preferred sector, else on the first other sector with room
+export const findPlacement = (layout: BoardLayout, preferredSectorId?: string, near?: GridPosition): Placement | undefined => {
+  const preferred = layout.sectors.find(s => s.id === preferredSectorId);
+  const order = preferred ? [preferred, ...layout.sectors.filter(s => s !== preferred)] : layout.sectors;
+  for (const sector of order) {
+    const gridPosition = findFreeCell(layout, sector.id, sector === preferred ? near : undefined);
+    if (gridPosition) return { sectorId: sector.id, gridPosition };
+  }
+  return undefined;
+};
+
+// Holdings keep their cell when it exists on their sector and nobody before them claimed it.
+// The rest move to the nearest free cell, on another sector if theirs is full, or off the board.
+export const settleAssets = (layout: BoardLayout): Asset[] => {
+  const { sectors } = layout;
+  const claimed = new Set<string>();
+  const keeps = layout.assets.map(asset => {
+    const sector = sectors.find(s => s.id === getSectorId(asset, sectors));
+    if (!sector || !asset.gridPosition || !inBounds(sector, asset.gridPosition)) return false;
+    const key = `${sector.id}:${asset.gridPosition.x},${asset.gridPosition.y}`;
+    if (claimed.has(key)) return false;
+    claimed.add(key);
+    return true;
+  });
+
+  const settled: Asset[] = layout.assets.map((asset, i) =>
+    keeps[i] ? { ...asset, sectorId: getSectorId(asset, sectors) } : { ...asset, gridPosition: undefined });
+  layout.assets.forEach((asset, i) => {
+    if (keeps[i]) return;
+    const placement = findPlacement({ assets: settled, sectors }, asset.sectorId, asset.gridPosition);
+    settled[i] = placement
+      ? { ...asset, ...placement }
+      : { ...asset, sectorId: sectors.some(s => s.id === asset.sectorId) ? asset.sectorId : sectors[0].id, gridPosition: undefined };
+  });
+  return settled;
+};
+
+// Field checks for one sector, plus room for the `holdings` buildings already standing on it
+export const validateSector = (sector: Partial<Record<keyof Sector, unknown>>, holdings = 0): SectorIssue[] => {
+  const issues: SectorIssue[] = [];
+  if (typeof sector.name !== 'string' || sector.name.trim() === '') issues.push({ key: 'sector.nameRequired' });
+  (['width', 'height'] as const).forEach(key => {
+    const size = sector[key];
+    if (!Number.isInteger(size) || (size as number) < MIN_SECTOR_SIZE || (size as number) > MAX_SECTOR_SIZE) {
+      issues.push({
+        key: key === 'width' ? 'sector.widthRange' : 'sector.heightRange',
+        params: { min: MIN_SECTOR_SIZE, max: MAX_SECTOR_SIZE, value: String(size) }
+      });
+    }
+  });
+  if (issues.length === 0) {
+    const { width, height } = sector as Sector;
+    if (width * height < holdings) {
+      issues.push({ key: 'sector.tooSmall', params: { width, height, cells: width * height, count: holdings } });
+    }
+  }
+  return issues;
+};
+
+// Why a sector can't be removed: only empty sectors can go, and the last one always stays
+export const sectorRemovalIssue = (layout: BoardLayout, id: string): SectorIssue | undefined => {
+  if (layout.sectors.length <= 1) return { key: 'sector.lastOne' };
+  if (assetsInSector(layout, id).length > 0) return { key: 'sector.notEmpty' };
+  return undefined;
+};
+
+// Whole-board checks for a loaded game: known sectors, cells inside their board, no stacking
+export const validateBoardLayout = (layout: BoardLayout): string[] => {
+  const issues: string[] = [];
+  if (layout.sectors.length === 0) return ['at least one sector is required'];
+
+  const ids = new Set<string>();
+  layout.sectors.forEach((sector, index) => {
+    const label = `Sector #${index + 1}`;
+    if (typeof sector.id !== 'string' || sector.id.trim() === '') issues.push(`${label}: id is required`);
+    else if (ids.has(sector.id)) issues.push(`${label}: duplicate id "${sector.id}"`);
+    ids.add(sector.id);
+    validateSector(sector).forEach(({ key, params }) => issues.push(`${label}: ${translate(DEFAULT_LOCALE, key, params)}`));
+  });
+
+  const occupied = new Map<string, string>();
+  layout.assets.forEach(asset => {
+    const sectorId = getSectorId(asset, layout.sectors);
+    const sector = layout.sectors.find(s => s.id === sectorId);
+    if (!sector) {
+      issues.push(`Asset "${asset.name}": unknown sector "${sectorId}"`);
+      return;
+    }
+    if (!asset.gridPosition) return;
+    if (!inBounds(sector, asset.gridPosition)) {
+      issues.push(`Asset "${asset.name}": cell ${asset.gridPosition.x},${asset.gridPosition.y} is outside sector "${sector.name}" (${sector.width}x${sector.height})`);
+      return;
+    }
+    const key = `${sectorId}:${asset.gridPosition.x},${asset.gridPosition.y}`;
+    const other = occupied.get(key);
+    if (other) issues.push(`Asset "${asset.name}": cell ${asset.gridPosition.x},${asset.gridPosition.y} of sector "${sector.name}" is already taken by "${other}"`);
+    occupied.set(key, asset.name);
+  });
+  return issues;
+};
+
+// New boards are empty, except for holdings that were waiting off the board for room
+export const addSector = (state: GameState, draft: Omit<Sector, 'id'>): GameState => {
+  const sectors = [...state.sectors, { ...draft, id: generateSectorId(state.sectors) }];
+  return { ...state, sectors, assets: settleAssets({ assets: state.assets, sectors }) };
+};
+
+// Renames and resizes. Holdings left outside a shrunk board move to the nearest free cell inside it.
+export const updateSector = (state: GameState, sector: Sector): GameState => {
+  const [issue] = validateSector(sector, assetsInSector(state, sector.id).filter(a => a.gridPosition).length);
+  if (issue) throw new SectorError(issue);
+  const sectors = state.sectors.map(s => (s.id === sector.id ? sector : s));
+  return { ...state, sectors, assets: settleAssets({ assets: state.assets, sectors }) };
+};
+
+export const removeSector = (state: GameState, id: string): GameState => {
+  const issue = sectorRemovalIssue(state, id);
+  if (issue) throw new SectorError(issue);
+  return { ...state, sectors: state.sectors.filter(s => s.id !== id) };
+};
+
+export const moveAssetToSector = (state: GameState, id: string, sectorId: string): GameState => {
+  const gridPosition = findFreeCell(state, sectorId);
+  const sector = state.sectors.find(s => s.id === sectorId);
+  if (!sector || !gridPosition) throw new SectorError({ key: 'realm.sectorFull', params: { name: sector?.name ?? sectorId } });
+  return { ...state, assets: state.assets.map(a => (a.id === id ? { ...a, sectorId, gridPosition } : a)) };
+};
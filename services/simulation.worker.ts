@@ -0,0 +1,6 @@
+import { projectPortfolio, ProjectionRequest } from "./simulationService";
+
+// Web Worker entry point: runs Monte Carlo projections without blocking the UI thread.
+self.onmessage = (event: MessageEvent<ProjectionRequest>) => {
+  self.postMessage(projectPortfolio(event.data));
+};
@@ -0,0 +1,166 @@
+import { Asset, Relationship } from "../types";
+import { riskToVolatility } from "./marketModel";
+import { createRng, randomNormal } from "./random";
+
+export interface ProjectionRequest {
+  assets: Asset[];
+  relationships: Relationship[];
+  cash: number;
+  years: number;
+  paths: number;
+  seed: number;
+}
+
+export interface ProjectionResult {
+  years: number[]; // 0..N
+  p5: number[];
+  p50: number[];
+  p95: number[];
+  mean: number[];
+  paths: number;
+  seed: number;
+}
+
+// Pairwise correlations from CORRELATED edges (symmetric, unit diagonal). Other edge types are ignored.
+export const buildCorrelationMatrix = (assets: Asset[], relationships: Relationship[]): number[][] => {
+  const index = new Map(assets.map((a, i) => [a.id, i]));
+  const matrix = assets.map((_, i) => assets.map((__, j): number => (i === j ? 1 : 0)));
+
+  relationships
+    .filter(r => r.type === 'CORRELATED')
+    .forEach(r => {
+      const i = index.get(r.source);
+      const j = index.get(r.target);
+      if (i === undefined || j === undefined || i === j) return;
+      const rho = Math.max(-1, Math.min(1, r.strength));
+      matrix[i][j] = rho;
+      matrix[j][i] = rho;
+    });
+
+  return matrix;
+};
+
+// Lower-triangular Cholesky factor, or null if the matrix is not positive semi-definite.
+const tryCholesky = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum < -1e-9) return null;
+        lower[i][i] = Math.sqrt(Math.max(0, sum));
+      } else {
+        // A zero pivot means asset j is fully explained by earlier assets; it adds no new factor
+        lower[i][j] = lower[j][j] > 1e-12 ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+  return lower;
+};
+
+// Hand-entered correlations are not always mutually consistent. If the matrix is not a valid
+// correlation matrix, shrink the off-diagonal terms towards zero until it is.
+export const choleskyDecompose = (correlation: number[][]): number[][] => {
+  for (let shrink = 1; shrink >= 0; shrink -= 0.05) {
+    const candidate = correlation.map((row, i) => row.map((v, j) => (i === j ? 1 : v * shrink)));
+    const lower = tryCholesky(candidate);
+    if (lower) return lower;
+  }
+  return correlation.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+};
+
+// Draws one vector of correlated standard normals
+export const correlatedNormals = (lower: number[][], rng: () => number): number[] => {
+  const independent = lower.map(() => randomNormal(rng));
+  return lower.map(row => row.reduce((sum, l, k) => sum + l * independent[k], 0));
+};
+
+const percentile = (sorted: Float64Array, p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lowerIndex = Math.floor(position);
+  const upperIndex = Math.min(sorted.length - 1, lowerIndex + 1);
+  return sorted[lowerIndex] + (sorted[upperIndex] - sorted[lowerIndex]) * (position - lowerIndex);
+};
+
+// Yearly Monte Carlo of total net worth. Each asset follows a geometric Brownian motion with drift = roi
+// and volatility from its risk score; yearly shocks are correlated through CORRELATED edges. Cash is flat.
+export const projectPortfolio = (request: ProjectionRequest): ProjectionResult => {
+  const { assets, relationships, cash, years, paths, seed } = request;
+  const rng = createRng(seed);
+  const lower = choleskyDecompose(buildCorrelationMatrix(assets, relationships));
+  const volatility = assets.map(a => riskToVolatility(a.risk));
+  const drift = assets.map((a, i) => Math.log(1 + Math.max(-0.99, a.roi)) - (volatility[i] ** 2) / 2);
+
+  // totals[year][path]
+  const totals = Array.from({ length: years + 1 }, () => new Float64Array(paths));
+
+  for (let p = 0; p < paths; p++) {
+    const values = assets.map(a => a.value);
+    totals[0][p] = cash + values.reduce((sum, v) => sum + v, 0);
+    for (let y = 1; y <= years; y++) {
+      const shocks = correlatedNormals(lower, rng);
+      let total = cash;
+      for (let i = 0; i < values.length; i++) {
+        values[i] *= Math.exp(drift[i] + volatility[i] * shocks[i]);
+        total += values[i];
+      }
+      totals[y][p] = total;
+    }
+  }
+
+  const result: ProjectionResult = { years: [], p5: [], p50: [], p95: [], mean: [], paths, seed };
+  totals.forEach((row, year) => {
+    const sorted = row.slice().sort();
+    result.years.push(year);
+    result.p5.push(percentile(sorted, 0.05));
+    result.p50.push(percentile(sorted, 0.5));
+    result.p95.push(percentile(sorted, 0.95));
+    result.mean.push(row.reduce((sum, v) => sum + v, 0) / paths);
+  });
+  return result;
+};
+
+const cancelled = () => new DOMException('Projection cancelled', 'AbortError');
+
+// Runs the projection off the main thread. Falls back to running inline where workers are unavailable.
+// A signal that is already aborted rejects straight away, without starting any work.
+export const runProjection = (request: ProjectionRequest, signal?: AbortSignal): Promise<ProjectionResult> => {
+  if (signal?.aborted) {
+    return Promise.reject(cancelled());
+  }
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(projectPortfolio(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(cancelled());
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    worker.onmessage = (event: MessageEvent<ProjectionResult>) => {
+      finish();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      // Fallback: some hosts can't load module workers; compute on the main thread instead
+      console.warn("Projection worker failed, running inline:", event.message);
+      event.preventDefault();
+      finish();
+      try {
+        resolve(projectPortfolio(request));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    worker.postMessage(request);
+  });
+};
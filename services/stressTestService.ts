@@ -0,0 +1,269 @@
+import { Asset, AssetType, Region, Relationship } from "../types";
+
+// Scenario stress testing. A scenario is a set of shocks, each an instant price move for the
+// holdings it matches. Moves then spread through the relationship graph:
+// - CORRELATED (strength ρ): a holding no shock names co-moves with its shocked neighbours,
+//   ρ × their move. Chains multiply (ρ1 × ρ2) and the strongest link wins rather than adding up,
+//   since several correlated neighbours are mostly telling the same story.
+// - OWNS / SUBSIDIARY (strength s): the holder's valuation includes s × the target's value (see
+//   lookThroughService), so that slice gains or loses whatever the target does. The holder's own
+//   move only applies to the rest of its value.
+// PARTNER edges carry no valuation link and are ignored.
+
+// All filters given must match; a shock with none hits every holding
+export interface Shock {
+  type?: AssetType;
+  region?: Region;
+  assetId?: string;
+  change: number; // Fractional price move, -0.6 for a 60% fall
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  shocks: Shock[];
+}
+
+export const CUSTOM_SCENARIO_ID = 'custom';
+
+export const MAX_SHOCK = 10; // +1000%; losses are capped at -100%
+
+// Rates +200bp: bonds lose about duration × 2%, and higher discount rates weigh on everything priced off them
+export const STRESS_PRESETS: StressScenario[] = [
+  {
+    id: 'rates-up',
+    name: 'Rates +200bp',
+    shocks: [
+      { type: AssetType.BOND, change: -0.12 },
+      { type: AssetType.REAL_ESTATE, change: -0.1 },
+      { type: AssetType.PRIVATE_EQUITY, change: -0.08 },
+      { type: AssetType.STOCK, change: -0.06 },
+      { type: AssetType.CRYPTO, change: -0.1 }
+    ]
+  },
+  {
+    id: 'crypto-crash',
+    name: 'Crypto −60%',
+    shocks: [{ type: AssetType.CRYPTO, change: -0.6 }]
+  },
+  {
+    id: 'asia-property',
+    name: 'Asia real-estate crash',
+    shocks: [
+      { type: AssetType.REAL_ESTATE, region: Region.ASIA, change: -0.35 },
+      { type: AssetType.STOCK, region: Region.ASIA, change: -0.1 }
+    ]
+  },
+  {
+    id: 'equity-selloff',
+    name: 'Global equity sell-off',
+    shocks: [
+      { type: AssetType.STOCK, change: -0.25 },
+      { type: AssetType.PRIVATE_EQUITY, change: -0.15 }
+    ]
+  }
+];
+
+// Problems with a scenario, translated by the panel. `shock` is 1-based, as shown to the player.
+export type StressIssue =
+  | { kind: 'noShocks' }
+  | { kind: 'changeRange'; shock: number; value: number }
+  | { kind: 'unknownType'; shock: number; value: string }
+  | { kind: 'unknownRegion'; shock: number; value: string }
+  | { kind: 'unknownAsset'; shock: number; value: string };
+
+export const validateStressScenario = (scenario: StressScenario, assets: Asset[]): StressIssue[] => {
+  const issues: StressIssue[] = [];
+  if (scenario.shocks.length === 0) issues.push({ kind: 'noShocks' });
+  scenario.shocks.forEach((shock, i) => {
+    const n = i + 1;
+    if (!Number.isFinite(shock.change) || shock.change < -1 || shock.change > MAX_SHOCK) {
+      issues.push({ kind: 'changeRange', shock: n, value: shock.change });
+    }
+    if (shock.type !== undefined && !Object.values(AssetType).includes(shock.type)) issues.push({ kind: 'unknownType', shock: n, value: shock.type });
+    if (shock.region !== undefined && !Object.values(Region).includes(shock.region)) issues.push({ kind: 'unknownRegion', shock: n, value: shock.region });
+    if (shock.assetId !== undefined && !assets.some(a => a.id === shock.assetId)) issues.push({ kind: 'unknownAsset', shock: n, value: shock.assetId });
+  });
+  return issues;
+};
+
+const matches = (shock: Shock, asset: Asset): boolean =>
+  (shock.type === undefined || shock.type === asset.type) &&
+  (shock.region === undefined || shock.region === asset.region) &&
+  (shock.assetId === undefined || shock.assetId === asset.id);
+
+// --- RESULTS ---
+
+// What set the holding's move; 'ownership' means only its stakes in other holdings moved
+export type StressCause = 'direct' | 'correlated' | 'ownership' | 'none';
+
+export interface StressImpact {
+  id: string;
+  name: string;
+  type: AssetType;
+  region: Region;
+  before: number; // USD
+  after: number;
+  change: number; // after - before
+  changePct: number;
+  move: number; // The holding's own price move, before ownership pass-through
+  cause: StressCause;
+  via?: string; // Correlated neighbour the move came from
+  passThrough: number; // USD gained or lost through stakes in other holdings
+}
+
+export interface StressSummary {
+  netWorth: number; // Holdings plus cash
+  invested: number;
+  byType: Record<string, number>; // USD
+  byRegion: Record<string, number>;
+}
+
+// Parts of the run that were approximated, translated by the panel
+export type StressWarning =
+  | { kind: 'unmatchedShock'; shock: number } // 1-based
+  | { kind: 'circularOwnership'; name: string }
+  | { kind: 'stakesExceedValue'; name: string };
+
+export interface StressResult {
+  impacts: StressImpact[];
+  before: StressSummary;
+  after: StressSummary;
+  change: number;
+  changePct: number;
+  stressedAssets: Asset[]; // Same holdings at their stressed values, for re-running analytics
+  warnings: StressWarning[];
+}
+
+const summarize = (assets: Asset[], values: Map<string, number>, cash: number): StressSummary => {
+  const byType: Record<string, number> = {};
+  const byRegion: Record<string, number> = {};
+  let invested = 0;
+  assets.forEach(a => {
+    const value = values.get(a.id) ?? 0;
+    invested += value;
+    byType[a.type] = (byType[a.type] ?? 0) + value;
+    byRegion[a.region] = (byRegion[a.region] ?? 0) + value;
+  });
+  return { netWorth: invested + cash, invested, byType, byRegion };
+};
+
+// `assets` must already be in USD (see toBaseAssets). Cash is not shocked.
+export const runStressTest = (
+  assets: Asset[],
+  relationships: Relationship[],
+  scenario: StressScenario,
+  cash = 0
+): StressResult => {
+  const byId = new Map(assets.map(a => [a.id, a]));
+  // Keyed so a warning raised on every visit of a holding is reported once
+  const warnings = new Map<string, StressWarning>();
+  const warn = (warning: StressWarning, key: string) => warnings.set(`${warning.kind}:${key}`, warning);
+
+  scenario.shocks.forEach((shock, i) => {
+    if (!assets.some(a => matches(shock, a))) warn({ kind: 'unmatchedShock', shock: i + 1 }, String(i));
+  });
+
+  // Direct moves; overlapping shocks compound
+  const direct = new Map<string, number>();
+  assets.forEach(asset => {
+    const hits = scenario.shocks.filter(shock => matches(shock, asset));
+    if (hits.length === 0) return;
+    const growth = hits.reduce((product, shock) => product * (1 + shock.change), 1);
+    direct.set(asset.id, Math.max(-1, growth - 1));
+  });
+
+  // Correlated co-movement, relaxed until stable. Each pass can only extend a chain by one hop,
+  // so assets.length passes reach every connected holding.
+  const move = new Map(assets.map(a => [a.id, direct.get(a.id) ?? 0]));
+  const via = new Map<string, string>();
+  const correlated = relationships.filter(r =>
+    r.type === 'CORRELATED' && r.source !== r.target && byId.has(r.source) && byId.has(r.target));
+  for (let pass = 0; pass < assets.length; pass++) {
+    let changed = false;
+    for (const edge of correlated) {
+      for (const [from, to] of [[edge.source, edge.target], [edge.target, edge.source]]) {
+        if (direct.has(to)) continue;
+        const implied = edge.strength * move.get(from)!;
+        if (Math.abs(implied) > Math.abs(move.get(to)!) + 1e-12) {
+          move.set(to, implied);
+          via.set(to, from);
+          changed = true;
+        }
+      }
+    }
+    if (!changed) break;
+  }
+
+  // Ownership pass-through, following stakes the same way look-through does
+  const stakes = (id: string) => relationships.filter(r =>
+    r.source === id && (r.type === 'OWNS' || r.type === 'SUBSIDIARY') && byId.has(r.target) && r.target !== id);
+
+  const passThrough = new Map<string, number>();
+
+  // USD change in the value of asset `id`
+  const valueChange = (id: string, path: Set<string>): number => {
+    const asset = byId.get(id)!;
+    const edges = stakes(id).filter(r => !path.has(r.target));
+    if (edges.length < stakes(id).length) {
+      warn({ kind: 'circularOwnership', name: asset.name }, id);
+    }
+    if (asset.value <= 0 || edges.length === 0) return asset.value * move.get(id)!;
+
+    let slices = edges.map(r => ({ target: r.target, value: r.strength * byId.get(r.target)!.value }));
+    const claimed = slices.reduce((sum, s) => sum + s.value, 0);
+    if (claimed > asset.value) {
+      warn({ kind: 'stakesExceedValue', name: asset.name }, id);
+      slices = slices.map(s => ({ ...s, value: s.value * asset.value / claimed }));
+    }
+
+    const nextPath = new Set(path).add(id);
+    let standalone = asset.value;
+    let inherited = 0;
+    slices.forEach(slice => {
+      standalone -= slice.value;
+      const target = byId.get(slice.target)!;
+      if (target.value > 0) inherited += slice.value * valueChange(slice.target, nextPath) / target.value;
+    });
+    if (path.size === 0) passThrough.set(id, inherited);
+    return Math.max(0, standalone) * move.get(id)! + inherited;
+  };
+
+  const afterValues = new Map<string, number>();
+  const impacts: StressImpact[] = assets.map(asset => {
+    // A holding can't fall below zero however its stakes perform
+    const after = Math.max(0, asset.value + valueChange(asset.id, new Set()));
+    afterValues.set(asset.id, after);
+    const change = after - asset.value;
+    const inherited = passThrough.get(asset.id) ?? 0;
+    const cause: StressCause = direct.has(asset.id) ? 'direct' : via.has(asset.id) ? 'correlated' : inherited !== 0 ? 'ownership' : 'none';
+    return {
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      region: asset.region,
+      before: asset.value,
+      after,
+      change,
+      changePct: asset.value > 0 ? change / asset.value : 0,
+      move: move.get(asset.id)!,
+      cause,
+      via: cause === 'correlated' ? via.get(asset.id) : undefined,
+      passThrough: inherited
+    };
+  });
+
+  const before = summarize(assets, new Map(assets.map(a => [a.id, a.value])), cash);
+  const after = summarize(assets, afterValues, cash);
+  const change = after.netWorth - before.netWorth;
+
+  return {
+    impacts: impacts.sort((a, b) => a.change - b.change),
+    before,
+    after,
+    change,
+    changePct: before.netWorth > 0 ? change / before.netWorth : 0,
+    stressedAssets: assets.map(a => ({ ...a, value: afterValues.get(a.id)! })),
+    warnings: Array.from(warnings.values())
+  };
+};
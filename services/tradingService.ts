@@ -0,0 +1,108 @@
+import { Asset, CurrencyCode, GameState, TradeSettings } from "../types";
+import { appendLedgerEntries, getUnitPrice, getUnits } from "./ledgerService";
+import { removeAsset } from "./assetService";
+import { getCurrency } from "./currencyService";
+
+export type TradeSide = 'BUY' | 'SELL';
+
+// Prices and valueChange are in the asset's currency; amount, fee, cash and slippage cost are USD
+export interface TradeQuote {
+  side: TradeSide;
+  assetId: string;
+  currency: CurrencyCode;
+  fxRate: number; // USD per unit of the asset's currency
+  quantity: number; // Units
+  marketPrice: number;
+  executionPrice: number; // Market price after slippage
+  amount: number; // quantity * executionPrice, in USD
+  fee: number;
+  cashChange: number;
+  valueChange: number; // Mark-to-market change of the holding
+  slippageCost: number;
+}
+
+export const calculateFee = (amount: number, settings: TradeSettings): number =>
+  amount > 0 ? Math.max(settings.minFee, amount * settings.feeRate) : 0;
+
+const findAsset = (state: GameState, assetId: string): Asset => {
+  const asset = state.assets.find(a => a.id === assetId);
+  if (!asset) throw new Error(`Unknown asset "${assetId}"`);
+  return asset;
+};
+
+// BUY: `amount` is the USD cash spent on units (fee charged on top).
+// SELL: `amount` is the fraction of the holding to sell (0-1].
+// Foreign holdings are bought and sold through an implicit FX conversion at the current rate.
+export const quoteTrade = (state: GameState, side: TradeSide, assetId: string, amount: number): TradeQuote => {
+  const asset = findAsset(state, assetId);
+  const { tradeSettings } = state;
+  const currency = getCurrency(asset);
+  const fxRate = state.fxRates[currency];
+  const marketPrice = getUnitPrice(asset);
+  if (!(marketPrice > 0)) throw new Error(`${asset.name} has no market value to trade at`);
+
+  if (side === 'BUY') {
+    if (!(amount > 0)) throw new Error('Buy amount must be greater than zero');
+    const executionPrice = marketPrice * (1 + tradeSettings.slippage);
+    const quantity = amount / fxRate / executionPrice;
+    const fee = calculateFee(amount, tradeSettings);
+    return {
+      side, assetId, currency, fxRate, quantity, marketPrice, executionPrice, amount, fee,
+      cashChange: -(amount + fee),
+      valueChange: quantity * marketPrice,
+      slippageCost: amount - quantity * marketPrice * fxRate
+    };
+  }
+
+  if (!(amount > 0 && amount <= 1)) throw new Error('Sell fraction must be between 0 and 100%');
+  const executionPrice = marketPrice * (1 - tradeSettings.slippage);
+  const quantity = getUnits(asset) * amount;
+  const proceeds = quantity * executionPrice * fxRate;
+  const fee = Math.min(proceeds, calculateFee(proceeds, tradeSettings));
+  return {
+    side, assetId, currency, fxRate, quantity, marketPrice, executionPrice,
+    amount: proceeds,
+    fee,
+    cashChange: proceeds - fee,
+    // A full sale removes the whole holding, including any rounding dust
+    valueChange: amount === 1 ? -asset.value : -quantity * marketPrice,
+    slippageCost: quantity * marketPrice * fxRate - proceeds
+  };
+};
+
+// Executes a trade against the cash balance and books it in the ledger.
+// Selling 100% closes the position and removes the holding from the board.
+export const executeTrade = (state: GameState, side: TradeSide, assetId: string, amount: number): GameState => {
+  const asset = findAsset(state, assetId);
+  const quote = quoteTrade(state, side, assetId, amount);
+
+  if (quote.cashChange < 0 && state.cash + quote.cashChange < -1e-9) {
+    throw new Error(`Insufficient cash: need $${Math.ceil(-quote.cashChange).toLocaleString()}, have $${Math.floor(state.cash).toLocaleString()}`);
+  }
+
+  const closing = side === 'SELL' && amount === 1;
+  let next: GameState = {
+    ...state,
+    cash: state.cash + quote.cashChange,
+    assets: state.assets.map(a => a.id !== assetId ? a : {
+      ...a,
+      value: a.value + quote.valueChange,
+      units: getUnits(a) + (side === 'BUY' ? quote.quantity : -quote.quantity)
+    })
+  };
+  if (closing) next = removeAsset(next, assetId);
+
+  return appendLedgerEntries(next, [{
+    kind: side,
+    assetId,
+    assetName: asset.name,
+    currency: quote.currency,
+    quantity: quote.quantity,
+    price: quote.executionPrice,
+    amount: quote.amount,
+    fee: quote.fee,
+    cashChange: quote.cashChange,
+    valueChange: quote.valueChange,
+    note: closing ? 'Position closed' : undefined
+  }]);
+};
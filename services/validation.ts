@@ -0,0 +1,87 @@
+import { Asset, AssetType, Region, Relationship } from "../types";
+import { CURRENCY_CODES, isCurrencyCode } from "./currencyService";
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+// Same keys as T but nothing is trusted yet, e.g. a parsed save file or a form draft.
+type Untrusted<T> = { [K in keyof T]?: unknown };
+
+const ASSET_TYPES = Object.values(AssetType) as string[];
+const REGIONS = Object.values(Region) as string[];
+export const RELATIONSHIP_TYPES: Relationship['type'][] = ['OWNS', 'PARTNER', 'SUBSIDIARY', 'CORRELATED'];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Field-level checks for a single asset.
+export const validateAsset = (asset: Untrusted<Asset>): FieldErrors<Asset> => {
+  const errors: FieldErrors<Asset> = {};
+
+  if (typeof asset.id !== 'string' || asset.id.trim() === '') {
+    errors.id = 'id is required';
+  }
+  if (typeof asset.name !== 'string' || asset.name.trim() === '') {
+    errors.name = 'name is required';
+  }
+  if (typeof asset.type !== 'string' || !ASSET_TYPES.includes(asset.type)) {
+    errors.type = `unknown asset type "${String(asset.type)}" (expected one of: ${ASSET_TYPES.join(', ')})`;
+  }
+  if (typeof asset.region !== 'string' || !REGIONS.includes(asset.region)) {
+    errors.region = `unknown region "${String(asset.region)}" (expected one of: ${REGIONS.join(', ')})`;
+  }
+  if (!isFiniteNumber(asset.value) || asset.value < 0) {
+    errors.value = `value must be a non-negative number (got ${String(asset.value)})`;
+  }
+  if (!isFiniteNumber(asset.roi) || asset.roi < -1 || asset.roi > 10) {
+    errors.roi = `roi must be a fraction between -1 and 10 (got ${String(asset.roi)})`;
+  }
+  if (!isFiniteNumber(asset.risk) || asset.risk < 1 || asset.risk > 10) {
+    errors.risk = `risk must be between 1 and 10 (got ${String(asset.risk)})`;
+  }
+  if (asset.units !== undefined && (!isFiniteNumber(asset.units) || asset.units < 0)) {
+    errors.units = `units must be a non-negative number (got ${String(asset.units)})`;
+  }
+  if (asset.currency !== undefined && !isCurrencyCode(asset.currency)) {
+    errors.currency = `unknown currency "${String(asset.currency)}" (expected one of: ${CURRENCY_CODES.join(', ')})`;
+  }
+  if (asset.description !== undefined && typeof asset.description !== 'string') {
+    errors.description = 'description must be text';
+  }
+  if (asset.sectorId !== undefined && (typeof asset.sectorId !== 'string' || asset.sectorId.trim() === '')) {
+    errors.sectorId = 'sectorId must be a sector id';
+  }
+  if (asset.gridPosition !== undefined) {
+    const pos = asset.gridPosition as Record<string, unknown> | null;
+    if (!pos || !Number.isInteger(pos.x) || !Number.isInteger(pos.y)) {
+      errors.gridPosition = 'gridPosition must have integer x and y';
+    }
+  }
+
+  return errors;
+};
+
+export const validateRelationship = (
+  relationship: Untrusted<Relationship>,
+  assetIds: Set<string>
+): FieldErrors<Relationship> => {
+  const errors: FieldErrors<Relationship> = {};
+
+  if (typeof relationship.source !== 'string' || !assetIds.has(relationship.source)) {
+    errors.source = `source "${String(relationship.source)}" does not match any asset`;
+  }
+  if (typeof relationship.target !== 'string' || !assetIds.has(relationship.target)) {
+    errors.target = `target "${String(relationship.target)}" does not match any asset`;
+  } else if (relationship.target === relationship.source) {
+    errors.target = 'an asset cannot be related to itself';
+  }
+  if (!RELATIONSHIP_TYPES.includes(relationship.type as Relationship['type'])) {
+    errors.type = `unknown relationship type "${String(relationship.type)}"`;
+  }
+  if (!isFiniteNumber(relationship.strength) || relationship.strength < 0 || relationship.strength > 1) {
+    errors.strength = `strength must be between 0 and 1 (got ${String(relationship.strength)})`;
+  }
+
+  return errors;
+};
+
+export const hasErrors = <T>(errors: FieldErrors<T>): boolean => Object.keys(errors).length > 0;
@@ -0,0 +1,101 @@
+import { Asset, FxRates, GameState, HoldingValuation, ValuationSnapshot } from "../types";
+import { toBaseValue } from "./currencyService";
+
+// In-game calendar: turn 0 opens on this date and every turn is one quarter
+const GAME_START = { year: 2025, month: 0 };
+
+export const turnToDate = (turn: number): string =>
+  new Date(Date.UTC(GAME_START.year, GAME_START.month + turn * 3, 1)).toISOString().slice(0, 10);
+
+// Holdings are stored in USD at today's rates, so a change in FX alone also moves the snapshot
+export const createSnapshot = (assets: Asset[], cash: number, turn: number, rates: FxRates): ValuationSnapshot => ({
+  turn,
+  date: turnToDate(turn),
+  cash,
+  holdings: assets.map(a => ({ id: a.id, name: a.name, type: a.type, region: a.region, value: toBaseValue(a, rates) }))
+});
+
+const sameHoldings = (a: HoldingValuation[], b: HoldingValuation[]) =>
+  a.length === b.length && a.every((h, i) =>
+    h.id === b[i].id && h.value === b[i].value && h.name === b[i].name && h.type === b[i].type && h.region === b[i].region);
+
+// Brings the snapshot for the current turn in line with the state. Returns the same object when
+// nothing that is valued changed, so moves and other cosmetic edits don't touch the history.
+export const recordValuation = (state: GameState): GameState => {
+  const history = state.valuationHistory;
+  const snapshot = createSnapshot(state.assets, state.cash, state.turn, state.fxRates);
+  const last = history[history.length - 1];
+
+  if (last && last.turn === state.turn) {
+    if (last.cash === snapshot.cash && sameHoldings(last.holdings, snapshot.holdings)) return state;
+    return { ...state, valuationHistory: [...history.slice(0, -1), snapshot] };
+  }
+  return { ...state, valuationHistory: [...history, snapshot] };
+};
+
+export const getAssetHistory = (history: ValuationSnapshot[], assetId: string): { date: string; value: number }[] =>
+  history.flatMap(snapshot => {
+    const holding = snapshot.holdings.find(h => h.id === assetId);
+    return holding ? [{ date: snapshot.date, value: holding.value }] : [];
+  });
+
+export type NetWorthGrouping = 'type' | 'region';
+
+export const CASH_SERIES = 'Cash balance';
+
+export interface NetWorthPoint {
+  turn: number;
+  date: Date;
+  total: number;
+  groups: Record<string, number>;
+}
+
+// Net worth per snapshot, split by asset type or region. The cash balance is its own series
+// (distinct from AssetType.CASH holdings) so the stack always adds up to net worth.
+export const buildNetWorthSeries = (
+  history: ValuationSnapshot[],
+  grouping: NetWorthGrouping
+): { keys: string[]; points: NetWorthPoint[] } => {
+  const keys = new Set<string>();
+  const points = history.map(snapshot => {
+    const groups: Record<string, number> = { [CASH_SERIES]: snapshot.cash };
+    snapshot.holdings.forEach(h => {
+      const key = grouping === 'type' ? h.type : h.region;
+      keys.add(key);
+      groups[key] = (groups[key] ?? 0) + h.value;
+    });
+    const total = Object.values(groups).reduce((sum, v) => sum + v, 0);
+    return { turn: snapshot.turn, date: new Date(snapshot.date), total, groups };
+  });
+
+  const ordered = [CASH_SERIES, ...Array.from(keys).sort()];
+  points.forEach(p => ordered.forEach(key => { p.groups[key] = p.groups[key] ?? 0; }));
+  return { keys: ordered, points };
+};
+
+export interface PeriodStats {
+  startValue: number;
+  endValue: number;
+  periodReturn: number; // Fraction; includes any value added or removed by hand
+  maxDrawdown: number; // Largest peak-to-trough fall as a fraction of the peak (0 when never below a peak)
+}
+
+export const computePeriodStats = (points: { total: number }[]): PeriodStats | null => {
+  if (points.length === 0) return null;
+  const startValue = points[0].total;
+  const endValue = points[points.length - 1].total;
+
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  points.forEach(({ total }) => {
+    peak = Math.max(peak, total);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - total) / peak);
+  });
+
+  return {
+    startValue,
+    endValue,
+    periodReturn: startValue > 0 ? endValue / startValue - 1 : 0,
+    maxDrawdown
+  };
+};
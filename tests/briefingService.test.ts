@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { diffWords, loadBriefingArchive, OracleBriefing } from '../services/briefingService';
+
+const briefing = (id: string): OracleBriefing => ({
+  id,
+  createdAt: '2026-01-05T09:00:00.000Z',
+  language: 'en',
+  providerKey: 'gemini:gemini-2.5-flash',
+  providerLabel: 'Gemini',
+  portfolioHash: '0123abcd',
+  macro: { text: 'Rates are on hold.', sources: [{ title: 'Fed', uri: 'https://example.com' }] },
+  advice: {
+    analysis: {
+      cycleAssessment: 'Late cycle',
+      opportunities: [{ title: 'Bonds', detail: 'Yields are high', assetIds: ['bond'] }],
+      risks: [],
+      strategy: '<ul><li>Trim stocks</li></ul>'
+    },
+    status: 'structured',
+    issues: []
+  }
+});
+
+const storeArchive = (briefings: unknown[]) => {
+  const stored = JSON.stringify({ ttlMinutes: 60, briefings });
+  vi.stubGlobal('localStorage', { getItem: () => stored, setItem: () => undefined });
+};
+
+describe('loadBriefingArchive', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps well-formed briefings and drops malformed ones', () => {
+    const good = briefing('good');
+    const noSources = { ...briefing('no-sources'), macro: { text: 'Rates are on hold.' } };
+    const badRisk = briefing('bad-risk');
+    (badRisk.advice.analysis.risks as unknown[]).push({ title: 'Inflation' });
+    const badStatus = { ...briefing('bad-status'), advice: { ...briefing('bad-status').advice, status: 'maybe' } };
+    const noStrategy = briefing('no-strategy');
+    delete (noStrategy.advice.analysis as Partial<OracleBriefing['advice']['analysis']>).strategy;
+    storeArchive([good, noSources, badRisk, badStatus, noStrategy, 'garbage']);
+
+    expect(loadBriefingArchive().briefings.map(b => b.id)).toEqual(['good']);
+  });
+
+  it('upgrades briefings stored with the old zh language code', () => {
+    storeArchive([{ ...briefing('old'), language: 'zh' }]);
+
+    expect(loadBriefingArchive().briefings[0]?.language).toBe('zh-CN');
+  });
+});
+
+describe('diffWords', () => {
+  it('diffs CJK text character by character', () => {
+    const segments = diffWords('利率维持不变。', '利率小幅上升。');
+
+    expect(segments).toEqual([
+      { op: 'same', text: '利率' },
+      { op: 'removed', text: '维持不变' },
+      { op: 'added', text: '小幅上升' },
+      { op: 'same', text: '。' }
+    ]);
+  });
+
+  it('diffs other text word by word', () => {
+    expect(diffWords('rates stay on hold', 'rates rise on hold')).toEqual([
+      { op: 'same', text: 'rates ' },
+      { op: 'removed', text: 'stay' },
+      { op: 'added', text: 'rise' },
+      { op: 'same', text: ' on hold' }
+    ]);
+  });
+});
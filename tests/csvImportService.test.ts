@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseCsv } from '../services/csvImportService';
+
+describe('parseCsv', () => {
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    const parsed = parseCsv('Name,Value,Notes\n"Acme, Inc.","$1,250.00","Line one\nsaid ""hold"""\n');
+
+    expect(parsed.delimiter).toBe(',');
+    expect(parsed.headers).toEqual(['Name', 'Value', 'Notes']);
+    expect(parsed.rows).toEqual([['Acme, Inc.', '$1,250.00', 'Line one\nsaid "hold"']]);
+  });
+
+  it('detects semicolon and tab separated files', () => {
+    expect(parseCsv('Name;Value\nBund;1.234,56').rows).toEqual([['Bund', '1.234,56']]);
+    expect(parseCsv('Name\tValue\nGilt\t900').delimiter).toBe('\t');
+  });
+
+  it('strips a byte order mark and handles CRLF line endings and blank lines', () => {
+    const parsed = parseCsv('\uFEFF"Name", Value \r\n\r\nVTI,100\r\n,\r\nBND,50');
+
+    expect(parsed.headers).toEqual(['Name', 'Value']);
+    expect(parsed.rows).toEqual([['VTI', '100'], ['BND', '50']]);
+  });
+
+  it('rejects a file with nothing in it', () => {
+    expect(() => parseCsv(' \n\n')).toThrow('The file is empty');
+  });
+});
+
+describe('parseAmount', () => {
+  it.each([
+    ['$1,234.56', 1234.56],
+    ['1.234,56 €', 1234.56],
+    ['1.234.567,89', 1234567.89],
+    ['1,5', 1.5],
+    ['1,234', 1234],
+    ['(1,234)', -1234],
+    ['-42.5', -42.5],
+    ['12%', 0.12],
+    ['3,5 %', 0.035]
+  ])('reads %s as %d', (text, expected) => {
+    expect(parseAmount(text)).toBeCloseTo(expected, 10);
+  });
+
+  it.each(['', '  ', '-', '--', 'n/a'])('reads %j as no value', text => {
+    expect(parseAmount(text)).toBeNaN();
+  });
+});
@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { runSanitizerCorpus } from './sanitizerCorpus';
+
+describe('sanitizeHtml', () => {
+  it('neutralizes every case in the hostile corpus', () => {
+    expect(runSanitizerCorpus()).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { INITIAL_GAME_STATE } from '../constants';
+import { reconcileLedger, recordAdjustments } from '../services/ledgerService';
+import { executeTrade } from '../services/tradingService';
+import { updateAsset } from '../services/assetService';
+import { endTurn } from '../services/gameEngine';
+import { createRng } from '../services/random';
+
+const stock = INITIAL_GAME_STATE.assets[1];
+
+describe('reconcileLedger', () => {
+  it('reconciles the opening balances', () => {
+    const result = reconcileLedger(INITIAL_GAME_STATE);
+
+    expect(result.ok).toBe(true);
+    expect(result.ledgerNetWorth).toBeCloseTo(result.netWorth, 2);
+  });
+
+  it('stays reconciled through trades and played turns', () => {
+    let state: GameState = executeTrade(INITIAL_GAME_STATE, 'SELL', stock.id, 0.5);
+    state = executeTrade(state, 'BUY', stock.id, 1000);
+    const rng = createRng(3);
+    for (let turn = 0; turn < 4; turn++) state = endTurn(state, rng).state;
+    state = executeTrade(state, 'SELL', stock.id, 1);
+
+    const result = reconcileLedger(state);
+    expect(result).toMatchObject({ ok: true, assetDifferences: [] });
+    expect(result.cashDifference).toBeCloseTo(0, 2);
+  });
+
+  it('flags a holding edited outside the trade desk until the change is booked', () => {
+    const edited = updateAsset(INITIAL_GAME_STATE, { ...stock, value: stock.value + 500 });
+
+    expect(reconcileLedger(edited).assetDifferences).toEqual([{ id: stock.id, name: stock.name, difference: 500 }]);
+    expect(reconcileLedger(recordAdjustments(INITIAL_GAME_STATE, edited, 'Edited holding')).ok).toBe(true);
+  });
+
+  it('books a change of currency as a closed and a reopened position', () => {
+    const edited = updateAsset(INITIAL_GAME_STATE, { ...stock, currency: 'EUR', value: 1000 });
+    const booked = recordAdjustments(INITIAL_GAME_STATE, edited, 'Edited holding');
+
+    expect(booked.ledger.length - INITIAL_GAME_STATE.ledger.length).toBe(2);
+    expect(reconcileLedger(booked).ok).toBe(true);
+  });
+
+  it('flags cash that changed without an entry', () => {
+    const result = reconcileLedger({ ...INITIAL_GAME_STATE, cash: INITIAL_GAME_STATE.cash - 250 });
+
+    expect(result.ok).toBe(false);
+    expect(result.cashDifference).toBeCloseTo(-250);
+  });
+});
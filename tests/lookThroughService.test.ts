@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region, Relationship } from '../types';
+import { computeLookThrough } from '../services/lookThroughService';
+
+const holding = (id: string, type = AssetType.PRIVATE_EQUITY, value = 1000): Asset => ({
+  id, name: id.toUpperCase(), type, value, region: Region.GLOBAL, description: '', roi: 0.05, risk: 5
+});
+
+const edge = (source: string, target: string, type: Relationship['type'], strength: number): Relationship =>
+  ({ source, target, type, strength });
+
+const lookThroughOf = (result: ReturnType<typeof computeLookThrough>) =>
+  Object.fromEntries(result.exposures.map(e => [e.id, e.lookThrough]));
+
+describe('computeLookThrough', () => {
+  it('re-attributes an owned stake to the holding it is in, keeping the total', () => {
+    const result = computeLookThrough([holding('h'), holding('t', AssetType.STOCK)], [edge('h', 't', 'OWNS', 0.5)]);
+
+    expect(lookThroughOf(result)).toEqual({ h: 500, t: 1500 });
+    expect(result.lookThroughTotal).toBe(result.directTotal);
+    expect(result.byType[AssetType.STOCK]).toEqual({ direct: 1000, lookThrough: 1500 });
+    expect(result.doubleCounted).toEqual([]);
+  });
+
+  it('follows stakes through intermediate holdings', () => {
+    const result = computeLookThrough(['h', 'm', 't'].map(id => holding(id)), [
+      edge('h', 'm', 'OWNS', 0.5),
+      edge('m', 't', 'OWNS', 0.4)
+    ]);
+
+    // H's 500 in M splits 300 standalone / 200 in T; M's own 1000 splits 600 / 400
+    expect(lookThroughOf(result)).toEqual({ h: 500, m: 900, t: 1600 });
+  });
+
+  it('removes a subsidiary slice that is already listed on its own', () => {
+    const result = computeLookThrough([holding('h'), holding('t')], [edge('h', 't', 'SUBSIDIARY', 0.5)]);
+
+    expect(lookThroughOf(result)).toEqual({ h: 500, t: 1000 });
+    expect(result.doubleCounted).toEqual([{ holderId: 'h', targetId: 't', amount: 500 }]);
+    expect(result.lookThroughTotal).toBe(1500);
+  });
+
+  it('ignores links that are not ownership', () => {
+    const result = computeLookThrough([holding('a'), holding('b')], [
+      edge('a', 'b', 'CORRELATED', 0.9),
+      edge('a', 'b', 'PARTNER', 0.9)
+    ]);
+
+    expect(lookThroughOf(result)).toEqual({ a: 1000, b: 1000 });
+  });
+
+  it('warns about circular ownership and stakes worth more than the holder', () => {
+    const circular = computeLookThrough([holding('a'), holding('b')], [
+      edge('a', 'b', 'OWNS', 0.5),
+      edge('b', 'a', 'OWNS', 0.5)
+    ]);
+    const overClaimed = computeLookThrough([holding('h', AssetType.PRIVATE_EQUITY, 400), holding('t')], [edge('h', 't', 'OWNS', 0.5)]);
+
+    expect(circular.warnings).toEqual([
+      'Circular ownership through B; the loop was not followed',
+      'Circular ownership through A; the loop was not followed'
+    ]);
+    expect(circular.lookThroughTotal).toBeCloseTo(circular.directTotal);
+    expect(overClaimed.warnings).toHaveLength(1);
+    expect(overClaimed.warnings[0]).toMatch(/^H: stakes worth .* exceed its value/);
+    // All of H is its stake in T once scaled down
+    expect(lookThroughOf(overClaimed)).toEqual({ h: 0, t: 1400 });
+  });
+});
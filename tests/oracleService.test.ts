@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region } from '../types';
+import { parseOracleAnalysis } from '../services/oracleService';
+
+const holding = (id: string, name: string): Asset => ({
+  id, name, type: AssetType.STOCK, value: 1000, region: Region.NORTH_AMERICA, description: '', roi: 0.05, risk: 5
+});
+
+const assets = [holding('a1', 'TechGiant Corp'), holding('a2', 'Treasury Ladder')];
+
+describe('parseOracleAnalysis', () => {
+  it('reads a well-formed reply wrapped in a code fence', () => {
+    const reply = '```json\n' + JSON.stringify({
+      cycleAssessment: 'Late expansion',
+      opportunities: [{ title: 'Lock in yields', detail: 'Extend the Treasury Ladder', assetIds: [] }],
+      risks: [{ title: 'Tech concentration', detail: 'Trim', assetIds: ['a1', 'zzz'] }],
+      strategy: '<p>Rotate</p>'
+    }) + '\n```';
+
+    expect(parseOracleAnalysis(reply, assets)).toEqual({
+      analysis: {
+        cycleAssessment: 'Late expansion',
+        // Holdings named in the text are linked even when the model left assetIds empty
+        opportunities: [{ title: 'Lock in yields', detail: 'Extend the Treasury Ladder', assetIds: ['a2'] }],
+        risks: [{ title: 'Tech concentration', detail: 'Trim', assetIds: ['a1'] }],
+        strategy: '<p>Rotate</p>'
+      },
+      issues: []
+    });
+  });
+
+  it('returns null when the reply holds no JSON object or nothing usable', () => {
+    expect(parseOracleAnalysis('The markets look fine to me.', assets)).toBeNull();
+    expect(parseOracleAnalysis('{"cycleAssessment": "Peak",', assets)).toBeNull();
+    expect(parseOracleAnalysis('["a", "b"]', assets)).toBeNull();
+    expect(parseOracleAnalysis('{"mood": "bullish"}', assets)).toBeNull();
+  });
+
+  it('keeps what it can from a partly malformed reply and lists the problems', () => {
+    const reply = `Here you go: ${JSON.stringify({
+      cycleAssessment: 42,
+      opportunities: ['Buy the dip', { detail: 'no title' }, { title: 'TechGiant Corp earnings', assetIds: 'a1' }],
+      risks: 'none',
+      strategy: '<ul><li>Hold</li></ul>'
+    })} Good luck.`;
+
+    expect(parseOracleAnalysis(reply, assets)).toEqual({
+      analysis: {
+        cycleAssessment: '',
+        opportunities: [
+          { title: 'Buy the dip', detail: '', assetIds: [] },
+          { title: 'TechGiant Corp earnings', detail: '', assetIds: ['a1'] }
+        ],
+        risks: [],
+        strategy: '<ul><li>Hold</li></ul>'
+      },
+      issues: [
+        { key: 'oracle.issueMissing', params: { field: 'cycleAssessment' } },
+        { key: 'oracle.issueNoTitle', params: { field: 'opportunities', index: 1 } },
+        { key: 'oracle.issueNotList', params: { field: 'risks' } }
+      ]
+    });
+  });
+
+  it('keeps only the first five insights of a list', () => {
+    const risks = Array.from({ length: 7 }, (_, i) => ({ title: `Risk ${i}`, detail: '', assetIds: [] }));
+    const parsed = parseOracleAnalysis(JSON.stringify({ cycleAssessment: 'Trough', opportunities: [], risks, strategy: 'Wait' }), assets);
+
+    expect(parsed?.analysis.risks.map(r => r.title)).toEqual(['Risk 0', 'Risk 1', 'Risk 2', 'Risk 3', 'Risk 4']);
+    expect(parsed?.issues).toEqual([{ key: 'oracle.issueTruncated', params: { field: 'risks', max: 5, count: 7 } }]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region } from '../types';
+import {
+  DEFAULT_FX_RATES, DEFAULT_SECTOR, DEFAULT_TARGET_ALLOCATION, DEFAULT_TRADE_SETTINGS, INITIAL_GAME_STATE
+} from '../constants';
+import { parseSaveFile, SAVE_VERSION, SaveFileError, serializeGameState } from '../services/persistenceService';
+import { validateAsset, validateRelationship } from '../services/validation';
+
+const holding = (id: string, extra: Partial<Asset> = {}): Asset => ({
+  id, name: `Holding ${id}`, type: AssetType.STOCK, value: 1000, region: Region.EUROPE, description: '', roi: 0.05, risk: 5, ...extra
+});
+
+const parseError = (json: string): SaveFileError => {
+  try {
+    parseSaveFile(json);
+  } catch (error) {
+    if (error instanceof SaveFileError) return error;
+    throw error;
+  }
+  throw new Error('expected the save file to be rejected');
+};
+
+describe('parseSaveFile migrations', () => {
+  it('brings an unversioned document up to the current version', () => {
+    const file = parseSaveFile(JSON.stringify({
+      assets: [holding('a1'), holding('a2', { gridPosition: { x: 0, y: 0 } }), holding('a3', { gridPosition: { x: 0, y: 0 } })],
+      relationships: [{ source: 'a1', target: 'a2', type: 'OWNS', strength: 0.5 }]
+    }));
+    const { state } = file;
+
+    expect(file.version).toBe(SAVE_VERSION);
+    expect(state.cash).toBe(INITIAL_GAME_STATE.cash);
+    expect(state.cycleStage).toBe(INITIAL_GAME_STATE.cycleStage);
+    expect(state.turn).toBe(0);
+    // Opening entries for every holding plus the cash balance
+    expect(state.ledger.filter(e => e.kind === 'OPENING')).toHaveLength(4);
+    expect(state.tradeSettings).toEqual(DEFAULT_TRADE_SETTINGS);
+    expect(state.valuationHistory).toHaveLength(1);
+    expect(state.fxRates).toEqual(DEFAULT_FX_RATES);
+    expect(state.targetAllocation).toEqual(DEFAULT_TARGET_ALLOCATION);
+    expect(state.sectors).toEqual([DEFAULT_SECTOR]);
+
+    // Holdings without a cell, or sharing one, each get their own
+    const cells = state.assets.map(a => `${a.gridPosition?.x},${a.gridPosition?.y}`);
+    expect(new Set(cells).size).toBe(3);
+    state.assets.forEach(a => expect(a.sectorId).toBe(DEFAULT_SECTOR.id));
+  });
+
+  it('normalises a free-text cycle stage from version 1', () => {
+    const { state } = parseSaveFile(JSON.stringify({
+      version: 1,
+      state: { assets: [], relationships: [], cash: 500, cycleStage: 'peak' }
+    }));
+
+    expect(state.cycleStage).toBe('PEAK');
+    expect(state.turn).toBe(0);
+  });
+
+  it('grows the main sector when a version 6 save holds more than fits on 10x10', () => {
+    const assets = Array.from({ length: 120 }, (_, i) => holding(`h${i}`));
+    const { state } = parseSaveFile(JSON.stringify({
+      version: 6,
+      state: { ...INITIAL_GAME_STATE, assets, relationships: [], ledger: [], valuationHistory: [], sectors: undefined }
+    }));
+
+    expect(state.sectors).toHaveLength(1);
+    expect(state.sectors[0].width).toBe(11);
+    expect(state.assets.every(a => a.gridPosition)).toBe(true);
+  });
+
+  it('round-trips the current state unchanged', () => {
+    const { state } = parseSaveFile(serializeGameState(INITIAL_GAME_STATE));
+
+    expect(state).toEqual(INITIAL_GAME_STATE);
+  });
+
+  it('rejects saves from a newer build', () => {
+    const error = parseError(JSON.stringify({ version: SAVE_VERSION + 1, state: INITIAL_GAME_STATE }));
+
+    expect(error.message).toContain('newer than this build supports');
+  });
+
+  it('lists every invalid holding and relationship', () => {
+    const error = parseError(JSON.stringify({
+      version: SAVE_VERSION,
+      state: {
+        ...INITIAL_GAME_STATE,
+        assets: [holding('x', { value: -1 }), holding('x')],
+        relationships: [{ source: 'x', target: 'missing', type: 'OWNS', strength: 0.5 }]
+      }
+    }));
+
+    expect(error.issues).toEqual(expect.arrayContaining([
+      'Asset #1 "Holding x": value must be a non-negative number (got -1)',
+      'Asset #2 "Holding x": duplicate id "x"',
+      'Relationship #1: target "missing" does not match any asset'
+    ]));
+  });
+
+  it('rejects documents that are not JSON objects', () => {
+    expect(parseError('not json').message).toContain('not valid JSON');
+    expect(parseError('[]').issues).toEqual(['expected a JSON object at the top level']);
+  });
+});
+
+describe('validateAsset', () => {
+  it('accepts a complete holding', () => {
+    expect(validateAsset(holding('a1', { currency: 'EUR', units: 3, gridPosition: { x: 1, y: 2 } }))).toEqual({});
+  });
+
+  it('reports each field that is out of range', () => {
+    const errors = validateAsset({
+      id: '', name: ' ', type: 'Tulips', region: 'Atlantis', value: Number.NaN, roi: 11, risk: 0, currency: 'XYZ', gridPosition: { x: 0.5, y: 1 }
+    });
+
+    expect(Object.keys(errors).sort()).toEqual(['currency', 'gridPosition', 'id', 'name', 'region', 'risk', 'roi', 'type', 'value']);
+  });
+});
+
+describe('validateRelationship', () => {
+  const ids = new Set(['a', 'b']);
+
+  it('accepts an edge between known assets', () => {
+    expect(validateRelationship({ source: 'a', target: 'b', type: 'PARTNER', strength: 0.3 }, ids)).toEqual({});
+  });
+
+  it('rejects self links, unknown types and strengths above 1', () => {
+    const errors = validateRelationship({ source: 'a', target: 'a', type: 'FRIENDS', strength: 1.5 }, ids);
+
+    expect(errors.target).toBe('an asset cannot be related to itself');
+    expect(Object.keys(errors).sort()).toEqual(['strength', 'target', 'type']);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region, Relationship } from '../types';
+import { applyMove, computePlacement } from '../services/placementService';
+
+const building = (id: string, type: AssetType, x?: number, y?: number, sectorId = 's1'): Asset => ({
+  id, name: id.toUpperCase(), type, value: 1000, region: Region.GLOBAL, description: '', roi: 0.05, risk: 5,
+  sectorId, gridPosition: x === undefined || y === undefined ? undefined : { x, y }
+});
+
+const edge = (source: string, target: string, type: Relationship['type'], strength: number): Relationship =>
+  ({ source, target, type, strength });
+
+const bonusOf = (assets: Asset[], relationships: Relationship[], id: string) =>
+  computePlacement(assets, relationships).bonuses.get(id)!;
+
+describe('computePlacement', () => {
+  it('gives both ends of a linked, adjacent pair a synergy bonus scaled by strength', () => {
+    const assets = [building('a', AssetType.STOCK, 0, 0), building('b', AssetType.BOND, 1, 0)];
+    const placement = computePlacement(assets, [edge('a', 'b', 'OWNS', 0.5)]);
+
+    expect(placement.bonuses.get('a')).toMatchObject({ risk: 0, effects: [{ source: { kind: 'synergy', partnerId: 'b', relationship: 'OWNS' } }] });
+    expect(placement.bonuses.get('a')!.yield).toBeCloseTo(0.01);
+    expect(placement.bonuses.get('b')!.yield).toBeCloseTo(0.01);
+  });
+
+  it('gives no synergy to diagonal neighbours, other sectors, correlations or off-board buildings', () => {
+    const link = [edge('a', 'b', 'PARTNER', 1)];
+
+    expect(bonusOf([building('a', AssetType.STOCK, 0, 0), building('b', AssetType.BOND, 1, 1)], link, 'a').yield).toBe(0);
+    expect(bonusOf([building('a', AssetType.STOCK, 0, 0), building('b', AssetType.BOND, 1, 0, 's2')], link, 'a').yield).toBe(0);
+    expect(bonusOf([building('a', AssetType.STOCK, 0, 0), building('b', AssetType.BOND, 1, 0)], [edge('a', 'b', 'CORRELATED', 1)], 'a').yield).toBe(0);
+    expect(bonusOf([building('a', AssetType.STOCK, 0, 0), building('b', AssetType.BOND)], link, 'b')).toEqual({ yield: 0, risk: 0, effects: [] });
+  });
+
+  it('forms a district from three connected buildings of one type', () => {
+    const assets = [
+      building('b1', AssetType.BOND, 0, 0),
+      building('b2', AssetType.BOND, 1, 0),
+      building('b3', AssetType.BOND, 1, 1),
+      building('b4', AssetType.BOND, 3, 0), // Not connected to the others
+      building('st', AssetType.STOCK, 2, 0)
+    ];
+    const placement = computePlacement(assets, []);
+
+    expect(placement.districts).toEqual([{ type: AssetType.BOND, memberIds: ['b1', 'b2', 'b3'] }]);
+    expect(placement.bonuses.get('b3')!.yield).toBeCloseTo(0.004);
+    expect(placement.bonuses.get('b3')!.risk).toBe(-1);
+    expect(placement.bonuses.get('b4')!.effects).toEqual([]);
+  });
+
+  it('applies special tiles only to the types they affect', () => {
+    const assets = [
+      building('stock', AssetType.STOCK, 6, 5),
+      building('bond', AssetType.BOND, 6, 6),
+      building('home', AssetType.REAL_ESTATE, 10, 6)
+    ];
+    const placement = computePlacement(assets, []);
+
+    expect(placement.bonuses.get('stock')).toMatchObject({ yield: 0.015, risk: 0 });
+    expect(placement.bonuses.get('bond')!.effects).toEqual([]);
+    expect(placement.bonuses.get('home')).toMatchObject({ yield: -0.015, risk: 2, effects: [{ source: { kind: 'tile', tile: 'FLOOD_ZONE' } }] });
+  });
+});
+
+describe('applyMove', () => {
+  it('swaps an occupant into the vacated cell of the same sector only', () => {
+    const assets = [
+      building('a', AssetType.STOCK, 0, 0),
+      building('b', AssetType.BOND, 4, 4),
+      building('c', AssetType.BOND, 4, 4, 's2')
+    ];
+    const moved = applyMove(assets, 'a', { x: 4, y: 4 });
+
+    expect(moved.map(a => a.gridPosition)).toEqual([{ x: 4, y: 4 }, { x: 0, y: 0 }, { x: 4, y: 4 }]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region } from '../types';
+import { DEFAULT_FX_RATES, DEFAULT_TRADE_SETTINGS } from '../constants';
+import { planRebalance } from '../services/rebalanceService';
+
+const holding = (id: string, type: AssetType, value: number, region = Region.NORTH_AMERICA): Asset => ({
+  id, name: type, type, value, region, description: '', roi: 0.05, risk: 5
+});
+
+describe('planRebalance', () => {
+  it('ends inside the bands once slippage and fees come out of the sales', () => {
+    const plan = planRebalance({
+      assets: [
+        holding('stock', AssetType.STOCK, 80000),
+        holding('bond', AssetType.BOND, 20000),
+        holding('estate', AssetType.REAL_ESTATE, 50000)
+      ],
+      cash: 0,
+      fxRates: DEFAULT_FX_RATES,
+      tradeSettings: DEFAULT_TRADE_SETTINGS,
+      targetAllocation: {
+        byType: {
+          [AssetType.STOCK]: { weight: 0.4, band: 0.05 },
+          [AssetType.BOND]: { weight: 0.27, band: 0.05 }
+        },
+        byRegion: {},
+        minTrade: 1000
+      }
+    });
+
+    expect(plan.withinBands).toBe(true);
+    expect(plan.notes).toEqual([]);
+    expect(plan.cashChange).toBeGreaterThan(-0.01);
+    plan.after
+      .filter(row => row.target)
+      .forEach(row => expect(row.status, row.group).toBe('within'));
+  });
+
+  it('plans a 300-holding portfolio with type and region targets in well under a second', () => {
+    const types = [AssetType.STOCK, AssetType.BOND, AssetType.CRYPTO, AssetType.CASH, AssetType.REAL_ESTATE];
+    const regions = Object.values(Region);
+    const assets = Array.from({ length: 300 }, (_, i) =>
+      holding(`h${i}`, types[i % types.length], 1000 + (i * 7919) % 50000, regions[Math.floor(i / types.length) % regions.length]));
+
+    const started = performance.now();
+    const plan = planRebalance({
+      assets,
+      cash: 10000,
+      fxRates: DEFAULT_FX_RATES,
+      tradeSettings: DEFAULT_TRADE_SETTINGS,
+      targetAllocation: {
+        byType: {
+          [AssetType.STOCK]: { weight: 0.5, band: 0.05 },
+          [AssetType.BOND]: { weight: 0.2, band: 0.05 },
+          [AssetType.CRYPTO]: { weight: 0.02, band: 0.01 }
+        },
+        byRegion: {
+          [Region.NORTH_AMERICA]: { weight: 0.4, band: 0.05 },
+          [Region.ASIA]: { weight: 0.15, band: 0.05 }
+        },
+        minTrade: 100
+      }
+    });
+
+    expect(performance.now() - started).toBeLessThan(1000);
+    expect(plan.trades.length).toBeGreaterThan(0);
+  });
+});
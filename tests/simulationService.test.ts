@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_GAME_STATE } from '../constants';
+import { ProjectionRequest, projectPortfolio, runProjection } from '../services/simulationService';
+
+const request = (seed: number): ProjectionRequest => ({
+  assets: INITIAL_GAME_STATE.assets,
+  relationships: INITIAL_GAME_STATE.relationships,
+  cash: INITIAL_GAME_STATE.cash,
+  years: 10,
+  paths: 200,
+  seed
+});
+
+describe('projectPortfolio', () => {
+  it('gives the same bands for the same seed', () => {
+    expect(projectPortfolio(request(42))).toEqual(projectPortfolio(request(42)));
+  });
+
+  it('gives different bands for a different seed', () => {
+    expect(projectPortfolio(request(7)).p50).not.toEqual(projectPortfolio(request(42)).p50);
+  });
+
+  it('starts every band at today\'s net worth and keeps them ordered', () => {
+    const result = projectPortfolio(request(42));
+    const start = INITIAL_GAME_STATE.cash + INITIAL_GAME_STATE.assets.reduce((sum, a) => sum + a.value, 0);
+
+    expect(result.years).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(result.p50[0]).toBeCloseTo(start);
+    result.years.forEach(year => {
+      expect(result.p5[year]).toBeLessThanOrEqual(result.p50[year]);
+      expect(result.p50[year]).toBeLessThanOrEqual(result.p95[year]);
+    });
+  });
+});
+
+describe('runProjection', () => {
+  it('resolves to the inline projection where there are no workers', async () => {
+    await expect(runProjection(request(42))).resolves.toEqual(projectPortfolio(request(42)));
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runProjection(request(42), controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetType, Region, Relationship } from '../types';
+import { StressScenario, runStressTest } from '../services/stressTestService';
+
+const holding = (id: string, value = 1000): Asset => ({
+  id, name: id.toUpperCase(), type: AssetType.PRIVATE_EQUITY, value, region: Region.GLOBAL, description: '', roi: 0.05, risk: 5
+});
+
+const edge = (source: string, target: string, type: Relationship['type'], strength: number): Relationship =>
+  ({ source, target, type, strength });
+
+// Only holding A is hit directly
+const scenario: StressScenario = { id: 'test', name: 'A falls 20%', shocks: [{ assetId: 'a', change: -0.2 }] };
+
+const impactOf = (result: ReturnType<typeof runStressTest>, id: string) => result.impacts.find(i => i.id === id)!;
+
+describe('runStressTest', () => {
+  it('multiplies correlations along a chain and keeps the strongest path', () => {
+    const assets = ['a', 'b', 'c', 'd'].map(id => holding(id));
+    const result = runStressTest(assets, [
+      edge('a', 'b', 'CORRELATED', 0.5),
+      edge('b', 'c', 'CORRELATED', 0.5),
+      edge('c', 'a', 'CORRELATED', 0.1),
+      edge('a', 'd', 'PARTNER', 1)
+    ], scenario);
+
+    expect(impactOf(result, 'a')).toMatchObject({ cause: 'direct' });
+    expect(impactOf(result, 'a').change).toBeCloseTo(-200);
+    expect(impactOf(result, 'b')).toMatchObject({ cause: 'correlated', via: 'a' });
+    expect(impactOf(result, 'b').move).toBeCloseTo(-0.1);
+    // Through B (0.5 × 0.5) beats the direct 0.1 link
+    expect(impactOf(result, 'c')).toMatchObject({ cause: 'correlated', via: 'b' });
+    expect(impactOf(result, 'c').move).toBeCloseTo(-0.05);
+    expect(impactOf(result, 'd')).toMatchObject({ move: 0, cause: 'none', change: 0 });
+    expect(result.change).toBeCloseTo(-350);
+  });
+
+  it('passes an owned holding\'s move through to the owner\'s stake only', () => {
+    const result = runStressTest([holding('a'), holding('h')], [edge('h', 'a', 'OWNS', 0.5)], scenario, 500);
+
+    expect(impactOf(result, 'h')).toMatchObject({ move: 0, cause: 'ownership' });
+    expect(impactOf(result, 'h').passThrough).toBeCloseTo(-100);
+    expect(impactOf(result, 'h').after).toBeCloseTo(900);
+    expect(result.before.netWorth).toBe(2500);
+    expect(result.after.netWorth).toBeCloseTo(2200);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns about circular ownership and stops at the loop', () => {
+    const result = runStressTest([holding('a'), holding('x')], [
+      edge('x', 'a', 'OWNS', 0.5),
+      edge('a', 'x', 'SUBSIDIARY', 0.2)
+    ], scenario);
+
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      { kind: 'circularOwnership', name: 'A' },
+      { kind: 'circularOwnership', name: 'X' }
+    ]));
+    expect(result.warnings).toHaveLength(2);
+    expect(result.impacts.every(i => Number.isFinite(i.after))).toBe(true);
+  });
+
+  it('scales stakes worth more than the owner down to its value', () => {
+    const result = runStressTest([holding('a'), holding('h', 400)], [edge('h', 'a', 'OWNS', 0.5)], scenario);
+
+    expect(result.warnings).toEqual([{ kind: 'stakesExceedValue', name: 'H' }]);
+    // All 400 of H is its stake in A, so it falls the same 20%
+    expect(impactOf(result, 'h').after).toBeCloseTo(320);
+  });
+
+  it('warns about a shock that matches no holding', () => {
+    const result = runStressTest([holding('a')], [], {
+      ...scenario,
+      shocks: [...scenario.shocks, { type: AssetType.CRYPTO, change: -0.6 }]
+    });
+
+    expect(result.warnings).toEqual([{ kind: 'unmatchedShock', shock: 2 }]);
+  });
+});
@@ -15,16 +15,35 @@ export enum Region {
   GLOBAL = 'Global'
 }
 
+export type CurrencyCode = 'USD' | 'EUR' | 'CNY' | 'HKD' | 'GBP' | 'JPY';
+
+// USD value of one unit of each currency. USD is the base: cash and all aggregates are kept in it.
+export type FxRates = Record<CurrencyCode, number>;
+
+// UI and Oracle language. Message catalogs live in services/locales.
+export type Locale = 'en' | 'zh-CN';
+
 export interface Asset {
   id: string;
   name: string;
   type: AssetType;
-  value: number; // In USD
+  value: number; // In the asset's own currency
+  currency?: CurrencyCode; // Defaults to USD
   region: Region;
   description: string;
   roi: number; // Return on Investment %
   risk: number; // 1-10
-  gridPosition?: { x: number; y: number }; // For the "Board" view
+  units?: number; // Units held; price per unit is value / units. Defaults to value (a unit price of 1.00)
+  sectorId?: string; // Realm board the holding stands on. Defaults to the first sector
+  gridPosition?: { x: number; y: number }; // Cell on its sector's board; none when every board is full
+}
+
+// A named Realm board. Holdings stand on one sector each, one holding per cell.
+export interface Sector {
+  id: string;
+  name: string;
+  width: number; // Columns
+  height: number; // Rows
 }
 
 export interface Relationship {
@@ -34,16 +53,91 @@ export interface Relationship {
   strength: number; // 0-1, represents % ownership or correlation
 }
 
+export type LedgerEntryKind = 'OPENING' | 'BUY' | 'SELL' | 'INCOME' | 'REVALUATION' | 'ADJUSTMENT';
+
+// Record of everything that changed cash or a holding's value. New activity only ever appends, but the
+// ledger is part of the game state, so undo and jumping through history rewind it along with the holdings.
+// Summing cashChange + valueChange over the ledger reproduces net worth.
+export interface LedgerEntry {
+  id: string;
+  timestamp: string; // ISO date-time
+  turn: number;
+  kind: LedgerEntryKind;
+  assetId?: string;
+  assetName?: string; // Kept so entries stay readable after the asset is sold or deleted
+  currency?: CurrencyCode; // Currency of price and valueChange (the asset's). Cash amounts are always USD
+  quantity: number; // Units traded or revalued
+  price: number; // Per unit, after slippage for trades
+  amount: number; // Gross value of the event: USD for trades, income and cash; the asset's currency otherwise
+  fee: number;
+  cashChange: number;
+  valueChange: number;
+  note?: string;
+}
+
+export interface TradeSettings {
+  feeRate: number; // Fraction of trade amount
+  minFee: number; // USD
+  slippage: number; // Fraction of price lost on execution
+}
+
+// Desired share of the invested portfolio (holdings only, cash excluded), as fractions
+export interface AllocationTarget {
+  weight: number;
+  band: number; // Tolerance either side of weight before the group counts as drifted
+}
+
+// Groups without an entry have no target and may drift freely
+export interface TargetAllocation {
+  byType: Partial<Record<AssetType, AllocationTarget>>;
+  byRegion: Partial<Record<Region, AllocationTarget>>;
+  minTrade: number; // USD; the rebalancing planner never proposes a smaller trade
+}
+
+// Value of one holding at the time of a snapshot. Type and region are copied so that
+// holdings that were later sold or deleted can still be grouped in charts.
+export interface HoldingValuation {
+  id: string;
+  name: string;
+  type: AssetType;
+  region: Region;
+  value: number; // USD at the rates of the time
+}
+
+// Portfolio valuation as of a turn. Edits, trades and turns all update the snapshot for the
+// current turn, so there is one point per quarter and the last one always matches the live state.
+export interface ValuationSnapshot {
+  turn: number;
+  date: string; // In-game date (ISO) of the quarter
+  cash: number;
+  holdings: HoldingValuation[];
+}
+
+export type CycleStage = 'EXPANSION' | 'PEAK' | 'CONTRACTION' | 'TROUGH';
+
 export interface GameState {
   assets: Asset[];
   relationships: Relationship[];
-  cash: number;
-  cycleStage: string;
+  cash: number; // USD
+  cycleStage: CycleStage;
+  turn: number; // Completed turns; each turn is one quarter
+  ledger: LedgerEntry[];
+  tradeSettings: TradeSettings;
+  valuationHistory: ValuationSnapshot[];
+  fxRates: FxRates;
+  targetAllocation: TargetAllocation;
+  sectors: Sector[]; // In tab order; never empty
+}
+
+export interface OracleInsight {
+  title: string;
+  detail: string;
+  assetIds: string[]; // Holdings the insight refers to
 }
 
 export interface OracleAnalysis {
   cycleAssessment: string;
-  opportunities: string[];
-  risks: string[];
-  strategy: string;
+  opportunities: OracleInsight[];
+  risks: OracleInsight[];
+  strategy: string; // Simple HTML (<b>, <ul>, <li>, <p>)
 }
\ No newline at end of file
@@ -1,17 +1,32 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { Asset, Relationship } from '../types';
+import { Asset, AssetType, CurrencyCode, Relationship } from '../types';
+import { RELATIONSHIP_TYPES } from '../services/validation';
+import { RelationshipIssue, RelationshipKey, validateRelationshipChange } from '../services/relationshipService';
+import { BASE_CURRENCY, toBaseAssets, toBaseValue } from '../services/currencyService';
+import { runStressTest, STRESS_PRESETS, StressImpact, StressScenario } from '../services/stressTestService';
+import { scenarioLabel } from '../components/StressTestPanel';
+import { useCurrency } from '../components/CurrencyProvider';
+import { useI18n } from '../components/I18nProvider';
 
 interface GraphNexusProps {
   assets: Asset[];
   relationships: Relationship[];
+  onRelationshipAdd?: (relationship: Relationship) => void;
+  onRelationshipUpdate?: (key: RelationshipKey, relationship: Relationship) => void;
+  onRelationshipDelete?: (key: RelationshipKey) => void;
+  stressScenario?: StressScenario | null;
+  onStressScenarioChange?: (scenario: StressScenario | null) => void;
 }
 
 interface Node extends d3.SimulationNodeDatum {
   id: string;
   name: string;
-  type: string;
-  value: number;
+  type: AssetType;
+  value: number; // USD, drives node size
+  nativeValue: number;
+  currency: CurrencyCode;
+  stress?: StressImpact; // Set while a stress scenario is active
   x?: number;
   y?: number;
   fx?: number | null;
@@ -21,12 +36,87 @@ interface Node extends d3.SimulationNodeDatum {
 interface Link extends d3.SimulationLinkDatum<Node> {
   type: string;
   strength: number;
+  relationship: Relationship; // As stored; d3 replaces source and target with the node objects
+}
+
+// Relationship being authored or edited in the popover
+interface LinkDraft {
+  original: Relationship | null; // Edge being edited; null for a new edge
+  relationship: Relationship;
+  x: number;
+  y: number;
 }
 
-const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
+const LINK_COLORS: Record<Relationship['type'], string> = {
+  OWNS: '#f59e0b',
+  SUBSIDIARY: '#f43f5e',
+  PARTNER: '#06b6d4',
+  CORRELATED: '#64748b'
+};
+
+// Under a stress scenario nodes are colored by their change: losses red, gains green, flat slate.
+// Saturates at ±50% so a single wipe-out doesn't wash out every other node.
+const STRESS_SCALE_LIMIT = 0.5;
+const stressColor = d3.scaleLinear<string>()
+  .domain([-STRESS_SCALE_LIMIT, 0, STRESS_SCALE_LIMIT])
+  .range(['#e11d48', '#475569', '#10b981'])
+  .clamp(true);
+
+const GraphNexus: React.FC<GraphNexusProps> = ({
+  assets, relationships, onRelationshipAdd, onRelationshipUpdate, onRelationshipDelete, stressScenario = null, onStressScenarioChange
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const { rates, format, formatNative, displayCurrency } = useCurrency();
+  const { t, typeLabel, relationshipLabel } = useI18n();
   const [hoveredNode, setHoveredNode] = useState<Node | null>(null);
+  const [linkMode, setLinkMode] = useState(false);
+  const [draft, setDraft] = useState<LinkDraft | null>(null);
+  const [draftErrors, setDraftErrors] = useState<RelationshipIssue[]>([]);
+  const [contextMenu, setContextMenu] = useState<{ relationship: Relationship; x: number; y: number } | null>(null);
+
+  const canEdit = Boolean(onRelationshipAdd);
+
+  const stress = useMemo(
+    () => stressScenario ? runStressTest(toBaseAssets(assets, rates), relationships, stressScenario) : null,
+    [assets, relationships, rates, stressScenario]
+  );
+
+  // Read from inside d3 handlers, which are bound once per render of the graph
+  const linkModeRef = useRef(linkMode);
+  linkModeRef.current = linkMode;
+  const canEditRef = useRef(canEdit);
+  canEditRef.current = canEdit;
+
+  // Node positions survive graph rebuilds so adding an edge doesn't scramble the layout
+  const positionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
+
+  const openDraft = (original: Relationship | null, relationship: Relationship, x: number, y: number) => {
+    setContextMenu(null);
+    setDraftErrors([]);
+    setDraft({ original, relationship, x, y });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const errors = validateRelationshipChange({ assets, relationships }, draft.relationship, draft.original);
+    if (errors.length > 0) {
+      setDraftErrors(errors);
+      return;
+    }
+    if (draft.original === null) {
+      onRelationshipAdd?.(draft.relationship);
+    } else {
+      onRelationshipUpdate?.(draft.original, draft.relationship);
+    }
+    setDraft(null);
+  };
+
+  const deleteLink = (key: RelationshipKey) => {
+    onRelationshipDelete?.(key);
+    setContextMenu(null);
+    setDraft(null);
+  };
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
@@ -42,14 +132,19 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
       id: a.id, 
       name: a.name, 
       type: a.type, 
-      value: a.value 
+      value: toBaseValue(a, rates),
+      nativeValue: a.value,
+      currency: a.currency ?? BASE_CURRENCY,
+      stress: stress?.impacts.find(i => i.id === a.id),
+      ...positionsRef.current.get(a.id)
     }));
     
     const links: Link[] = relationships.map(r => ({
       source: r.source,
       target: r.target,
       type: r.type,
-      strength: r.strength
+      strength: r.strength,
+      relationship: r
     }));
 
     // Simulation Setup
@@ -64,12 +159,44 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
     const linkGroup = svg.append("g").attr("class", "links");
     const nodeGroup = svg.append("g").attr("class", "nodes");
 
-    const link = linkGroup.selectAll("line")
+    const link = linkGroup.selectAll<SVGLineElement, Link>("line.link")
       .data(links)
       .join("line")
-      .attr("stroke", "#475569")
+      .attr("class", "link")
+      .attr("stroke", d => LINK_COLORS[d.type as Relationship['type']] ?? "#475569")
       .attr("stroke-opacity", 0.6)
-      .attr("stroke-width", d => d.strength * 5);
+      .attr("stroke-dasharray", d => d.type === 'CORRELATED' ? "4 3" : null)
+      .attr("stroke-width", d => Math.max(1, d.strength * 5));
+
+    // Wide invisible strokes so thin edges are still easy to click
+    const linkHit = linkGroup.selectAll<SVGLineElement, Link>("line.link-hit")
+      .data(links)
+      .join("line")
+      .attr("class", "link-hit")
+      .attr("stroke", "transparent")
+      .attr("stroke-width", 12)
+      .style("cursor", "pointer")
+      .on("click", (event: MouseEvent, d: Link) => {
+        if (!canEditRef.current) return;
+        const [x, y] = d3.pointer(event, svgRef.current);
+        openDraft(d.relationship, { ...d.relationship }, x, y);
+      })
+      .on("contextmenu", (event: MouseEvent, d: Link) => {
+        if (!canEditRef.current) return;
+        event.preventDefault();
+        const [x, y] = d3.pointer(event, svgRef.current);
+        setDraft(null);
+        setContextMenu({ relationship: d.relationship, x, y });
+      });
+
+    // Rubber band shown while dragging out a new edge
+    const pendingLink = svg.append("line")
+      .attr("stroke", "#a855f7")
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "6 4")
+      .style("pointer-events", "none")
+      .style("display", "none");
+    let linking = false;
 
     const node = nodeGroup.selectAll("g")
       .data(nodes)
@@ -83,6 +210,7 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
     node.append("circle")
       .attr("r", d => Math.sqrt(d.value) / 100 + 5) // Size by value
       .attr("fill", d => {
+        if (d.stress) return stressColor(d.stress.changePct);
         if (d.type === 'Stock') return '#3b82f6';
         if (d.type === 'Real Estate') return '#f59e0b';
         if (d.type === 'Crypto') return '#a855f7';
@@ -104,38 +232,61 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
     // Interactive Events
     node.on("mouseover", (event, d) => {
       setHoveredNode(d);
-      d3.select(event.currentTarget).select("circle").attr("stroke", "#fff").attr("stroke-width", 4);
+      d3.select(event.currentTarget as SVGGElement).select("circle").attr("stroke", "#fff").attr("stroke-width", 4);
     })
     .on("mouseout", (event, d) => {
       setHoveredNode(null);
-      d3.select(event.currentTarget).select("circle").attr("stroke", "#1e293b").attr("stroke-width", 2);
+      d3.select(event.currentTarget as SVGGElement).select("circle").attr("stroke", "#1e293b").attr("stroke-width", 2);
     });
 
     // Tick Function
     simulation.on("tick", () => {
-      link
+      // forceLink has swapped the ids in source and target for the nodes themselves by now
+      const lines: d3.Selection<SVGLineElement, Link, SVGGElement, unknown>[] = [link, linkHit];
+      lines.forEach(selection => selection
         .attr("x1", d => (d.source as Node).x!)
         .attr("y1", d => (d.source as Node).y!)
         .attr("x2", d => (d.target as Node).x!)
-        .attr("y2", d => (d.target as Node).y!);
+        .attr("y2", d => (d.target as Node).y!));
 
       node
         .attr("transform", d => `translate(${d.x},${d.y})`);
     });
 
     // Drag Functions
+    // In link mode (or with Shift held) dragging draws a new edge instead of moving the node
     function dragstarted(event: any, d: Node) {
+      linking = canEditRef.current && (linkModeRef.current || Boolean(event.sourceEvent?.shiftKey));
+      if (linking) {
+        pendingLink.style("display", null)
+          .attr("x1", d.x!).attr("y1", d.y!)
+          .attr("x2", d.x!).attr("y2", d.y!);
+        return;
+      }
       if (!event.active) simulation.alphaTarget(0.3).restart();
       d.fx = d.x;
       d.fy = d.y;
     }
 
     function dragged(event: any, d: Node) {
+      if (linking) {
+        pendingLink.attr("x2", event.x).attr("y2", event.y);
+        return;
+      }
       d.fx = event.x;
       d.fy = event.y;
     }
 
     function dragended(event: any, d: Node) {
+      if (linking) {
+        linking = false;
+        pendingLink.style("display", "none");
+        const target = simulation.find(event.x, event.y, 30);
+        if (target && target.id !== d.id) {
+          openDraft(null, { source: d.id, target: target.id, type: 'PARTNER', strength: 0.5 }, event.x, event.y);
+        }
+        return;
+      }
       if (!event.active) simulation.alphaTarget(0);
       d.fx = null;
       d.fy = null;
@@ -143,19 +294,96 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
 
     return () => {
       simulation.stop();
+      nodes.forEach(n => {
+        if (n.x !== undefined && n.y !== undefined) positionsRef.current.set(n.id, { x: n.x, y: n.y });
+      });
     };
-  }, [assets, relationships]);
+  }, [assets, relationships, rates, stress]);
+
+  const nodeName = (id: string) => assets.find(a => a.id === id)?.name ?? id;
+
+  const updateDraft = (changes: Partial<Relationship>) => {
+    setDraftErrors([]);
+    setDraft(prev => prev && { ...prev, relationship: { ...prev.relationship, ...changes } });
+  };
+
+  // Keep popovers inside the canvas
+  const clampPosition = (x: number, y: number, w: number, h: number) => {
+    const bounds = containerRef.current;
+    const maxX = (bounds?.clientWidth ?? w) - w - 8;
+    const maxY = (bounds?.clientHeight ?? h) - h - 8;
+    return { left: Math.max(8, Math.min(x, maxX)), top: Math.max(8, Math.min(y, maxY)) };
+  };
 
   return (
     <div className="h-full relative flex flex-col">
        <div className="absolute top-6 left-6 z-10 pointer-events-none">
         <h2 className="text-2xl font-black text-white tracking-widest uppercase">
-          <span className="text-purple-500">Nexus</span> // Relationship Graph
+          <span className="text-purple-500">{t('nexus.title')}</span> // {t('nexus.heading')}
         </h2>
-        <p className="text-slate-400">Ownership structures and asset correlations.</p>
+        <p className="text-slate-400">{t('nexus.subtitle')}</p>
+        <div className="mt-3 flex flex-wrap gap-3 text-[10px] font-mono text-slate-400">
+          {RELATIONSHIP_TYPES.map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="inline-block w-4 h-0.5" style={{ backgroundColor: LINK_COLORS[type] }} />
+              {relationshipLabel(type)}
+            </span>
+          ))}
+        </div>
+        {onStressScenarioChange && (
+          <div className="mt-3 flex items-center gap-3 pointer-events-auto">
+            <select
+              value={stressScenario?.id ?? ''}
+              onChange={e => onStressScenarioChange(STRESS_PRESETS.find(p => p.id === e.target.value) ?? null)}
+              className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-[10px] font-mono text-slate-200"
+            >
+              <option value="">{t('nexus.stressNone')}</option>
+              {STRESS_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{scenarioLabel(preset, t)}</option>)}
+              {stressScenario && !STRESS_PRESETS.some(p => p.id === stressScenario.id) && (
+                <option value={stressScenario.id}>{scenarioLabel(stressScenario, t)}</option>
+              )}
+            </select>
+            {stress && (
+              <span className="flex items-center gap-1 text-[10px] font-mono text-slate-400">
+                {t('nexus.stressLegend')}
+                <span>−{STRESS_SCALE_LIMIT * 100}%</span>
+                <span
+                  className="inline-block w-20 h-2 rounded"
+                  style={{ background: `linear-gradient(to right, ${stressColor(-STRESS_SCALE_LIMIT)}, ${stressColor(0)}, ${stressColor(STRESS_SCALE_LIMIT)})` }}
+                />
+                <span>+{STRESS_SCALE_LIMIT * 100}%</span>
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
-      <div ref={containerRef} className="flex-1 w-full h-full bg-slate-900/50 relative overflow-hidden">
+      {canEdit && (
+        <div className="absolute top-6 right-6 z-10 flex flex-col items-end gap-2">
+          <button
+            onClick={() => setLinkMode(prev => !prev)}
+            className={`px-4 py-2 font-mono text-xs rounded border transition-colors ${linkMode
+              ? 'bg-purple-600 border-purple-400 text-white shadow-[0_0_15px_rgba(168,85,247,0.5)]'
+              : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+          >
+            {linkMode ? t('nexus.linkModeOn') : t('nexus.linkModeOff')}
+          </button>
+          <p className="text-[10px] font-mono text-slate-500 text-right">
+            {linkMode ? t('nexus.hintDragLink') : t('nexus.hintShiftDrag')} <br /> {t('nexus.hintEditEdge')}
+          </p>
+        </div>
+      )}
+
+      <div
+        ref={containerRef}
+        className="flex-1 w-full h-full bg-slate-900/50 relative overflow-hidden"
+        onClick={e => {
+          if (e.target === svgRef.current) {
+            setContextMenu(null);
+            setDraft(null);
+          }
+        }}
+      >
         {/* Grid Background Effect */}
         <div className="absolute inset-0 opacity-10" 
              style={{ 
@@ -164,15 +392,107 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
              }} 
         />
         
-        <svg ref={svgRef} className="w-full h-full" />
+        <svg ref={svgRef} className={`w-full h-full ${linkMode ? 'cursor-crosshair' : ''}`} />
+
+        {/* Edge Context Menu */}
+        {contextMenu && (
+          <div
+            className="absolute z-30 bg-slate-800 border border-slate-600 rounded shadow-2xl py-1 min-w-[140px] font-mono text-xs"
+            style={clampPosition(contextMenu.x, contextMenu.y, 140, 70)}
+          >
+            <button
+              onClick={() => openDraft(contextMenu.relationship, { ...contextMenu.relationship }, contextMenu.x, contextMenu.y)}
+              className="w-full text-left px-3 py-2 text-slate-200 hover:bg-slate-700"
+            >
+              {t('nexus.editLink')}
+            </button>
+            <button
+              onClick={() => deleteLink(contextMenu.relationship)}
+              className="w-full text-left px-3 py-2 text-rose-400 hover:bg-slate-700"
+            >
+              {t('nexus.deleteLink')}
+            </button>
+          </div>
+        )}
+
+        {/* Edge Editor */}
+        {draft && (
+          <div
+            className="absolute z-30 w-72 bg-slate-800/95 backdrop-blur border border-purple-500/40 rounded-lg shadow-2xl p-4 text-sm"
+            style={clampPosition(draft.x + 12, draft.y + 12, 288, 260)}
+          >
+            <h4 className="font-bold text-white mb-1">{draft.original === null ? t('nexus.newLinkTitle') : t('nexus.editLinkTitle')}</h4>
+            <p className="text-xs font-mono text-slate-400 mb-3 truncate">
+              {nodeName(draft.relationship.source)} → {nodeName(draft.relationship.target)}
+            </p>
+
+            <label className="block mb-3">
+              <span className="text-xs text-slate-400 uppercase">{t('nexus.type')}</span>
+              <select
+                value={draft.relationship.type}
+                onChange={e => updateDraft({ type: e.target.value as Relationship['type'] })}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-100"
+              >
+                {RELATIONSHIP_TYPES.map(type => <option key={type} value={type}>{relationshipLabel(type)}</option>)}
+              </select>
+            </label>
+
+            <label className="block mb-3">
+              <span className="text-xs text-slate-400 uppercase">
+                {draft.relationship.type === 'CORRELATED' ? t('nexus.correlation') : draft.relationship.type === 'PARTNER' ? t('nexus.strength') : t('nexus.stake')}
+                {': '}
+                <span className="text-white font-mono">{(draft.relationship.strength * 100).toFixed(0)}%</span>
+              </span>
+              <input
+                type="range" min={0} max={1} step={0.01}
+                value={draft.relationship.strength}
+                onChange={e => updateDraft({ strength: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </label>
+
+            {draftErrors.length > 0 && (
+              <ul className="mb-3 bg-rose-900/20 border border-rose-900/50 rounded p-2 space-y-1">
+                {draftErrors.map((issue, i) => (
+                  <li key={i} className="text-[11px] text-rose-300 font-mono">{t(issue.key, issue.params)}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <button onClick={saveDraft} className="flex-1 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white font-bold rounded">
+                {draft.original === null ? t('common.create') : t('common.save')}
+              </button>
+              {draft.original !== null && (
+                <button onClick={() => deleteLink(draft.original!)} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-rose-400 font-bold rounded">
+                  {t('common.delete')}
+                </button>
+              )}
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded">
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* Floating Info HUD */}
         {hoveredNode && (
           <div className="absolute bottom-6 right-6 bg-slate-800/90 backdrop-blur border border-purple-500/30 p-4 rounded-lg shadow-2xl max-w-xs z-20">
             <h4 className="font-bold text-white">{hoveredNode.name}</h4>
             <div className="h-px w-full bg-purple-500/50 my-2"></div>
-            <p className="text-sm text-slate-300">Type: <span className="text-white">{hoveredNode.type}</span></p>
-            <p className="text-sm text-slate-300">Value: <span className="text-white">${hoveredNode.value.toLocaleString()}</span></p>
+            <p className="text-sm text-slate-300">{t('nexus.nodeType')} <span className="text-white">{typeLabel(hoveredNode.type)}</span></p>
+            <p className="text-sm text-slate-300">{t('nexus.nodeValue')} <span className="text-white">{formatNative(hoveredNode.nativeValue, hoveredNode.currency)}</span></p>
+            {hoveredNode.currency !== displayCurrency && (
+              <p className="text-xs text-slate-500 font-mono">≈ {format(hoveredNode.value)}</p>
+            )}
+            {hoveredNode.stress && (
+              <p className="text-sm text-slate-300">
+                {t('nexus.nodeStress')}{' '}
+                <span className={hoveredNode.stress.change < 0 ? 'text-rose-400' : hoveredNode.stress.change > 0 ? 'text-emerald-400' : 'text-white'}>
+                  {hoveredNode.stress.change > 0 ? '+' : ''}{format(hoveredNode.stress.change)} ({(hoveredNode.stress.changePct * 100).toFixed(1)}%)
+                </span>
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -180,4 +500,4 @@ const GraphNexus: React.FC<GraphNexusProps> = ({ assets, relationships }) => {
   );
 };
 
-export default GraphNexus;
\ No newline at end of file
+export default GraphNexus;
@@ -1,457 +1,446 @@
-import React, { useEffect, useRef, useState } from 'react';
-import * as THREE from 'three';
-import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { Asset, AssetType } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Asset, AssetType, Relationship, Sector, ValuationSnapshot } from '../types';
+import { useCurrency } from '../components/CurrencyProvider';
+import { useI18n } from '../components/I18nProvider';
+import { getCurrency, toBaseValue } from '../services/currencyService';
+import {
+  computePlacement, MovePreview, PlacementEffect, previewMove, TileKind
+} from '../services/placementService';
+import { MessageKey } from '../services/i18n';
+import { createRealmScene, RealmScene, TILE_COLORS } from '../components/realmScene';
+import { findFreeCell, getSectorId, sectorRemovalIssue } from '../services/sectorService';
+import SectorEditor from '../components/SectorEditor';
+import { computeRealmMetrics, REALM_METRICS, RealmMetric } from '../services/realmMetricService';
+import {
+  ColorEncoding, isDiverging, metricColor, metricDomain, metricGradient, metricHeight, MISSING_COLOR, TYPE_COLORS
+} from '../components/realmEncoding';
 
 interface GridRealmProps {
   assets: Asset[];
+  relationships: Relationship[];
+  sectors: Sector[];
+  valuationHistory: ValuationSnapshot[];
   onAssetMove?: (id: string, newPos: { x: number; y: number }) => void;
+  onAssetSectorChange?: (id: string, sectorId: string) => void;
+  onSectorCreate?: (draft: Omit<Sector, 'id'>) => string; // Returns the new sector id
+  onSectorUpdate?: (sector: Sector) => void;
+  onSectorDelete?: (id: string) => void;
 }
 
-// Configuration for the Board
-const GRID_SIZE = 10; // 10x10 Grid
-const CELL_SIZE = 4;  // World units per cell
-
-// Color mapping for 3D materials
-const getAssetColor = (type: AssetType): number => {
-  switch (type) {
-    case AssetType.STOCK: return 0x3b82f6; // Blue
-    case AssetType.REAL_ESTATE: return 0xf59e0b; // Amber
-    case AssetType.BOND: return 0x10b981; // Emerald
-    case AssetType.CRYPTO: return 0xa855f7; // Purple
-    case AssetType.PRIVATE_EQUITY: return 0xf43f5e; // Rose
-    default: return 0x64748b; // Slate
-  }
+const METRIC_KEYS: Record<ColorEncoding, MessageKey> = {
+  value: 'realm.metric.value',
+  roi: 'realm.metric.roi',
+  risk: 'realm.metric.risk',
+  income: 'realm.metric.income',
+  change: 'realm.metric.change',
+  type: 'realm.metric.type'
 };
 
-const GridRealm: React.FC<GridRealmProps> = ({ assets, onAssetMove }) => {
+const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-cyan-500";
+
+const TILE_KEYS: Record<TileKind, { name: MessageKey; effect: MessageKey }> = {
+  TAX_HAVEN: { name: 'tile.TAX_HAVEN', effect: 'tile.TAX_HAVEN.effect' },
+  FLOOD_ZONE: { name: 'tile.FLOOD_ZONE', effect: 'tile.FLOOD_ZONE.effect' },
+  INNOVATION_PARK: { name: 'tile.INNOVATION_PARK', effect: 'tile.INNOVATION_PARK.effect' }
+};
+
+const DISTRICT_KEYS: Record<AssetType, MessageKey> = {
+  [AssetType.REAL_ESTATE]: 'district.REAL_ESTATE',
+  [AssetType.STOCK]: 'district.STOCK',
+  [AssetType.BOND]: 'district.BOND',
+  [AssetType.CASH]: 'district.CASH',
+  [AssetType.CRYPTO]: 'district.CRYPTO',
+  [AssetType.PRIVATE_EQUITY]: 'district.PRIVATE_EQUITY'
+};
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// What dropping the dragged building on the highlighted cell would do
+interface DragPreview extends MovePreview {
+  x: number;
+  y: number;
+  swapWith?: string; // Name of the building that would swap places
+}
+
+const GridRealm: React.FC<GridRealmProps> = ({
+  assets, relationships, sectors, valuationHistory, onAssetMove, onAssetSectorChange, onSectorCreate, onSectorUpdate, onSectorDelete
+}) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const [hoveredAsset, setHoveredAsset] = useState<Asset | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
   const [isDraggingState, setIsDraggingState] = useState(false);
+  const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
+  const [activeSectorId, setActiveSectorId] = useState(sectors[0].id);
+  const [editing, setEditing] = useState<Sector | 'new' | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [heightMetric, setHeightMetric] = useState<RealmMetric>('value');
+  const [colorEncoding, setColorEncoding] = useState<ColorEncoding>('type');
+
+  // Falls back to the first tab when the active sector was deleted, or undone away
+  const activeSector = sectors.find(s => s.id === activeSectorId) ?? sectors[0];
+  const sectorAssets = assets.filter(a => getSectorId(a, sectors) === activeSector.id);
+  const offBoard = assets.filter(a => !a.gridPosition).length;
 
   // Keep a ref to assets for the event listeners to access latest state without re-binding
+  const { rates, displayCurrency, format, formatNative } = useCurrency();
+  const { t, typeLabel, relationshipLabel, formatNumber, formatPercent } = useI18n();
   const assetsRef = useRef(assets);
   assetsRef.current = assets;
+  const relationshipsRef = useRef(relationships);
+  relationshipsRef.current = relationships;
+  const sectorsRef = useRef(sectors);
+  sectorsRef.current = sectors;
+  const activeSectorRef = useRef(activeSector);
+  activeSectorRef.current = activeSector;
+
+  // Looked up on every render so the tooltip follows value changes while hovering
+  const hoveredAsset = assets.find(a => a.id === hoveredId) ?? null;
+
+  const placement = useMemo(() => computePlacement(assets, relationships), [assets, relationships]);
+  const hoveredBonus = hoveredAsset ? placement.bonuses.get(hoveredAsset.id) : undefined;
+  const sectorDistricts = placement.districts.filter(d => sectorAssets.some(a => a.id === d.memberIds[0]));
+
+  const assetName = (id: string) => assets.find(a => a.id === id)?.name ?? id;
+  const signedYield = (value: number) => `${value > 0 ? '+' : ''}${formatPercent(value)}`;
+  const yieldClass = (value: number) => value > 0 ? 'text-emerald-400' : value < 0 ? 'text-rose-400' : 'text-slate-400';
+
+  // Scales span every holding, so a sector's buildings compare with the whole portfolio
+  const metrics = useMemo(() => computeRealmMetrics(assets, rates, valuationHistory), [assets, rates, valuationHistory]);
+  const domainOf = (metric: RealmMetric) => metricDomain(metric, Array.from(metrics.values(), m => m[metric]));
+  const heightDomain = domainOf(heightMetric);
+  const colorDomain = colorEncoding === 'type' ? null : domainOf(colorEncoding);
+  const hoveredMetrics = hoveredAsset ? metrics.get(hoveredAsset.id) : undefined;
+
+  const formatMetric = (metric: RealmMetric, value: number | null): string => {
+    if (value === null) return '—';
+    switch (metric) {
+      case 'value':
+      case 'income':
+        return format(value);
+      case 'roi':
+      case 'change':
+        return signedYield(value);
+      case 'risk':
+        return formatNumber(value, { maximumFractionDigits: 1 });
+    }
+  };
+
+  const effectLabel = (effect: PlacementEffect): string => {
+    switch (effect.source.kind) {
+      case 'synergy':
+        return t('realm.effectSynergy', { relationship: relationshipLabel(effect.source.relationship), name: assetName(effect.source.partnerId) });
+      case 'district':
+        return t('realm.effectDistrict', { district: t(DISTRICT_KEYS[effect.source.type]), size: effect.source.size });
+      case 'tile':
+        return t(TILE_KEYS[effect.source.tile].name);
+    }
+  };
+
+  const renderEffects = (effects: PlacementEffect[]) => effects.map((effect, i) => (
+    <div key={i} className="flex justify-between gap-2">
+      <span className="text-slate-400 truncate">{effectLabel(effect)}</span>
+      <span className={`whitespace-nowrap ${yieldClass(effect.yield)}`}>
+        {signedYield(effect.yield)}
+        {effect.risk !== 0 && <span className={effect.risk > 0 ? 'text-rose-400' : 'text-emerald-400'}> R{effect.risk > 0 ? '+' : ''}{effect.risk}</span>}
+      </span>
+    </div>
+  ));
+
+  // The scene lives as long as the view; handlers read the latest props through refs
+  const sceneRef = useRef<RealmScene | null>(null);
+  const onAssetMoveRef = useRef(onAssetMove);
+  onAssetMoveRef.current = onAssetMove;
+  const onAssetSectorChangeRef = useRef(onAssetSectorChange);
+  onAssetSectorChangeRef.current = onAssetSectorChange;
+  // Wording for tooltips and screen readers, kept current for the scene's long-lived handlers
+  const textRef = useRef({ t, typeLabel, formatNative });
+  textRef.current = { t, typeLabel, formatNative };
+  const ratesRef = useRef(rates);
+  ratesRef.current = rates;
+  const [announcement, setAnnouncement] = useState('');
 
   useEffect(() => {
-    // Capture ref value to ensure cleanup works if ref changes
     const container = mountRef.current;
     if (!container) return;
 
-    // --- SCENE SETUP ---
-    const scene = new THREE.Scene();
-    scene.fog = new THREE.FogExp2(0x0f172a, 0.01); // Lighter fog color and less density
-    scene.background = new THREE.Color(0x0f172a); // Lighter background
-
-    // Camera
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-    const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 1000);
-    camera.position.set(30, 35, 30);
-    camera.lookAt(0, 0, 0);
-
-    // Renderer
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, powerPreference: "high-performance" });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(window.devicePixelRatio);
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    renderer.toneMapping = THREE.ACESFilmicToneMapping;
-    renderer.toneMappingExposure = 1.2; // Increased exposure
-    container.appendChild(renderer.domElement);
-
-    // Controls
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controls.maxPolarAngle = Math.PI / 2 - 0.1;
-    controls.minDistance = 10;
-    controls.maxDistance = 100;
-    controls.autoRotate = true;
-    controls.autoRotateSpeed = 0.5;
-
-    // --- LIGHTING ---
-    // 1. Ambient Fill: Significantly brighter
-    const hemiLight = new THREE.HemisphereLight(0x334155, 0x0f172a, 1.5); 
-    scene.add(hemiLight);
-
-    // 2. Key Light: Brighter sun
-    const dirLight = new THREE.DirectionalLight(0xffffff, 2.5);
-    dirLight.position.set(20, 50, 20);
-    dirLight.castShadow = true;
-    dirLight.shadow.mapSize.width = 2048;
-    dirLight.shadow.mapSize.height = 2048;
-    dirLight.shadow.camera.near = 0.5;
-    dirLight.shadow.camera.far = 100;
-    dirLight.shadow.camera.left = -30;
-    dirLight.shadow.camera.right = 30;
-    dirLight.shadow.camera.top = 30;
-    dirLight.shadow.camera.bottom = -30;
-    dirLight.shadow.bias = -0.0005;
-    scene.add(dirLight);
-
-    // 3. Rim Light
-    const spotLightCyan = new THREE.SpotLight(0x06b6d4, 800);
-    spotLightCyan.position.set(-40, 20, 40);
-    spotLightCyan.lookAt(0,0,0);
-    scene.add(spotLightCyan);
-
-    // 4. Accent Light
-    const pointLightMagenta = new THREE.PointLight(0xd946ef, 300, 60);
-    pointLightMagenta.position.set(30, 10, -30);
-    scene.add(pointLightMagenta);
-
-    // --- THE BOARD ---
-    const boardWidth = GRID_SIZE * CELL_SIZE;
-    
-    // Grid Lines - Lighter and more opaque
-    const gridHelper = new THREE.GridHelper(boardWidth, GRID_SIZE, 0x38bdf8, 0x475569);
-    gridHelper.position.y = 0.02;
-    // @ts-ignore
-    gridHelper.material.transparent = true;
-    // @ts-ignore
-    gridHelper.material.opacity = 0.5; // More visible grid
-    scene.add(gridHelper);
-
-    // Reflective Floor - Lighter base color
-    const platformGeometry = new THREE.PlaneGeometry(boardWidth, boardWidth);
-    const platformMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x1e293b, // Slate-800 instead of 950
-      roughness: 0.2, 
-      metalness: 0.6, // Less metalness to reflect more diffuse light
-    });
-    const platform = new THREE.Mesh(platformGeometry, platformMaterial);
-    platform.rotation.x = -Math.PI / 2;
-    platform.receiveShadow = true;
-    scene.add(platform);
-
-    // --- ASSETS ---
-    const buildingsGroup = new THREE.Group();
-    scene.add(buildingsGroup);
-
-    const boxGeo = new THREE.BoxGeometry(CELL_SIZE * 0.75, 1, CELL_SIZE * 0.75);
-    const edgesGeo = new THREE.EdgesGeometry(boxGeo);
-
-    // Create meshes
-    assets.forEach((asset, index) => {
-      let gx = 0;
-      let gz = 0;
-      
-      if (asset.gridPosition) {
-        gx = asset.gridPosition.x - 1;
-        gz = asset.gridPosition.y - 1;
-      } else {
-        gx = index % GRID_SIZE;
-        gz = Math.floor(index / GRID_SIZE);
-      }
-
-      if (gx < 0) gx = 0; if (gx >= GRID_SIZE) gx = GRID_SIZE - 1;
-      if (gz < 0) gz = 0; if (gz >= GRID_SIZE) gz = GRID_SIZE - 1;
-
-      const x = (gx - GRID_SIZE / 2 + 0.5) * CELL_SIZE;
-      const z = (gz - GRID_SIZE / 2 + 0.5) * CELL_SIZE;
-
-      const height = Math.max(1.5, Math.min(12, Math.log10(asset.value) * 2 - 6)); 
-      const color = getAssetColor(asset.type);
-
-      const material = new THREE.MeshPhysicalMaterial({ 
-        color: color,
-        roughness: 0.2,
-        metalness: 0.1,
-        transmission: 0.6,
-        thickness: 1.0,
-        opacity: 0.9,
-        transparent: true,
-      });
-
-      const building = new THREE.Mesh(boxGeo, material);
-      building.position.set(x, height / 2, z);
-      building.scale.set(1, height, 1);
-      building.castShadow = true;
-      building.receiveShadow = true;
-      building.userData = { 
-        assetId: asset.id, 
-        originalColor: color, 
-        gridX: gx + 1, 
-        gridY: gz + 1,
-        originalPos: new THREE.Vector3(x, height / 2, z)
-      };
-
-      const coreGeo = new THREE.BoxGeometry(CELL_SIZE * 0.4, height - 0.2, CELL_SIZE * 0.4);
-      const coreMat = new THREE.MeshBasicMaterial({ color: color });
-      const core = new THREE.Mesh(coreGeo, coreMat);
-      building.add(core);
-
-      const lineMat = new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.5 });
-      const line = new THREE.LineSegments(edgesGeo, lineMat);
-      building.add(line);
-
-      buildingsGroup.add(building);
-    });
-
-    // Drag Highlight (Ghost Square)
-    const highlightGeo = new THREE.PlaneGeometry(CELL_SIZE, CELL_SIZE);
-    const highlightMat = new THREE.MeshBasicMaterial({ color: 0x06b6d4, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
-    const highlightMesh = new THREE.Mesh(highlightGeo, highlightMat);
-    highlightMesh.rotation.x = -Math.PI / 2;
-    highlightMesh.position.y = 0.05;
-    highlightMesh.visible = false;
-    scene.add(highlightMesh);
-
-    // --- INTERACTION ---
-    const raycaster = new THREE.Raycaster();
-    const pointer = new THREE.Vector2();
-    const dragPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0); // Horizontal plane at y=0 for raycasting
-    const planeIntersectPoint = new THREE.Vector3();
-
-    let isDragging = false;
-    let draggedObject: THREE.Mesh | null = null;
-    let hoveredMesh: THREE.Mesh | null = null;
-
-    const onPointerDown = (event: MouseEvent) => {
-      // Calculate pointer position
-      const rect = renderer.domElement.getBoundingClientRect();
-      pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-
-      raycaster.setFromCamera(pointer, camera);
-      
-      // Filter for building meshes only
-      const intersects = raycaster.intersectObjects(buildingsGroup.children, false); // false = recursive off, we want top level meshes
-
-      if (intersects.length > 0) {
-        const object = intersects[0].object as THREE.Mesh;
-        if (object.userData.assetId) {
-          isDragging = true;
-          draggedObject = object;
-          controls.enabled = false; // Disable orbit controls
-          
-          // Visual feedback
-          const mat = object.material as THREE.MeshPhysicalMaterial;
-          mat.emissive.setHex(0xffffff);
-          mat.emissiveIntensity = 1.0;
-          object.position.y += 1; // Lift up
-          
-          setIsDraggingState(true);
-          highlightMesh.visible = true;
-        }
-      }
+    const findAsset = (id: string) => assetsRef.current.find(a => a.id === id);
+    const cellLabel = (cell: { x: number; y: number }) => textRef.current.t('realm.a11yCell', cell);
+    const homeLabel = (asset?: Asset) => (asset?.gridPosition ? cellLabel(asset.gridPosition) : '');
+    const endDrag = () => {
+      setIsDraggingState(false);
+      setDragPreview(null);
     };
 
-    const onPointerMove = (event: MouseEvent) => {
-      const rect = renderer.domElement.getBoundingClientRect();
-      pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-      setTooltipPos({ x: event.clientX, y: event.clientY });
-
-      if (isDragging && draggedObject) {
-        raycaster.setFromCamera(pointer, camera);
-        
-        // Raycast against infinite plane
-        raycaster.ray.intersectPlane(dragPlane, planeIntersectPoint);
-        
-        // Snap to grid
-        // Convert world x,z to grid coordinates
-        // Formula: worldX = (gx - 5 + 0.5) * 4
-        // Inverse: gx = (worldX / 4) + 4.5
-        const rawGx = Math.floor((planeIntersectPoint.x / CELL_SIZE) + GRID_SIZE/2);
-        const rawGz = Math.floor((planeIntersectPoint.z / CELL_SIZE) + GRID_SIZE/2);
-        
-        // Clamp
-        const gx = Math.max(0, Math.min(GRID_SIZE - 1, rawGx));
-        const gz = Math.max(0, Math.min(GRID_SIZE - 1, rawGz));
-
-        const snapX = (gx - GRID_SIZE / 2 + 0.5) * CELL_SIZE;
-        const snapZ = (gz - GRID_SIZE / 2 + 0.5) * CELL_SIZE;
-
-        draggedObject.position.set(snapX, draggedObject.userData.originalPos.y + 1, snapZ);
-        
-        // Move highlight
-        highlightMesh.position.set(snapX, 0.05, snapZ);
-        
-        // Change highlight color if occupied
-        // We use the grid position (1-based in data, 0-based in calc) to check
-        const targetX = gx + 1;
-        const targetY = gz + 1;
-        
-        const isOccupied = assetsRef.current.some(a => 
-            a.id !== draggedObject!.userData.assetId && 
-            a.gridPosition && 
-            a.gridPosition.x === targetX && 
-            a.gridPosition.y === targetY
-        );
-
-        // @ts-ignore
-        highlightMesh.material.color.setHex(isOccupied ? 0xef4444 : 0x06b6d4);
-
-        return; // Skip hover logic while dragging
-      }
-
-      // --- Hover Logic (Only when not dragging) ---
-      raycaster.setFromCamera(pointer, camera);
-      
-      // Need to handle children (core/lines) hitting, so we traverse up
-      const intersects = raycaster.intersectObjects(buildingsGroup.children, true); 
-
-      if (intersects.length > 0) {
-        let object = intersects[0].object as THREE.Mesh;
-        // Traverse up to find the main building mesh
-        while(object.parent !== buildingsGroup && object.parent !== null) {
-            object = object.parent as THREE.Mesh;
+    const realm = createRealmScene(container, activeSectorRef.current, {
+      onAnchorMove: (x, y) => setTooltipPos({ x, y }),
+      onHover: setHoveredId,
+      onFocus: id => {
+        const asset = findAsset(id);
+        if (!asset) return;
+        const { t, typeLabel, formatNative } = textRef.current;
+        setAnnouncement(t('realm.a11yFocus', {
+          name: asset.name, type: typeLabel(asset.type), value: formatNative(asset.value, getCurrency(asset)), cell: homeLabel(asset)
+        }));
+      },
+      onDragStart: id => {
+        setIsDraggingState(true);
+        setNotice(null);
+        setAnnouncement(textRef.current.t('realm.a11yPickedUp', { name: findAsset(id)?.name ?? id }));
+      },
+      // Preview the drop: green if it raises the board's bonus income, red if it lowers it or is off
+      // the board, amber for a neutral swap, cyan otherwise
+      onDragOver: (id, cell) => {
+        if (!cell) {
+          setDragPreview(null);
+          setAnnouncement(textRef.current.t('realm.a11yOutside'));
+          return 0xf43f5e;
         }
-
-        // Check if we actually hit a building
-        if (object.userData?.assetId) {
-             controls.autoRotate = false;
-             if (hoveredMesh !== object) {
-                // Restore previous
-                if (hoveredMesh && hoveredMesh !== draggedObject) {
-                   const mat = hoveredMesh.material as THREE.MeshPhysicalMaterial;
-                   // @ts-ignore
-                   if (mat && mat.emissive) mat.emissive.setHex(0x000000);
-                }
-                
-                hoveredMesh = object;
-                // Only highlight if not being dragged
-                if (object !== draggedObject) {
-                    const mat = object.material as THREE.MeshPhysicalMaterial;
-                    if (mat && mat.emissive) {
-                       mat.emissive.setHex(0x222222);
-                       mat.emissiveIntensity = 0.5;
-                    }
-                }
-                const asset = assetsRef.current.find(a => a.id === object.userData.assetId);
-                setHoveredAsset(asset || null);
-                document.body.style.cursor = 'grab';
-             }
+        const sectorId = activeSectorRef.current.id;
+        const occupant = assetsRef.current.find(a => a.id !== id && getSectorId(a, sectorsRef.current) === sectorId &&
+          a.gridPosition && a.gridPosition.x === cell.x && a.gridPosition.y === cell.y);
+        const preview = previewMove(assetsRef.current, relationshipsRef.current, id, cell, ratesRef.current);
+        setDragPreview({ ...preview, ...cell, swapWith: occupant?.name });
+        setAnnouncement(occupant
+          ? textRef.current.t('realm.a11yOverSwap', { cell: cellLabel(cell), name: occupant.name })
+          : cellLabel(cell));
+        return preview.incomeChange > 0.5 ? 0x10b981 : preview.incomeChange < -0.5 ? 0xf43f5e : occupant ? 0xf59e0b : 0x06b6d4;
+      },
+      // Dropping onto an occupied cell swaps the two buildings; the app records it as one undo step.
+      // Dropping onto another sector's tab sends the building to that board's first free cell.
+      // Failed drops say why in the notice, which screen readers announce as an alert.
+      onDrop: (id, cell, pointer) => {
+        endDrag();
+        const { t } = textRef.current;
+        const asset = findAsset(id);
+        const name = asset?.name ?? id;
+        const tab = pointer && document.elementFromPoint(pointer.clientX, pointer.clientY)?.closest<HTMLElement>('[data-sector-id]');
+        const target = sectorsRef.current.find(s => s.id === tab?.dataset.sectorId);
+        if (target && target.id !== activeSectorRef.current.id) {
+          if (!onAssetSectorChangeRef.current) return 'unchanged';
+          if (!findFreeCell({ assets: assetsRef.current, sectors: sectorsRef.current }, target.id)) {
+            setNotice(t('realm.sectorFull', { name: target.name }));
+            return 'rejected';
+          }
+          onAssetSectorChangeRef.current(id, target.id);
+          setAnnouncement(t('realm.a11yToSector', { name, sector: target.name }));
+          return 'moved';
         }
-      } else {
-        controls.autoRotate = true;
-        if (hoveredMesh) {
-           // Restore
-           if (hoveredMesh !== draggedObject) {
-               const mat = hoveredMesh.material as THREE.MeshPhysicalMaterial;
-               // @ts-ignore
-               if (mat && mat.emissive) mat.emissive.setHex(0x000000);
-           }
-           hoveredMesh = null;
-           setHoveredAsset(null);
-           document.body.style.cursor = 'default';
+        if (!cell) {
+          setNotice(t('realm.dropOutside'));
+          return 'rejected';
         }
-      }
-    };
-
-    const onPointerUp = () => {
-      if (isDragging && draggedObject) {
-        // Drop Logic
-        const currentX = draggedObject.position.x;
-        const currentZ = draggedObject.position.z;
-
-        // Calc Grid Coords (1-based for data)
-        const gx = Math.floor((currentX / CELL_SIZE) + GRID_SIZE/2) + 1;
-        const gy = Math.floor((currentZ / CELL_SIZE) + GRID_SIZE/2) + 1;
-
-        // Collision Check
-        const isOccupied = assetsRef.current.some(a => 
-            a.id !== draggedObject!.userData.assetId && 
-            a.gridPosition && 
-            a.gridPosition.x === gx && 
-            a.gridPosition.y === gy
-        );
-
-        if (isOccupied) {
-            // Invalid Move: Snap back
-            draggedObject.position.copy(draggedObject.userData.originalPos);
-            // Flash red?
-        } else {
-            // Valid Move: Update State
-            if (onAssetMove) {
-                onAssetMove(draggedObject.userData.assetId, { x: gx, y: gy });
-            }
-            // Update internal user data for consistency until re-render
-            draggedObject.userData.originalPos.set(currentX, draggedObject.userData.originalPos.y, currentZ);
+        const moved = Boolean(onAssetMoveRef.current) && (asset?.gridPosition?.x !== cell.x || asset?.gridPosition?.y !== cell.y);
+        if (!moved) {
+          setAnnouncement(t('realm.a11yUnchanged', { name, cell: homeLabel(asset) }));
+          return 'unchanged';
         }
-
-        // Reset Visuals
-        const mat = draggedObject.material as THREE.MeshPhysicalMaterial;
-        mat.emissive.setHex(0x222222); // Leave slightly highlighted as it might still be hovered
-        mat.emissiveIntensity = 0.5;
-        
-        draggedObject = null;
-        isDragging = false;
-        controls.enabled = true;
-        highlightMesh.visible = false;
-        setIsDraggingState(false);
+        onAssetMoveRef.current!(id, cell);
+        setAnnouncement(t('realm.a11yMoved', { name, cell: cellLabel(cell) }));
+        return 'moved';
+      },
+      onDragCancel: id => {
+        endDrag();
+        const asset = findAsset(id);
+        setAnnouncement(textRef.current.t('realm.a11yCancelled', { name: asset?.name ?? id, cell: homeLabel(asset) }));
       }
-    };
-
-    container.addEventListener('mousedown', onPointerDown);
-    container.addEventListener('mousemove', onPointerMove);
-    window.addEventListener('mouseup', onPointerUp); // Window to catch release outside canvas
-
-    // --- ANIMATION ---
-    let animationId: number;
-    let time = 0;
+    });
+    sceneRef.current = realm;
 
-    const animate = () => {
-      animationId = requestAnimationFrame(animate);
-      time += 0.01;
-      controls.update();
-      pointLightMagenta.intensity = 200 + Math.sin(time * 2) * 50;
-      renderer.render(scene, camera);
+    return () => {
+      sceneRef.current = null;
+      realm.dispose();
     };
+  }, []);
 
-    animate();
-
-    const handleResize = () => {
-      if (!container) return;
-      const w = container.clientWidth;
-      const h = container.clientHeight;
-      camera.aspect = w / h;
-      camera.updateProjectionMatrix();
-      renderer.setSize(w, h);
-    };
-    window.addEventListener('resize', handleResize);
+  // Holdings, the board or the encoding changed: hand the scene the new layout and let it animate
+  // the difference. Holdings without a cell are off the board and not drawn.
+  useEffect(() => {
+    const realm = sceneRef.current;
+    if (!realm) return;
+    realm.setBoard(activeSector);
+    realm.setBuildings(sectorAssets.filter(asset => asset.gridPosition).map(asset => {
+      const values = metrics.get(asset.id)!;
+      return {
+        id: asset.id,
+        cell: asset.gridPosition!,
+        height: metricHeight(heightMetric, values[heightMetric], heightDomain),
+        color: colorEncoding === 'type' ? TYPE_COLORS[asset.type] : metricColor(colorEncoding, values[colorEncoding], colorDomain!)
+      };
+    }));
+  }, [assets, sectors, activeSector.id, metrics, heightMetric, colorEncoding]);
 
-    return () => {
-      window.removeEventListener('resize', handleResize);
-      container.removeEventListener('mousedown', onPointerDown);
-      container.removeEventListener('mousemove', onPointerMove);
-      window.removeEventListener('mouseup', onPointerUp);
-      cancelAnimationFrame(animationId);
-      
-      renderer.dispose();
-      boxGeo.dispose();
-      edgesGeo.dispose();
-      platformGeometry.dispose();
-      
-      if (container.contains(renderer.domElement)) {
-        container.removeChild(renderer.domElement);
-      }
-    };
-  }, [assets, onAssetMove]); // Re-run when assets change to update scene positions
+  const handleSectorSave = (draft: Omit<Sector, 'id'>) => {
+    if (editing === 'new') {
+      if (onSectorCreate) setActiveSectorId(onSectorCreate(draft));
+    } else if (editing) {
+      onSectorUpdate?.({ ...editing, ...draft });
+    }
+  };
 
   return (
     <div className="h-full relative overflow-hidden group bg-slate-950">
-      <div ref={mountRef} className="w-full h-full cursor-grab active:cursor-grabbing" />
+      <div
+        ref={mountRef}
+        tabIndex={0}
+        role="application"
+        aria-label={t('realm.a11yBoard', { name: activeSector.name })}
+        className="w-full h-full cursor-grab active:cursor-grabbing select-none outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-cyan-500/60"
+      />
+      <div className="sr-only" aria-live="polite">{announcement}</div>
       
       {/* HUD Elements */}
       <div className="absolute top-6 left-6 pointer-events-none">
         <h2 className="text-2xl font-black text-white tracking-widest uppercase shadow-black drop-shadow-lg flex items-center gap-3">
-          <span className="text-cyan-500 drop-shadow-[0_0_10px_rgba(6,182,212,0.8)]">Realm</span> // 10x10 Grid
+          <span className="text-cyan-500 drop-shadow-[0_0_10px_rgba(6,182,212,0.8)]">{t('realm.title')}</span> // {t('realm.heading', { width: activeSector.width, height: activeSector.height })}
         </h2>
+
+        {/* Sector tabs; while dragging, each one is also a drop target */}
+        <div className="flex flex-wrap items-center gap-1 mb-2 pointer-events-auto">
+          {sectors.map(sector => {
+            const active = sector.id === activeSector.id;
+            const count = assets.filter(a => getSectorId(a, sectors) === sector.id).length;
+            return (
+              <button
+                key={sector.id}
+                data-sector-id={sector.id}
+                onClick={() => setActiveSectorId(sector.id)}
+                onDoubleClick={() => onSectorUpdate && setEditing(sector)}
+                className={`px-3 py-1 rounded-t border-b-2 text-xs font-mono font-bold transition-colors ${
+                  active
+                    ? 'bg-slate-800 border-cyan-400 text-cyan-300'
+                    : isDraggingState
+                      ? 'bg-slate-900/80 border-amber-500/60 text-amber-300 hover:bg-amber-900/40 hover:border-amber-400'
+                      : 'bg-slate-900/80 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {sector.name} <span className="text-slate-500">{count}</span>
+              </button>
+            );
+          })}
+          {onSectorUpdate && (
+            <button
+              onClick={() => setEditing(activeSector)}
+              title={t('realm.editSector')}
+              className="px-2 py-1 text-xs text-slate-400 hover:text-white bg-slate-900/80 rounded border border-slate-700"
+            >
+              ✎
+            </button>
+          )}
+          {onSectorCreate && (
+            <button
+              onClick={() => setEditing('new')}
+              className="px-2 py-1 text-xs font-mono font-bold text-cyan-400 hover:text-cyan-300 bg-slate-900/80 rounded border border-slate-700"
+            >
+              {t('realm.addSector')}
+            </button>
+          )}
+        </div>
+
         <p className="text-slate-400 text-sm bg-slate-900/80 p-2 rounded border border-slate-700 backdrop-blur">
-          {isDraggingState ? <span className="text-amber-400 font-bold animate-pulse">REPOSITIONING ASSET...</span> : "Local Sector • Expansion Available"}
+          {isDraggingState ? <span className="text-amber-400 font-bold animate-pulse">{t('realm.repositioning')}</span> : t('realm.status')}
         </p>
+        {notice && <p role="alert" className="mt-2 text-xs text-rose-300 bg-rose-900/30 p-2 rounded border border-rose-900/50">{notice}</p>}
+        {offBoard > 0 && <p className="mt-2 text-xs text-amber-300 bg-amber-900/30 p-2 rounded border border-amber-900/50">{t('realm.offBoard', { count: offBoard })}</p>}
       </div>
 
       <div className="absolute bottom-6 left-6 pointer-events-none text-xs text-slate-500 font-mono">
         <div className="bg-slate-900/50 p-2 rounded border border-slate-800">
-          [LMB] {isDraggingState ? <span className="text-cyan-400 font-bold">DRAG & DROP</span> : "ROTATE / SELECT"} <br/> [SCROLL] ZOOM <br/> [HOVER] SCAN
+          [LMB] {isDraggingState ? <span className="text-cyan-400 font-bold">{t('realm.hintDrag')}<br/>{sectors.length > 1 && t('realm.hintTab')}</span> : t('realm.hintRotate')} <br/> [HOLD] {t('realm.hintHold')} <br/> [SCROLL] {t('realm.hintZoom')} <br/> [HOVER] {t('realm.hintScan')} <br/> [ARROWS] {t('realm.hintArrows')} <br/> [ENTER] {t('realm.hintEnter')} <br/> [ESC] {t('realm.hintEscape')} <br/> [CTRL+Z] {t('realm.hintUndo')}
+        </div>
+      </div>
+
+      {/* Encoding: what height and color stand for, with the color legend */}
+      <div className="absolute top-6 right-6 text-[10px] text-slate-400 font-mono bg-slate-900/80 p-3 rounded border border-slate-700 backdrop-blur space-y-2 w-56">
+        <label className="flex items-center justify-between gap-2">
+          <span>{t('realm.heightBy')}</span>
+          <select className={selectClass} value={heightMetric} onChange={e => setHeightMetric(e.target.value as RealmMetric)}>
+            {REALM_METRICS.map(metric => <option key={metric} value={metric}>{t(METRIC_KEYS[metric])}</option>)}
+          </select>
+        </label>
+        <div className="flex justify-between text-slate-500">
+          <span>▁ {formatMetric(heightMetric, heightDomain[0])}</span>
+          <span>█ {formatMetric(heightMetric, heightDomain[1])}</span>
         </div>
+        <label className="flex items-center justify-between gap-2">
+          <span>{t('realm.colorBy')}</span>
+          <select className={selectClass} value={colorEncoding} onChange={e => setColorEncoding(e.target.value as ColorEncoding)}>
+            {(['type', ...REALM_METRICS] as ColorEncoding[]).map(metric => <option key={metric} value={metric}>{t(METRIC_KEYS[metric])}</option>)}
+          </select>
+        </label>
+        {colorEncoding === 'type' || !colorDomain ? (
+          <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+            {Object.values(AssetType).map(type => (
+              <div key={type} className="flex items-center gap-1.5 truncate">
+                <span className="inline-block w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: toCss(TYPE_COLORS[type]) }} />
+                <span className="truncate">{typeLabel(type)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div>
+            <div className="h-2.5 rounded-sm" style={{ background: metricGradient(colorEncoding) }} />
+            <div className="flex justify-between mt-0.5 text-slate-500">
+              <span>{formatMetric(colorEncoding, colorDomain[0])}</span>
+              {isDiverging(colorEncoding) && <span>{formatMetric(colorEncoding, 0)}</span>}
+              <span>{formatMetric(colorEncoding, colorDomain[1])}</span>
+            </div>
+            <div className="flex items-center gap-1.5 mt-0.5 text-slate-500">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: toCss(MISSING_COLOR) }} />
+              {t('realm.noData')}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Special tiles and the districts currently formed */}
+      <div className="absolute bottom-6 right-6 pointer-events-none text-[10px] text-slate-400 font-mono bg-slate-900/70 p-3 rounded border border-slate-800 space-y-1 max-w-xs">
+        {(Object.keys(TILE_KEYS) as TileKind[]).map(kind => (
+          <div key={kind} className="flex items-start gap-2">
+            <span className="inline-block w-3 h-3 mt-0.5 rounded-sm flex-shrink-0" style={{ backgroundColor: toCss(TILE_COLORS[kind]) }} />
+            <span><span className="text-slate-200">{t(TILE_KEYS[kind].name)}</span> — {t(TILE_KEYS[kind].effect)}</span>
+          </div>
+        ))}
+        <div className="h-px bg-slate-700 my-1"></div>
+        {sectorDistricts.length === 0
+          ? <div className="text-slate-500">{t('realm.noDistricts')}</div>
+          : sectorDistricts.map(district => (
+            <div key={district.memberIds[0]} className="text-amber-400">
+              ▣ {t('realm.effectDistrict', { district: t(DISTRICT_KEYS[district.type]), size: district.memberIds.length })}
+            </div>
+          ))}
+      </div>
+
+      {isDraggingState && dragPreview && (
+        <div
+          className="fixed pointer-events-none z-50 bg-slate-900/95 border-l-4 border-emerald-500 backdrop-blur-xl p-3 rounded-r-lg shadow-2xl w-64 text-xs font-mono"
+          style={{ left: tooltipPos.x + 20, top: tooltipPos.y - 40 }}
+        >
+          <div className="flex justify-between text-slate-300 mb-1">
+            <span className="text-slate-500">{t('realm.previewCell')}</span>
+            <span className="text-amber-500">[{dragPreview.x}, {dragPreview.y}]</span>
+          </div>
+          {dragPreview.swapWith && <div className="text-amber-400 mb-1">⇄ {t('realm.previewSwap', { name: dragPreview.swapWith })}</div>}
+          <div className="space-y-0.5">
+            {dragPreview.bonus.effects.length === 0
+              ? <div className="text-slate-500">{t('realm.noBonus')}</div>
+              : renderEffects(dragPreview.bonus.effects)}
+          </div>
+          <div className="h-px bg-slate-700 my-1.5"></div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">{t('realm.bonus')}</span>
+            <span className={yieldClass(dragPreview.bonus.yield)}>
+              {signedYield(dragPreview.bonus.yield)} ({signedYield(dragPreview.yieldChange)})
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-500">{t('realm.boardIncome')}</span>
+            <span className={yieldClass(Math.round(dragPreview.incomeChange))}>
+              {dragPreview.incomeChange >= 0.5 ? '+' : ''}{format(dragPreview.incomeChange)}
+            </span>
+          </div>
+        </div>
+      )}
+
       {hoveredAsset && !isDraggingState && (
         <div 
           className="fixed pointer-events-none z-50 bg-slate-900/95 border-l-4 border-cyan-500 backdrop-blur-xl p-4 rounded-r-lg shadow-[0_0_30px_rgba(6,182,212,0.2)] w-64 text-sm transition-opacity duration-150"
@@ -465,25 +454,58 @@ const GridRealm: React.FC<GridRealmProps> = ({ assets, onAssetMove }) => {
           </div>
           <div className="space-y-2 text-slate-300 font-mono text-xs">
              <div className="flex justify-between">
-               <span className="text-slate-500">VALUATION</span>
-               <span className="text-cyan-400 font-bold">${(hoveredAsset.value/1000).toFixed(1)}k</span>
+               <span className="text-slate-500">{t('realm.valuation')}</span>
+               <span className="text-cyan-400 font-bold">{formatNative(hoveredAsset.value, getCurrency(hoveredAsset))}</span>
              </div>
+             {getCurrency(hoveredAsset) !== displayCurrency && (
+               <div className="flex justify-between">
+                 <span className="text-slate-500">{t('realm.inCurrency', { code: displayCurrency })}</span>
+                 <span className="text-cyan-600">≈ {format(toBaseValue(hoveredAsset, rates))}</span>
+               </div>
+             )}
              <div className="flex justify-between">
-               <span className="text-slate-500">TYPE</span>
-               <span className="text-white">{hoveredAsset.type}</span>
+               <span className="text-slate-500">{t('realm.type')}</span>
+               <span className="text-white">{typeLabel(hoveredAsset.type)}</span>
              </div>
              <div className="flex justify-between">
-               <span className="text-slate-500">COORDS</span>
+               <span className="text-slate-500">{t('realm.coords')}</span>
                <span className="text-amber-500">[{hoveredAsset.gridPosition?.x}, {hoveredAsset.gridPosition?.y}]</span>
              </div>
              <div className="h-px bg-slate-700 my-1"></div>
              <div className="flex justify-between items-center">
                 <span className="bg-slate-800 px-2 py-0.5 rounded text-slate-400">R: {hoveredAsset.risk}/10</span>
-                <span className="text-green-400">+{hoveredAsset.roi * 100}% ROI</span>
+                <span className="text-green-400">{t('realm.roi', { roi: formatNumber(hoveredAsset.roi * 100, { maximumFractionDigits: 2 }) })}</span>
+             </div>
+             <div className="flex justify-between">
+               <span className="text-slate-500">{t('realm.metric.income')}</span>
+               <span className="text-emerald-400">{formatMetric('income', hoveredMetrics?.income ?? null)}</span>
              </div>
+             <div className="flex justify-between">
+               <span className="text-slate-500">{t('realm.metric.change')}</span>
+               <span className={yieldClass(hoveredMetrics?.change ?? 0)}>{formatMetric('change', hoveredMetrics?.change ?? null)}</span>
+             </div>
+             {hoveredBonus && hoveredBonus.effects.length > 0 && (
+               <>
+                 <div className="h-px bg-slate-700 my-1"></div>
+                 <div className="text-slate-500">{t('realm.placement')}</div>
+                 {renderEffects(hoveredBonus.effects)}
+               </>
+             )}
           </div>
         </div>
       )}
+
+      {editing && (
+        <SectorEditor
+          sector={editing === 'new' ? undefined : editing}
+          defaultName={t('sector.defaultName', { n: sectors.length + 1 })}
+          holdings={editing === 'new' ? 0 : assets.filter(a => getSectorId(a, sectors) === editing.id && a.gridPosition).length}
+          deleteIssue={editing === 'new' ? undefined : sectorRemovalIssue({ assets, sectors }, editing.id)}
+          onSave={handleSectorSave}
+          onDelete={editing !== 'new' && onSectorDelete ? () => onSectorDelete(editing.id) : undefined}
+          onClose={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,370 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CurrencyCode, GameState, LedgerEntryKind, TradeSettings } from '../types';
+import { reconcileLedger } from '../services/ledgerService';
+import { quoteTrade, TradeQuote, TradeSide } from '../services/tradingService';
+import { BASE_CURRENCY, CURRENCIES, formatMoneyExact, getCurrency } from '../services/currencyService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../components/I18nProvider';
+
+interface LedgerViewProps {
+  gameState: GameState;
+  onTrade: (side: TradeSide, assetId: string, amount: number) => void;
+  onTradeSettingsChange: (settings: TradeSettings) => void;
+}
+
+const KINDS: LedgerEntryKind[] = ['OPENING', 'BUY', 'SELL', 'INCOME', 'REVALUATION', 'ADJUSTMENT'];
+
+const KIND_STYLES: Record<LedgerEntryKind, string> = {
+  OPENING: 'text-slate-300 bg-slate-700/50 border-slate-600',
+  BUY: 'text-cyan-300 bg-cyan-900/30 border-cyan-800',
+  SELL: 'text-amber-300 bg-amber-900/30 border-amber-800',
+  INCOME: 'text-emerald-300 bg-emerald-900/30 border-emerald-800',
+  REVALUATION: 'text-purple-300 bg-purple-900/30 border-purple-800',
+  ADJUSTMENT: 'text-rose-300 bg-rose-900/30 border-rose-800'
+};
+
+const KIND_KEYS: Record<LedgerEntryKind, MessageKey> = {
+  OPENING: 'ledger.kind.OPENING',
+  BUY: 'ledger.kind.BUY',
+  SELL: 'ledger.kind.SELL',
+  INCOME: 'ledger.kind.INCOME',
+  REVALUATION: 'ledger.kind.REVALUATION',
+  ADJUSTMENT: 'ledger.kind.ADJUSTMENT'
+};
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-lime-500";
+
+const LedgerView: React.FC<LedgerViewProps> = ({ gameState, onTrade, onTradeSettingsChange }) => {
+  const { assets, ledger, tradeSettings } = gameState;
+  const { t, locale, formatNumber, formatDateTime } = useI18n();
+
+  // The ledger is an accounting record, so amounts are shown as booked: cash in USD, holdings in their own currency
+  const formatMoney = (value: number, currency: CurrencyCode = BASE_CURRENCY) => formatMoneyExact(value, currency, locale);
+  const formatSigned = (value: number, currency: CurrencyCode = BASE_CURRENCY) =>
+    value === 0 ? '—' : `${value > 0 ? '+' : '−'}${CURRENCIES[currency].symbol}${formatNumber(Math.abs(value), { maximumFractionDigits: 2 })}`;
+  const formatUnits = (quantity: number) => formatNumber(quantity, { maximumFractionDigits: 4 });
+
+  // --- Trade desk ---
+  const [side, setSide] = useState<TradeSide>('BUY');
+  const [assetId, setAssetId] = useState(assets[0]?.id ?? '');
+  const [buyAmount, setBuyAmount] = useState('10000');
+  const [sellPercent, setSellPercent] = useState(25);
+  const [tradeError, setTradeError] = useState<string | null>(null);
+
+  // Keep the selection valid when the picked holding is sold off or deleted
+  useEffect(() => {
+    if (!assets.some(a => a.id === assetId)) setAssetId(assets[0]?.id ?? '');
+  }, [assets, assetId]);
+
+  const amount = side === 'BUY' ? Number(buyAmount) : sellPercent / 100;
+
+  const quote = useMemo((): { quote: TradeQuote | null; error: string | null } => {
+    if (!assetId) return { quote: null, error: t('ledger.noHoldings') };
+    try {
+      return { quote: quoteTrade(gameState, side, assetId, amount), error: null };
+    } catch (err) {
+      return { quote: null, error: (err as Error).message };
+    }
+  }, [gameState, side, assetId, amount, t]);
+
+  const insufficientCash = quote.quote !== null && gameState.cash + quote.quote.cashChange < 0;
+
+  const submitTrade = () => {
+    try {
+      onTrade(side, assetId, amount);
+      setTradeError(null);
+    } catch (err) {
+      setTradeError((err as Error).message);
+    }
+  };
+
+  // Settings are edited as percentages; invalid input is simply not applied
+  const updateSetting = (key: keyof TradeSettings, input: string, scale: number) => {
+    const value = Number(input) / scale;
+    if (input.trim() === '' || !Number.isFinite(value) || value < 0) return;
+    onTradeSettingsChange({ ...tradeSettings, [key]: value });
+  };
+
+  // --- Filters ---
+  const [kindFilter, setKindFilter] = useState<LedgerEntryKind | 'ALL'>('ALL');
+  const [assetFilter, setAssetFilter] = useState('ALL');
+  const [turnFilter, setTurnFilter] = useState('');
+  const [search, setSearch] = useState('');
+
+  // Sold or deleted holdings still appear in the ledger, so the asset filter is built from it
+  const ledgerAssets = useMemo(() => {
+    const names = new Map<string, string>();
+    ledger.forEach(e => { if (e.assetId) names.set(e.assetId, e.assetName ?? e.assetId); });
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [ledger]);
+
+  const filtered = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    const turn = turnFilter.trim() === '' ? null : Number(turnFilter);
+    return ledger.filter(e =>
+      (kindFilter === 'ALL' || e.kind === kindFilter) &&
+      (assetFilter === 'ALL' || e.assetId === assetFilter) &&
+      (turn === null || e.turn === turn) &&
+      (text === '' || `${e.assetName ?? ''} ${e.note ?? ''}`.toLowerCase().includes(text))
+    ).reverse(); // Newest first
+  }, [ledger, kindFilter, assetFilter, turnFilter, search]);
+
+  const reconciliation = useMemo(() => reconcileLedger(gameState), [gameState]);
+  const totalFees = useMemo(() => ledger.reduce((sum, e) => sum + e.fee, 0), [ledger]);
+
+  return (
+    <div className="h-full p-6 overflow-y-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-black text-white tracking-widest uppercase">
+          <span className="text-lime-400">{t('ledger.title')}</span> // {t('ledger.heading')}
+        </h2>
+        <p className="text-slate-400">{t('ledger.subtitle')}</p>
+      </div>
+
+      {/* Reconciliation */}
+      <div className={`mb-6 p-4 rounded-xl border font-mono text-xs ${reconciliation.ok
+        ? 'bg-emerald-900/20 border-emerald-800 text-emerald-300'
+        : 'bg-rose-900/20 border-rose-800 text-rose-300'}`}
+      >
+        <div className="flex flex-wrap gap-x-6 gap-y-1">
+          <span className="font-bold">{reconciliation.ok ? t('ledger.reconciles') : t('ledger.outOfBalance')}</span>
+          <span>{t('ledger.netWorth', { amount: formatMoney(reconciliation.netWorth) })}</span>
+          <span>{t('ledger.ledgerNetWorth', { amount: formatMoney(reconciliation.ledgerNetWorth) })}</span>
+          <span>{t('ledger.feesPaid', { amount: formatMoney(totalFees) })}</span>
+        </div>
+        {!reconciliation.ok && (
+          <ul className="mt-2 space-y-0.5">
+            {Math.abs(reconciliation.cashDifference) > 0.01 && (
+              <li>{t('ledger.cashDiffers', { amount: formatSigned(reconciliation.cashDifference) })}</li>
+            )}
+            {reconciliation.assetDifferences.map(d => (
+              <li key={d.id}>{t('ledger.assetDiffers', { name: d.name, amount: formatSigned(d.difference) })}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 mb-6">
+        {/* Trade ticket */}
+        <div className="xl:col-span-2 bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl">
+          <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-4">
+            <span className="w-1 h-4 bg-lime-500 rounded-full"></span>
+            {t('ledger.orderTicket')}
+          </h4>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <div className="inline-flex rounded border border-slate-600 overflow-hidden font-mono text-xs">
+              {(['BUY', 'SELL'] as TradeSide[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSide(s)}
+                  className={`px-4 py-1.5 transition-colors ${side === s
+                    ? (s === 'BUY' ? 'bg-cyan-700 text-white' : 'bg-amber-700 text-white')
+                    : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+                >
+                  {t(KIND_KEYS[s])}
+                </button>
+              ))}
+            </div>
+            <select className={inputClass} value={assetId} onChange={e => setAssetId(e.target.value)}>
+              {assets.map(a => <option key={a.id} value={a.id}>{a.name} ({getCurrency(a)})</option>)}
+            </select>
+            {side === 'BUY' ? (
+              <label className="flex items-center gap-2 text-xs font-mono text-slate-400">
+                {t('ledger.spend')}
+                <input
+                  className={`${inputClass} w-32`}
+                  type="number"
+                  min={0}
+                  value={buyAmount}
+                  onChange={e => setBuyAmount(e.target.value)}
+                />
+              </label>
+            ) : (
+              <label className="flex items-center gap-2 text-xs font-mono text-slate-400">
+                {t('ledger.sellShare')}
+                <input
+                  type="range"
+                  min={1}
+                  max={100}
+                  value={sellPercent}
+                  onChange={e => setSellPercent(Number(e.target.value))}
+                  className="accent-amber-500"
+                />
+                <span className="w-10 text-slate-200">{sellPercent}%</span>
+              </label>
+            )}
+          </div>
+
+          {quote.quote ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs font-mono mb-4">
+              <div>
+                <div className="text-slate-500">{t('ledger.units')}</div>
+                <div className="text-slate-200">{formatUnits(quote.quote.quantity)}</div>
+              </div>
+              <div>
+                <div className="text-slate-500">{t('ledger.price')}</div>
+                <div className="text-slate-200" title={t('ledger.marketPrice', { price: formatMoney(quote.quote.marketPrice, quote.quote.currency) })}>
+                  {formatMoney(quote.quote.executionPrice, quote.quote.currency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500">{t('ledger.feeSlippage')}</div>
+                <div className="text-amber-300">{formatMoney(quote.quote.fee + quote.quote.slippageCost)}</div>
+              </div>
+              <div>
+                <div className="text-slate-500">{t('ledger.cash')}</div>
+                <div className={quote.quote.cashChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                  {formatSigned(quote.quote.cashChange)}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs font-mono text-slate-500 mb-4">{quote.error}</p>
+          )}
+
+          {side === 'SELL' && sellPercent === 100 && (
+            <p className="text-xs font-mono text-amber-400 mb-3">{t('ledger.closesPosition')}</p>
+          )}
+          {insufficientCash && (
+            <p className="text-xs font-mono text-rose-400 mb-3">{t('ledger.notEnoughCash', { amount: formatMoney(gameState.cash) })}</p>
+          )}
+          {tradeError && <p className="text-xs font-mono text-rose-400 mb-3">{tradeError}</p>}
+
+          <button
+            onClick={submitTrade}
+            disabled={!quote.quote || insufficientCash}
+            className="px-6 py-2 bg-lime-600 hover:bg-lime-500 text-white font-bold rounded shadow-lg border-b-4 border-lime-800 active:border-b-0 active:translate-y-1 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t('ledger.execute', { side: t(KIND_KEYS[side]) })}
+          </button>
+        </div>
+
+        {/* Cost settings */}
+        <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl">
+          <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-4">
+            <span className="w-1 h-4 bg-slate-500 rounded-full"></span>
+            {t('ledger.tradingCosts')}
+          </h4>
+          <div className="space-y-3 text-xs font-mono text-slate-400">
+            <label className="flex justify-between items-center gap-2">
+              {t('ledger.feeRate')}
+              <input
+                key={`fee-${tradeSettings.feeRate}`}
+                className={`${inputClass} w-24`}
+                type="number" min={0} max={10} step={0.01}
+                defaultValue={+(tradeSettings.feeRate * 100).toFixed(4)}
+                onBlur={e => updateSetting('feeRate', e.target.value, 100)}
+              />
+            </label>
+            <label className="flex justify-between items-center gap-2">
+              {t('ledger.minFee')}
+              <input
+                key={`min-${tradeSettings.minFee}`}
+                className={`${inputClass} w-24`}
+                type="number" min={0} step={1}
+                defaultValue={tradeSettings.minFee}
+                onBlur={e => updateSetting('minFee', e.target.value, 1)}
+              />
+            </label>
+            <label className="flex justify-between items-center gap-2">
+              {t('ledger.slippage')}
+              <input
+                key={`slip-${tradeSettings.slippage}`}
+                className={`${inputClass} w-24`}
+                type="number" min={0} max={10} step={0.01}
+                defaultValue={+(tradeSettings.slippage * 100).toFixed(4)}
+                onBlur={e => updateSetting('slippage', e.target.value, 100)}
+              />
+            </label>
+            <p className="text-[10px] text-slate-500 pt-2 border-t border-slate-700">
+              {t('ledger.cashAvailable')} <span className="text-slate-200">{formatMoney(gameState.cash)}</span>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+          <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+            <span className="w-1 h-4 bg-cyan-500 rounded-full"></span>
+            {t('ledger.transactions', { shown: filtered.length, total: ledger.length })}
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            <select className={inputClass} value={kindFilter} onChange={e => setKindFilter(e.target.value as LedgerEntryKind | 'ALL')}>
+              <option value="ALL">{t('ledger.allKinds')}</option>
+              {KINDS.map(k => <option key={k} value={k}>{t(KIND_KEYS[k])}</option>)}
+            </select>
+            <select className={inputClass} value={assetFilter} onChange={e => setAssetFilter(e.target.value)}>
+              <option value="ALL">{t('ledger.allAssets')}</option>
+              {ledgerAssets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <input
+              className={`${inputClass} w-20`}
+              type="number"
+              min={0}
+              placeholder={t('ledger.turnFilter')}
+              value={turnFilter}
+              onChange={e => setTurnFilter(e.target.value)}
+            />
+            <input
+              className={`${inputClass} w-40`}
+              placeholder={t('ledger.search')}
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-left border-b border-slate-700">
+                <th className="py-2 pr-3">{t('ledger.id')}</th>
+                <th className="py-2 pr-3">{t('ledger.turn')}</th>
+                <th className="py-2 pr-3">{t('ledger.kind')}</th>
+                <th className="py-2 pr-3">{t('ledger.asset')}</th>
+                <th className="py-2 pr-3 text-right">{t('ledger.units')}</th>
+                <th className="py-2 pr-3 text-right">{t('ledger.price')}</th>
+                <th className="py-2 pr-3 text-right">{t('ledger.fee')}</th>
+                <th className="py-2 pr-3 text-right">{t('ledger.cash')}</th>
+                <th className="py-2 pr-3 text-right">{t('ledger.value')}</th>
+                <th className="py-2">{t('ledger.note')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(entry => (
+                <tr key={entry.id} className="border-b border-slate-800 hover:bg-slate-800/50" title={formatDateTime(entry.timestamp)}>
+                  <td className="py-1.5 pr-3 text-slate-500">{entry.id}</td>
+                  <td className="py-1.5 pr-3 text-slate-400">{t('ledger.turnNumber', { turn: entry.turn })}</td>
+                  <td className="py-1.5 pr-3">
+                    <span className={`px-1.5 py-0.5 rounded border text-[10px] ${KIND_STYLES[entry.kind]}`}>{t(KIND_KEYS[entry.kind])}</span>
+                  </td>
+                  <td className="py-1.5 pr-3 text-slate-200">{entry.assetName ?? t('ledger.cashEntry')}</td>
+                  <td className="py-1.5 pr-3 text-right text-slate-400">
+                    {entry.quantity ? formatUnits(entry.quantity) : '—'}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right text-slate-400">{entry.price ? formatMoney(entry.price, entry.currency) : '—'}</td>
+                  <td className="py-1.5 pr-3 text-right text-amber-300">{entry.fee ? formatMoney(entry.fee) : '—'}</td>
+                  <td className={`py-1.5 pr-3 text-right ${entry.cashChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {formatSigned(entry.cashChange)}
+                  </td>
+                  <td className={`py-1.5 pr-3 text-right ${entry.valueChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {formatSigned(entry.valueChange, entry.currency)}
+                  </td>
+                  <td className="py-1.5 text-slate-500">{entry.note ?? ''}</td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr><td colSpan={10} className="py-6 text-center text-slate-500">{t('ledger.noMatches')}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerView;
@@ -1,51 +1,127 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Asset, AssetType, Region } from '../types';
-import { analyzeMacroCycle, getStrategicAdvice } from '../services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Asset, AssetType, Region, Relationship, TargetAllocation, TradeSettings, ValuationSnapshot } from '../types';
+import { analyzeMacroCycle, getStrategicAdvice, OracleAdvice } from '../services/oracleService';
+import { createProvider, isAbortError, loadProviderSettings, PROVIDER_OPTIONS, ProviderSettings, saveProviderSettings } from '../services/llmProviders';
+import OracleSettingsPanel from '../components/OracleSettingsPanel';
+import InsightCard from '../components/InsightCard';
+import { safeUrl, sanitizeHtml } from '../services/htmlSanitizer';
+import {
+  addBriefing, BriefingArchive, briefingAgeMinutes, findFreshBriefing, hashPortfolio, loadBriefingArchive,
+  OracleBriefing, providerKey, removeBriefing, saveBriefingArchive
+} from '../services/briefingService';
+import BriefingHistory, { formatAge } from '../components/BriefingHistory';
+import BriefingDiffView from '../components/BriefingDiffView';
+import ProjectionPanel from '../components/ProjectionPanel';
+import NetWorthChart from '../components/NetWorthChart';
+import RebalancePanel from '../components/RebalancePanel';
+import StressTestPanel from '../components/StressTestPanel';
+import { RebalancePlan } from '../services/rebalanceService';
+import { StressScenario } from '../services/stressTestService';
+import { analyzePortfolioRisk } from '../services/riskEngine';
+import { AllocationMode, computeLookThrough } from '../services/lookThroughService';
+import AllocationModeToggle from '../components/AllocationModeToggle';
+import { useCurrency } from '../components/CurrencyProvider';
+import { useI18n } from '../components/I18nProvider';
+import { MessageKey } from '../services/i18n';
+import { computeFxExposure, toBaseAssets } from '../services/currencyService';
+
+type OracleStage = 'macro' | 'strategy';
+
+interface StageTime {
+  startedAt: number;
+  endedAt?: number;
+}
+
+const formatElapsed = (stage: StageTime | undefined, now: number) =>
+  stage ? `${(((stage.endedAt ?? now) - stage.startedAt) / 1000).toFixed(1)}s` : '';
+
+const FX_COLORS = ['bg-lime-500', 'bg-sky-500', 'bg-fuchsia-500', 'bg-orange-500', 'bg-teal-500', 'bg-slate-400'];
 
 interface OracleDeckProps {
   assets: Asset[];
+  relationships: Relationship[];
+  cash: number;
+  valuationHistory: ValuationSnapshot[];
+  tradeSettings: TradeSettings;
+  targetAllocation: TargetAllocation;
+  onTargetAllocationChange: (targets: TargetAllocation) => void;
+  onRebalance: (plan: RebalancePlan) => void;
+  stressScenario: StressScenario | null;
+  onStressScenarioChange: (scenario: StressScenario | null) => void;
 }
 
-const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
-  const [macroAnalysis, setMacroAnalysis] = useState<string>('Initializing link to Global Macro Database...');
+const OracleDeck: React.FC<OracleDeckProps> = ({
+  assets: heldAssets, relationships, cash, valuationHistory, tradeSettings, targetAllocation, onTargetAllocationChange, onRebalance,
+  stressScenario, onStressScenarioChange
+}) => {
+  // The Oracle writes in the app language; switching it re-runs the briefing (see the mount effect)
+  const { locale: language, t, typeLabel, formatDateTime } = useI18n();
+  const [macroAnalysis, setMacroAnalysis] = useState<string>(() => t('oracle.initializing'));
   const [macroSources, setMacroSources] = useState<{ title: string; uri: string }[]>([]);
-  const [strategy, setStrategy] = useState<string>('Waiting for macro data...');
+  const [macroNotice, setMacroNotice] = useState<MessageKey | null>(null); // Shown when the scan came back empty or failed
+  const [advice, setAdvice] = useState<OracleAdvice | null>(null);
   const [loading, setLoading] = useState(false);
-  const [language, setLanguage] = useState<'en' | 'zh'>('en');
+  const [streamingStrategy, setStreamingStrategy] = useState('');
+  const [stageTimes, setStageTimes] = useState<Partial<Record<OracleStage, StageTime>>>({});
+  const [clock, setClock] = useState(() => Date.now());
+  const [cancelled, setCancelled] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null); // A run that threw instead of reporting a failed result
+  // Each run gets an id; results from any run but the latest are dropped, so an abandoned request
+  // can never overwrite a newer one even if its provider ignores the abort signal
+  const runRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>('DIRECT');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+  const [archive, setArchive] = useState<BriefingArchive>(loadBriefingArchive);
+  const [activeBriefingId, setActiveBriefingId] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<[string, string] | null>(null);
+
+  const { rates, format, formatExact } = useCurrency();
 
   // --- ANALYSIS CALCULATIONS ---
+  // Everything below sums across holdings, so work on USD values; `format` converts for display
+  const assets = useMemo(() => toBaseAssets(heldAssets, rates), [heldAssets, rates]);
+  const fxExposure = useMemo(() => computeFxExposure(heldAssets, cash, rates), [heldAssets, cash, rates]);
   const totalValue = useMemo(() => assets.reduce((acc, curr) => acc + curr.value, 0), [assets]);
 
+  // Direct figures treat every holding as independent; look-through follows ownership stakes
+  const lookThrough = useMemo(() => computeLookThrough(assets, relationships), [assets, relationships]);
+  const modeKey = allocationMode === 'DIRECT' ? 'direct' : 'lookThrough';
+  const allocationTotal = allocationMode === 'DIRECT' ? lookThrough.directTotal : lookThrough.lookThroughTotal;
+  const doubleCountedTotal = lookThrough.directTotal - lookThrough.lookThroughTotal;
+  const assetName = (id: string) => assets.find(a => a.id === id)?.name ?? id;
+
   const allocationByType = useMemo(() => {
-    const counts: Record<string, number> = {};
-    assets.forEach(a => counts[a.type] = (counts[a.type] || 0) + a.value);
-    return Object.entries(counts)
+    return Object.entries(lookThrough.byType)
+      .map(([type, totals]) => [type, totals[modeKey]] as const)
       .sort((a, b) => b[1] - a[1])
       .map(([type, value]) => ({
         type: type as AssetType,
         value,
-        percentage: value / totalValue
+        percentage: allocationTotal > 0 ? value / allocationTotal : 0
       }));
-  }, [assets, totalValue]);
+  }, [lookThrough, modeKey, allocationTotal]);
 
   const allocationByRegion = useMemo(() => {
-    const counts: Record<string, number> = {};
-    assets.forEach(a => counts[a.region] = (counts[a.region] || 0) + a.value);
-    return Object.entries(counts)
+    return Object.entries(lookThrough.byRegion)
+      .map(([region, totals]) => [region, totals[modeKey]] as const)
       .sort((a, b) => b[1] - a[1])
       .map(([region, value]) => ({
         region: region as Region,
         value,
-        percentage: value / totalValue
+        percentage: allocationTotal > 0 ? value / allocationTotal : 0
       }));
-  }, [assets, totalValue]);
+  }, [lookThrough, modeKey, allocationTotal]);
 
   // --- RISK CALCULATIONS ---
-  const weightedRisk = useMemo(() => {
-    if (totalValue === 0) return 0;
-    const totalRiskScore = assets.reduce((acc, a) => acc + (a.value * a.risk), 0);
-    return totalRiskScore / totalValue;
-  }, [assets, totalValue]);
+  // Correlation-aware: volatility from the covariance matrix, VaR/CVaR from simulated scenarios
+  const portfolioRisk = useMemo(
+    () => analyzePortfolioRisk(assets, relationships, { cash }),
+    [assets, relationships, cash]
+  );
+  const threatLevel = portfolioRisk.threatLevel;
 
   const riskDistribution = useMemo(() => {
     const dist = { low: 0, med: 0, high: 0 };
@@ -55,37 +131,148 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
       else dist.high += a.value;
     });
     return [
-      { label: 'LOW RISK (0-3)', value: dist.low, color: 'bg-emerald-500', text: 'text-emerald-400' },
-      { label: 'MED RISK (4-7)', value: dist.med, color: 'bg-amber-500', text: 'text-amber-400' },
-      { label: 'HIGH RISK (8-10)', value: dist.high, color: 'bg-rose-500', text: 'text-rose-400' }
+      { label: t('oracle.riskLow'), value: dist.low, color: 'bg-emerald-500', text: 'text-emerald-400' },
+      { label: t('oracle.riskMedium'), value: dist.med, color: 'bg-amber-500', text: 'text-amber-400' },
+      { label: t('oracle.riskHigh'), value: dist.high, color: 'bg-rose-500', text: 'text-rose-400' }
     ];
-  }, [assets]);
+  }, [assets, t]);
+
+  // Assets that drive a disproportionate share of portfolio volatility relative to their size
+  const criticalContributors = useMemo(
+    () => portfolioRisk.contributions.filter(c => c.share >= 0.1 && c.share >= c.weight * 1.5),
+    [portfolioRisk]
+  );
+
+  // Model output is untrusted: only the tags the prompt asks for survive, without attributes
+  const strategyHtml = useMemo(() => sanitizeHtml(advice?.analysis.strategy ?? ''), [advice]);
+
+  const portfolioHash = useMemo(() => hashPortfolio(assets), [assets]);
+  const activeBriefing = archive.briefings.find(b => b.id === activeBriefingId) ?? null;
+  const compareBefore = comparing && archive.briefings.find(b => b.id === comparing[0]);
+  const compareAfter = comparing && archive.briefings.find(b => b.id === comparing[1]);
+
+  const updateArchive = (update: (prev: BriefingArchive) => BriefingArchive) => {
+    setArchive(prev => {
+      const next = update(prev);
+      saveBriefingArchive(next);
+      return next;
+    });
+  };
+
+  const showBriefing = (briefing: OracleBriefing) => {
+    setMacroAnalysis(briefing.macro.text);
+    setMacroNotice(briefing.macro.text ? null : 'oracle.macroEmpty');
+    setMacroSources(briefing.macro.sources);
+    setAdvice(briefing.advice);
+    setActiveBriefingId(briefing.id);
+  };
 
-  const highRiskAssets = useMemo(() => assets.filter(a => a.risk >= 8), [assets]);
+  // Reuses a fresh archived briefing for this portfolio unless `force` is set (REFRESH INTEL).
+  // Starting a run cancels any run still in flight.
+  const performAnalysis = async ({ force = false, settings = providerSettings }: { force?: boolean; settings?: ProviderSettings } = {}) => {
+    controllerRef.current?.abort();
+    const runId = ++runRef.current;
+    const isCurrent = () => runRef.current === runId;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const activeProvider = settings === providerSettings ? provider : createProvider(settings);
+    const match = { language, providerKey: providerKey(settings), portfolioHash };
+    const cached = force ? undefined : findFreshBriefing(archive, match, new Date());
+    setCancelled(false);
+    setFailure(null);
+    setStreamingStrategy('');
+    if (cached) {
+      showBriefing(cached);
+      setStageTimes({});
+      setLoading(false);
+      return;
+    }
 
-  const performAnalysis = async () => {
     setLoading(true);
-    setMacroAnalysis(language === 'zh' ? "正在扫描全球指数..." : "Scanning global indices...");
+    setActiveBriefingId(null);
+    setMacroAnalysis('');
+    setMacroNotice(null);
     setMacroSources([]);
-    setStrategy(language === 'zh' ? "正在计算战略向量..." : "Computing strategic vectors...");
-    
-    // 1. Get Macro Data (Using Google Search Tool via Gemini)
-    const result = await analyzeMacroCycle(language);
-    setMacroAnalysis(result.text);
-    setMacroSources(result.sources);
-
-    // 2. Get Strategy based on Macro + Assets
-    const strat = await getStrategicAdvice(assets, result.text, language);
-    setStrategy(strat);
-    
-    setLoading(false);
+    setAdvice(null);
+    setStageTimes({ macro: { startedAt: Date.now() } });
+    const endStage = (stage: OracleStage) =>
+      setStageTimes(prev => prev[stage] ? { ...prev, [stage]: { ...prev[stage], endedAt: Date.now() } } : prev);
+
+    try {
+      // 1. Get Macro Data (search-grounded where the provider supports it)
+      const result = await analyzeMacroCycle(activeProvider, language, {
+        signal: controller.signal,
+        onChunk: chunk => { if (isCurrent()) setMacroAnalysis(prev => prev + chunk); }
+      });
+      if (!isCurrent()) return;
+      setMacroAnalysis(result.text);
+      setMacroNotice(result.failed ? 'oracle.macroFailed' : result.text ? null : 'oracle.macroEmpty');
+      setMacroSources(result.sources);
+      endStage('macro');
+      setStageTimes(prev => ({ ...prev, strategy: { startedAt: Date.now() } }));
+
+      // 2. Get Strategy based on Macro + Assets
+      const strategyAdvice = await getStrategicAdvice(activeProvider, assets, result.text, language, {
+        signal: controller.signal,
+        onChunk: chunk => { if (isCurrent()) setStreamingStrategy(prev => prev + chunk); }
+      });
+      if (!isCurrent()) return;
+      setAdvice(strategyAdvice);
+      endStage('strategy');
+
+      // Failed calls are shown but not archived, so they are never served from the cache
+      if (!result.failed && strategyAdvice.status !== 'failed') {
+        const createdAt = new Date();
+        const briefing: OracleBriefing = {
+          id: `b${createdAt.getTime().toString(36)}`,
+          createdAt: createdAt.toISOString(),
+          ...match,
+          providerLabel: settings.provider === 'mock' ? activeProvider.label : `${activeProvider.label} · ${settings.model}`,
+          macro: result,
+          advice: strategyAdvice
+        };
+        updateArchive(prev => addBriefing(prev, briefing));
+        setActiveBriefingId(briefing.id);
+      }
+    } catch (error) {
+      // Nothing awaits this run, so a rethrow would only surface as an unhandled rejection
+      if (!isCurrent()) return;
+      if (isAbortError(error)) {
+        setCancelled(true);
+      } else {
+        console.error('Oracle analysis error:', error);
+        setFailure(error instanceof Error ? error.message : String(error));
+      }
+      endStage('macro');
+      endStage('strategy');
+    } finally {
+      if (isCurrent()) {
+        setLoading(false);
+        controllerRef.current = null;
+      }
+    }
   };
 
+  const cancelAnalysis = () => controllerRef.current?.abort();
+
   useEffect(() => {
-    // Auto-run on mount for "Game Load" feel
+    // Auto-run on mount for "Game Load" feel, and again in the new language when it changes
     performAnalysis();
+    return () => {
+      // Leaving the deck (or the language) abandons whatever is still running
+      runRef.current++;
+      controllerRef.current?.abort();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [language]);
+
+  // Ticks the stage timers while a run is in flight
+  useEffect(() => {
+    if (!loading) return;
+    const timer = setInterval(() => setClock(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [loading]);
 
   // Helper for colors
   const getBarColor = (type: string) => {
@@ -104,27 +291,48 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
       <div className="flex justify-between items-center mb-8">
         <div>
            <h2 className="text-2xl font-black text-white tracking-widest uppercase">
-            <span className="text-amber-500">Oracle</span> // Strategic Intelligence
+            <span className="text-amber-500">{t('oracle.title')}</span> // {t('oracle.heading')}
           </h2>
-          <p className="text-slate-400">Macro-economic cycle analysis & AI directives.</p>
+          <p className="text-slate-400">{t('oracle.subtitle')}</p>
         </div>
         <div className="flex gap-3">
-          <button 
-            onClick={() => setLanguage(prev => prev === 'en' ? 'zh' : 'en')}
+          <button
+            onClick={() => setSettingsOpen(true)}
             className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 font-mono text-xs border border-slate-600 rounded transition-colors"
+            title={t('oracle.providerTitle')}
           >
-            [{language === 'en' ? 'EN' : 'CN'}]
+            ⚙ {t(PROVIDER_OPTIONS[providerSettings.provider].labelKey).toUpperCase()}
           </button>
+          {loading && (
+            <button
+              onClick={cancelAnalysis}
+              className="px-4 py-2 bg-slate-800 hover:bg-rose-900/60 text-rose-300 font-mono text-xs border border-rose-800 rounded transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+          )}
           <button 
-            onClick={performAnalysis}
-            disabled={loading}
-            className={`px-6 py-2 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded shadow-lg border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 transition-all ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            onClick={() => performAnalysis({ force: true })}
+            className="px-6 py-2 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded shadow-lg border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 transition-all"
+            title={loading ? t('oracle.restartTitle') : undefined}
           >
-            {loading ? (language === 'zh' ? '正在连接...' : 'UPLINKING...') : (language === 'zh' ? '刷新情报' : 'REFRESH INTEL')}
+            {loading ? t('oracle.uplinking') : t('oracle.refresh')}
           </button>
         </div>
       </div>
 
+      {settingsOpen && (
+        <OracleSettingsPanel
+          settings={providerSettings}
+          onClose={() => setSettingsOpen(false)}
+          onSave={next => {
+            setProviderSettings(next);
+            saveProviderSettings(next);
+            performAnalysis({ settings: next });
+          }}
+        />
+      )}
+
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 mb-8">
         {/* --- ASSET ALLOCATION SUMMARY --- */}
         <div className="bg-slate-800/80 border border-slate-700 rounded-xl p-6 shadow-2xl relative overflow-hidden group">
@@ -135,27 +343,38 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
           <div className="flex flex-col md:flex-row gap-6 relative z-10 h-full">
             {/* Total Value Panel */}
             <div className="md:w-1/3 flex flex-col justify-center border-b md:border-b-0 md:border-r border-slate-700 pb-6 md:pb-0 md:pr-6">
-              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Total Net Worth</h3>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t('oracle.totalNetWorth')}</h3>
               <div className="text-4xl font-black text-white tracking-tighter drop-shadow-lg">
-                ${(totalValue / 1000).toLocaleString()}k
+                {format(allocationTotal + cash)}
               </div>
+              <p className="mt-1 text-[10px] font-mono text-slate-500">
+                {t('oracle.inclCash', { amount: format(cash) })}
+              </p>
+              {allocationMode === 'LOOK_THROUGH' && doubleCountedTotal > 0 && (
+                <p className="mt-1 text-[10px] font-mono text-amber-400" title={lookThrough.doubleCounted.map(d => `${assetName(d.holderId)} → ${assetName(d.targetId)}: ${formatExact(d.amount)}`).join('\n')}>
+                  {t('oracle.doubleCounted', { amount: format(doubleCountedTotal) })}
+                </p>
+              )}
               <div className="mt-2 text-xs font-mono text-emerald-400 bg-emerald-900/20 inline-block px-2 py-1 rounded w-fit border border-emerald-900/50">
-                ▲ PORTFOLIO ONLINE
+                {t('oracle.portfolioOnline')}
               </div>
             </div>
 
             {/* Allocation Bars */}
             <div className="flex-1 space-y-4">
               <div className="space-y-3">
-                <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
-                  <span className="w-1 h-4 bg-cyan-500 rounded-full"></span>
-                  Asset Distribution
-                </h4>
+                <div className="flex justify-between items-center gap-2">
+                  <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+                    <span className="w-1 h-4 bg-cyan-500 rounded-full"></span>
+                    {t('oracle.assetDistribution')}
+                  </h4>
+                  <AllocationModeToggle mode={allocationMode} onChange={setAllocationMode} />
+                </div>
                 <div className="space-y-2">
                   {allocationByType.slice(0, 4).map((item) => (
                     <div key={item.type} className="group/bar">
                       <div className="flex justify-between text-xs mb-1">
-                        <span className="text-slate-300 font-medium">{item.type}</span>
+                        <span className="text-slate-300 font-medium">{typeLabel(item.type)}</span>
                         <span className="text-slate-400 font-mono">{(item.percentage * 100).toFixed(1)}%</span>
                       </div>
                       <div className="h-1.5 w-full bg-slate-900 rounded-full overflow-hidden border border-slate-700">
@@ -167,6 +386,35 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
                     </div>
                   ))}
                 </div>
+                {allocationMode === 'LOOK_THROUGH' && lookThrough.warnings.map((warning, i) => (
+                  <p key={i} className="text-[10px] font-mono text-amber-400">⚠ {warning}</p>
+                ))}
+              </div>
+
+              {/* Currency exposure, including cash */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+                  <span className="w-1 h-4 bg-lime-500 rounded-full"></span>
+                  {t('oracle.currencyExposure')}
+                </h4>
+                <div className="flex h-3 w-full bg-slate-900 rounded overflow-hidden border border-slate-700">
+                  {fxExposure.map((item, idx) => (
+                    <div
+                      key={item.currency}
+                      className={FX_COLORS[idx % FX_COLORS.length]}
+                      style={{ width: `${Math.max(0, item.share) * 100}%` }}
+                      title={`${item.currency}: ${format(item.value)}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono">
+                  {fxExposure.map((item, idx) => (
+                    <span key={item.currency} className="flex items-center gap-1 text-slate-300">
+                      <span className={`w-2 h-2 rounded-sm inline-block ${FX_COLORS[idx % FX_COLORS.length]}`} />
+                      {item.currency} <span className="text-slate-500">{(item.share * 100).toFixed(1)}%</span>
+                    </span>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -181,11 +429,21 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
           <div className="flex flex-col md:flex-row gap-6 relative z-10 h-full">
              {/* Risk Score */}
              <div className="md:w-1/3 flex flex-col justify-center border-b md:border-b-0 md:border-r border-slate-700 pb-6 md:pb-0 md:pr-6">
-              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Threat Level</h3>
-              <div className={`text-5xl font-black tracking-tighter drop-shadow-lg ${weightedRisk < 4 ? 'text-emerald-500' : weightedRisk < 7 ? 'text-amber-500' : 'text-rose-600'}`}>
-                {weightedRisk.toFixed(1)}<span className="text-lg text-slate-500 font-normal">/10</span>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t('oracle.threatLevel')}</h3>
+              <div className={`text-5xl font-black tracking-tighter drop-shadow-lg ${threatLevel < 4 ? 'text-emerald-500' : threatLevel < 7 ? 'text-amber-500' : 'text-rose-600'}`}>
+                {threatLevel.toFixed(1)}<span className="text-lg text-slate-500 font-normal">/10</span>
+              </div>
+              <p className="mt-2 text-xs text-slate-400">{t('oracle.volatility', { percent: `${(portfolioRisk.volatility * 100).toFixed(1)}%` })}</p>
+              <div className="mt-3 space-y-1 text-xs font-mono">
+                <div className="flex justify-between" title={t('oracle.varTitle')}>
+                  <span className="text-slate-500">VaR {(portfolioRisk.confidence * 100).toFixed(0)}%</span>
+                  <span className="text-rose-400">-{format(portfolioRisk.valueAtRisk)}</span>
+                </div>
+                <div className="flex justify-between" title={t('oracle.cvarTitle')}>
+                  <span className="text-slate-500">CVaR {(portfolioRisk.confidence * 100).toFixed(0)}%</span>
+                  <span className="text-rose-500">-{format(portfolioRisk.conditionalVaR)}</span>
+                </div>
               </div>
-              <p className="mt-2 text-xs text-slate-400">Weighted Average Risk</p>
             </div>
 
             <div className="flex-1 flex flex-col justify-between">
@@ -193,7 +451,7 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
                <div className="space-y-3">
                   <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
                     <span className="w-1 h-4 bg-rose-500 rounded-full"></span>
-                    Exposure Profile
+                    {t('oracle.exposureProfile')}
                   </h4>
                   <div className="flex h-4 w-full bg-slate-900 rounded overflow-hidden border border-slate-700">
                     {riskDistribution.map((tier, idx) => (
@@ -201,7 +459,7 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
                         key={idx} 
                         className={`${tier.color} transition-all duration-1000`} 
                         style={{ width: `${(tier.value / totalValue) * 100}%` }} 
-                        title={`${tier.label}: $${(tier.value/1000).toFixed(0)}k`}
+                        title={`${tier.label}: ${format(tier.value, 0)}`}
                       />
                     ))}
                   </div>
@@ -215,15 +473,19 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
                </div>
 
                {/* Alerts */}
-               {highRiskAssets.length > 0 && (
+               {criticalContributors.length > 0 && (
                  <div className="mt-4 bg-rose-900/20 border border-rose-900/50 rounded p-3">
                    <div className="text-rose-400 text-xs font-bold uppercase mb-2 flex items-center gap-2">
-                     <span className="animate-pulse">⚠</span> Critical Vulnerabilities
+                     <span className="animate-pulse">⚠</span> {t('oracle.criticalVulnerabilities')}
                    </div>
                    <div className="flex flex-wrap gap-2">
-                     {highRiskAssets.map(a => (
-                       <span key={a.id} className="text-[10px] bg-rose-950 text-rose-300 border border-rose-800 px-2 py-0.5 rounded font-mono">
-                         {a.name} (R:{a.risk})
+                     {criticalContributors.map(c => (
+                       <span
+                         key={c.id}
+                         className="text-[10px] bg-rose-950 text-rose-300 border border-rose-800 px-2 py-0.5 rounded font-mono"
+                         title={t('oracle.riskShareTitle', { weight: `${(c.weight * 100).toFixed(1)}%`, marginal: `${(c.marginal * 100).toFixed(1)}%` })}
+                       >
+                         {t('oracle.riskShare', { name: c.name, percent: `${(c.share * 100).toFixed(0)}%` })}
                        </span>
                      ))}
                    </div>
@@ -234,6 +496,29 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
         </div>
       </div>
 
+      {/* --- TARGET ALLOCATION --- */}
+      <RebalancePanel
+        assets={heldAssets}
+        cash={cash}
+        tradeSettings={tradeSettings}
+        targets={targetAllocation}
+        onTargetsChange={onTargetAllocationChange}
+        onApply={onRebalance}
+      />
+
+      {/* --- STRESS TEST --- */}
+      <StressTestPanel
+        assets={assets}
+        relationships={relationships}
+        cash={cash}
+        scenario={stressScenario}
+        onScenarioChange={onStressScenarioChange}
+      />
+
+      {/* --- MONTE CARLO PROJECTION --- */}
+      <NetWorthChart history={valuationHistory} />
+      <ProjectionPanel assets={assets} relationships={relationships} cash={cash} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Macro Card */}
         <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-2xl">
@@ -242,9 +527,14 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
               <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>
               MACRO_ENVIRONMENT_SCAN
             </h3>
+            <span className="text-[10px] font-mono text-slate-500" title={activeBriefing ? t('oracle.archivedFrom', { date: formatDateTime(activeBriefing.createdAt) }) : undefined}>
+              {t('oracle.via', { provider: activeBriefing ? activeBriefing.providerLabel : provider.label })}
+              {activeBriefing && ` · ${formatAge(briefingAgeMinutes(activeBriefing, new Date()), t)}`}
+              {stageTimes.macro && ` · ⏱ ${formatElapsed(stageTimes.macro, clock)}`}
+            </span>
           </div>
           <div className="p-6 text-slate-300 leading-relaxed font-light">
-             {loading ? (
+             {loading && !macroAnalysis ? (
                <div className="animate-pulse space-y-3">
                  <div className="h-4 bg-slate-700 rounded w-3/4"></div>
                  <div className="h-4 bg-slate-700 rounded w-full"></div>
@@ -252,24 +542,40 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
                </div>
              ) : (
                 <>
-                  <div dangerouslySetInnerHTML={{ __html: macroAnalysis.replace(/\n/g, '<br/>') }} />
+                  {/* Plain text: React escapes it, and pre-line keeps the model's line breaks */}
+                  <div className="whitespace-pre-line">
+                    {macroAnalysis || (macroNotice && t(macroNotice))}
+                    {loading && !stageTimes.macro?.endedAt && <span className="inline-block w-2 h-4 ml-0.5 bg-amber-400 animate-pulse align-middle" />}
+                  </div>
+                  {(cancelled || failure) && !stageTimes.strategy && (
+                    <p className="mt-3 text-[10px] font-mono text-rose-400">{cancelled ? t('oracle.scanCancelled') : t('oracle.scanFailed')}</p>
+                  )}
                   {/* Display sources if available */}
                   {macroSources.length > 0 && (
                     <div className="mt-4 pt-4 border-t border-slate-700/50">
-                      <p className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">Source Uplink:</p>
+                      <p className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">{t('oracle.sources')}</p>
                       <ul className="space-y-1">
-                        {macroSources.map((source, i) => (
-                          <li key={i}>
-                            <a 
-                              href={source.uri} 
-                              target="_blank" 
-                              rel="noreferrer" 
-                              className="text-xs text-amber-500/80 hover:text-amber-400 hover:underline flex items-center gap-1 truncate"
-                            >
-                              <span className="opacity-50">›</span> {source.title}
-                            </a>
-                          </li>
-                        ))}
+                        {macroSources.map((source, i) => {
+                          const href = safeUrl(source.uri);
+                          return (
+                            <li key={i}>
+                              {href ? (
+                                <a
+                                  href={href}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-amber-500/80 hover:text-amber-400 hover:underline flex items-center gap-1 truncate"
+                                >
+                                  <span className="opacity-50">›</span> {source.title}
+                                </a>
+                              ) : (
+                                <span className="text-xs text-slate-500 flex items-center gap-1 truncate" title={t('oracle.linkWithheld')}>
+                                  <span className="opacity-50">›</span> {source.title}
+                                </span>
+                              )}
+                            </li>
+                          );
+                        })}
                       </ul>
                     </div>
                   )}
@@ -285,18 +591,52 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
               <span className="w-2 h-2 rounded-full bg-cyan-500 animate-ping"></span>
               MISSION_DIRECTIVES
             </h3>
+            {stageTimes.strategy && (
+              <span className="text-[10px] font-mono text-slate-500">⏱ {formatElapsed(stageTimes.strategy, clock)}</span>
+            )}
           </div>
           <div className="p-6 text-slate-200">
-             {loading ? (
+             {loading && streamingStrategy ? (
+                // The reply is JSON until it completes, so show the raw transmission as it arrives
+                <div>
+                  <p className="text-[10px] font-mono text-cyan-500 mb-2">{t('oracle.incoming')}</p>
+                  <pre className="text-[10px] font-mono text-cyan-200/70 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">{streamingStrategy}</pre>
+                </div>
+             ) : loading ? (
                 <div className="flex flex-col items-center justify-center h-48 space-y-4">
                   <div className="w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin"></div>
-                  <span className="text-xs font-mono text-cyan-500">CALCULATING PROBABILITIES...</span>
+                  <span className="text-xs font-mono text-cyan-500">
+                    {stageTimes.strategy ? t('oracle.calculating') : t('oracle.awaitingMacro')}
+                  </span>
                 </div>
+             ) : advice ? (
+               <>
+                 {advice.analysis.cycleAssessment && (
+                   <p className="mb-4 text-xs font-mono text-amber-300 bg-amber-900/20 border border-amber-900/50 rounded px-3 py-2">
+                     {t('oracle.cycle', { assessment: advice.analysis.cycleAssessment })}
+                   </p>
+                 )}
+                 <div
+                   className="prose prose-invert prose-p:text-slate-300 prose-headings:text-cyan-400 prose-li:text-slate-200"
+                   dangerouslySetInnerHTML={{ __html: strategyHtml }}
+                 />
+                 {advice.status === 'unstructured' && !advice.analysis.strategy && (
+                   <p className="text-sm text-slate-500 font-mono">{t('oracle.silent')}</p>
+                 )}
+                 {advice.status !== 'structured' && (
+                   <p className="mt-4 text-[10px] font-mono text-amber-400" title={advice.issues.map(issue => t(issue.key, issue.params)).join('\n')}>
+                     ⚠ {advice.status === 'failed' ? t('oracle.statusFailed') : advice.status === 'unstructured'
+                       ? t('oracle.statusUnstructured')
+                       : advice.issues.length === 1 ? t('oracle.statusPartialOne') : t('oracle.statusPartial', { count: advice.issues.length })}
+                   </p>
+                 )}
+               </>
+             ) : cancelled ? (
+               <p className="text-sm text-rose-400 font-mono">{t('oracle.transmissionCancelled')}</p>
+             ) : failure ? (
+               <p className="text-sm text-rose-400 font-mono">{t('oracle.transmissionFailed', { message: failure })}</p>
              ) : (
-               <div 
-                 className="prose prose-invert prose-p:text-slate-300 prose-headings:text-cyan-400 prose-li:text-slate-200"
-                 dangerouslySetInnerHTML={{ __html: strategy }} 
-               />
+               <p className="text-sm text-slate-500 font-mono">{t('oracle.waiting')}</p>
              )}
           </div>
            {/* Decor */}
@@ -305,6 +645,42 @@ const OracleDeck: React.FC<OracleDeckProps> = ({ assets }) => {
            </div>
         </div>
       </div>
+
+      {!loading && advice && (advice.analysis.opportunities.length > 0 || advice.analysis.risks.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+          {([
+            ['opportunity', t('oracle.opportunities'), 'text-emerald-400', advice.analysis.opportunities],
+            ['risk', t('oracle.risks'), 'text-rose-400', advice.analysis.risks]
+          ] as const).map(([tone, label, color, insights]) => (
+            <div key={tone} className="space-y-3">
+              <h4 className={`font-mono text-sm ${color}`}>{label} <span className="text-slate-500">[{insights.length}]</span></h4>
+              {insights.length === 0
+                ? <p className="text-xs font-mono text-slate-500">{t('oracle.noneReported')}</p>
+                : insights.map((insight, i) => <InsightCard key={i} insight={insight} assets={assets} tone={tone} />)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <BriefingHistory
+        archive={archive}
+        activeId={activeBriefingId}
+        currentHash={portfolioHash}
+        onSelect={id => {
+          const briefing = archive.briefings.find(b => b.id === id);
+          if (briefing && !loading) showBriefing(briefing);
+        }}
+        onRemove={id => {
+          updateArchive(prev => removeBriefing(prev, id));
+          if (id === activeBriefingId) setActiveBriefingId(null);
+        }}
+        onTtlChange={ttlMinutes => updateArchive(prev => ({ ...prev, ttlMinutes }))}
+        onCompare={(beforeId, afterId) => setComparing([beforeId, afterId])}
+      />
+
+      {compareBefore && compareAfter && (
+        <BriefingDiffView before={compareBefore} after={compareAfter} onClose={() => setComparing(null)} />
+      )}
     </div>
   );
 };
@@ -1,13 +1,30 @@
-import React from 'react';
-import { Asset, Region } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Asset, Region, Relationship, ValuationSnapshot } from '../types';
 import AssetCard from '../components/AssetCard';
+import AllocationModeToggle from '../components/AllocationModeToggle';
+import { AllocationMode, computeLookThrough } from '../services/lookThroughService';
+import { getAssetHistory } from '../services/valuationService';
+import { toBaseAssets } from '../services/currencyService';
+import { useCurrency } from '../components/CurrencyProvider';
+import { useI18n } from '../components/I18nProvider';
 
 interface WorldMapProps {
   assets: Asset[];
+  relationships: Relationship[];
+  valuationHistory: ValuationSnapshot[];
 }
 
 // A simplified abstract map visualization
-const WorldMap: React.FC<WorldMapProps> = ({ assets }) => {
+const WorldMap: React.FC<WorldMapProps> = ({ assets, relationships, valuationHistory }) => {
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>('DIRECT');
+  const { rates, format } = useCurrency();
+  const { t, regionLabel } = useI18n();
+  // Region totals are in USD so holdings in different currencies can be added up
+  const lookThrough = useMemo(
+    () => computeLookThrough(toBaseAssets(assets, rates), relationships),
+    [assets, relationships, rates]
+  );
+
   // Group assets by region
   const regions = Object.values(Region);
   const assetsByRegion = regions.reduce((acc, region) => {
@@ -17,30 +34,37 @@ const WorldMap: React.FC<WorldMapProps> = ({ assets }) => {
 
   return (
     <div className="h-full p-6 overflow-y-auto">
-      <div className="mb-8">
-        <h2 className="text-2xl font-black text-white tracking-widest uppercase">
-          <span className="text-emerald-500">Geo-Grid</span> // Global Distribution
-        </h2>
-        <p className="text-slate-400">Asset deployment across global theaters.</p>
+      <div className="mb-8 flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-white tracking-widest uppercase">
+            <span className="text-emerald-500">{t('geo.title')}</span> // {t('geo.heading')}
+          </h2>
+          <p className="text-slate-400">{t('geo.subtitle')}</p>
+        </div>
+        <AllocationModeToggle mode={allocationMode} onChange={setAllocationMode} />
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         {regions.map((region) => {
            const regionAssets = assetsByRegion[region];
-           const totalValue = regionAssets.reduce((sum, a) => sum + a.value, 0);
+           const regionTotals = lookThrough.byRegion[region];
+           const totalValue = allocationMode === 'DIRECT' ? regionTotals?.direct ?? 0 : regionTotals?.lookThrough ?? 0;
            
            if (regionAssets.length === 0) return null;
 
            return (
              <div key={region} className="bg-slate-900/50 border border-slate-700 rounded-xl p-4">
                <div className="flex justify-between items-center mb-4 pb-2 border-b border-slate-700">
-                 <h3 className="font-bold text-lg text-emerald-400 uppercase tracking-widest">{region}</h3>
-                 <span className="font-mono text-slate-300 text-sm">Deployment: ${(totalValue / 1000).toFixed(1)}k</span>
+                 <h3 className="font-bold text-lg text-emerald-400 uppercase tracking-widest">{regionLabel(region)}</h3>
+                 <span className="font-mono text-slate-300 text-sm">
+                   {allocationMode === 'LOOK_THROUGH' && <span className="text-cyan-400 mr-1" title={t('geo.lookThroughTitle')}>◈</span>}
+                   {t('geo.deployment', { amount: format(totalValue) })}
+                 </span>
                </div>
                
                <div className="space-y-3">
                  {regionAssets.map(asset => (
-                   <AssetCard key={asset.id} asset={asset} compact />
+                   <AssetCard key={asset.id} asset={asset} compact history={getAssetHistory(valuationHistory, asset.id).map(p => p.value)} />
                  ))}
                </div>
              </div>